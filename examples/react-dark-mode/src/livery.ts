@@ -3,6 +3,7 @@
  *
  * Each tenant has both light and dark theme variants.
  * The theme is determined by: tenant + color mode.
+ * Hover colors are left out, since the schema derives them.
  */
 
 import { createResolver } from '@livery/core';
@@ -11,18 +12,24 @@ import { schema, type AppTheme } from './schema';
 
 type ColorMode = 'light' | 'dark';
 
+/**
+ * Tenant theme data as stored, without the derived hover colors
+ */
+type StoredTheme = Omit<AppTheme, 'brand' | 'colors'> & {
+  brand: Omit<AppTheme['brand'], 'primaryHover'>;
+  colors: Omit<AppTheme['colors'], 'surfaceHover'>;
+};
+
 // Light mode themes per tenant
-const lightThemes: Record<string, AppTheme> = {
+const lightThemes: Record<string, StoredTheme> = {
   acme: {
     brand: {
       name: 'Acme Corp',
       primary: '#3b82f6',
-      primaryHover: '#2563eb',
     },
     colors: {
       background: '#ffffff',
       surface: '#f8fafc',
-      surfaceHover: '#f1f5f9',
       border: '#e2e8f0',
       text: '#0f172a',
       textMuted: '#64748b',
@@ -43,12 +50,10 @@ const lightThemes: Record<string, AppTheme> = {
     brand: {
       name: 'Globex',
       primary: '#10b981',
-      primaryHover: '#059669',
     },
     colors: {
       background: '#fefefe',
       surface: '#f0fdf4',
-      surfaceHover: '#dcfce7',
       border: '#bbf7d0',
       text: '#14532d',
       textMuted: '#4d7c0f',
@@ -68,17 +73,15 @@ const lightThemes: Record<string, AppTheme> = {
 };
 
 // Dark mode themes per tenant
-const darkThemes: Record<string, AppTheme> = {
+const darkThemes: Record<string, StoredTheme> = {
   acme: {
     brand: {
       name: 'Acme Corp',
       primary: '#60a5fa',
-      primaryHover: '#93c5fd',
     },
     colors: {
       background: '#0f172a',
       surface: '#1e293b',
-      surfaceHover: '#334155',
       border: '#334155',
       text: '#f1f5f9',
       textMuted: '#94a3b8',
@@ -99,12 +102,10 @@ const darkThemes: Record<string, AppTheme> = {
     brand: {
       name: 'Globex',
       primary: '#34d399',
-      primaryHover: '#6ee7b7',
     },
     colors: {
       background: '#022c22',
       surface: '#064e3b',
-      surfaceHover: '#065f46',
       border: '#047857',
       text: '#d1fae5',
       textMuted: '#6ee7b7',
@@ -139,14 +140,14 @@ export function parseThemeId(themeId: string): { theme: ThemeId; mode: ColorMode
   return { theme, mode };
 }
 
-async function fetchTheme({ themeId }: { themeId: string }): Promise<AppTheme> {
+async function fetchTheme({ themeId }: { themeId: string }): Promise<Partial<AppTheme>> {
   // Simulate network delay
   await new Promise((resolve) => setTimeout(resolve, 200));
 
   const { theme, mode } = parseThemeId(themeId);
   const themeData = mode === 'dark' ? darkThemes : lightThemes;
 
-  return themeData[theme] ?? lightThemes['acme']!;
+  return (themeData[theme] ?? lightThemes['acme']!) as Partial<AppTheme>;
 }
 
 export const resolver = createResolver({
@@ -2,22 +2,30 @@
  * Theme schema for Dark Mode example
  *
  * Demonstrates how to structure a schema that supports light/dark mode
- * with tenant-specific color palettes.
+ * with tenant-specific color palettes. Hover colors are derived from the
+ * colors they highlight, so tenants don't maintain them.
  */
 
-import { createSchema, t, type InferTheme } from '@livery/core';
+import { createSchema, darken, lighten, luminance, t, type InferTheme } from '@livery/core';
+
+/**
+ * Darkens a color on light backgrounds and lightens it on dark ones.
+ */
+function hoverColor(color: string, background: string): string {
+  return luminance(background) > 0.5 ? darken(color, 0.08) : lighten(color, 0.08);
+}
 
 export const schema = createSchema({
   definition: {
     brand: {
       name: t.string().default('App'),
       primary: t.color().default('#3b82f6'),
-      primaryHover: t.color().default('#2563eb'),
+      primaryHover: t.color(),
     },
     colors: {
       background: t.color().default('#ffffff'),
       surface: t.color().default('#f8fafc'),
-      surfaceHover: t.color().default('#f1f5f9'),
+      surfaceHover: t.color(),
       border: t.color().default('#e2e8f0'),
       text: t.color().default('#0f172a'),
       textMuted: t.color().default('#64748b'),
@@ -34,6 +42,10 @@ export const schema = createSchema({
       radius: t.dimension().default('8px'),
     },
   },
+  derived: {
+    'brand.primaryHover': (theme) => hoverColor(theme.brand.primary, theme.colors.background),
+    'colors.surfaceHover': (theme) => hoverColor(theme.colors.surface, theme.colors.background),
+  },
 });
 
 export type AppTheme = InferTheme<typeof schema.definition>;
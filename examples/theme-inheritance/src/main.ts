@@ -49,7 +49,7 @@ function createControls(): HTMLElement {
     btn.addEventListener('click', (e) => {
       const target = e.currentTarget as HTMLButtonElement;
       const themeId = target.dataset.theme as ThemeId;
-      switchTheme(themeId);
+      void switchTheme(themeId);
       updateActiveButton(themeId);
     });
   });
@@ -157,15 +157,16 @@ function createDemoContent(): HTMLElement {
     <div class="card">
       <h2>How It Works</h2>
       <pre class="code-block"><code>// Base theme has all values
-const baseTheme: AppTheme = {
+const base = {
   brand: { primary: '#3b82f6', ... },
   colors: { background: '#ffffff', ... },
   spacing: { sm: '8px', md: '16px', lg: '24px' },
   // ... complete theme
 };
 
-// Theme only overrides what it needs
-const acmeOverrides: ThemeOverrides = {
+// Theme extends the base and only overrides what it needs
+const acme = {
+  $extends: 'base',
   brand: {
     name: 'Acme Corp',
     primary: '#ef4444',
@@ -173,8 +174,8 @@ const acmeOverrides: ThemeOverrides = {
   // Inherits ALL other values from base!
 };
 
-// Merge to get final theme
-const theme = deepMerge(baseTheme, acmeOverrides);</code></pre>
+// The resolver merges the theme over the one it extends
+const theme = await resolver.resolve({ themeId: 'acme' });</code></pre>
     </div>
   `;
 
@@ -204,7 +205,7 @@ function init(): void {
   app.appendChild(mainContent);
 
   // Initialize theme
-  initializeTheme();
+  void initializeTheme();
   updateActiveButton(getThemeIds()[0]);
   updateOverridesDisplay();
 
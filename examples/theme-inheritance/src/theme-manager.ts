@@ -3,7 +3,7 @@
  *
  * Demonstrates:
  * - Base theme with tenant-specific overrides
- * - Deep merge to combine base + overrides
+ * - Resolver merging each tenant over the theme it extends
  * - Visualizing what each tenant overrides
  */
 
@@ -39,11 +39,11 @@ function applyTheme(theme: AppTheme): void {
 /**
  * Switch to a theme.
  */
-export function switchTheme(themeId: ThemeId): void {
+export async function switchTheme(themeId: ThemeId): Promise<void> {
   currentThemeId = themeId;
 
-  // Get the merged theme (base + overrides)
-  const theme = getTheme(themeId);
+  // Resolve the merged theme (base + overrides)
+  const theme = await getTheme(themeId);
   applyTheme(theme);
 
   console.log(`[Livery] Switched to theme: ${themeId}`);
@@ -67,7 +67,7 @@ export function getCurrentThemeId(): ThemeId {
 /**
  * Get the current resolved theme.
  */
-export function getCurrentTheme(): AppTheme {
+export function getCurrentTheme(): Promise<AppTheme> {
   return getTheme(currentThemeId);
 }
 
@@ -93,8 +93,8 @@ export function getThemeIds(): readonly ThemeId[] {
 /**
  * Initialize with the first theme.
  */
-export function initializeTheme(): void {
-  switchTheme(THEME_IDS[0]);
+export function initializeTheme(): Promise<void> {
+  return switchTheme(THEME_IDS[0]);
 }
 
 export type { ThemeId };
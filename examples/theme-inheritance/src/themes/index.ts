@@ -1,8 +1,12 @@
 /**
  * Theme registry with inheritance support.
+ *
+ * Each tenant theme declares the base theme as its parent with `$extends`,
+ * and the resolver merges the tenant's overrides over the base theme.
  */
 
-import type { AppTheme, ThemeOverrides } from '../schema';
+import { createResolver } from '@livery/core';
+import { schema, type AppTheme, type ThemeOverrides } from '../schema';
 import { baseTheme } from './base';
 import { acmeOverrides, globexOverrides, initechOverrides, minimalOverrides } from './overrides';
 
@@ -20,44 +24,30 @@ const themeOverrides: Record<ThemeId, ThemeOverrides> = {
 };
 
 /**
- * Deep merge two objects.
- * The override values take precedence.
+ * Stored theme data, as a backend would return it.
+ * Tenant themes only hold their overrides and name their parent theme.
  */
-function deepMerge<T extends Record<string, unknown>>(base: T, override: Partial<T>): T {
-  const result = { ...base };
-
-  for (const key of Object.keys(override) as Array<keyof T>) {
-    const overrideValue = override[key];
-
-    if (
-      overrideValue !== undefined &&
-      typeof overrideValue === 'object' &&
-      overrideValue !== null &&
-      !Array.isArray(overrideValue) &&
-      typeof base[key] === 'object' &&
-      base[key] !== null
-    ) {
-      // Recursively merge nested objects
-      result[key] = deepMerge(
-        base[key] as Record<string, unknown>,
-        overrideValue as Record<string, unknown>
-      ) as T[keyof T];
-    } else if (overrideValue !== undefined) {
-      // Override primitive values
-      result[key] = overrideValue as T[keyof T];
-    }
-  }
+const storedThemes: Record<string, ThemeOverrides & { $extends?: string }> = {
+  base: baseTheme,
+  ...Object.fromEntries(
+    THEME_IDS.map((themeId) => [themeId, { $extends: 'base', ...themeOverrides[themeId] }])
+  ),
+};
 
-  return result;
-}
+/**
+ * Resolves themes, merging each theme over the theme it extends.
+ */
+const resolver = createResolver({
+  schema,
+  fetcher: ({ themeId }) => storedThemes[themeId] as Partial<AppTheme>,
+});
 
 /**
  * Get the resolved theme for a theme ID.
- * Merges the base theme with theme-specific overrides.
+ * The resolver merges the base theme with theme-specific overrides.
  */
-export function getTheme(themeId: ThemeId): AppTheme {
-  const overrides = themeOverrides[themeId];
-  return deepMerge(baseTheme, overrides as Partial<AppTheme>);
+export function getTheme(themeId: ThemeId): Promise<AppTheme> {
+  return resolver.resolve({ themeId });
 }
 
 /**
@@ -0,0 +1,439 @@
+/**
+ * Color utilities
+ *
+ * Zero-dependency helpers for parsing, converting and adjusting CSS colors.
+ * Useful for building derived tokens (hover states, tints, overlays) from brand colors.
+ *
+ * @example
+ * ```typescript
+ * import { darken, alpha, convertColor } from '@livery/core';
+ *
+ * darken('#3b82f6', 0.08);        // '#1469f4'
+ * alpha('#3b82f6', 0.5);          // '#3b82f680'
+ * convertColor('#3b82f6', 'hsl'); // 'hsl(217, 91%, 60%)'
+ * ```
+ */
+
+import { parseCssColor } from './parse.js';
+import { convertCoords } from './spaces.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A color in the sRGB color space
+ *
+ * @public
+ */
+export interface RgbaColor {
+  /** Red channel (0-255) */
+  readonly r: number;
+  /** Green channel (0-255) */
+  readonly g: number;
+  /** Blue channel (0-255) */
+  readonly b: number;
+  /** Alpha channel (0-1) */
+  readonly a: number;
+}
+
+/**
+ * Output formats supported by {@link formatColor} and {@link convertColor}
+ *
+ * @public
+ */
+export type ColorFormat = 'hex' | 'rgb' | 'hsl' | 'oklch';
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Clamps a number to a range
+ *
+ * @internal
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Parses a CSS color string into an sRGB color
+ *
+ * @param value - The color string to parse
+ * @returns The parsed color, or undefined if the value is not a parseable color
+ *
+ * @remarks
+ * Supports every format accepted by `validateColor`: hex, named colors,
+ * rgb/hsl (legacy and modern syntax), hwb, lab, lch, oklab, oklch, color()
+ * and color-mix(). Colors outside the sRGB gamut are clipped. Keywords without
+ * a concrete color (currentcolor, inherit, initial, unset) cannot be parsed.
+ *
+ * @example
+ * ```typescript
+ * parseColor('#3b82f6');                      // { r: 59, g: 130, b: 246, a: 1 }
+ * parseColor('rgb(0 0 0 / 50%)');             // { r: 0, g: 0, b: 0, a: 0.5 }
+ * parseColor('rebeccapurple');                // { r: 102, g: 51, b: 153, a: 1 }
+ * parseColor('color-mix(in srgb, red, blue)'); // { r: 127.5, g: 0, b: 127.5, a: 1 }
+ * parseColor('currentcolor');                 // undefined
+ * ```
+ *
+ * @public
+ */
+export function parseColor(value: string): RgbaColor | undefined {
+  return parseCssColor(value)?.color;
+}
+
+/**
+ * Parses a color or throws if it cannot be parsed
+ *
+ * @internal
+ */
+function toRgba(value: string): RgbaColor {
+  const color = parseColor(value);
+  if (!color) {
+    throw new Error(`Invalid color: "${value}"`);
+  }
+  return color;
+}
+
+// =============================================================================
+// Color Space Conversion
+// =============================================================================
+
+/**
+ * Converts an sRGB color to HSL
+ *
+ * @returns Hue in degrees (0 for grays), saturation and lightness (0-1)
+ *
+ * @internal
+ */
+function rgbToHsl({ r, g, b }: RgbaColor): [number, number, number] {
+  const [h, s, l] = convertCoords('srgb', 'hsl', [r / 255, g / 255, b / 255]);
+  return [Number.isNaN(h) ? 0 : h, s, l];
+}
+
+/**
+ * Converts an HSL color to sRGB
+ *
+ * @internal
+ */
+function hslToRgb([h, s, l]: [number, number, number], a: number): RgbaColor {
+  const [r, g, b] = convertCoords('hsl', 'srgb', [h, s, l]);
+  return { r: r * 255, g: g * 255, b: b * 255, a };
+}
+
+/**
+ * Converts an sRGB channel (0-255) to linear light (0-1)
+ *
+ * @internal
+ */
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/**
+ * Rounds a number to a fixed number of decimal places
+ *
+ * @internal
+ */
+function round(value: number, decimals: number = 0): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Formats a color in the given format
+ *
+ * @param color - The color to format
+ * @param format - The output format (default: 'hex')
+ * @returns The formatted CSS color string
+ *
+ * @remarks
+ * - `hex`: `#rrggbb`, or `#rrggbbaa` when the color is translucent
+ * - `rgb`: `rgb(r, g, b)`, or `rgba(r, g, b, a)` when translucent
+ * - `hsl`: `hsl(h, s%, l%)`, or `hsla(h, s%, l%, a)` when translucent
+ * - `oklch`: `oklch(l% c h)`, or `oklch(l% c h / a)` when translucent
+ *
+ * @example
+ * ```typescript
+ * formatColor({ r: 59, g: 130, b: 246, a: 1 });          // '#3b82f6'
+ * formatColor({ r: 59, g: 130, b: 246, a: 0.5 }, 'rgb'); // 'rgba(59, 130, 246, 0.5)'
+ * ```
+ *
+ * @public
+ */
+export function formatColor(color: RgbaColor, format: ColorFormat = 'hex'): string {
+  const r = round(clamp(color.r, 0, 255));
+  const g = round(clamp(color.g, 0, 255));
+  const b = round(clamp(color.b, 0, 255));
+  const a = round(clamp(color.a, 0, 1), 3);
+  const isOpaque = a === 1;
+
+  switch (format) {
+    case 'hex': {
+      const channels = isOpaque ? [r, g, b] : [r, g, b, round(a * 255)];
+      return `#${channels.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+    }
+    case 'rgb':
+      return isOpaque ? `rgb(${r}, ${g}, ${b})` : `rgba(${r}, ${g}, ${b}, ${a})`;
+    case 'hsl': {
+      const [hue, saturation, lightness] = rgbToHsl({ r, g, b, a });
+      const h = round(hue) % 360;
+      const s = round(saturation * 100);
+      const l = round(lightness * 100);
+      return isOpaque ? `hsl(${h}, ${s}%, ${l}%)` : `hsla(${h}, ${s}%, ${l}%, ${a})`;
+    }
+    case 'oklch': {
+      const [l, c, h] = convertCoords('srgb', 'oklch', [r / 255, g / 255, b / 255]);
+      const hue = Number.isNaN(h) ? 0 : round(h, 2);
+      const components = `${round(l * 100, 2)}% ${round(c, 4)} ${hue}`;
+      return isOpaque ? `oklch(${components})` : `oklch(${components} / ${a})`;
+    }
+    default: {
+      const _exhaustive: never = format;
+      throw new Error(`Unknown color format: ${_exhaustive}`);
+    }
+  }
+}
+
+/**
+ * Converts a color string to another format
+ *
+ * @param color - The color to convert
+ * @param format - The output format
+ * @returns The converted CSS color string
+ * @throws {Error} If the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * convertColor('#3b82f6', 'rgb');   // 'rgb(59, 130, 246)'
+ * convertColor('#3b82f6', 'hsl');   // 'hsl(217, 91%, 60%)'
+ * convertColor('#3b82f6', 'oklch'); // 'oklch(62.31% 0.188 259.81)'
+ * ```
+ *
+ * @public
+ */
+export function convertColor(color: string, format: ColorFormat): string {
+  return formatColor(toRgba(color), format);
+}
+
+// =============================================================================
+// Manipulation
+// =============================================================================
+
+/**
+ * Increases the HSL lightness of a color
+ *
+ * @param color - The color to lighten
+ * @param amount - Lightness to add, from 0 to 1 (0.1 = 10 percentage points)
+ * @returns The lightened color as hex
+ * @throws {Error} If the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * lighten('#3b82f6', 0.1); // '#6ca1f8'
+ * ```
+ *
+ * @public
+ */
+export function lighten(color: string, amount: number): string {
+  const rgba = toRgba(color);
+  const [h, s, l] = rgbToHsl(rgba);
+  return formatColor(hslToRgb([h, s, clamp(l + amount, 0, 1)], rgba.a));
+}
+
+/**
+ * Decreases the HSL lightness of a color
+ *
+ * @param color - The color to darken
+ * @param amount - Lightness to remove, from 0 to 1 (0.1 = 10 percentage points)
+ * @returns The darkened color as hex
+ * @throws {Error} If the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * darken('#3b82f6', 0.08); // '#1469f4'
+ * ```
+ *
+ * @public
+ */
+export function darken(color: string, amount: number): string {
+  return lighten(color, -amount);
+}
+
+/**
+ * Increases the HSL saturation of a color
+ *
+ * @param color - The color to saturate
+ * @param amount - Saturation to add, from -1 to 1 (negative values desaturate)
+ * @returns The saturated color as hex
+ * @throws {Error} If the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * saturate('#3b82f6', -1); // '#999999' (fully desaturated)
+ * ```
+ *
+ * @public
+ */
+export function saturate(color: string, amount: number): string {
+  const rgba = toRgba(color);
+  const [h, s, l] = rgbToHsl(rgba);
+  return formatColor(hslToRgb([h, clamp(s + amount, 0, 1), l], rgba.a));
+}
+
+/**
+ * Mixes two colors in sRGB
+ *
+ * @param color - The base color
+ * @param other - The color to mix in
+ * @param weight - Proportion of `other` in the result, from 0 to 1 (default: 0.5)
+ * @returns The mixed color as hex
+ * @throws {Error} If either color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * mix('#000000', '#ffffff');      // '#808080'
+ * mix('#3b82f6', '#ffffff', 0.2); // '#629bf8'
+ * ```
+ *
+ * @public
+ */
+export function mix(color: string, other: string, weight: number = 0.5): string {
+  const from = toRgba(color);
+  const to = toRgba(other);
+  const w = clamp(weight, 0, 1);
+  const blend = (a: number, b: number) => a + (b - a) * w;
+
+  return formatColor({
+    r: blend(from.r, to.r),
+    g: blend(from.g, to.g),
+    b: blend(from.b, to.b),
+    a: blend(from.a, to.a),
+  });
+}
+
+/**
+ * Sets the alpha channel of a color
+ *
+ * @param color - The color to adjust
+ * @param value - The new alpha value, from 0 (transparent) to 1 (opaque)
+ * @returns The color as hex (#rrggbbaa when translucent)
+ * @throws {Error} If the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * alpha('#3b82f6', 0.5); // '#3b82f680'
+ * ```
+ *
+ * @public
+ */
+export function alpha(color: string, value: number): string {
+  return formatColor({ ...toRgba(color), a: clamp(value, 0, 1) });
+}
+
+/**
+ * Inverts the RGB channels of a color, preserving alpha
+ *
+ * @param color - The color to invert
+ * @returns The inverted color as hex
+ * @throws {Error} If the color cannot be parsed
+ *
+ * @example
+ * ```typescript
+ * invert('#3b82f6'); // '#c47d09'
+ * ```
+ *
+ * @public
+ */
+export function invert(color: string): string {
+  const { r, g, b, a } = toRgba(color);
+  return formatColor({ r: 255 - r, g: 255 - g, b: 255 - b, a });
+}
+
+/**
+ * Computes the relative luminance of a color as defined by WCAG
+ *
+ * @param color - The color to measure
+ * @returns Relative luminance from 0 (black) to 1 (white)
+ * @throws {Error} If the color cannot be parsed
+ *
+ * @remarks
+ * Alpha is ignored; composite translucent colors over their background first.
+ *
+ * @example
+ * ```typescript
+ * luminance('#ffffff'); // 1
+ * luminance('#ff0000'); // 0.2126
+ * ```
+ *
+ * @public
+ */
+export function luminance(color: string): number {
+  return relativeLuminance(toRgba(color));
+}
+
+// =============================================================================
+// Accessibility
+// =============================================================================
+
+/**
+ * Computes the WCAG relative luminance of a parsed color, ignoring alpha
+ *
+ * @internal
+ */
+function relativeLuminance({ r, g, b }: RgbaColor): number {
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+}
+
+/**
+ * Composites a translucent color over an opaque backdrop
+ *
+ * @internal
+ */
+function compositeOver(color: RgbaColor, backdrop: RgbaColor): RgbaColor {
+  const blend = (front: number, back: number) => front * color.a + back * (1 - color.a);
+  return {
+    r: blend(color.r, backdrop.r),
+    g: blend(color.g, backdrop.g),
+    b: blend(color.b, backdrop.b),
+    a: 1,
+  };
+}
+
+/**
+ * Computes the WCAG contrast ratio between a foreground and a background color
+ *
+ * @param foreground - The foreground (text) color
+ * @param background - The background color
+ * @returns Contrast ratio from 1 (no contrast) to 21 (black on white)
+ * @throws {Error} If either color cannot be parsed
+ *
+ * @remarks
+ * A translucent foreground is composited over the background before measuring.
+ * A translucent background is composited over white, the default canvas color.
+ *
+ * @example
+ * ```typescript
+ * contrastRatio('#000000', '#ffffff');           // 21
+ * contrastRatio('#3b82f6', '#ffffff');           // 3.68
+ * contrastRatio('rgba(0, 0, 0, 0.5)', '#ffffff'); // 3.98
+ * ```
+ *
+ * @public
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const white: RgbaColor = { r: 255, g: 255, b: 255, a: 1 };
+  const back = compositeOver(toRgba(background), white);
+  const front = compositeOver(toRgba(foreground), back);
+
+  const l1 = relativeLuminance(front);
+  const l2 = relativeLuminance(back);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
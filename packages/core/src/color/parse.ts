@@ -0,0 +1,773 @@
+/**
+ * CSS color syntax
+ *
+ * Parses the color syntaxes of CSS Color Module Levels 4 and 5 into a
+ * normalized string and an sRGB color. Shared by `validateColor` and the
+ * color utilities, so every color a theme accepts can also be manipulated.
+ */
+
+import type { RgbaColor } from './index.js';
+import { NAMED_COLORS } from './named-colors.js';
+import { splitTopLevel } from '../internal/utils.js';
+import { convertCoords, HUE_INDEX, isColorSpace, type ColorSpace, type Coords } from './spaces.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A parsed CSS color
+ *
+ * @internal
+ */
+export interface ParsedColor {
+  /** The normalized color string */
+  readonly value: string;
+  /** The color in sRGB, or undefined if it depends on context (currentcolor) */
+  readonly color: RgbaColor | undefined;
+}
+
+/**
+ * A color in its own color space, before conversion to sRGB
+ *
+ * @internal
+ */
+interface SpaceColor {
+  readonly space: ColorSpace;
+  /** Coordinates, with NaN for missing (`none`) components */
+  readonly coords: Coords;
+  readonly alpha: number;
+}
+
+/**
+ * Result of parsing a color at any nesting level
+ *
+ * @internal
+ */
+interface ColorSyntax {
+  readonly value: string;
+  readonly color: SpaceColor | undefined;
+}
+
+/**
+ * A single numeric component of a color function
+ *
+ * @internal
+ */
+interface Component {
+  readonly type: 'number' | 'percentage' | 'angle' | 'none';
+  /** Numeric value (percentages as fractions, angles in degrees, NaN for none) */
+  readonly value: number;
+  /** Normalized text of the component */
+  readonly text: string;
+}
+
+/**
+ * A color argument of color-mix()
+ *
+ * @internal
+ */
+interface MixArgument {
+  readonly syntax: ColorSyntax;
+  readonly percentage: Component | undefined;
+}
+
+/**
+ * How a color function channel accepts numbers and percentages
+ *
+ * @internal
+ */
+interface ChannelSpec {
+  /** Whether the channel is a hue (number of degrees or angle) */
+  readonly hue?: true;
+  /** Value of 100%, if percentages are allowed */
+  readonly percent?: number;
+  /** Scale applied to plain numbers, if numbers are allowed */
+  readonly number?: number;
+  /** Lower bound the channel is clamped to */
+  readonly min?: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Hex color regex (#RGB, #RGBA, #RRGGBB, #RRGGBBAA)
+ */
+const HEX_REGEX = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Color function regex capturing the function name and its arguments
+ */
+const FUNCTION_REGEX = /^([a-z0-9-]+)\((.*)\)$/;
+
+/**
+ * Numeric component regex (number with optional percent sign or angle unit)
+ */
+const COMPONENT_REGEX = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/;
+
+/**
+ * Maximum nesting depth of color-mix() functions
+ */
+const MAX_MIX_DEPTH = 8;
+
+/**
+ * Degrees per angle unit
+ */
+const ANGLE_UNITS: ReadonlyMap<string, number> = new Map([
+  ['deg', 1],
+  ['grad', 0.9],
+  ['rad', 180 / Math.PI],
+  ['turn', 360],
+]);
+
+const HUE: ChannelSpec = { hue: true };
+const RGB_CHANNEL: ChannelSpec = { number: 1 / 255, percent: 1 };
+const HSL_CHANNEL: ChannelSpec = { number: 1 / 100, percent: 1, min: 0 };
+const PREDEFINED_CHANNEL: ChannelSpec = { number: 1, percent: 1 };
+
+/**
+ * Color functions with their color space and channels
+ */
+const COLOR_FUNCTIONS: ReadonlyMap<
+  string,
+  { readonly space: ColorSpace; readonly channels: readonly ChannelSpec[] }
+> = new Map([
+  ['rgb', { space: 'srgb', channels: [RGB_CHANNEL, RGB_CHANNEL, RGB_CHANNEL] }],
+  ['rgba', { space: 'srgb', channels: [RGB_CHANNEL, RGB_CHANNEL, RGB_CHANNEL] }],
+  ['hsl', { space: 'hsl', channels: [HUE, HSL_CHANNEL, HSL_CHANNEL] }],
+  ['hsla', { space: 'hsl', channels: [HUE, HSL_CHANNEL, HSL_CHANNEL] }],
+  ['hwb', { space: 'hwb', channels: [HUE, HSL_CHANNEL, HSL_CHANNEL] }],
+  [
+    'lab',
+    {
+      space: 'lab',
+      channels: [
+        { number: 1, percent: 100, min: 0 },
+        { number: 1, percent: 125 },
+        { number: 1, percent: 125 },
+      ],
+    },
+  ],
+  [
+    'lch',
+    {
+      space: 'lch',
+      channels: [{ number: 1, percent: 100, min: 0 }, { number: 1, percent: 150, min: 0 }, HUE],
+    },
+  ],
+  [
+    'oklab',
+    {
+      space: 'oklab',
+      channels: [
+        { number: 1, percent: 1, min: 0 },
+        { number: 1, percent: 0.4 },
+        { number: 1, percent: 0.4 },
+      ],
+    },
+  ],
+  [
+    'oklch',
+    {
+      space: 'oklch',
+      channels: [{ number: 1, percent: 1, min: 0 }, { number: 1, percent: 0.4, min: 0 }, HUE],
+    },
+  ],
+]);
+
+/**
+ * Color spaces accepted by color()
+ */
+const PREDEFINED_SPACES = new Set([
+  'srgb',
+  'srgb-linear',
+  'display-p3',
+  'a98-rgb',
+  'prophoto-rgb',
+  'rec2020',
+  'xyz',
+  'xyz-d50',
+  'xyz-d65',
+]);
+
+/**
+ * Functions that also accept the legacy comma-separated syntax
+ */
+const LEGACY_FUNCTIONS = new Set(['rgb', 'rgba', 'hsl', 'hsla']);
+
+/**
+ * Hue interpolation methods of color-mix() and gradients
+ */
+const HUE_METHODS = new Set(['shorter', 'longer', 'increasing', 'decreasing']);
+
+// =============================================================================
+// Components
+// =============================================================================
+
+/**
+ * Clamps a number to a range
+ *
+ * @internal
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Parses a numeric component, percentage, angle or `none`
+ *
+ * @internal
+ */
+function parseComponent(token: string): Component | undefined {
+  if (token === 'none') {
+    return { type: 'none', value: NaN, text: 'none' };
+  }
+
+  const match = token.match(COMPONENT_REGEX);
+  if (!match) {
+    return undefined;
+  }
+
+  const number = Number(match[1]);
+  if (!Number.isFinite(number)) {
+    return undefined;
+  }
+
+  const unit = match[2];
+  const text = `${number}${unit ?? ''}`;
+  if (unit === undefined) {
+    return { type: 'number', value: number, text };
+  }
+  if (unit === '%') {
+    return { type: 'percentage', value: number / 100, text };
+  }
+  return { type: 'angle', value: number * ANGLE_UNITS.get(unit)!, text };
+}
+
+/**
+ * Resolves a component to a channel value according to its channel spec
+ *
+ * @returns The channel value (NaN for none), or undefined if not allowed
+ *
+ * @internal
+ */
+function resolveChannel(component: Component, spec: ChannelSpec): number | undefined {
+  let value: number | undefined;
+  switch (component.type) {
+    case 'none':
+      return NaN;
+    case 'angle':
+      value = spec.hue ? component.value : undefined;
+      break;
+    case 'number':
+      value = spec.hue ? component.value : component.value * (spec.number ?? NaN);
+      break;
+    case 'percentage':
+      value = spec.percent === undefined ? undefined : component.value * spec.percent;
+      break;
+  }
+
+  if (value === undefined || Number.isNaN(value)) {
+    return undefined;
+  }
+  return spec.min === undefined ? value : Math.max(spec.min, value);
+}
+
+/**
+ * Resolves an alpha component (number or percentage, clamped to 0-1)
+ *
+ * @internal
+ */
+function resolveAlpha(component: Component | undefined): number | undefined {
+  if (component === undefined) {
+    return 1;
+  }
+  if (component.type === 'none') {
+    return 0;
+  }
+  return component.type === 'angle' ? undefined : clamp(component.value, 0, 1);
+}
+
+/**
+ * Splits the arguments of a color function into components and alpha
+ *
+ * @returns The parsed arguments, or undefined if the syntax is invalid
+ *
+ * @internal
+ */
+function parseArguments(
+  body: string
+): { tokens: string[]; alpha: string | undefined; legacy: boolean } | undefined {
+  if (/[()]/.test(body)) {
+    return undefined;
+  }
+
+  // Legacy syntax: rgb(255, 0, 0, 0.5)
+  if (body.includes(',')) {
+    const parts = body.split(',').map((part) => part.trim());
+    if (
+      (parts.length !== 3 && parts.length !== 4) ||
+      parts.some((part) => !/^[^\s/]+$/.test(part))
+    ) {
+      return undefined;
+    }
+    return { tokens: parts.slice(0, 3), alpha: parts[3], legacy: true };
+  }
+
+  // Modern syntax: rgb(255 0 0 / 50%)
+  const tokens = body.replace(/\//g, ' / ').trim().split(/\s+/);
+  const slash = tokens.indexOf('/');
+  if (slash === -1) {
+    return { tokens, alpha: undefined, legacy: false };
+  }
+
+  const rest = tokens.slice(slash + 1);
+  if (rest.length !== 1 || rest[0] === '/') {
+    return undefined;
+  }
+  return { tokens: tokens.slice(0, slash), alpha: rest[0], legacy: false };
+}
+
+// =============================================================================
+// Color Functions
+// =============================================================================
+
+/**
+ * Serializes color function components in the modern syntax
+ *
+ * @internal
+ */
+function serializeModern(prefix: string, components: Component[], alpha?: Component): string {
+  const channels = components.map((component) => component.text).join(' ');
+  return `${prefix}${channels}${alpha ? ` / ${alpha.text}` : ''})`;
+}
+
+/**
+ * Parses rgb(), hsl(), hwb(), lab(), lch(), oklab() and oklch()
+ *
+ * @internal
+ */
+function parseColorFunction(name: string, body: string): ColorSyntax | undefined {
+  const definition = COLOR_FUNCTIONS.get(name);
+  const args = parseArguments(body);
+  if (!definition || !args || args.tokens.length !== 3) {
+    return undefined;
+  }
+  if (args.legacy && !LEGACY_FUNCTIONS.has(name)) {
+    return undefined;
+  }
+
+  const components = args.tokens.map(parseComponent);
+  const alpha = args.alpha === undefined ? undefined : parseComponent(args.alpha);
+  if (
+    components.some((component) => component === undefined) ||
+    (alpha === undefined && args.alpha !== undefined)
+  ) {
+    return undefined;
+  }
+
+  const parsed = components as Component[];
+  if (args.legacy) {
+    const types = parsed.map((component) => component.type);
+    const isLegacyValid =
+      definition.space === 'srgb'
+        ? types.every((type) => type === types[0] && (type === 'number' || type === 'percentage'))
+        : types[0] !== 'none' && types[1] === 'percentage' && types[2] === 'percentage';
+    if (!isLegacyValid || alpha?.type === 'none') {
+      return undefined;
+    }
+  }
+
+  const coords = parsed.map((component, index) =>
+    resolveChannel(component, definition.channels[index]!)
+  );
+  const alphaValue = resolveAlpha(alpha);
+  if (coords.some((coord) => coord === undefined) || alphaValue === undefined) {
+    return undefined;
+  }
+
+  const value = args.legacy
+    ? `${name}(${[...parsed, ...(alpha ? [alpha] : [])].map((c) => c.text).join(', ')})`
+    : serializeModern(`${name}(`, parsed, alpha);
+
+  return {
+    value,
+    color: { space: definition.space, coords: coords as Coords, alpha: alphaValue },
+  };
+}
+
+/**
+ * Parses color() with a predefined color space, e.g. color(display-p3 1 0 0)
+ *
+ * @internal
+ */
+function parsePredefinedColor(body: string): ColorSyntax | undefined {
+  const args = parseArguments(body);
+  if (!args || args.legacy || args.tokens.length !== 4) {
+    return undefined;
+  }
+
+  const [spaceName, ...channels] = args.tokens as [string, ...string[]];
+  const space = spaceName === 'xyz' ? 'xyz-d65' : spaceName;
+  if (!PREDEFINED_SPACES.has(spaceName) || !isColorSpace(space)) {
+    return undefined;
+  }
+
+  const components = channels.map(parseComponent);
+  const alpha = args.alpha === undefined ? undefined : parseComponent(args.alpha);
+  if (
+    components.some((component) => component === undefined) ||
+    (alpha === undefined && args.alpha !== undefined)
+  ) {
+    return undefined;
+  }
+
+  const parsed = components as Component[];
+  const coords = parsed.map((component) => resolveChannel(component, PREDEFINED_CHANNEL));
+  const alphaValue = resolveAlpha(alpha);
+  if (coords.some((coord) => coord === undefined) || alphaValue === undefined) {
+    return undefined;
+  }
+
+  return {
+    value: serializeModern(`color(${spaceName} `, parsed, alpha),
+    color: { space, coords: coords as Coords, alpha: alphaValue },
+  };
+}
+
+// =============================================================================
+// color-mix()
+// =============================================================================
+
+/**
+ * Gets the coordinates of a color with missing components set to zero
+ *
+ * @remarks
+ * A missing hue is kept as NaN, which color space conversion treats as powerless.
+ *
+ * @internal
+ */
+function resolveMissing({ space, coords }: SpaceColor): Coords {
+  return coords.map((coord, index) =>
+    Number.isNaN(coord) && index !== HUE_INDEX[space] ? 0 : coord
+  ) as Coords;
+}
+
+/**
+ * Adjusts two hues for interpolation with the given hue method
+ *
+ * @internal
+ */
+function adjustHues(from: number, to: number, method: string): [number, number] {
+  let h1 = ((from % 360) + 360) % 360;
+  let h2 = ((to % 360) + 360) % 360;
+  const delta = h2 - h1;
+
+  switch (method) {
+    case 'longer':
+      if (delta > 0 && delta < 180) {
+        h1 += 360;
+      } else if (delta > -180 && delta <= 0) {
+        h2 += 360;
+      }
+      break;
+    case 'increasing':
+      if (h2 < h1) {
+        h2 += 360;
+      }
+      break;
+    case 'decreasing':
+      if (h1 < h2) {
+        h1 += 360;
+      }
+      break;
+    default:
+      if (delta > 180) {
+        h1 += 360;
+      } else if (delta < -180) {
+        h2 += 360;
+      }
+  }
+
+  return [h1, h2];
+}
+
+/**
+ * Mixes two colors as defined by color-mix()
+ *
+ * @param space - The interpolation color space
+ * @param method - The hue interpolation method
+ * @param first - The first color and its weight
+ * @param second - The second color and its weight
+ * @param alphaMultiplier - Factor applied to the resulting alpha
+ * @returns The mixed color in the interpolation color space
+ *
+ * @remarks
+ * Interpolates premultiplied coordinates. Missing components (including
+ * powerless hues) take the value of the other color.
+ *
+ * @internal
+ */
+function mixColors(
+  space: ColorSpace,
+  method: string,
+  first: { color: SpaceColor; weight: number },
+  second: { color: SpaceColor; weight: number },
+  alphaMultiplier: number
+): SpaceColor {
+  const hueIndex = HUE_INDEX[space];
+  const toSpace = (color: SpaceColor) => convertCoords(color.space, space, resolveMissing(color));
+
+  const a = toSpace(first.color);
+  const b = toSpace(second.color);
+  for (let index = 0; index < 3; index++) {
+    if (Number.isNaN(a[index]!)) {
+      a[index] = b[index]!;
+    } else if (Number.isNaN(b[index]!)) {
+      b[index] = a[index]!;
+    }
+  }
+
+  if (hueIndex !== undefined && !Number.isNaN(a[hueIndex]!)) {
+    [a[hueIndex], b[hueIndex]] = adjustHues(a[hueIndex]!, b[hueIndex]!, method);
+  }
+
+  const alpha = first.color.alpha * first.weight + second.color.alpha * second.weight;
+  const coords = a.map((coord, index) => {
+    if (index === hueIndex) {
+      return coord * first.weight + b[index]! * second.weight;
+    }
+    const premultiplied =
+      coord * first.color.alpha * first.weight + b[index]! * second.color.alpha * second.weight;
+    return alpha === 0 ? premultiplied : premultiplied / alpha;
+  }) as Coords;
+
+  return { space, coords, alpha: alpha * alphaMultiplier };
+}
+
+/**
+ * Parses one color argument of color-mix(): a color and an optional percentage
+ *
+ * @internal
+ */
+function parseMixArgument(argument: string, depth: number): MixArgument | undefined {
+  const parts = splitTopLevel(argument, /\s/)?.filter(Boolean);
+  if (!parts || parts.length === 0 || parts.length > 2) {
+    return undefined;
+  }
+
+  let percentage: Component | undefined;
+  let colorText = parts[0]!;
+  if (parts.length === 2) {
+    const [first, second] = parts as [string, string];
+    const firstComponent = parseComponent(first);
+    percentage = firstComponent ?? parseComponent(second);
+    colorText = firstComponent ? second : first;
+    if (percentage?.type !== 'percentage' || percentage.value < 0 || percentage.value > 1) {
+      return undefined;
+    }
+  }
+
+  const syntax = parseColorSyntax(colorText, depth + 1);
+  return syntax && { syntax, percentage };
+}
+
+/**
+ * Parses a color interpolation method: in <space> [<method> hue]
+ *
+ * @param tokens - The lowercase, whitespace-separated tokens of the method
+ * @returns The color space and hue method, or undefined if the syntax is invalid
+ *
+ * @remarks
+ * Used by color-mix() and by gradients. `xyz` is an alias of `xyz-d65`, and
+ * hue methods are only allowed for polar color spaces.
+ *
+ * @internal
+ */
+export function parseInterpolationMethod(
+  tokens: readonly string[]
+): { space: ColorSpace; method: string } | undefined {
+  const spaceName = tokens[1] ?? '';
+  const space = spaceName === 'xyz' ? 'xyz-d65' : spaceName;
+  if (tokens[0] !== 'in' || !isColorSpace(space)) {
+    return undefined;
+  }
+
+  if (tokens.length === 2) {
+    return { space, method: 'shorter' };
+  }
+  if (
+    tokens.length === 4 &&
+    HUE_INDEX[space] !== undefined &&
+    tokens[3] === 'hue' &&
+    HUE_METHODS.has(tokens[2]!)
+  ) {
+    return { space, method: tokens[2]! };
+  }
+  return undefined;
+}
+
+/**
+ * Parses color-mix(in <space> [<method> hue], <color> [<percentage>], <color> [<percentage>])
+ *
+ * @internal
+ */
+function parseColorMix(body: string, depth: number): ColorSyntax | undefined {
+  const parts = splitTopLevel(body, /,/);
+  if (depth > MAX_MIX_DEPTH || !parts || parts.length !== 3) {
+    return undefined;
+  }
+
+  const interpolation = parts[0]!.split(/\s+/);
+  const parsedMethod = parseInterpolationMethod(interpolation);
+  if (!parsedMethod) {
+    return undefined;
+  }
+  const { space, method } = parsedMethod;
+  const spaceName = interpolation[1]!;
+
+  const first = parseMixArgument(parts[1]!, depth);
+  const second = parseMixArgument(parts[2]!, depth);
+  if (!first || !second) {
+    return undefined;
+  }
+
+  // Percentages: missing ones complement the other; a sum below 100% reduces alpha
+  const p1 = first.percentage?.value;
+  const p2 = second.percentage?.value;
+  const w1 = p1 ?? (p2 === undefined ? 0.5 : 1 - p2);
+  const w2 = p2 ?? 1 - w1;
+  const sum = w1 + w2;
+  if (sum === 0) {
+    return undefined;
+  }
+
+  const argumentText = ({ syntax, percentage }: MixArgument) =>
+    percentage ? `${syntax.value} ${percentage.text}` : syntax.value;
+  const value =
+    `color-mix(in ${spaceName}${interpolation.length === 4 ? ` ${method} hue` : ''}, ` +
+    `${argumentText(first)}, ${argumentText(second)})`;
+
+  const color =
+    first.syntax.color && second.syntax.color
+      ? mixColors(
+          space,
+          method,
+          { color: first.syntax.color, weight: w1 / sum },
+          { color: second.syntax.color, weight: w2 / sum },
+          Math.min(sum, 1)
+        )
+      : undefined;
+
+  return { value, color };
+}
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+/**
+ * Parses a hex color
+ *
+ * @internal
+ */
+function parseHex(value: string): SpaceColor | undefined {
+  const match = value.match(HEX_REGEX);
+  if (!match) {
+    return undefined;
+  }
+
+  let hex = match[1]!;
+  if (hex.length <= 4) {
+    hex = [...hex].map((char) => char + char).join('');
+  }
+
+  const channel = (index: number) => parseInt(hex.slice(index * 2, index * 2 + 2), 16) / 255;
+
+  return {
+    space: 'srgb',
+    coords: [channel(0), channel(1), channel(2)],
+    alpha: hex.length === 8 ? channel(3) : 1,
+  };
+}
+
+/**
+ * Parses any color syntax at the given color-mix() nesting depth
+ *
+ * @internal
+ */
+function parseColorSyntax(value: string, depth: number): ColorSyntax | undefined {
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+
+  if (lower === 'transparent') {
+    return { value: lower, color: { space: 'srgb', coords: [0, 0, 0], alpha: 0 } };
+  }
+  if (lower === 'currentcolor') {
+    return { value: lower, color: undefined };
+  }
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, lower)) {
+    return { value: lower, color: parseHex(NAMED_COLORS[lower]!) };
+  }
+
+  const hex = parseHex(trimmed);
+  if (hex) {
+    return { value: trimmed, color: hex };
+  }
+
+  const match = lower.replace(/\s+/g, ' ').match(FUNCTION_REGEX);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, name, body] = match as unknown as [string, string, string];
+  if (name === 'color-mix') {
+    return parseColorMix(body, depth);
+  }
+  if (name === 'color') {
+    return parsePredefinedColor(body);
+  }
+  return parseColorFunction(name, body);
+}
+
+/**
+ * Parses a CSS color into its normalized string and sRGB color
+ *
+ * @param value - The color string to parse
+ * @returns The parsed color, or undefined if the value is not a valid color
+ *
+ * @remarks
+ * Supports hex, named colors, `transparent`, `currentcolor`, rgb()/rgba() and
+ * hsl()/hsla() in legacy and modern syntax, hwb(), lab(), lch(), oklab(),
+ * oklch(), color() with predefined color spaces, and color-mix().
+ *
+ * Normalization lowercases keywords and function names, collapses whitespace
+ * and serializes numbers canonically. Hex colors keep their original case.
+ * Colors outside the sRGB gamut are clipped when converted.
+ *
+ * @internal
+ */
+export function parseCssColor(value: string): ParsedColor | undefined {
+  const syntax = parseColorSyntax(value, 0);
+  if (!syntax) {
+    return undefined;
+  }
+
+  if (!syntax.color) {
+    return { value: syntax.value, color: undefined };
+  }
+
+  const [r, g, b] = convertCoords(syntax.color.space, 'srgb', resolveMissing(syntax.color));
+
+  return {
+    value: syntax.value,
+    color: {
+      r: clamp(r * 255, 0, 255),
+      g: clamp(g * 255, 0, 255),
+      b: clamp(b * 255, 0, 255),
+      a: clamp(syntax.color.alpha, 0, 1),
+    },
+  };
+}
@@ -0,0 +1,475 @@
+/**
+ * Color space conversion
+ *
+ * Converts coordinates between the color spaces of CSS Color Module Level 4.
+ * Every conversion goes through CIE XYZ (D65), following the sample code in
+ * https://drafts.csswg.org/css-color-4/#color-conversion-code
+ *
+ * Coordinates use the reference ranges of the CSS specification, except that
+ * percentages are stored as fractions (e.g., HSL saturation is 0-1). A hue of
+ * NaN marks a powerless hue (e.g., the hue of a gray).
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Color spaces supported for conversion and interpolation
+ *
+ * @internal
+ */
+export type ColorSpace =
+  | 'srgb'
+  | 'srgb-linear'
+  | 'display-p3'
+  | 'a98-rgb'
+  | 'prophoto-rgb'
+  | 'rec2020'
+  | 'xyz-d50'
+  | 'xyz-d65'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'hsl'
+  | 'hwb';
+
+/**
+ * Three color coordinates
+ *
+ * @internal
+ */
+export type Coords = [number, number, number];
+
+/**
+ * A 3x3 matrix, stored row by row
+ *
+ * @internal
+ */
+type Matrix = readonly [Coords, Coords, Coords];
+
+/**
+ * Conversion functions of a color space
+ *
+ * @internal
+ */
+interface ColorSpaceDefinition {
+  readonly toXyz: (coords: Coords) => Coords;
+  readonly fromXyz: (xyz: Coords) => Coords;
+}
+
+// =============================================================================
+// Matrix Helpers
+// =============================================================================
+
+/**
+ * Multiplies a matrix by a column vector
+ *
+ * @internal
+ */
+function multiply(matrix: Matrix, [x, y, z]: Coords): Coords {
+  return matrix.map((row) => row[0] * x + row[1] * y + row[2] * z) as Coords;
+}
+
+/**
+ * Multiplies two 3x3 matrices
+ *
+ * @internal
+ */
+function multiplyMatrices(left: Matrix, right: Matrix): Matrix {
+  const [[a, b, c], [d, e, f], [g, h, i]] = right;
+  const columns: Matrix = [
+    [a, d, g],
+    [b, e, h],
+    [c, f, i],
+  ];
+  return [multiply(columns, left[0]), multiply(columns, left[1]), multiply(columns, left[2])];
+}
+
+/**
+ * Inverts a 3x3 matrix
+ *
+ * @internal
+ */
+function invert(matrix: Matrix): Matrix {
+  const [[a, b, c], [d, e, f], [g, h, i]] = matrix;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+
+  return [
+    [(e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det],
+    [(f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det],
+    [(d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det],
+  ];
+}
+
+// =============================================================================
+// Chromatic Adaptation
+// =============================================================================
+
+/**
+ * Bradford chromatic adaptation from D65 to D50
+ */
+const D65_TO_D50: Matrix = [
+  [1.0479298208405488, 0.0229467933410191, -0.0501922295431356],
+  [0.0296278156881593, 0.990434484573249, -0.0170738250293851],
+  [-0.0092430581525912, 0.0150551448965779, 0.7518742899580008],
+];
+const D50_TO_D65 = invert(D65_TO_D50);
+
+/**
+ * D50 reference white
+ */
+const D50_WHITE: Coords = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+// =============================================================================
+// RGB Spaces
+// =============================================================================
+
+/**
+ * Applies a transfer function symmetrically around zero (for out-of-gamut values)
+ *
+ * @internal
+ */
+function signed(transfer: (value: number) => number): (value: number) => number {
+  return (value) => Math.sign(value) * transfer(Math.abs(value));
+}
+
+/**
+ * sRGB transfer functions (also used by Display P3)
+ */
+const srgbToLinear = signed((c) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)));
+const linearToSrgb = signed((c) =>
+  c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055
+);
+
+/**
+ * Rec. 2020 transfer function constants
+ */
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+/**
+ * Creates an RGB color space from its transfer functions and its matrix to XYZ
+ *
+ * @internal
+ */
+function rgbSpace(
+  toLinear: (value: number) => number,
+  fromLinear: (value: number) => number,
+  toXyzMatrix: Matrix,
+  white: 'd50' | 'd65' = 'd65'
+): ColorSpaceDefinition {
+  const toXyz65 = white === 'd65' ? toXyzMatrix : multiplyMatrices(D50_TO_D65, toXyzMatrix);
+  const fromXyz65 = invert(toXyz65);
+
+  return {
+    toXyz: (coords) => multiply(toXyz65, coords.map(toLinear) as Coords),
+    fromXyz: (xyz) => multiply(fromXyz65, xyz).map(fromLinear) as Coords,
+  };
+}
+
+const SRGB_TO_XYZ: Matrix = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+
+const identity = (value: number) => value;
+
+const SRGB = rgbSpace(srgbToLinear, linearToSrgb, SRGB_TO_XYZ);
+const SRGB_LINEAR = rgbSpace(identity, identity, SRGB_TO_XYZ);
+
+const DISPLAY_P3 = rgbSpace(srgbToLinear, linearToSrgb, [
+  [0.486570948648216, 0.265667693169093, 0.1982172852343625],
+  [0.2289745640697487, 0.6917385218365062, 0.079286914093745],
+  [0, 0.0451133818589026, 1.043944368900976],
+]);
+
+const A98_RGB = rgbSpace(
+  signed((c) => Math.pow(c, 563 / 256)),
+  signed((c) => Math.pow(c, 256 / 563)),
+  [
+    [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+    [0.297344975250536, 0.6273635662554661, 0.0752914584939979],
+    [0.0270313613864123, 0.0706888525358272, 0.9913375368376386],
+  ]
+);
+
+const PROPHOTO_RGB = rgbSpace(
+  signed((c) => (c <= 16 / 512 ? c / 16 : Math.pow(c, 1.8))),
+  signed((c) => (c >= 1 / 512 ? Math.pow(c, 1 / 1.8) : c * 16)),
+  [
+    [0.7977666449006423, 0.1351812974005331, 0.0313477341283922],
+    [0.2880748288194013, 0.7118352342418731, 0.0000899369387256],
+    [0, 0, 0.8251046025104602],
+  ],
+  'd50'
+);
+
+const REC2020 = rgbSpace(
+  signed((c) =>
+    c < REC2020_BETA * 4.5 ? c / 4.5 : Math.pow((c + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45)
+  ),
+  signed((c) =>
+    c < REC2020_BETA ? c * 4.5 : REC2020_ALPHA * Math.pow(c, 0.45) - (REC2020_ALPHA - 1)
+  ),
+  [
+    [0.6369580483012911, 0.1446169035862083, 0.1688809751641721],
+    [0.262700212011267, 0.6779980715188708, 0.059301716469862],
+    [0, 0.0280726930490874, 1.0609850577107909],
+  ]
+);
+
+// =============================================================================
+// Cylindrical sRGB Spaces
+// =============================================================================
+
+/**
+ * Converts HSL (hue in degrees, saturation and lightness 0-1) to sRGB (0-1)
+ *
+ * @internal
+ */
+function hslToSrgb([hue, s, l]: Coords): Coords {
+  const h = (((Number.isNaN(hue) ? 0 : hue) % 360) + 360) % 360;
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return l - s * Math.min(l, 1 - l) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Converts sRGB (0-1) to HSL (hue in degrees, saturation and lightness 0-1)
+ *
+ * @internal
+ */
+function srgbToHsl([r, g, b]: Coords): Coords {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const delta = max - min;
+
+  if (delta === 0) {
+    return [NaN, 0, l];
+  }
+
+  const s = l === 0 || l === 1 ? 0 : delta / (1 - Math.abs(2 * l - 1));
+  let h: number;
+  if (max === r) {
+    h = (g - b) / delta + (g < b ? 6 : 0);
+  } else if (max === g) {
+    h = (b - r) / delta + 2;
+  } else {
+    h = (r - g) / delta + 4;
+  }
+
+  return [h * 60, s, l];
+}
+
+/**
+ * Converts HWB (hue in degrees, whiteness and blackness 0-1) to sRGB (0-1)
+ *
+ * @internal
+ */
+function hwbToSrgb([h, w, b]: Coords): Coords {
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+  return hslToSrgb([h, 1, 0.5]).map((c) => c * (1 - w - b) + w) as Coords;
+}
+
+/**
+ * Converts sRGB (0-1) to HWB (hue in degrees, whiteness and blackness 0-1)
+ *
+ * @internal
+ */
+function srgbToHwb(rgb: Coords): Coords {
+  const [h] = srgbToHsl(rgb);
+  return [h, Math.min(...rgb), 1 - Math.max(...rgb)];
+}
+
+// =============================================================================
+// Lab Spaces
+// =============================================================================
+
+/**
+ * CIE Lab constants
+ */
+const LAB_KAPPA = 24389 / 27;
+const LAB_EPSILON = 216 / 24389;
+
+/**
+ * Converts CIE XYZ (D50) to CIE Lab
+ *
+ * @internal
+ */
+function xyzD50ToLab(xyz: Coords): Coords {
+  const [fx, fy, fz] = xyz.map((value, index) => {
+    const scaled = value / D50_WHITE[index]!;
+    return scaled > LAB_EPSILON ? Math.cbrt(scaled) : (LAB_KAPPA * scaled + 16) / 116;
+  }) as Coords;
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Converts CIE Lab to CIE XYZ (D50)
+ *
+ * @internal
+ */
+function labToXyzD50([l, a, b]: Coords): Coords {
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+
+  const x = Math.pow(fx, 3) > LAB_EPSILON ? Math.pow(fx, 3) : (116 * fx - 16) / LAB_KAPPA;
+  const y = l > LAB_KAPPA * LAB_EPSILON ? Math.pow(fy, 3) : l / LAB_KAPPA;
+  const z = Math.pow(fz, 3) > LAB_EPSILON ? Math.pow(fz, 3) : (116 * fz - 16) / LAB_KAPPA;
+
+  return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+}
+
+/**
+ * OKLab matrices (linear sRGB to LMS, and cube-rooted LMS to OKLab)
+ */
+const LINEAR_SRGB_TO_LMS: Matrix = [
+  [0.4122214708, 0.5363325363, 0.0514459929],
+  [0.2119034982, 0.6806995451, 0.1073969566],
+  [0.0883024619, 0.2817188376, 0.6299787005],
+];
+const LMS_TO_OKLAB: Matrix = [
+  [0.2104542553, 0.793617785, -0.0040720468],
+  [1.9779984951, -2.428592205, 0.4505937099],
+  [0.0259040371, 0.7827717662, -0.808675766],
+];
+const XYZ_TO_LMS = multiplyMatrices(LINEAR_SRGB_TO_LMS, invert(SRGB_TO_XYZ));
+const LMS_TO_XYZ = invert(XYZ_TO_LMS);
+const OKLAB_TO_LMS = invert(LMS_TO_OKLAB);
+
+/**
+ * Converts rectangular a/b coordinates to polar chroma/hue
+ *
+ * @remarks
+ * The hue of a color without chroma is powerless and returned as NaN.
+ *
+ * @internal
+ */
+function toPolar([l, a, b]: Coords, epsilon: number): Coords {
+  const c = Math.sqrt(a * a + b * b);
+  const h = c < epsilon ? NaN : ((Math.atan2(b, a) * 180) / Math.PI + 360) % 360;
+  return [l, c, h];
+}
+
+/**
+ * Converts polar chroma/hue coordinates to rectangular a/b
+ *
+ * @internal
+ */
+function fromPolar([l, c, h]: Coords): Coords {
+  const radians = ((Number.isNaN(h) ? 0 : h) * Math.PI) / 180;
+  return [l, c * Math.cos(radians), c * Math.sin(radians)];
+}
+
+const LAB: ColorSpaceDefinition = {
+  toXyz: (lab) => multiply(D50_TO_D65, labToXyzD50(lab)),
+  fromXyz: (xyz) => xyzD50ToLab(multiply(D65_TO_D50, xyz)),
+};
+
+const OKLAB: ColorSpaceDefinition = {
+  toXyz: (lab) => multiply(LMS_TO_XYZ, multiply(OKLAB_TO_LMS, lab).map((c) => c * c * c) as Coords),
+  fromXyz: (xyz) => multiply(LMS_TO_OKLAB, multiply(XYZ_TO_LMS, xyz).map(Math.cbrt) as Coords),
+};
+
+// =============================================================================
+// Conversion
+// =============================================================================
+
+/**
+ * Definitions of every supported color space
+ */
+const COLOR_SPACES: Readonly<Record<ColorSpace, ColorSpaceDefinition>> = {
+  srgb: SRGB,
+  'srgb-linear': SRGB_LINEAR,
+  'display-p3': DISPLAY_P3,
+  'a98-rgb': A98_RGB,
+  'prophoto-rgb': PROPHOTO_RGB,
+  rec2020: REC2020,
+  'xyz-d50': {
+    toXyz: (xyz) => multiply(D50_TO_D65, xyz),
+    fromXyz: (xyz) => multiply(D65_TO_D50, xyz),
+  },
+  'xyz-d65': { toXyz: (xyz) => xyz, fromXyz: (xyz) => xyz },
+  lab: LAB,
+  lch: {
+    toXyz: (lch) => LAB.toXyz(fromPolar(lch)),
+    fromXyz: (xyz) => toPolar(LAB.fromXyz(xyz), 0.0015),
+  },
+  oklab: OKLAB,
+  oklch: {
+    toXyz: (lch) => OKLAB.toXyz(fromPolar(lch)),
+    fromXyz: (xyz) => toPolar(OKLAB.fromXyz(xyz), 4e-6),
+  },
+  hsl: {
+    toXyz: (hsl) => SRGB.toXyz(hslToSrgb(hsl)),
+    fromXyz: (xyz) => srgbToHsl(SRGB.fromXyz(xyz)),
+  },
+  hwb: {
+    toXyz: (hwb) => SRGB.toXyz(hwbToSrgb(hwb)),
+    fromXyz: (xyz) => srgbToHwb(SRGB.fromXyz(xyz)),
+  },
+};
+
+/**
+ * Index of the hue coordinate in polar color spaces
+ *
+ * @internal
+ */
+export const HUE_INDEX: Readonly<Partial<Record<ColorSpace, number>>> = {
+  hsl: 0,
+  hwb: 0,
+  lch: 2,
+  oklch: 2,
+};
+
+/**
+ * Checks if a string is a supported color space
+ *
+ * @internal
+ */
+export function isColorSpace(value: string): value is ColorSpace {
+  return Object.prototype.hasOwnProperty.call(COLOR_SPACES, value);
+}
+
+/**
+ * Converts color coordinates from one color space to another
+ *
+ * @param from - The color space of the coordinates
+ * @param to - The target color space
+ * @param coords - The coordinates to convert
+ * @returns The converted coordinates
+ *
+ * @remarks
+ * Conversions between sRGB, HSL and HWB skip XYZ to avoid rounding drift.
+ *
+ * @internal
+ */
+export function convertCoords(from: ColorSpace, to: ColorSpace, coords: Coords): Coords {
+  if (from === to) {
+    return coords;
+  }
+  if (from === 'srgb' && to === 'hsl') {
+    return srgbToHsl(coords);
+  }
+  if (from === 'hsl' && to === 'srgb') {
+    return hslToSrgb(coords);
+  }
+  if (from === 'hwb' && to === 'srgb') {
+    return hwbToSrgb(coords);
+  }
+  if (from === 'srgb' && to === 'hwb') {
+    return srgbToHwb(coords);
+  }
+
+  return COLOR_SPACES[to].fromXyz(COLOR_SPACES[from].toXyz(coords));
+}
@@ -2,10 +2,21 @@
  * CSS generation utilities
  */
 
-import type { Schema, SchemaDefinition, InferTheme, CssVariableOptions } from '../types/index.js';
+import type {
+  Schema,
+  SchemaDefinition,
+  InferTheme,
+  CssVariableOptions,
+  TokenDefinition,
+  TransitionValue,
+  TypographyValue,
+  ScaleValue,
+} from '../types/index.js';
 import { getSchemaDefinition, isTokenDefinition, isSchemaDefinition } from '../schema/index.js';
-import { pathToKebabCase } from '../internal/utils.js';
+import { getAtPath, pathToKebabCase } from '../internal/utils.js';
 import { escapeCssValue } from '../validation/css-escape.js';
+import { getReferencedToken } from '../validation/references.js';
+import { CSS_WIDE_KEYWORDS } from '../validation/validators.js';
 
 /**
  * Default CSS variable options
@@ -14,6 +25,7 @@ const DEFAULT_OPTIONS: Required<CssVariableOptions> = {
   prefix: '',
   separator: '-',
   transformName: pathToKebabCase,
+  references: 'resolve',
 };
 
 /**
@@ -60,6 +72,8 @@ export interface CssVarOptions {
   path: string;
   /** Optional CSS variable configuration */
   options?: CssVariableOptions;
+  /** Value used when the variable is not set, such as for optional tokens (inserted as-is) */
+  fallback?: string;
 }
 
 /**
@@ -94,12 +108,125 @@ function formatCssDeclarations(variables: Record<string, string>): string {
     .join('\n');
 }
 
+/**
+ * Builds the full CSS custom property name for a token path
+ *
+ * @param path - Dot-notation path to the token
+ * @param options - CSS variable configuration
+ * @returns The custom property name, including the leading `--`
+ *
+ * @internal
+ */
+function getVariableName(path: string, options: Required<CssVariableOptions>): string {
+  const varName = options.transformName(path);
+  return options.prefix ? `--${options.prefix}${options.separator}${varName}` : `--${varName}`;
+}
+
+/**
+ * Appends a sub-path to a token path
+ *
+ * @internal
+ */
+function joinPath(path: string, subPath: string): string {
+  return subPath ? `${path}.${subPath}` : path;
+}
+
+/**
+ * Fields of a typography value, in the order their variables are emitted
+ *
+ * @internal
+ */
+const TYPOGRAPHY_FIELDS: readonly (keyof TypographyValue)[] = [
+  'fontFamily',
+  'fontSize',
+  'fontWeight',
+  'lineHeight',
+  'letterSpacing',
+];
+
+/**
+ * Writes a typography value as a `font` shorthand
+ *
+ * @internal
+ */
+function formatFontShorthand(value: TypographyValue): string {
+  const { fontFamily, fontSize, fontWeight, lineHeight } = value;
+  // CSS-wide keywords cannot appear in the `font` shorthand
+  const weight =
+    fontWeight === undefined || CSS_WIDE_KEYWORDS.has(String(fontWeight)) ? '' : `${fontWeight} `;
+  const size = lineHeight === undefined ? fontSize : `${fontSize}/${lineHeight}`;
+  return `${weight}${size} ${fontFamily}`;
+}
+
+/**
+ * Writes a URL as a quoted CSS `url()` value
+ *
+ * @remarks
+ * Backslashes and double quotes are escaped and line breaks are written as hex
+ * escapes, so the URL cannot end the string.
+ *
+ * @internal
+ */
+function formatCssUrl(url: string): string {
+  const escaped = url.replace(/["\\\n\r]/g, (char) =>
+    char === '\n' ? '\\a ' : char === '\r' ? '\\d ' : `\\${char}`
+  );
+  return `url("${escaped}")`;
+}
+
+/**
+ * Serializes a token value as CSS values
+ *
+ * @param token - The concrete (non-reference) token definition
+ * @param value - The validated token value
+ * @returns Pairs of a sub-path and its escaped CSS value; the token itself has an empty sub-path
+ *
+ * @remarks
+ * Composite values are written in their CSS shorthand form. Typography values
+ * produce one entry per field plus a `font` shorthand entry, and scales one entry
+ * per step. Assets are written as quoted `url()` values. Other values are stringified.
+ *
+ * Values are escaped to prevent CSS injection attacks, except assets, whose quoted
+ * string is escaped by {@link formatCssUrl}.
+ *
+ * @internal
+ */
+function formatTokenValue(token: TokenDefinition, value: unknown): Array<[string, string]> {
+  switch (token.type) {
+    case 'transition': {
+      const { duration, easing, delay } = value as TransitionValue;
+      const shorthand =
+        delay === undefined ? `${duration} ${easing}` : `${duration} ${easing} ${delay}`;
+      return [['', escapeCssValue(shorthand)]];
+    }
+    case 'typography': {
+      const typography = value as TypographyValue;
+      const fields = TYPOGRAPHY_FIELDS.filter((field) => typography[field] !== undefined).map(
+        (field): [string, string] => [field, escapeCssValue(String(typography[field]))]
+      );
+      return [...fields, ['font', escapeCssValue(formatFontShorthand(typography))]];
+    }
+    case 'asset':
+      return [['', formatCssUrl(String(value))]];
+    case 'scale': {
+      const scale = value as ScaleValue;
+      return token.steps
+        .filter((step) => scale[step] !== undefined)
+        .map((step) => [step, escapeCssValue(String(scale[step]))]);
+    }
+    default:
+      return [['', escapeCssValue(String(value))]];
+  }
+}
+
 /**
  * Recursively generates CSS variable entries from theme data
  *
  * @param definition - The schema definition
  * @param data - The theme data
  * @param options - CSS variable configuration
+ * @param theme - The root theme data (used to compare reference tokens with their targets)
+ * @param root - The root schema definition (used to look up the type of referenced tokens)
  * @param path - Current path in the schema (for recursion)
  * @returns Record of CSS variable names to values
  *
@@ -107,12 +234,22 @@ function formatCssDeclarations(variables: Record<string, string>): string {
  * Traverses the schema and data in parallel, generating CSS variable names
  * and values for all tokens. Nested groups are handled recursively.
  *
+ * Typography tokens produce one variable per field plus a `font` shorthand
+ * variable, named after the token path followed by the field name. Scale tokens
+ * produce one variable per step, named after the token path followed by the step.
+ *
+ * With `references: 'var'`, a reference token still holding its target's value
+ * is emitted as a var() pointing at the target instead of the resolved value.
+ * For typography and scales, each variable is compared with the target's variable separately.
+ *
  * @internal
  */
 function generateVariables(
   definition: SchemaDefinition,
   data: Record<string, unknown>,
   options: Required<CssVariableOptions>,
+  theme: Record<string, unknown>,
+  root: SchemaDefinition,
   path: string = ''
 ): Record<string, string> {
   const variables: Record<string, string> = {};
@@ -123,12 +260,28 @@ function generateVariables(
 
     if (isTokenDefinition(schemaValue)) {
       if (dataValue !== undefined && dataValue !== null) {
-        const varName = options.transformName(currentPath);
-        const fullName = options.prefix
-          ? `--${options.prefix}${options.separator}${varName}`
-          : `--${varName}`;
-        // Escape the value to prevent CSS injection attacks
-        variables[fullName] = escapeCssValue(String(dataValue));
+        let token: TokenDefinition = schemaValue;
+        let targetValues: ReadonlyMap<string, string> = new Map();
+        if (schemaValue.type === 'reference') {
+          const referenced = getReferencedToken(root, schemaValue, currentPath);
+          token = referenced.ok ? referenced.value : schemaValue;
+          const targetValue = getAtPath(theme, schemaValue.target);
+          if (options.references === 'var' && targetValue !== undefined) {
+            targetValues = new Map(formatTokenValue(token, targetValue));
+          }
+        }
+
+        for (const [subPath, value] of formatTokenValue(token, dataValue)) {
+          const fullName = getVariableName(joinPath(currentPath, subPath), options);
+
+          // Compare serialized values, since composite values are copied when resolved
+          if (schemaValue.type === 'reference' && targetValues.get(subPath) === value) {
+            const targetPath = joinPath(schemaValue.target, subPath);
+            variables[fullName] = `var(${getVariableName(targetPath, options)})`;
+            continue;
+          }
+          variables[fullName] = value;
+        }
       }
     } else if (
       isSchemaDefinition(schemaValue) &&
@@ -139,6 +292,8 @@ function generateVariables(
         schemaValue,
         dataValue as Record<string, unknown>,
         options,
+        theme,
+        root,
         currentPath
       );
       Object.assign(variables, nested);
@@ -164,6 +319,10 @@ function generateVariables(
  * // With prefix
  * const prefixed = toCssVariables({ schema, theme, options: { prefix: 'theme' } });
  * // { '--theme-colors-primary': '#3b82f6', '--theme-spacing-md': '16px', ... }
+ *
+ * // Emit reference tokens as aliases of their targets
+ * const aliased = toCssVariables({ schema, theme, options: { references: 'var' } });
+ * // { '--colors-primary': '#3b82f6', '--button-background': 'var(--colors-primary)', ... }
  * ```
  */
 export function toCssVariables<T extends SchemaDefinition>(
@@ -176,7 +335,8 @@ export function toCssVariables<T extends SchemaDefinition>(
     ...options,
   };
 
-  return generateVariables(definition, theme as Record<string, unknown>, mergedOptions);
+  const data = theme as Record<string, unknown>;
+  return generateVariables(definition, data, mergedOptions, data, definition);
 }
 
 /**
@@ -228,21 +388,20 @@ export function toCssString<T extends SchemaDefinition>(opts: ToCssStringOptions
  *
  * const withPrefix = cssVar({ path: 'colors.primary', options: { prefix: 'theme' } });
  * // 'var(--theme-colors-primary)'
+ *
+ * const withFallback = cssVar({ path: 'brand.accent', fallback: 'var(--colors-primary)' });
+ * // 'var(--brand-accent, var(--colors-primary))'
  * ```
  */
 export function cssVar(opts: CssVarOptions): string {
-  const { path, options } = opts;
+  const { path, options, fallback } = opts;
   const mergedOptions: Required<CssVariableOptions> = {
     ...DEFAULT_OPTIONS,
     ...options,
   };
 
-  const varName = mergedOptions.transformName(path);
-  const fullName = mergedOptions.prefix
-    ? `--${mergedOptions.prefix}${mergedOptions.separator}${varName}`
-    : `--${varName}`;
-
-  return `var(${fullName})`;
+  const name = getVariableName(path, mergedOptions);
+  return fallback === undefined ? `var(${name})` : `var(${name}, ${fallback})`;
 }
 
 /**
@@ -258,13 +417,18 @@ export function cssVar(opts: CssVarOptions): string {
  * // Fully typed - only valid paths are allowed
  * const primary = themeVar('colors.primary');
  * // 'var(--colors-primary)'
+ *
+ * // Optional tokens can fall back to another value
+ * const accent = themeVar('brand.accent', 'var(--colors-primary)');
+ * // 'var(--brand-accent, var(--colors-primary))'
  * ```
  */
 export function createCssVarHelper<T extends SchemaDefinition>(
   opts: CreateCssVarHelperOptions<T>
-): <P extends string>(path: P) => string {
+): <P extends string>(path: P, fallback?: string) => string {
   const { options } = opts;
-  return (path) => cssVar({ path, ...(options && { options }) });
+  return (path, fallback) =>
+    cssVar({ path, ...(options && { options }), ...(fallback !== undefined && { fallback }) });
 }
 
 /**
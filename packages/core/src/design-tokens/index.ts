@@ -0,0 +1,735 @@
+/**
+ * Design Tokens (DTCG) interchange
+ *
+ * Converts between Livery schemas and the JSON format of the W3C Design Tokens
+ * Community Group, so tokens can move between design tools and themes.
+ */
+
+import type {
+  Schema,
+  SchemaDefinition,
+  TokenDefinition,
+  TokenDeprecation,
+  TokenType,
+  InferTheme,
+  ShadowLayer,
+  ValidationWarning,
+} from '../types/index.js';
+import { t } from '../schema/tokens.js';
+import { getSchemaDefinition, isTokenDefinition, isSchemaDefinition } from '../schema/index.js';
+import { formatShadow, parseShadow, validateEasing } from '../validation/validators.js';
+import { getReferencedToken } from '../validation/references.js';
+import {
+  assignAtPath,
+  deepEqual,
+  getAtPath,
+  isPlainObject,
+  isUnsafeKey,
+} from '../internal/utils.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A design token in DTCG format
+ *
+ * @public
+ */
+export interface DesignToken {
+  /** The token value, or an alias such as "{colors.primary}" */
+  $value: unknown;
+  /** The token type; inherited from the closest group when omitted */
+  $type?: string;
+  /** Description of the token */
+  $description?: string;
+  /** Marks the token as deprecated, optionally with a reason */
+  $deprecated?: boolean | string;
+}
+
+/**
+ * A group of design tokens in DTCG format
+ *
+ * @public
+ */
+export interface DesignTokenGroup {
+  /** The type of the tokens in the group */
+  $type?: string;
+  /** Description of the group */
+  $description?: string;
+  /** Nested tokens and groups */
+  [key: string]: DesignToken | DesignTokenGroup | string | undefined;
+}
+
+/**
+ * Token builder returned by the t factories
+ *
+ * @remarks
+ * Reference builders have no deprecated method.
+ *
+ * @internal
+ */
+type ImportedTokenBuilder = TokenDefinition & {
+  describe(text: string): ImportedTokenBuilder;
+  deprecated?(options?: TokenDeprecation): TokenDefinition;
+};
+
+/**
+ * A token collected from a DTCG document
+ *
+ * @internal
+ */
+interface CollectedToken {
+  /** The explicit or inherited type */
+  type: string | undefined;
+  token: Record<string, unknown>;
+}
+
+// ============================================================================
+// Value Conversion
+// ============================================================================
+
+/**
+ * Matches an alias such as "{colors.primary}"
+ */
+const ALIAS_REGEX = /^\{([^{}]+)\}$/;
+
+/**
+ * Control points of the easing keywords that are cubic Béziers
+ */
+const EASING_CURVES: ReadonlyMap<string, readonly number[]> = new Map([
+  ['linear', [0, 0, 1, 1]],
+  ['ease', [0.25, 0.1, 0.25, 1]],
+  ['ease-in', [0.42, 0, 1, 1]],
+  ['ease-out', [0, 0, 0.58, 1]],
+  ['ease-in-out', [0.42, 0, 0.58, 1]],
+]);
+
+/**
+ * Color spaces written with the color() function
+ */
+const PREDEFINED_COLOR_SPACES = new Set([
+  'srgb',
+  'srgb-linear',
+  'display-p3',
+  'a98-rgb',
+  'prophoto-rgb',
+  'rec2020',
+  'xyz',
+  'xyz-d50',
+  'xyz-d65',
+]);
+
+/**
+ * Color spaces written with their own function
+ */
+const FUNCTIONAL_COLOR_SPACES = new Set(['hsl', 'hwb', 'lab', 'lch', 'oklab', 'oklch']);
+
+/**
+ * Returns the target path of an alias, or undefined for other values
+ */
+function getAliasTarget(value: unknown): string | undefined {
+  return typeof value === 'string' ? ALIAS_REGEX.exec(value)?.[1] : undefined;
+}
+
+/**
+ * Follows aliases to the token they end at
+ *
+ * @returns The path and token, or undefined for missing targets and cycles
+ *
+ * @internal
+ */
+function followAlias(
+  tokens: ReadonlyMap<string, CollectedToken>,
+  target: string
+): { path: string; collected: CollectedToken } | undefined {
+  const seen = new Set<string>();
+  let path = target;
+
+  for (;;) {
+    const collected = tokens.get(path);
+    if (!collected || seen.has(path)) {
+      return undefined;
+    }
+    seen.add(path);
+
+    const next = getAliasTarget(collected.token['$value']);
+    if (next === undefined) {
+      return { path, collected };
+    }
+    path = next;
+  }
+}
+
+/**
+ * Converts a DTCG dimension or duration to a CSS string
+ *
+ * @remarks
+ * Accepts the `{ value, unit }` objects of the current specification and the
+ * strings of earlier drafts.
+ */
+function fromMeasure(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (isPlainObject(value) && typeof value['value'] === 'number') {
+    return typeof value['unit'] === 'string' ? `${value['value']}${value['unit']}` : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Converts a DTCG color to a CSS color string
+ *
+ * @remarks
+ * Color objects use their hex fallback when present, otherwise the CSS
+ * function of their color space.
+ */
+function fromColor(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (!isPlainObject(value)) {
+    return undefined;
+  }
+
+  const { colorSpace, components, alpha, hex } = value;
+  if (typeof hex === 'string' && (alpha === undefined || alpha === 1)) {
+    return hex;
+  }
+  if (
+    typeof colorSpace !== 'string' ||
+    !Array.isArray(components) ||
+    components.length !== 3 ||
+    !components.every((c) => typeof c === 'number' || c === 'none')
+  ) {
+    return undefined;
+  }
+
+  const channels = (
+    colorSpace === 'hsl' || colorSpace === 'hwb'
+      ? components.map((c, i) => (i > 0 && c !== 'none' ? `${c}%` : String(c)))
+      : components.map(String)
+  ).join(' ');
+  const suffix = typeof alpha === 'number' && alpha !== 1 ? ` / ${alpha}` : '';
+
+  if (PREDEFINED_COLOR_SPACES.has(colorSpace)) {
+    return `color(${colorSpace} ${channels}${suffix})`;
+  }
+  if (FUNCTIONAL_COLOR_SPACES.has(colorSpace)) {
+    return `${colorSpace}(${channels}${suffix})`;
+  }
+  return undefined;
+}
+
+/**
+ * Converts a DTCG font family to a CSS font family list
+ *
+ * @remarks
+ * Names in a list are quoted unless they are plain identifiers, such as
+ * generic families.
+ */
+function fromFontFamily(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (!Array.isArray(value) || value.length === 0 || !value.every((v) => typeof v === 'string')) {
+    return undefined;
+  }
+  return value.map((name) => (/^[a-z][\w-]*$/i.test(name) ? name : `"${name}"`)).join(', ');
+}
+
+/**
+ * Converts DTCG Bézier control points to a CSS easing
+ */
+function fromCubicBezier(value: unknown): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (!Array.isArray(value) || value.length !== 4 || !value.every((v) => typeof v === 'number')) {
+    return undefined;
+  }
+  return `cubic-bezier(${value.join(', ')})`;
+}
+
+/**
+ * Converts DTCG values to Livery values, resolving aliases in composite values
+ *
+ * @internal
+ */
+function createValueConverter(
+  tokens: ReadonlyMap<string, CollectedToken>
+): (type: string, value: unknown) => unknown {
+  const resolve = (value: unknown): unknown => {
+    const target = getAliasTarget(value);
+    return target === undefined ? value : followAlias(tokens, target)?.collected.token['$value'];
+  };
+
+  const fromShadowLayer = (value: unknown): ShadowLayer | undefined => {
+    if (!isPlainObject(value)) {
+      return undefined;
+    }
+    const x = fromMeasure(resolve(value['offsetX']));
+    const y = fromMeasure(resolve(value['offsetY']));
+    const blur = fromMeasure(resolve(value['blur']));
+    const spread = fromMeasure(resolve(value['spread']));
+    const color = fromColor(resolve(value['color']));
+    if (x === undefined || y === undefined) {
+      return undefined;
+    }
+    return {
+      x,
+      y,
+      ...(blur !== undefined && { blur }),
+      ...(spread !== undefined && { spread }),
+      ...(color !== undefined && { color }),
+      ...(value['inset'] === true && { inset: true }),
+    };
+  };
+
+  const convert = (type: string, raw: unknown): unknown => {
+    const value = resolve(raw);
+
+    switch (type) {
+      case 'color':
+        return fromColor(value);
+      case 'dimension':
+      case 'duration':
+        return fromMeasure(value);
+      case 'number':
+        return typeof value === 'number' ? value : undefined;
+      case 'fontFamily':
+        return fromFontFamily(value);
+      case 'fontWeight':
+        return typeof value === 'number' || typeof value === 'string' ? value : undefined;
+      case 'cubicBezier':
+        return fromCubicBezier(value);
+      case 'shadow': {
+        if (typeof value === 'string') {
+          return value;
+        }
+        const layers = (Array.isArray(value) ? value : [value]).map((layer) =>
+          fromShadowLayer(resolve(layer))
+        );
+        return layers.every((layer) => layer !== undefined) ? formatShadow(layers) : undefined;
+      }
+      case 'transition': {
+        if (!isPlainObject(value)) {
+          return undefined;
+        }
+        const duration = fromMeasure(resolve(value['duration']));
+        const easing = fromCubicBezier(resolve(value['timingFunction']));
+        const delay = fromMeasure(resolve(value['delay']));
+        if (duration === undefined || easing === undefined) {
+          return undefined;
+        }
+        return { duration, easing, ...(delay !== undefined && { delay }) };
+      }
+      case 'typography': {
+        if (!isPlainObject(value)) {
+          return undefined;
+        }
+        const fontFamily = fromFontFamily(resolve(value['fontFamily']));
+        const fontSize = fromMeasure(resolve(value['fontSize']));
+        if (fontFamily === undefined || fontSize === undefined) {
+          return undefined;
+        }
+        const fontWeight = resolve(value['fontWeight']);
+        const lineHeight = resolve(value['lineHeight']);
+        const letterSpacing = fromMeasure(resolve(value['letterSpacing']));
+        return {
+          fontFamily,
+          fontSize,
+          ...(fontWeight !== undefined && { fontWeight }),
+          ...(lineHeight !== undefined && {
+            lineHeight: typeof lineHeight === 'number' ? lineHeight : fromMeasure(lineHeight),
+          }),
+          ...(letterSpacing !== undefined && { letterSpacing }),
+        };
+      }
+      default:
+        return undefined;
+    }
+  };
+
+  return convert;
+}
+
+/**
+ * Livery token factories for each supported DTCG type
+ */
+const TOKEN_FACTORIES: Readonly<Record<string, () => ImportedTokenBuilder>> = {
+  color: t.color,
+  dimension: t.dimension,
+  number: t.number,
+  fontFamily: t.fontFamily,
+  fontWeight: t.fontWeight,
+  duration: t.duration,
+  cubicBezier: t.easing,
+  shadow: t.shadow,
+  transition: t.transition,
+  typography: t.typography,
+};
+
+/**
+ * Livery token types with a DTCG equivalent
+ */
+const DESIGN_TOKEN_TYPES: ReadonlySet<TokenType> = new Set<TokenType>([
+  'color',
+  'dimension',
+  'number',
+  'fontFamily',
+  'fontWeight',
+  'duration',
+  'easing',
+  'shadow',
+  'transition',
+  'typography',
+]);
+
+/**
+ * Converts a CSS easing to DTCG Bézier control points
+ *
+ * @returns The control points, or undefined for steps() and linear() easings
+ */
+function toCubicBezier(easing: string): number[] | undefined {
+  const result = validateEasing(easing);
+  if (!result.valid) {
+    return undefined;
+  }
+
+  const curve = EASING_CURVES.get(result.value);
+  if (curve) {
+    return [...curve];
+  }
+
+  const match = /^cubic-bezier\((.*)\)$/.exec(result.value);
+  return match ? (match[1] ?? '').split(',').map(Number) : undefined;
+}
+
+/**
+ * Converts a Livery value to a DTCG value
+ *
+ * @returns The DTCG type and value, or undefined for types without a DTCG equivalent
+ *
+ * @internal
+ */
+function toDesignTokenValue(
+  token: TokenDefinition,
+  value: unknown
+): { type: string; value: unknown } | undefined {
+  switch (token.type) {
+    case 'color':
+    case 'dimension':
+    case 'number':
+    case 'fontFamily':
+    case 'fontWeight':
+    case 'duration':
+      return { type: token.type, value };
+    case 'easing': {
+      const curve = toCubicBezier(String(value));
+      return curve && { type: 'cubicBezier', value: curve };
+    }
+    case 'shadow': {
+      const layers = parseShadow(String(value));
+      return (
+        layers && {
+          type: 'shadow',
+          value: layers.map((layer) => ({
+            color: layer.color ?? 'currentcolor',
+            offsetX: layer.x,
+            offsetY: layer.y,
+            blur: layer.blur ?? '0',
+            spread: layer.spread ?? '0',
+            ...(layer.inset && { inset: true }),
+          })),
+        }
+      );
+    }
+    case 'transition': {
+      const { duration, easing, delay = '0ms' } = value as Record<string, string>;
+      const curve = toCubicBezier(easing ?? '');
+      return curve && { type: 'transition', value: { duration, delay, timingFunction: curve } };
+    }
+    case 'typography':
+      return { type: 'typography', value: { ...(value as object) } };
+    default:
+      return undefined;
+  }
+}
+
+// ============================================================================
+// Import and Export
+// ============================================================================
+
+/**
+ * Options for fromDesignTokens function
+ *
+ * @public
+ */
+export interface FromDesignTokensOptions {
+  /** The DTCG document to import */
+  tokens: DesignTokenGroup;
+  /** Receives tokens that cannot be imported */
+  onWarning?: (warning: ValidationWarning) => void;
+}
+
+/**
+ * Result of fromDesignTokens function
+ *
+ * @public
+ */
+export interface DesignTokensImport {
+  /** Schema definition with a token for each imported design token */
+  definition: SchemaDefinition;
+  /** Theme data with the values of the imported tokens */
+  theme: Record<string, unknown>;
+}
+
+/**
+ * Imports a DTCG document as a schema definition and theme data
+ *
+ * @param opts - Options containing the DTCG document
+ * @returns The schema definition and theme data
+ *
+ * @remarks
+ * Supported types are color, dimension, number, fontFamily, fontWeight,
+ * duration, cubicBezier (imported as easing), shadow, transition and
+ * typography. Aliases become reference tokens, and aliases inside composite
+ * values are replaced with the values they point at. `$description` and
+ * `$deprecated` are kept on the tokens.
+ *
+ * Tokens with other types, without a type, or with values that cannot be
+ * converted are skipped and reported via onWarning, as are aliases to them.
+ * So are tokens and groups named `__proto__`, `constructor` or `prototype`.
+ * The theme is not validated; pass it to validate or coerce for that.
+ *
+ * @example
+ * ```ts
+ * const { definition, theme } = fromDesignTokens({
+ *   tokens: {
+ *     colors: {
+ *       $type: 'color',
+ *       primary: { $value: '#3b82f6' },
+ *       link: { $value: '{colors.primary}' },
+ *     },
+ *   },
+ *   onWarning: (warning) => console.warn(warning.path, warning.message),
+ * });
+ *
+ * const schema = createSchema({ definition });
+ * ```
+ *
+ * @public
+ */
+export function fromDesignTokens(opts: FromDesignTokensOptions): DesignTokensImport {
+  const { tokens: document, onWarning } = opts;
+  const tokens = new Map<string, CollectedToken>();
+
+  const collect = (group: Record<string, unknown>, prefix: string, type: string | undefined) => {
+    const groupType = typeof group['$type'] === 'string' ? group['$type'] : type;
+
+    for (const [key, value] of Object.entries(group)) {
+      if (key.startsWith('$') || !isPlainObject(value)) {
+        continue;
+      }
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (isUnsafeKey(key)) {
+        onWarning?.({ path, message: `Unsupported name "${key}"`, received: value });
+        continue;
+      }
+      if ('$value' in value) {
+        const ownType = value['$type'];
+        tokens.set(path, {
+          type: typeof ownType === 'string' ? ownType : groupType,
+          token: value,
+        });
+      } else {
+        collect(value, path, groupType);
+      }
+    }
+  };
+  collect(document, '', undefined);
+
+  const convert = createValueConverter(tokens);
+  const definition: Record<string, unknown> = {};
+  const theme: Record<string, unknown> = {};
+  const imported = new Set<string>();
+  const aliases: Array<[string, CollectedToken, string]> = [];
+
+  const createToken = (path: string, collected: CollectedToken, builder: ImportedTokenBuilder) => {
+    const { $description, $deprecated } = collected.token;
+    const described = typeof $description === 'string' ? builder.describe($description) : builder;
+    let token: TokenDefinition = described;
+
+    if ($deprecated === true || typeof $deprecated === 'string') {
+      if (described.deprecated) {
+        token = described.deprecated(
+          typeof $deprecated === 'string' ? { reason: $deprecated } : {}
+        );
+      } else {
+        onWarning?.({
+          path,
+          message: 'Unsupported deprecation: aliases cannot be deprecated',
+          received: $deprecated,
+        });
+      }
+    }
+    assignAtPath(definition, path, token);
+  };
+
+  for (const [path, collected] of tokens) {
+    const raw = collected.token['$value'];
+    const target = getAliasTarget(raw);
+    if (target !== undefined) {
+      aliases.push([path, collected, target]);
+      continue;
+    }
+
+    const { type } = collected;
+    const factory = type === undefined ? undefined : TOKEN_FACTORIES[type];
+    if (type === undefined || !factory) {
+      onWarning?.({
+        path,
+        message: type === undefined ? 'Missing token type' : `Unsupported token type "${type}"`,
+        received: raw,
+      });
+      continue;
+    }
+
+    const value = convert(type, raw);
+    if (value === undefined) {
+      onWarning?.({ path, message: `Unsupported ${type} value`, received: raw });
+      continue;
+    }
+
+    createToken(path, collected, factory());
+    assignAtPath(theme, path, value);
+    imported.add(path);
+  }
+
+  for (const [path, collected, target] of aliases) {
+    const resolved = followAlias(tokens, target);
+    if (!resolved || !imported.has(resolved.path)) {
+      onWarning?.({
+        path,
+        message: `Unsupported alias: "${target}" is not an imported token`,
+        received: collected.token['$value'],
+      });
+      continue;
+    }
+    createToken(path, collected, t.reference(target));
+  }
+
+  return { definition: definition as SchemaDefinition, theme };
+}
+
+/**
+ * Options for toDesignTokens function
+ *
+ * @typeParam T - The type of the schema definition
+ *
+ * @public
+ */
+export interface ToDesignTokensOptions<T extends SchemaDefinition> {
+  /** The schema describing the tokens */
+  schema: Schema<T>;
+  /** The resolved theme data */
+  theme: InferTheme<T>;
+  /** Receives tokens that cannot be exported */
+  onWarning?: (warning: ValidationWarning) => void;
+}
+
+/**
+ * Exports a theme as a DTCG document
+ *
+ * @param opts - Options containing the schema and the resolved theme
+ * @returns A DTCG document with a token for each token in the schema
+ *
+ * @remarks
+ * Groups and token paths are kept. Tokens get `$type`, `$value` and, when set,
+ * `$description` and `$deprecated`. Reference tokens become aliases, unless the
+ * theme overrides them with a value of their own, which is exported instead. Easings
+ * are exported as cubicBezier control points, and shadows as shadow objects.
+ * Dimensions and durations are written as CSS strings (e.g., "16px").
+ *
+ * Tokens without a DTCG type (string, boolean, enum, url, asset, gradient and
+ * scale), easings and shadows that cannot be represented, and references to
+ * such tokens are skipped and reported via onWarning. Optional tokens without
+ * a value are omitted.
+ *
+ * @example
+ * ```ts
+ * const tokens = toDesignTokens({ schema, theme });
+ * await writeFile('tokens.json', JSON.stringify(tokens, null, 2));
+ * ```
+ *
+ * @public
+ */
+export function toDesignTokens<T extends SchemaDefinition>(
+  opts: ToDesignTokensOptions<T>
+): DesignTokenGroup {
+  const { schema, theme, onWarning } = opts;
+  const root = getSchemaDefinition(schema);
+  const document: Record<string, unknown> = {};
+
+  const exportGroup = (group: SchemaDefinition, prefix: string) => {
+    for (const [key, value] of Object.entries(group)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+
+      if (isSchemaDefinition(value)) {
+        assignAtPath(document, path, {});
+        exportGroup(value, path);
+        continue;
+      }
+      if (!isTokenDefinition(value)) {
+        continue;
+      }
+
+      let token = value as TokenDefinition;
+      const metadata = {
+        ...(token.description !== undefined && { $description: token.description }),
+        ...(token.deprecation && { $deprecated: token.deprecation.reason ?? true }),
+      };
+      const current = getAtPath(theme, path);
+
+      if (token.type === 'reference') {
+        const referenced = getReferencedToken(root, token, path);
+        if (!referenced.ok || !DESIGN_TOKEN_TYPES.has(referenced.value.type)) {
+          onWarning?.({
+            path,
+            message: `Unsupported reference: "${token.target}" has no design token type`,
+            received: token.target,
+          });
+          continue;
+        }
+        if (current === undefined || deepEqual(current, getAtPath(theme, token.target))) {
+          assignAtPath(document, path, { $value: `{${token.target}}`, ...metadata });
+          continue;
+        }
+        // The theme overrides the reference, so its own value is exported
+        token = referenced.value;
+      }
+
+      if (current === undefined) {
+        continue;
+      }
+
+      const converted = toDesignTokenValue(token, current);
+      if (!converted) {
+        onWarning?.({
+          path,
+          message: DESIGN_TOKEN_TYPES.has(token.type)
+            ? `Unsupported ${token.type} value`
+            : `Unsupported token type "${token.type}"`,
+          received: current,
+        });
+        continue;
+      }
+      assignAtPath(document, path, { $type: converted.type, $value: converted.value, ...metadata });
+    }
+  };
+  exportGroup(root, '');
+
+  return document as DesignTokenGroup;
+}
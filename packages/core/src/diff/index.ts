@@ -0,0 +1,122 @@
+/**
+ * Theme diffing
+ *
+ * Compares two themes of a schema token by token and by generated CSS
+ * variables, so theme changes can be reviewed before they are published.
+ */
+
+import type {
+  Schema,
+  SchemaDefinition,
+  InferTheme,
+  CssVariableOptions,
+  CssVariablesDiff,
+  ThemeDiff,
+  TokenAdded,
+  TokenRemoved,
+  TokenChanged,
+} from '../types/index.js';
+import { getSchemaDefinition, getTokenPaths } from '../schema/index.js';
+import { toCssVariables } from '../css/index.js';
+import { deepEqual, getAtPath } from '../internal/utils.js';
+
+/**
+ * Compares the CSS variables generated for two themes
+ *
+ * @internal
+ */
+function diffCssVariables(
+  before: Readonly<Record<string, string>>,
+  after: Readonly<Record<string, string>>
+): CssVariablesDiff {
+  const added: { name: string; newValue: string }[] = [];
+  const removed: { name: string; oldValue: string }[] = [];
+  const changed: { name: string; oldValue: string; newValue: string }[] = [];
+
+  for (const [name, oldValue] of Object.entries(before)) {
+    const newValue = after[name];
+    if (newValue === undefined) {
+      removed.push({ name, oldValue });
+    } else if (newValue !== oldValue) {
+      changed.push({ name, oldValue, newValue });
+    }
+  }
+  for (const [name, newValue] of Object.entries(after)) {
+    if (!(name in before)) {
+      added.push({ name, newValue });
+    }
+  }
+
+  return { added, removed, changed };
+}
+
+/**
+ * Options for diffThemes function
+ *
+ * @typeParam T - The type of the schema definition
+ */
+export interface DiffThemesOptions<T extends SchemaDefinition> {
+  /** The schema of both themes */
+  schema: Schema<T>;
+  /** The resolved theme before the change */
+  before: InferTheme<T>;
+  /** The resolved theme after the change */
+  after: InferTheme<T>;
+  /** CSS variable configuration, as passed to toCssVariables */
+  cssOptions?: CssVariableOptions;
+}
+
+/**
+ * Compares two themes of a schema
+ *
+ * @param opts - Options containing the schema and the themes to compare
+ * @returns The added, removed and changed tokens, and the changed CSS variables
+ *
+ * @remarks
+ * Tokens are compared in schema order. A token is added or removed when it
+ * only has a value in one of the themes, as optional tokens may, and changed
+ * when its values differ; composite values are compared structurally.
+ *
+ * The CSS variable diff compares the output of toCssVariables for both
+ * themes, so it also covers derived and reference tokens as they are emitted.
+ *
+ * @example
+ * ```ts
+ * const diff = diffThemes({ schema, before: publishedTheme, after: draftTheme });
+ *
+ * for (const { path, oldValue, newValue } of diff.changed) {
+ *   console.log(`${path}: ${oldValue} -> ${newValue}`);
+ * }
+ * // colors.primary: #3b82f6 -> #2563eb
+ *
+ * diff.cssVariables.changed;
+ * // [{ name: '--colors-primary', oldValue: '#3b82f6', newValue: '#2563eb' }]
+ * ```
+ */
+export function diffThemes<T extends SchemaDefinition>(opts: DiffThemesOptions<T>): ThemeDiff<T> {
+  const { schema, before, after, cssOptions } = opts;
+  const added: TokenAdded<T>[] = [];
+  const removed: TokenRemoved<T>[] = [];
+  const changed: TokenChanged<T>[] = [];
+
+  for (const path of getTokenPaths({ definition: getSchemaDefinition(schema) })) {
+    const oldValue = getAtPath(before, path);
+    const newValue = getAtPath(after, path);
+
+    if (oldValue === undefined && newValue !== undefined) {
+      added.push({ path, newValue } as TokenAdded<T>);
+    } else if (oldValue !== undefined && newValue === undefined) {
+      removed.push({ path, oldValue } as TokenRemoved<T>);
+    } else if (!deepEqual(oldValue, newValue)) {
+      changed.push({ path, oldValue, newValue } as TokenChanged<T>);
+    }
+  }
+
+  const options = cssOptions && { options: cssOptions };
+  const cssVariables = diffCssVariables(
+    toCssVariables({ schema, theme: before, ...options }),
+    toCssVariables({ schema, theme: after, ...options })
+  );
+
+  return { added, removed, changed, cssVariables };
+}
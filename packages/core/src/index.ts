@@ -10,6 +10,9 @@ export type {
   // Token types
   TokenType,
   TokenDefinition,
+  TokenDeprecation,
+  TokenMetadata,
+  TokenEditor,
   ColorToken,
   DimensionToken,
   NumberToken,
@@ -18,10 +21,43 @@ export type {
   FontFamilyToken,
   FontWeightToken,
   ShadowToken,
+  ShadowLayer,
   UrlToken,
+  AssetToken,
+  EnumToken,
+  DurationToken,
+  EasingToken,
+  TransitionToken,
+  TransitionValue,
+  GradientToken,
+  TypographyToken,
+  TypographyValue,
+  ScaleToken,
+  ScaleValue,
+  ScaleDefinition,
+  ReferenceToken,
+  // Token constraint types
+  TokenConstraints,
+  NumberConstraints,
+  DimensionConstraints,
+  StringConstraints,
+  FontWeightConstraints,
+  AssetConstraints,
+  ScaleConstraints,
   // Schema types
   SchemaDefinition,
   Schema,
+  DerivedTokens,
+  DeriveFunction,
+  ContrastRule,
+  ContrastLevel,
+  ThemeMigration,
+  TokenMetadataEntry,
+  SchemaPath,
+  MergeDefinitions,
+  MergeSchemaDefinitions,
+  PickDefinition,
+  OmitDefinition,
   // Inference types
   InferTheme,
   ThemePath,
@@ -29,16 +65,37 @@ export type {
   // Validation types
   ValidationResult,
   ValidationError,
+  ValidationErrorCode,
+  ValidationErrorParams,
+  ValidationIssue,
+  ValidationWarning,
   ValidationMode,
+  UnknownKeysMode,
   // Resolver types
   ThemeResolver,
   CacheConfig,
   // CSS types
   CssVariableOptions,
+  // Theme diff types
+  ThemeDiff,
+  TokenAdded,
+  TokenRemoved,
+  TokenChanged,
+  CssVariablesDiff,
 } from './types/index.js';
 
 // Schema
 export { createSchema, type CreateSchemaOptions } from './schema/index.js';
+export { migrateTheme, type MigrateThemeOptions } from './schema/migrations.js';
+export {
+  extendSchema,
+  mergeSchemas,
+  pickSchema,
+  omitSchema,
+  type ExtendSchemaOptions,
+  type MergeSchemasOptions,
+  type SelectSchemaOptions,
+} from './schema/compose.js';
 
 // Token builders
 export { t } from './schema/tokens.js';
@@ -52,6 +109,26 @@ export { validate, validatePartial, coerce, type ValidateOptions } from './valid
 // CSS escaping (security)
 export { escapeCssValue, needsCssEscaping } from './validation/css-escape.js';
 
+// Color utilities
+export {
+  parseColor,
+  formatColor,
+  convertColor,
+  lighten,
+  darken,
+  saturate,
+  mix,
+  alpha,
+  invert,
+  luminance,
+  contrastRatio,
+  type RgbaColor,
+  type ColorFormat,
+} from './color/index.js';
+
+// Shadow utilities
+export { parseShadow } from './validation/validators.js';
+
 // CSS utilities
 export {
   toCssVariables,
@@ -66,13 +143,39 @@ export {
   type CreateCssVarHelperOptions,
 } from './css/index.js';
 
+// JSON Schema utilities
+export { toJsonSchema, type ToJsonSchemaOptions, type JsonSchema } from './json-schema/index.js';
+
+// Design Tokens (DTCG) utilities
+export {
+  fromDesignTokens,
+  toDesignTokens,
+  type DesignToken,
+  type DesignTokenGroup,
+  type DesignTokensImport,
+  type FromDesignTokensOptions,
+  type ToDesignTokensOptions,
+} from './design-tokens/index.js';
+
+// Theme diff utilities
+export { diffThemes, type DiffThemesOptions } from './diff/index.js';
+
+// Tokens Studio utilities
+export {
+  importTokensStudio,
+  type ImportTokensStudioOptions,
+  type TokensStudioTheme,
+} from './tokens-studio/index.js';
+
 // Utility exports
 export {
   getTokenPaths,
   getTokenAtPath,
+  getSchemaMetadata,
   isTokenDefinition,
   isSchemaDefinition,
   isSchema,
   type GetTokenPathsOptions,
   type GetTokenAtPathOptions,
+  type GetSchemaMetadataOptions,
 } from './schema/index.js';
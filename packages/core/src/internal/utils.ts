@@ -68,6 +68,81 @@ export function deepMerge<T extends Record<string, unknown>>(target: T, source:
   return result;
 }
 
+/**
+ * Checks if two values are deeply equal
+ *
+ * @param a - The first value
+ * @param b - The second value
+ * @returns True if both values are equal primitives, or arrays or objects with equal entries
+ *
+ * @remarks
+ * Compares plain objects and arrays recursively, ignoring key order. Other objects are compared by identity.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true;
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => deepEqual(item, b[index]))
+    );
+  }
+
+  if (!isPlainObject(a) || !isPlainObject(b)) {
+    return false;
+  }
+
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && deepEqual(a[key], b[key]))
+  );
+}
+
+/**
+ * Splits a string on a separator, ignoring separators inside parentheses
+ *
+ * @param value - The string to split
+ * @param separator - Matches a single separator character (e.g., /,/ or /\s/)
+ * @returns The trimmed parts, or undefined if parentheses are unbalanced
+ *
+ * @example
+ * ```ts
+ * splitTopLevel('rgb(0, 0, 0) 10%, red', /,/); // ['rgb(0, 0, 0) 10%', 'red']
+ * ```
+ */
+export function splitTopLevel(value: string, separator: RegExp): string[] | undefined {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index]!;
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+      if (depth < 0) {
+        return undefined;
+      }
+    } else if (depth === 0 && separator.test(char)) {
+      parts.push(value.slice(start, index).trim());
+      start = index + 1;
+    }
+  }
+
+  if (depth !== 0) {
+    return undefined;
+  }
+
+  parts.push(value.slice(start).trim());
+  return parts;
+}
+
 /**
  * Gets a value at a dot-notation path
  *
@@ -96,6 +171,37 @@ export function getAtPath<T>(obj: unknown, path: string): T | undefined {
   return current as T;
 }
 
+/**
+ * Path segments that would reach an object's prototype when assigned to
+ *
+ * @internal
+ */
+const UNSAFE_KEYS: ReadonlySet<string> = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Checks if a key would reach an object's prototype, such as `__proto__`
+ *
+ * @param key - The key to check
+ * @returns True if the key must not be used as a property name
+ */
+export function isUnsafeKey(key: string): boolean {
+  return UNSAFE_KEYS.has(key);
+}
+
+/**
+ * Splits a dot-notation path for assignment, refusing prototype segments
+ *
+ * @internal
+ */
+function splitAssignablePath(path: string): string[] {
+  const parts = path.split('.');
+  const unsafe = parts.find(isUnsafeKey);
+  if (unsafe !== undefined) {
+    throw new Error(`Invalid path "${path}": "${unsafe}" is not allowed as a key`);
+  }
+  return parts;
+}
+
 /**
  * Sets a value at a dot-notation path (immutably)
  *
@@ -108,6 +214,8 @@ export function getAtPath<T>(obj: unknown, path: string): T | undefined {
  * @remarks
  * Creates a new object; does not mutate the input. Creates intermediate objects as needed.
  *
+ * @throws Error if a path segment is `__proto__`, `constructor` or `prototype`
+ *
  * @example
  * ```ts
  * const obj = { colors: {} };
@@ -120,7 +228,7 @@ export function setAtPath<T extends Record<string, unknown>>(
   path: string,
   value: unknown
 ): T {
-  const parts = path.split('.');
+  const parts = splitAssignablePath(path);
   const result = deepClone(obj);
 
   let current: Record<string, unknown> = result;
@@ -140,6 +248,34 @@ export function setAtPath<T extends Record<string, unknown>>(
   return result;
 }
 
+/**
+ * Sets a value at a dot-notation path (mutably)
+ *
+ * @param obj - The object to update in place
+ * @param path - Dot-notation path (e.g., "colors.primary")
+ * @param value - The value to set
+ *
+ * @remarks
+ * Mutating counterpart of {@link setAtPath} for objects owned by the caller.
+ * Creates intermediate objects as needed.
+ *
+ * @throws Error if a path segment is `__proto__`, `constructor` or `prototype`
+ */
+export function assignAtPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = splitAssignablePath(path);
+  const last = parts.pop()!;
+  let current = obj;
+
+  for (const part of parts) {
+    if (typeof current[part] !== 'object' || current[part] === null) {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+
+  current[last] = value;
+}
+
 /**
  * Converts a path to kebab-case CSS variable format
  *
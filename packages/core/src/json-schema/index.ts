@@ -0,0 +1,420 @@
+/**
+ * JSON Schema generation
+ *
+ * Exports a schema as a JSON Schema (draft 2020-12), so services that are not
+ * written in TypeScript can check theme data with the same rules as validate.
+ */
+
+import type {
+  Schema,
+  SchemaDefinition,
+  TokenDefinition,
+  DimensionConstraints,
+  FontWeightConstraints,
+  StringConstraints,
+} from '../types/index.js';
+import { getSchemaDefinition, isTokenDefinition, isSchemaDefinition } from '../schema/index.js';
+import {
+  DANGEROUS_DATA_MIMES,
+  DIMENSION_UNITS,
+  FONT_WEIGHT_KEYWORDS,
+} from '../validation/validators.js';
+import { getReferencedToken } from '../validation/references.js';
+
+/**
+ * A JSON Schema document or subschema
+ *
+ * @public
+ */
+export type JsonSchema = { [keyword: string]: unknown };
+
+/**
+ * Dialect URI of the generated schemas
+ */
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Unsigned decimal number, as accepted by the validators
+ */
+const UNSIGNED_NUMBER = String.raw`(?:\d+\.?\d*|\.\d+)`;
+
+/**
+ * Builds a pattern matching a word in any case
+ *
+ * @remarks
+ * JSON Schema patterns have no flags, so case-insensitive keywords are spelled out.
+ */
+function anyCase(word: string): string {
+  return [...word]
+    .map((char) =>
+      char.toLowerCase() === char.toUpperCase()
+        ? char
+        : `[${char.toLowerCase()}${char.toUpperCase()}]`
+    )
+    .join('');
+}
+
+/**
+ * Builds a pattern matching one of the alternatives, ignoring surrounding whitespace
+ */
+function trimmedPattern(alternatives: readonly string[]): string {
+  return String.raw`^\s*(?:${alternatives.join('|')})\s*$`;
+}
+
+/**
+ * Pattern of CSS values without characters that could end a declaration or
+ * inject markup: `;`, braces, angle brackets, backslashes and control characters
+ */
+const CSS_VALUE_PATTERN = String.raw`^[^;{}<>\\\x00-\x1f\x7f]+$`;
+
+/**
+ * Pattern of URLs with a protocol validateUrl allows, or relative to the page
+ *
+ * @remarks
+ * Data URLs with a MIME type that could run scripts are excluded.
+ */
+const SAFE_URL_PATTERN = String.raw`^\s*(?:[/#]|\.\.?/|${anyCase('http')}[sS]?:|${anyCase('data')}:(?![^;,]*(?:${DANGEROUS_DATA_MIMES.map(anyCase).join('|')})))`;
+
+/**
+ * Pattern of asset URLs, which also exclude backslashes and control characters
+ */
+const SAFE_ASSET_PATTERN = String.raw`${SAFE_URL_PATTERN}[^\\\x00-\x1f\x7f]*$`;
+
+/**
+ * Builds the schema of a string checked by a Livery validator
+ *
+ * @param format - Name of the `livery-*` format
+ * @param pattern - Pattern enforcing the security-relevant part of the validator
+ *
+ * @remarks
+ * Grammars such as CSS colors cannot be expressed as patterns. Their values
+ * carry a `livery-*` format, which validators can implement to assert them.
+ * Validators ignore unknown formats by default, so the pattern still rejects
+ * values that would be unsafe to emit, such as `javascript:` URLs.
+ */
+function formatSchema(format: string, pattern: string = CSS_VALUE_PATTERN): JsonSchema {
+  return { type: 'string', pattern, format: `livery-${format}` };
+}
+
+/**
+ * Builds the schema of a dimension
+ */
+function dimensionSchema(constraints?: DimensionConstraints): JsonSchema {
+  const units = constraints?.units ?? DIMENSION_UNITS;
+  const { min, max } = constraints ?? {};
+
+  return {
+    type: 'string',
+    pattern: trimmedPattern(['0', `-?${UNSIGNED_NUMBER}(?:${units.join('|')})`]),
+    // Bounds compare across units, which patterns cannot express
+    ...((min !== undefined || max !== undefined) && {
+      'x-livery-constraints': {
+        ...(min !== undefined && { min }),
+        ...(max !== undefined && { max }),
+      },
+    }),
+  };
+}
+
+/**
+ * Builds the schema of a time in ms or s
+ */
+function timeSchema(allowNegative: boolean): JsonSchema {
+  const sign = allowNegative ? '-?' : '';
+  return {
+    type: 'string',
+    pattern: trimmedPattern([`${sign}${UNSIGNED_NUMBER}(?:${anyCase('ms')}|${anyCase('s')})`]),
+  };
+}
+
+/**
+ * Builds the schema of a string token
+ *
+ * @remarks
+ * Patterns with flags that change matching (i, m, s) cannot be expressed and
+ * are kept as an `x-livery-pattern` annotation instead.
+ */
+function stringSchema(constraints?: StringConstraints): JsonSchema {
+  const pattern = constraints?.pattern;
+
+  return {
+    type: 'string',
+    ...(constraints?.oneOf && { enum: [...constraints.oneOf] }),
+    ...(pattern &&
+      (/[ims]/.test(pattern.flags)
+        ? { 'x-livery-pattern': String(pattern) }
+        : { pattern: pattern.source })),
+  };
+}
+
+/**
+ * Builds the schema of a font weight
+ */
+function fontWeightSchema(constraints?: FontWeightConstraints): JsonSchema {
+  const keywords = [...FONT_WEIGHT_KEYWORDS].map(anyCase);
+
+  return {
+    anyOf: [
+      { type: 'number', minimum: constraints?.min ?? 1, maximum: constraints?.max ?? 1000 },
+      {
+        type: 'string',
+        pattern: trimmedPattern([...keywords, `${UNSIGNED_NUMBER}(?:[eE][+-]?\\d+)?`]),
+        format: 'livery-font-weight',
+      },
+    ],
+    ...(constraints && { 'x-livery-constraints': { ...constraints } }),
+  };
+}
+
+/**
+ * Builds the schema of a typography value
+ */
+function typographySchema(): JsonSchema {
+  const normal = anyCase('normal');
+
+  return {
+    type: 'object',
+    properties: {
+      fontFamily: { type: 'string', pattern: String.raw`\S` },
+      fontSize: dimensionSchema(),
+      fontWeight: fontWeightSchema(),
+      lineHeight: {
+        anyOf: [
+          { type: 'number', minimum: 0 },
+          dimensionSchema(),
+          { type: 'string', pattern: trimmedPattern([normal]) },
+        ],
+      },
+      letterSpacing: {
+        anyOf: [dimensionSchema(), { type: 'string', pattern: trimmedPattern([normal]) }],
+      },
+    },
+    required: ['fontFamily', 'fontSize'],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Builds the schema of a scale with the given steps
+ */
+function scaleSchema(steps: readonly string[]): JsonSchema {
+  return {
+    anyOf: [
+      { type: 'array', items: dimensionSchema(), minItems: steps.length, maxItems: steps.length },
+      {
+        type: 'object',
+        properties: {
+          base: dimensionSchema(),
+          ratio: { type: 'number', exclusiveMinimum: 0 },
+          baseStep: { enum: [...steps] },
+        },
+        required: ['base', 'ratio'],
+        additionalProperties: false,
+      },
+      {
+        type: 'object',
+        properties: Object.fromEntries(steps.map((step) => [step, dimensionSchema()])),
+        required: [...steps],
+        additionalProperties: false,
+      },
+    ],
+  };
+}
+
+/**
+ * Builds the schema of the values accepted by a token in strict mode
+ *
+ * @param definition - The root schema definition (used to follow references)
+ * @param token - The token definition
+ * @param path - Path of the token
+ * @returns The value schema, annotated with the token type
+ *
+ * @remarks
+ * Reference tokens accept the values of the token they point at. Circular
+ * references accept no value.
+ *
+ * @internal
+ */
+function tokenValueSchema(
+  definition: SchemaDefinition,
+  token: TokenDefinition,
+  path: string
+): JsonSchema {
+  if (token.type === 'reference') {
+    const referenced = getReferencedToken(definition, token, path);
+    return {
+      ...(referenced.ok ? tokenValueSchema(definition, referenced.value, path) : { not: {} }),
+      'x-livery-reference': token.target,
+    };
+  }
+
+  const schema = ((): JsonSchema => {
+    switch (token.type) {
+      case 'color':
+        return formatSchema('color');
+      case 'dimension':
+        return dimensionSchema(token.constraints);
+      case 'number':
+        return {
+          type: 'number',
+          ...(token.constraints?.min !== undefined && { minimum: token.constraints.min }),
+          ...(token.constraints?.max !== undefined && { maximum: token.constraints.max }),
+        };
+      case 'string':
+        return stringSchema(token.constraints);
+      case 'boolean':
+        return { type: 'boolean' };
+      case 'fontFamily':
+        return { type: 'string', pattern: String.raw`\S` };
+      case 'fontWeight':
+        return fontWeightSchema(token.constraints);
+      case 'shadow':
+        return formatSchema('shadow');
+      case 'url':
+        return formatSchema('url', SAFE_URL_PATTERN);
+      case 'asset':
+        return {
+          ...formatSchema('asset', SAFE_ASSET_PATTERN),
+          ...(token.constraints && { 'x-livery-constraints': { ...token.constraints } }),
+        };
+      case 'enum':
+        return { enum: [...token.values] };
+      case 'duration':
+        return timeSchema(false);
+      case 'easing':
+        return formatSchema('easing');
+      case 'transition':
+        return {
+          type: 'object',
+          properties: {
+            duration: timeSchema(false),
+            easing: formatSchema('easing'),
+            delay: timeSchema(true),
+          },
+          required: ['duration', 'easing'],
+          additionalProperties: false,
+        };
+      case 'gradient':
+        return formatSchema('gradient');
+      case 'typography':
+        return typographySchema();
+      case 'scale':
+        return scaleSchema(token.steps);
+    }
+  })();
+
+  return { ...schema, 'x-livery-type': token.type };
+}
+
+/**
+ * Builds the object schema of a group
+ *
+ * @param root - The root schema definition
+ * @param group - The group definition
+ * @param derived - Paths of derived tokens
+ * @param prefix - Path of the group
+ * @returns The object schema of the group
+ *
+ * @internal
+ */
+function groupSchema(
+  root: SchemaDefinition,
+  group: SchemaDefinition,
+  derived: ReadonlySet<string>,
+  prefix: string = ''
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+
+  for (const [key, value] of Object.entries(group)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (isTokenDefinition(value)) {
+      const token = value as TokenDefinition;
+      properties[key] = {
+        ...tokenValueSchema(root, token, path),
+        ...(token.description !== undefined && { description: token.description }),
+        ...(token.defaultValue !== undefined && { default: token.defaultValue }),
+        ...(token.deprecation && { deprecated: true }),
+      };
+
+      // Mirrors the missing value rules of validate
+      if (
+        token.type !== 'reference' &&
+        token.defaultValue === undefined &&
+        !token.isOptional &&
+        !derived.has(path)
+      ) {
+        required.push(key);
+      }
+    } else if (isSchemaDefinition(value)) {
+      const nested = groupSchema(root, value, derived, path);
+      properties[key] = nested;
+      if (Array.isArray(nested['required'])) {
+        required.push(key);
+      }
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+/**
+ * Options for toJsonSchema function
+ *
+ * @typeParam T - The type of the schema definition
+ *
+ * @public
+ */
+export interface ToJsonSchemaOptions<T extends SchemaDefinition> {
+  /** The schema to export */
+  schema: Schema<T>;
+}
+
+/**
+ * Exports a schema as a JSON Schema (draft 2020-12)
+ *
+ * @param opts - Options containing the schema to export
+ * @returns A JSON Schema document describing valid theme data
+ *
+ * @remarks
+ * The document mirrors validate in strict mode:
+ * - Nested groups become objects; unknown properties are allowed, as validate ignores them
+ * - Tokens without a default that are not optional, derived or references are required
+ * - Defaults, descriptions and deprecations are included as annotations
+ * - Each token is annotated with its type as `x-livery-type`
+ *
+ * Dimensions, durations, font families, numbers, strings, enums and the shape
+ * of transitions, typography and scales are checked with standard keywords.
+ * Colors, shadows, URLs, assets, easings and gradients carry a `livery-*`
+ * format (e.g., `livery-color`), and bounds that compare across units are kept
+ * as `x-livery-constraints` annotations. Contrast rules are not exported.
+ *
+ * Only the types checked with standard keywords are enforced as validate
+ * enforces them. For colors, shadows, easings and gradients the patterns only
+ * reject characters that are unsafe in CSS, and for URLs and assets they only
+ * enforce safe protocols, so values such as `notacolor` pass unless the
+ * `livery-*` formats are implemented and asserted by the JSON Schema validator.
+ *
+ * @example
+ * ```ts
+ * const jsonSchema = toJsonSchema({ schema });
+ * await writeFile('theme.schema.json', JSON.stringify(jsonSchema, null, 2));
+ * ```
+ *
+ * @public
+ */
+export function toJsonSchema<T extends SchemaDefinition>(opts: ToJsonSchemaOptions<T>): JsonSchema {
+  const { schema } = opts;
+  const definition = getSchemaDefinition(schema);
+  const derived = new Set(Object.keys(schema.derived ?? {}));
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    ...groupSchema(definition, definition, derived),
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Derived token evaluation
+ *
+ * Derived tokens are computed from other theme values. They are evaluated
+ * lazily: reading a derived token from inside another derive function computes
+ * it first, so functions run in dependency order without an explicit graph.
+ */
+
+import type { Schema, SchemaDefinition, ValidationError } from '../types/index.js';
+import {
+  getSchemaDefinition,
+  getTokenAtPath,
+  isSchemaDefinition,
+  isTokenDefinition,
+} from '../schema/index.js';
+import { assignAtPath, getAtPath } from '../internal/utils.js';
+
+/**
+ * Thrown when a derived token (indirectly) depends on itself
+ *
+ * @internal
+ */
+class CircularDerivationError extends Error {
+  constructor(readonly chain: readonly string[]) {
+    super(`circular dependency: ${chain.join(' -> ')}`);
+    this.name = 'CircularDerivationError';
+  }
+}
+
+/**
+ * Gets the schema node (token or group) at a dot-notation path
+ *
+ * @internal
+ */
+function getDefinitionNode(definition: SchemaDefinition, path: string): unknown {
+  return path ? getAtPath(definition, path) : definition;
+}
+
+/**
+ * Evaluates derived tokens for theme data
+ *
+ * @param schema - The schema declaring derived tokens
+ * @param data - Validated theme data, with defaults applied (mutated in place)
+ * @returns Errors for derived tokens that could not be computed
+ *
+ * @remarks
+ * Only tokens without a value are computed, so tenants can still override a
+ * derived token explicitly. Reading a reference token without a value follows
+ * it to its target. Circular dependencies and exceptions thrown by derive
+ * functions are reported as validation errors.
+ *
+ * @internal
+ */
+export function applyDerivedTokens(
+  schema: Schema,
+  data: Record<string, unknown>
+): ValidationError[] {
+  const derived = schema.derived;
+  if (!derived) {
+    return [];
+  }
+
+  const definition = getSchemaDefinition(schema);
+  const errors: ValidationError[] = [];
+  const pending = new Set(
+    Object.keys(derived).filter((path) => getAtPath(data, path) === undefined)
+  );
+  const stack: string[] = [];
+
+  /**
+   * Creates a read-only view of a group that resolves values on access
+   */
+  function createView(path: string): Record<string, unknown> {
+    const childPath = (key: string) => (path ? `${path}.${key}` : key);
+    const keys = () => {
+      const node = getDefinitionNode(definition, path) as SchemaDefinition;
+      const value = getAtPath<Record<string, unknown>>(data, path);
+      return [...new Set([...Object.keys(node), ...Object.keys(value ?? {})])];
+    };
+
+    return new Proxy({} as Record<string, unknown>, {
+      get: (_, key) => (typeof key === 'string' ? read(childPath(key)) : undefined),
+      has: (_, key) => typeof key === 'string' && keys().includes(key),
+      ownKeys: () => keys(),
+      getOwnPropertyDescriptor: (_, key) =>
+        typeof key === 'string' && keys().includes(key)
+          ? { enumerable: true, configurable: true, value: read(childPath(key)) }
+          : undefined,
+    });
+  }
+
+  /**
+   * Reads a value, computing derived tokens and following references as needed
+   */
+  function read(path: string): unknown {
+    if (stack.includes(path)) {
+      throw new CircularDerivationError([...stack, path]);
+    }
+
+    if (pending.has(path)) {
+      return compute(path);
+    }
+
+    const node = getDefinitionNode(definition, path);
+    const value = getAtPath(data, path);
+
+    if (value === undefined) {
+      const token = getTokenAtPath({ definition, path });
+      if (token?.type === 'reference') {
+        stack.push(path);
+        try {
+          return read(token.target);
+        } finally {
+          stack.pop();
+        }
+      }
+    }
+
+    if (isSchemaDefinition(node)) {
+      return createView(path);
+    }
+
+    return value;
+  }
+
+  /**
+   * Computes a pending derived token and stores its value
+   */
+  function compute(path: string): unknown {
+    const derive = derived![path] as (theme: unknown) => unknown;
+
+    stack.push(path);
+    try {
+      const value = derive(createView(''));
+      pending.delete(path);
+      if (value !== undefined) {
+        assignAtPath(data, path, value);
+      }
+      return value;
+    } finally {
+      stack.pop();
+    }
+  }
+
+  for (const path of Object.keys(derived)) {
+    if (!pending.has(path)) {
+      continue;
+    }
+
+    try {
+      compute(path);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+
+      errors.push({
+        path,
+        ...(error instanceof CircularDerivationError
+          ? { code: 'derived.circular', params: { chain: error.chain }, message: reason }
+          : {
+              code: 'derived.failed',
+              params: { reason },
+              message: `failed to derive value: ${reason}`,
+            }),
+        expected: getTokenAtPath({ definition, path })!.type,
+        received: undefined,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Finds the tokens and groups a derive function reads
+ *
+ * @param definition - The schema definition the function reads from
+ * @param derive - The derive function
+ * @returns Paths of the tokens and groups read while computing the value from defaults
+ *
+ * @remarks
+ * The function is run once on a view of the schema defaults, and the paths it
+ * reads are recorded, including reads made before it throws. Reads made only
+ * for other values, such as in a branch not taken for the defaults, are missed.
+ *
+ * @internal
+ */
+export function findDerivedDependencies(
+  definition: SchemaDefinition,
+  derive: (theme: never) => unknown
+): string[] {
+  const reads = new Set<string>();
+
+  const createView = (path: string): Record<string, unknown> =>
+    new Proxy({} as Record<string, unknown>, {
+      get: (_, key) => {
+        if (typeof key !== 'string') {
+          return undefined;
+        }
+        const childPath = path ? `${path}.${key}` : key;
+        const node = getDefinitionNode(definition, childPath);
+        if (isSchemaDefinition(node)) {
+          reads.add(childPath);
+          return createView(childPath);
+        }
+        if (isTokenDefinition(node)) {
+          reads.add(childPath);
+          return node.defaultValue;
+        }
+        return undefined;
+      },
+    });
+
+  try {
+    derive(createView('') as never);
+  } catch {
+    // Defaults may not be enough to compute the value; the reads so far are kept
+  }
+
+  return [...reads];
+}
@@ -11,10 +11,14 @@ import type {
   ThemeResolver,
   CacheConfig,
   TokenDefinition,
+  ValidationWarning,
 } from '../types/index.js';
 import { getSchemaDefinition, isTokenDefinition, isSchemaDefinition } from '../schema/index.js';
-import { coerce } from '../validation/index.js';
-import { deepMerge, getAtPath, createLRUCache } from '../internal/utils.js';
+import { migrateTheme } from '../schema/migrations.js';
+import { coerceMigrated } from '../validation/index.js';
+import { migrateLegacyPaths } from '../validation/deprecations.js';
+import { isModularScale } from '../validation/validators.js';
+import { deepMerge, getAtPath, createLRUCache, isPlainObject } from '../internal/utils.js';
 
 /**
  * Options for createResolver function
@@ -30,6 +34,12 @@ export interface CreateResolverOptions<T extends SchemaDefinition> {
   fetcher: (params: { themeId: string }) => Promise<Partial<InferTheme<T>>> | Partial<InferTheme<T>>;
   /** Optional cache configuration */
   cache?: CacheConfig;
+  /**
+   * Called for each non-fatal validation issue found while resolving a theme
+   *
+   * Only called when theme data is fetched, not when it is served from the cache.
+   */
+  onWarning?: (params: { themeId: string; warning: ValidationWarning }) => void;
 }
 
 /**
@@ -42,12 +52,19 @@ export interface CreateResolverOptions<T extends SchemaDefinition> {
 interface CacheEntry<T> {
   /** The cached theme data */
   data: T;
+  /** The fetched data merged over the parent theme's, before defaults and derived tokens */
+  source: Record<string, unknown>;
   /** Timestamp when the entry was cached (milliseconds since epoch) */
   timestamp: number;
   /** Flag indicating if background revalidation is in progress */
   isRevalidating?: boolean;
 }
 
+/**
+ * Key under which theme data declares its parent theme
+ */
+const PARENT_KEY = '$extends';
+
 /**
  * Default cache configuration
  */
@@ -75,7 +92,8 @@ function buildDefaults(definition: SchemaDefinition): Record<string, unknown> {
   for (const [key, value] of Object.entries(definition)) {
     if (isTokenDefinition(value)) {
       const token = value as TokenDefinition;
-      if (token.defaultValue !== undefined) {
+      // Left to validation, so the default is not mistaken for a legacy value in use
+      if (token.defaultValue !== undefined && !token.deprecation) {
         defaults[key] = token.defaultValue;
       }
     } else if (isSchemaDefinition(value)) {
@@ -89,6 +107,85 @@ function buildDefaults(definition: SchemaDefinition): Record<string, unknown> {
   return defaults;
 }
 
+/**
+ * Merges theme data over other theme data or defaults
+ *
+ * @param definition - The schema definition of the data
+ * @param target - The data to merge over
+ * @param source - The data to merge in (takes precedence)
+ * @returns A new merged object
+ *
+ * @remarks
+ * Scales of the same form are merged, so a theme can override only the ratio of a
+ * modular scale or some steps of a scale. A modular scale and an object of steps
+ * cannot be combined, so a scale of the other form replaces the target scale.
+ *
+ * @internal
+ */
+function mergeThemeData(
+  definition: SchemaDefinition,
+  target: Record<string, unknown>,
+  source: Record<string, unknown>
+): Record<string, unknown> {
+  return deepMerge(withoutReplacedScales(definition, target, source), source);
+}
+
+/**
+ * Removes the scales of the target that the source overrides with a scale of another form
+ *
+ * @internal
+ */
+function withoutReplacedScales(
+  definition: SchemaDefinition,
+  target: Record<string, unknown>,
+  source: Record<string, unknown>
+): Record<string, unknown> {
+  const result = { ...target };
+
+  for (const [key, node] of Object.entries(definition)) {
+    const targetValue = target[key];
+    const sourceValue = source[key];
+    if (!isPlainObject(targetValue) || !isPlainObject(sourceValue)) {
+      continue;
+    }
+
+    if (isTokenDefinition(node)) {
+      if (
+        (node as TokenDefinition).type === 'scale' &&
+        isModularScale(targetValue) !== isModularScale(sourceValue)
+      ) {
+        delete result[key];
+      }
+    } else if (isSchemaDefinition(node)) {
+      result[key] = withoutReplacedScales(node, targetValue, sourceValue);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Reads the parent theme declared in fetched theme data
+ *
+ * @param themeId - The theme ID the data was fetched for
+ * @param data - The fetched theme data
+ * @returns The parent theme ID, or undefined for themes without a parent
+ * @throws {Error} If the declared parent is not a non-empty string
+ *
+ * @internal
+ */
+function getParentThemeId(themeId: string, data: unknown): string | undefined {
+  const parent = isPlainObject(data) ? data[PARENT_KEY] : undefined;
+
+  if (parent !== undefined && (typeof parent !== 'string' || parent === '')) {
+    throw new Error(
+      `Invalid theme data for theme "${themeId}": ${PARENT_KEY} must be a theme ID, got ${JSON.stringify(parent)}`
+    );
+  }
+
+  return parent;
+}
+
 /**
  * Creates a theme resolver with caching support
  *
@@ -99,8 +196,13 @@ function buildDefaults(definition: SchemaDefinition): Record<string, unknown> {
  * @remarks
  * The resolver:
  * - Fetches theme data using the provided fetcher function
+ * - Merges theme data over the data of the parent theme declared as `$extends`, recursively
+ * - Upgrades data stored for earlier schema versions with the schema migrations
+ * - Moves values at deprecated token paths and schema aliases to their replacements
  * - Merges fetched data with schema defaults
+ * - Computes derived tokens declared on the schema
  * - Validates and coerces the merged data
+ * - Checks contrast rules, reporting warning-severity failures via onWarning
  * - Caches resolved themes with configurable TTL
  * - Supports stale-while-revalidate for better performance
  *
@@ -125,6 +227,9 @@ function buildDefaults(definition: SchemaDefinition): Record<string, unknown> {
  *
  * // Invalidate cache for a theme
  * resolver.invalidate({ themeId: 'theme-123' });
+ *
+ * // Themes can extend a parent theme, overriding only some of its values
+ * // fetcher({ themeId: 'acme-dark' }) -> { $extends: 'acme', colors: { background: '#000' } }
  * ```
  *
  * @public
@@ -132,7 +237,7 @@ function buildDefaults(definition: SchemaDefinition): Record<string, unknown> {
 export function createResolver<T extends SchemaDefinition>(
   opts: CreateResolverOptions<T>
 ): ThemeResolver<T> {
-  const { schema, fetcher, cache: cacheOpts } = opts;
+  const { schema, fetcher, cache: cacheOpts, onWarning } = opts;
   const definition = getSchemaDefinition(schema);
   const defaults = buildDefaults(definition) as InferTheme<T>;
 
@@ -142,6 +247,8 @@ export function createResolver<T extends SchemaDefinition>(
   };
 
   const cacheStore = createLRUCache<string, CacheEntry<InferTheme<T>>>(cacheConfig.maxSize);
+  // Themes that extend each theme, so invalidating a parent reaches its descendants
+  const childThemes = new Map<string, Set<string>>();
 
   /**
    * Checks if a cache entry is stale
@@ -159,29 +266,80 @@ export function createResolver<T extends SchemaDefinition>(
    * Fetches and processes theme data
    *
    * @param themeId - The theme ID to fetch theme data for
-   * @returns Promise resolving to validated and coerced theme data
-   * @throws {Error} If the fetched data fails validation
+   * @param chain - IDs of the themes that extend this theme, outermost first
+   * @returns Promise resolving to a cache entry with validated and coerced theme data
+   * @throws {Error} If the parent theme is missing or circular, or the fetched data cannot
+   * be migrated or fails validation
    *
    * @remarks
    * This function:
    * 1. Calls the user-provided fetcher function
-   * 2. Merges fetched data with schema defaults
-   * 3. Validates and coerces the merged data
-   * 4. Throws if validation fails
+   * 2. Resolves the parent theme declared as `$extends`, using the cache
+   * 3. Runs schema migrations on data stored for an earlier schema version
+   * 4. Moves values at deprecated paths to their replacements, reporting warnings via onWarning
+   * 5. Merges fetched data over the parent's data, then over schema defaults
+   * 6. Validates and coerces the merged data, computing derived tokens that have no value
+   *    and reporting warnings via onWarning
+   * 7. Throws if resolving the parent, migration, derivation or validation fails
+   *
+   * Derived tokens are computed from the merged data rather than inherited, so
+   * they follow the values a theme overrides.
    *
    * @internal
    */
-  async function fetchThemeData(themeId: string): Promise<InferTheme<T>> {
+  async function fetchThemeData(
+    themeId: string,
+    chain: readonly string[] = []
+  ): Promise<CacheEntry<InferTheme<T>>> {
     const rawData = await fetcher({ themeId });
 
-    // Merge with defaults
-    const merged = deepMerge(
-      defaults as Record<string, unknown>,
-      rawData as Record<string, unknown>
-    );
+    const child = chain[chain.length - 1];
+    if (child !== undefined && rawData == null) {
+      throw new Error(
+        `Invalid theme data for theme "${child}": parent theme "${themeId}" not found`
+      );
+    }
+
+    // Resolve the parent first, so its data is merged beneath this theme's
+    let inherited: Record<string, unknown> = {};
+    const parent = getParentThemeId(themeId, rawData);
+    if (parent !== undefined) {
+      const path = [...chain, themeId];
+      if (path.includes(parent)) {
+        throw new Error(
+          `Invalid theme data for theme "${themeId}": circular ${PARENT_KEY} chain ${[...path.slice(path.indexOf(parent)), parent].join(' -> ')}`
+        );
+      }
+      inherited = (await resolveEntry(parent, path)).source;
+    }
+
+    // Upgrade data stored for earlier schema versions
+    let data: unknown = rawData;
+    if (schema.version !== undefined) {
+      try {
+        data = migrateTheme({ schema, data: rawData });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Invalid theme data for theme "${themeId}": ${message}`);
+      }
+    }
+
+    // Move and report legacy values once, before defaults fill in their replacements
+    const migration = migrateLegacyPaths(schema, data);
+    migration.warnings.forEach((warning) => onWarning?.({ themeId, warning }));
+
+    // Merge over the parent's data, then with defaults
+    const own = { ...(migration.data as Record<string, unknown>) };
+    delete own[PARENT_KEY];
+    const source = mergeThemeData(definition, inherited, own);
+    const merged = mergeThemeData(definition, defaults as Record<string, unknown>, source);
 
-    // Validate and coerce
-    const result = coerce({ schema, data: merged });
+    // Validate and coerce, computing derived tokens
+    const result = coerceMigrated({
+      schema,
+      data: merged,
+      onWarning: (warning) => onWarning?.({ themeId, warning }),
+    });
 
     if (!result.success) {
       throw new Error(
@@ -191,7 +349,46 @@ export function createResolver<T extends SchemaDefinition>(
       );
     }
 
-    return result.data;
+    if (parent !== undefined) {
+      const children = childThemes.get(parent) ?? new Set<string>();
+      childThemes.set(parent, children.add(themeId));
+    }
+
+    return { data: result.data, source, timestamp: Date.now() };
+  }
+
+  /**
+   * Resolves the cache entry of a theme, using the cache if available
+   *
+   * @param themeId - The theme ID to resolve
+   * @param chain - IDs of the themes that extend this theme, outermost first
+   * @returns Promise resolving to the cache entry of the theme
+   *
+   * @internal
+   */
+  async function resolveEntry(
+    themeId: string,
+    chain: readonly string[] = []
+  ): Promise<CacheEntry<InferTheme<T>>> {
+    const cached = cacheStore.get(themeId);
+
+    if (cached) {
+      if (!isStale(cached)) {
+        return cached;
+      }
+
+      // Return stale data while revalidating in background
+      if (cacheConfig.staleWhileRevalidate) {
+        revalidateInBackground(themeId, cached);
+        return cached;
+      }
+    }
+
+    // Fetch fresh data
+    const entry = await fetchThemeData(themeId, chain);
+    cacheStore.set(themeId, entry);
+
+    return entry;
   }
 
   /**
@@ -215,11 +412,8 @@ export function createResolver<T extends SchemaDefinition>(
     entry.isRevalidating = true;
 
     fetchThemeData(themeId)
-      .then((data) => {
-        cacheStore.set(themeId, {
-          data,
-          timestamp: Date.now(),
-        });
+      .then((fresh) => {
+        cacheStore.set(themeId, fresh);
       })
       .catch(() => {
         // Silently fail background revalidation
@@ -232,37 +426,27 @@ export function createResolver<T extends SchemaDefinition>(
 
   return {
     async resolve({ themeId }: { themeId: string }): Promise<InferTheme<T>> {
-      const cached = cacheStore.get(themeId);
+      return (await resolveEntry(themeId)).data;
+    },
 
-      if (cached) {
-        if (!isStale(cached)) {
-          return cached.data;
-        }
+    invalidate({ themeId }: { themeId: string }): void {
+      const pending = [themeId];
+      const invalidated = new Set<string>();
 
-        // Return stale data while revalidating in background
-        if (cacheConfig.staleWhileRevalidate) {
-          revalidateInBackground(themeId, cached);
-          return cached.data;
+      // Descendants merge over the parent's data, so they are invalidated too
+      for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+        if (!invalidated.has(id)) {
+          invalidated.add(id);
+          cacheStore.delete(id);
+          pending.push(...(childThemes.get(id) ?? []));
+          childThemes.delete(id);
         }
       }
-
-      // Fetch fresh data
-      const data = await fetchThemeData(themeId);
-
-      cacheStore.set(themeId, {
-        data,
-        timestamp: Date.now(),
-      });
-
-      return data;
-    },
-
-    invalidate({ themeId }: { themeId: string }): void {
-      cacheStore.delete(themeId);
     },
 
     clearCache(): void {
       cacheStore.clear();
+      childThemes.clear();
     },
 
     async get<P extends ThemePath<T>>({ themeId, path }: { themeId: string; path: P }): Promise<PathValue<T, P>> {
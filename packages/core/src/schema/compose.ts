@@ -0,0 +1,426 @@
+/**
+ * Schema composition
+ *
+ * Builds new schemas from existing ones, so a base design-system schema can be
+ * shared by product-specific schemas. Composed schemas are validated like
+ * schemas created with createSchema.
+ */
+
+import type {
+  Schema,
+  SchemaDefinition,
+  TokenDefinition,
+  DerivedTokens,
+  ContrastRule,
+  ThemeMigration,
+  ThemePath,
+  SchemaPath,
+  MergeDefinitions,
+  MergeSchemaDefinitions,
+  PickDefinition,
+  OmitDefinition,
+} from '../types/index.js';
+import {
+  createSchema,
+  getSchemaDefinition,
+  getTokenPaths,
+  isSchemaDefinition,
+  isTokenDefinition,
+  type CreateSchemaOptions,
+} from './index.js';
+import { findDerivedDependencies } from '../resolver/derived.js';
+
+/**
+ * Schema options other than the definition, as stored on a schema
+ *
+ * @internal
+ */
+interface SchemaExtras {
+  derived?: Readonly<Record<string, (theme: never) => unknown>>;
+  contrast?: readonly ContrastRule[];
+  aliases?: Readonly<Record<string, string>>;
+  version?: number;
+  migrations?: Readonly<Record<number, ThemeMigration>>;
+}
+
+/**
+ * Creates a schema from a composed definition and options
+ *
+ * @internal
+ */
+function buildSchema<T extends SchemaDefinition>(definition: T, extras: SchemaExtras): Schema<T> {
+  return createSchema({ definition, ...extras } as CreateSchemaOptions<T>);
+}
+
+/**
+ * Combines the derived tokens, contrast rules and aliases of several schemas
+ *
+ * @internal
+ */
+function combineExtras(sources: readonly SchemaExtras[]): SchemaExtras {
+  const derived = sources.reduce<Record<string, (theme: never) => unknown>>(
+    (all, source) => ({ ...all, ...source.derived }),
+    {}
+  );
+  const contrast = sources.flatMap((source) => source.contrast ?? []);
+  const aliases = sources.reduce<Record<string, string>>(
+    (all, source) => ({ ...all, ...source.aliases }),
+    {}
+  );
+
+  return {
+    ...(Object.keys(derived).length > 0 && { derived }),
+    ...(contrast.length > 0 && { contrast }),
+    ...(Object.keys(aliases).length > 0 && { aliases }),
+  };
+}
+
+/**
+ * Deeply merges two schema definitions, with tokens of the second replacing those of the first
+ *
+ * @param base - The definition to merge into
+ * @param override - The definition whose tokens take precedence
+ * @param path - The current path (for error messages)
+ * @returns A new merged definition
+ * @throws {Error} If a path is a token in one definition and a group in the other,
+ * or holds tokens of different types
+ *
+ * @internal
+ */
+function mergeDefinitions(
+  base: SchemaDefinition,
+  override: SchemaDefinition,
+  path: string = ''
+): SchemaDefinition {
+  const merged: Record<string, TokenDefinition | SchemaDefinition> = { ...base };
+
+  for (const [key, value] of Object.entries(override)) {
+    const currentPath = path ? `${path}.${key}` : key;
+    const existing = merged[key];
+
+    if (existing === undefined) {
+      merged[key] = value;
+    } else if (isTokenDefinition(existing) && isTokenDefinition(value)) {
+      if (existing.type !== value.type) {
+        throw new Error(
+          `Conflicting token types at "${currentPath}": ${existing.type} and ${value.type}`
+        );
+      }
+      merged[key] = value;
+    } else if (isSchemaDefinition(existing) && isSchemaDefinition(value)) {
+      merged[key] = mergeDefinitions(existing, value, currentPath);
+    } else {
+      throw new Error(`Conflicting definitions at "${currentPath}": a token and a nested group`);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Checks if a path is a token or nested group of a definition
+ *
+ * @internal
+ */
+function hasSchemaPath(definition: SchemaDefinition, path: string): boolean {
+  let node: unknown = definition;
+  for (const part of path.split('.')) {
+    node = isSchemaDefinition(node) ? node[part] : undefined;
+  }
+  return isTokenDefinition(node) || isSchemaDefinition(node);
+}
+
+/**
+ * Checks that every path is a token or nested group of a definition
+ *
+ * @throws {Error} If a path does not exist in the definition
+ *
+ * @internal
+ */
+function assertSchemaPaths(definition: SchemaDefinition, paths: readonly string[]): void {
+  for (const path of paths) {
+    if (!hasSchemaPath(definition, path)) {
+      throw new Error(`Invalid path "${path}": not a token or group in the schema`);
+    }
+  }
+}
+
+/**
+ * Keeps or removes the tokens and nested groups at the given paths
+ *
+ * @param definition - The definition to filter
+ * @param paths - The selected paths
+ * @param keep - Whether to keep (pick) or remove (omit) the selected paths
+ * @param prefix - The current path
+ * @returns A new filtered definition; groups left empty are kept
+ *
+ * @internal
+ */
+function filterDefinition(
+  definition: SchemaDefinition,
+  paths: ReadonlySet<string>,
+  keep: boolean,
+  prefix: string = ''
+): SchemaDefinition {
+  const filtered: Record<string, TokenDefinition | SchemaDefinition> = {};
+
+  for (const [key, value] of Object.entries(definition)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (paths.has(path)) {
+      if (keep) {
+        filtered[key] = value;
+      }
+    } else if (isSchemaDefinition(value)) {
+      const nested = [...paths].some((selected) => selected.startsWith(`${path}.`));
+      if (nested) {
+        filtered[key] = filterDefinition(value, paths, keep, path);
+      } else if (!keep) {
+        filtered[key] = value;
+      }
+    } else if (!keep) {
+      filtered[key] = value;
+    }
+  }
+
+  return filtered;
+}
+
+/**
+ * Narrows the options of a schema to the tokens left in a filtered definition
+ *
+ * @remarks
+ * Derived tokens of removed tokens, and contrast rules and aliases that mention
+ * a removed token, are dropped. The version and migrations are kept, since
+ * stored data is unchanged.
+ *
+ * @throws {Error} If a kept derived token reads a removed token or group
+ *
+ * @internal
+ */
+function narrowExtras(schema: Schema, definition: SchemaDefinition): SchemaExtras {
+  const tokens = new Set(getTokenPaths({ definition }));
+  const { derived, contrast, aliases, version, migrations } = schema;
+  const keptDerived = Object.entries(derived ?? {}).filter(([path]) => tokens.has(path));
+
+  for (const [path, derive] of keptDerived) {
+    const removed = findDerivedDependencies(getSchemaDefinition(schema), derive).find(
+      (dependency) => !hasSchemaPath(definition, dependency)
+    );
+    if (removed !== undefined) {
+      throw new Error(`Invalid derived token "${path}": depends on removed "${removed}"`);
+    }
+  }
+
+  const narrowed: SchemaExtras = {
+    derived: Object.fromEntries(keptDerived),
+    contrast: (contrast ?? []).filter(
+      (rule) => tokens.has(rule.foreground) && tokens.has(rule.background)
+    ),
+    aliases: Object.fromEntries(
+      Object.entries(aliases ?? {}).filter(([, target]) => tokens.has(target))
+    ),
+  };
+
+  return {
+    ...combineExtras([narrowed]),
+    ...(version !== undefined && { version }),
+    ...(migrations && { migrations }),
+  };
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Options for extendSchema function
+ *
+ * @typeParam T - The type of the base schema definition
+ * @typeParam E - The type of the extension definition
+ * @typeParam D - The type of the additional derived token functions
+ */
+export interface ExtendSchemaOptions<
+  T extends SchemaDefinition,
+  E extends SchemaDefinition,
+  D extends DerivedTokens<MergeDefinitions<T, E>> = DerivedTokens<MergeDefinitions<T, E>>,
+> {
+  /** The schema to extend */
+  schema: Schema<T>;
+  /** Tokens and groups to add; tokens at existing paths replace the base tokens */
+  definition: E;
+  /** Additional derived tokens, replacing base derived tokens at the same path */
+  derived?: D;
+  /** Additional contrast rules */
+  contrast?: readonly ContrastRule<ThemePath<MergeDefinitions<T, E>>>[];
+  /** Additional aliases of removed tokens */
+  aliases?: Readonly<Record<string, ThemePath<MergeDefinitions<T, E>>>>;
+  /** Version of the extended schema (default: the base version) */
+  version?: number;
+  /** Additional migrations, replacing base migrations to the same version */
+  migrations?: Readonly<Record<number, ThemeMigration>>;
+}
+
+/**
+ * Creates a schema that adds tokens to an existing schema
+ *
+ * @param opts - The base schema, the definition to add and optional schema options
+ * @returns A new schema with the merged definition
+ * @throws {Error} If a token would change type, or a path would change between token and group
+ *
+ * @remarks
+ * The extended schema keeps the derived tokens, contrast rules, aliases,
+ * version and migrations of the base schema, combined with those given here.
+ * Tokens of the same type at an existing path replace the base token, e.g. to
+ * change its default.
+ *
+ * @example
+ * ```ts
+ * const marketing = extendSchema({
+ *   schema: base,
+ *   definition: {
+ *     colors: { highlight: t.color().default('#f97316') },
+ *     hero: { image: t.asset() },
+ *   },
+ * });
+ * ```
+ */
+export function extendSchema<
+  T extends SchemaDefinition,
+  E extends SchemaDefinition,
+  // Separate type parameter so derive functions are contextually typed from the merged definition
+  D extends DerivedTokens<MergeDefinitions<T, E>> = DerivedTokens<MergeDefinitions<T, E>>,
+>(opts: ExtendSchemaOptions<T, E, D>): Schema<MergeDefinitions<T, E>> {
+  const { schema, definition, version, migrations, ...extras } = opts;
+  const merged = mergeDefinitions(getSchemaDefinition(schema), definition);
+  const combinedMigrations = { ...schema.migrations, ...migrations };
+  const combinedVersion = version ?? schema.version;
+
+  return buildSchema(merged as MergeDefinitions<T, E>, {
+    ...combineExtras([schema, extras as SchemaExtras]),
+    ...(combinedVersion !== undefined && { version: combinedVersion }),
+    ...(Object.keys(combinedMigrations).length > 0 && { migrations: combinedMigrations }),
+  });
+}
+
+/**
+ * Options for mergeSchemas function
+ *
+ * @typeParam S - The tuple of schemas to merge
+ */
+export interface MergeSchemasOptions<S extends readonly Schema<SchemaDefinition>[]> {
+  /** The schemas to merge; tokens of later schemas replace those of earlier ones */
+  schemas: S;
+}
+
+/**
+ * Creates a schema combining the tokens of several schemas
+ *
+ * @param opts - The schemas to merge, from left to right
+ * @returns A new schema with the merged definition
+ * @throws {Error} If schemas disagree on a token type or on whether a path is a token or group,
+ * or more than one schema has a version
+ *
+ * @remarks
+ * Derived tokens, contrast rules and aliases of all schemas are combined. The
+ * version and migrations of a schema are kept when it is the only versioned one.
+ *
+ * @example
+ * ```ts
+ * const schema = mergeSchemas({ schemas: [colorSchema, typographySchema] });
+ * ```
+ */
+export function mergeSchemas<const S extends readonly Schema<SchemaDefinition>[]>(
+  opts: MergeSchemasOptions<S>
+): Schema<MergeSchemaDefinitions<S>> {
+  const { schemas } = opts;
+  const merged = schemas.reduce<SchemaDefinition>(
+    (definition, schema) => mergeDefinitions(definition, getSchemaDefinition(schema)),
+    {}
+  );
+
+  const versioned = schemas.filter((schema) => schema.version !== undefined);
+  if (versioned.length > 1) {
+    throw new Error(
+      'Conflicting schema versions: only one of the merged schemas may have a version'
+    );
+  }
+  const [{ version, migrations } = {}] = versioned;
+
+  return buildSchema(merged as MergeSchemaDefinitions<S>, {
+    ...combineExtras(schemas),
+    ...(version !== undefined && { version }),
+    ...(migrations && { migrations }),
+  });
+}
+
+/**
+ * Options for pickSchema and omitSchema functions
+ *
+ * @typeParam T - The type of the schema definition
+ * @typeParam P - The selected token and group paths
+ */
+export interface SelectSchemaOptions<T extends SchemaDefinition, P extends SchemaPath<T>> {
+  /** The schema to select tokens from */
+  schema: Schema<T>;
+  /** Dot-notation paths of tokens or nested groups */
+  paths: readonly P[];
+}
+
+/**
+ * Creates a schema with only the tokens and groups at the given paths
+ *
+ * @param opts - The schema and the paths to keep
+ * @returns A new schema with the selected part of the definition
+ * @throws {Error} If a path does not exist, or a kept token references, derives from or is
+ * replaced by a removed one
+ *
+ * @remarks
+ * Derived tokens of removed tokens, and contrast rules and aliases that mention a
+ * removed token, are dropped. Dependencies of derived tokens are found by running
+ * each derive function once on the schema defaults.
+ *
+ * @example
+ * ```ts
+ * const emailSchema = pickSchema({ schema, paths: ['colors', 'typography.body'] });
+ * ```
+ */
+export function pickSchema<T extends SchemaDefinition, const P extends SchemaPath<T>>(
+  opts: SelectSchemaOptions<T, P>
+): Schema<PickDefinition<T, P>> {
+  const { schema, paths } = opts;
+  const definition = getSchemaDefinition(schema);
+  assertSchemaPaths(definition, paths);
+
+  const picked = filterDefinition(definition, new Set<string>(paths), true);
+  return buildSchema(picked as PickDefinition<T, P>, narrowExtras(schema, picked));
+}
+
+/**
+ * Creates a schema without the tokens and groups at the given paths
+ *
+ * @param opts - The schema and the paths to remove
+ * @returns A new schema without the removed part of the definition
+ * @throws {Error} If a path does not exist, or a kept token references, derives from or is
+ * replaced by a removed one
+ *
+ * @remarks
+ * Derived tokens of removed tokens, and contrast rules and aliases that mention a
+ * removed token, are dropped. Dependencies of derived tokens are found by running
+ * each derive function once on the schema defaults.
+ *
+ * @example
+ * ```ts
+ * const withoutMotion = omitSchema({ schema, paths: ['motion', 'colors.legacy'] });
+ * ```
+ */
+export function omitSchema<T extends SchemaDefinition, const P extends SchemaPath<T>>(
+  opts: SelectSchemaOptions<T, P>
+): Schema<OmitDefinition<T, P>> {
+  const { schema, paths } = opts;
+  const definition = getSchemaDefinition(schema);
+  assertSchemaPaths(definition, paths);
+
+  const kept = filterDefinition(definition, new Set<string>(paths), false);
+  return buildSchema(kept as OmitDefinition<T, P>, narrowExtras(schema, kept));
+}
@@ -2,7 +2,18 @@
  * Schema creation and management
  */
 
-import type { Schema, SchemaDefinition, TokenDefinition, TokenType } from '../types/index.js';
+import type {
+  Schema,
+  SchemaDefinition,
+  TokenDefinition,
+  TokenType,
+  DerivedTokens,
+  ContrastRule,
+  ThemePath,
+  ThemeMigration,
+  TokenMetadataEntry,
+} from '../types/index.js';
+import { CONTRAST_LEVELS } from '../validation/contrast.js';
 
 // =============================================================================
 // Schema Brand Symbol
@@ -23,6 +34,15 @@ const VALID_TOKEN_TYPES = new Set<TokenType>([
   'fontWeight',
   'shadow',
   'url',
+  'asset',
+  'enum',
+  'duration',
+  'easing',
+  'transition',
+  'gradient',
+  'typography',
+  'scale',
+  'reference',
 ]);
 
 /**
@@ -167,20 +187,261 @@ function validateSchemaDefinition(
   visited.delete(definition);
 }
 
+/**
+ * Validates that every reference token points at an existing token
+ *
+ * @param definition - The root schema definition
+ * @throws {Error} If a reference target does not exist or is a nested group
+ *
+ * @remarks
+ * Circular references are not rejected here; they are reported as validation
+ * errors when theme data is validated.
+ *
+ * @internal
+ */
+function validateReferenceTargets(definition: SchemaDefinition): void {
+  for (const path of getTokenPaths({ definition })) {
+    const token = getTokenAtPath({ definition, path });
+
+    if (token?.type !== 'reference') {
+      continue;
+    }
+
+    if (!getTokenAtPath({ definition, path: token.target })) {
+      throw new Error(
+        `Invalid reference at "${path}": target "${token.target}" is not a token in the schema`
+      );
+    }
+  }
+}
+
+/**
+ * Validates that every derived token function targets a token in the schema
+ *
+ * @param definition - The root schema definition
+ * @param derived - Derived token functions keyed by path
+ * @throws {Error} If a derived path is not a token or its value is not a function
+ *
+ * @internal
+ */
+function validateDerivedTokens(definition: SchemaDefinition, derived: object): void {
+  for (const [path, derive] of Object.entries(derived)) {
+    if (!getTokenAtPath({ definition, path })) {
+      throw new Error(`Invalid derived token "${path}": not a token in the schema`);
+    }
+
+    if (typeof derive !== 'function') {
+      throw new Error(`Invalid derived token "${path}": expected function, got ${typeof derive}`);
+    }
+  }
+}
+
+/**
+ * Checks if a token path resolves to a color token, following references
+ *
+ * @internal
+ */
+function isColorTokenPath(definition: SchemaDefinition, path: string): boolean {
+  const visited = new Set<string>();
+  let token = getTokenAtPath({ definition, path });
+
+  while (token?.type === 'reference' && !visited.has(token.target)) {
+    visited.add(token.target);
+    token = getTokenAtPath({ definition, path: token.target });
+  }
+
+  return token?.type === 'color';
+}
+
+/**
+ * Validates contrast rules against the schema definition
+ *
+ * @param definition - The root schema definition
+ * @param rules - The contrast rules to validate
+ * @throws {Error} If a rule targets a non-color token or has an invalid requirement
+ *
+ * @internal
+ */
+function validateContrastRules(definition: SchemaDefinition, rules: readonly ContrastRule[]): void {
+  for (const rule of rules) {
+    for (const path of [rule.foreground, rule.background]) {
+      if (!isColorTokenPath(definition, path)) {
+        throw new Error(`Invalid contrast rule: "${path}" is not a color token in the schema`);
+      }
+    }
+
+    if (
+      rule.level !== undefined &&
+      !Object.prototype.hasOwnProperty.call(CONTRAST_LEVELS, rule.level)
+    ) {
+      throw new Error(`Invalid contrast rule: unknown level "${rule.level}"`);
+    }
+
+    if (
+      rule.minRatio !== undefined &&
+      (typeof rule.minRatio !== 'number' || !(rule.minRatio >= 1 && rule.minRatio <= 21))
+    ) {
+      throw new Error(
+        `Invalid contrast rule: minRatio must be a number from 1 to 21, got ${String(rule.minRatio)}`
+      );
+    }
+
+    if (rule.severity !== undefined && rule.severity !== 'error' && rule.severity !== 'warning') {
+      throw new Error(`Invalid contrast rule: unknown severity "${String(rule.severity)}"`);
+    }
+  }
+}
+
+/**
+ * Returns the replacement path of a deprecated token, if any
+ *
+ * @internal
+ */
+function getReplacement(definition: SchemaDefinition, path: string): string | undefined {
+  return getTokenAtPath({ definition, path })?.deprecation?.replacedBy;
+}
+
+/**
+ * Validates the replacements of deprecated tokens and the schema aliases
+ *
+ * @param definition - The root schema definition
+ * @param aliases - Paths of removed tokens mapped to their replacements
+ * @throws {Error} If a replacement is missing or deprecated itself, or an alias is still a token
+ *
+ * @remarks
+ * Replacements must not be deprecated in favor of another token, so legacy
+ * values are moved in a single step.
+ *
+ * @internal
+ */
+function validateDeprecations(
+  definition: SchemaDefinition,
+  aliases: Readonly<Record<string, string>>
+): void {
+  const replacements: Array<[label: string, target: string]> = [];
+
+  for (const path of getTokenPaths({ definition })) {
+    const replacedBy = getReplacement(definition, path);
+    if (replacedBy !== undefined) {
+      replacements.push([`deprecated token "${path}"`, replacedBy]);
+    }
+  }
+
+  for (const [alias, target] of Object.entries(aliases)) {
+    if (getTokenAtPath({ definition, path: alias })) {
+      throw new Error(
+        `Invalid alias "${alias}": still a token in the schema, mark it with .deprecated() instead`
+      );
+    }
+    replacements.push([`alias "${alias}"`, target]);
+  }
+
+  for (const [label, target] of replacements) {
+    if (typeof target !== 'string' || !getTokenAtPath({ definition, path: target })) {
+      throw new Error(
+        `Invalid ${label}: replacement "${String(target)}" is not a token in the schema`
+      );
+    }
+    if (getReplacement(definition, target) !== undefined) {
+      throw new Error(`Invalid ${label}: replacement "${target}" is deprecated itself`);
+    }
+  }
+}
+
+/**
+ * Validates the schema version and its migrations
+ *
+ * @param version - The schema version
+ * @param migrations - Migrations keyed by the version they upgrade to
+ * @throws {Error} If the version is not a positive integer or the migration chain is invalid
+ *
+ * @remarks
+ * Migrations must form an unbroken chain ending at the schema version, so data
+ * of any supported version can be upgraded step by step.
+ *
+ * @internal
+ */
+function validateMigrations(version: number | undefined, migrations: object | undefined): void {
+  if (version === undefined) {
+    if (migrations !== undefined) {
+      throw new Error('Invalid migrations: a schema version is required');
+    }
+    return;
+  }
+
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`Invalid schema version: expected positive integer, got ${String(version)}`);
+  }
+
+  const targets = Object.keys(migrations ?? {}).map(Number);
+  for (const [key, migrate] of Object.entries(migrations ?? {})) {
+    const target = Number(key);
+    if (!Number.isInteger(target) || target < 2 || target > version) {
+      throw new Error(`Invalid migration "${key}": expected a version from 2 to ${version}`);
+    }
+    if (typeof migrate !== 'function') {
+      throw new Error(
+        `Invalid migration to version ${key}: expected function, got ${typeof migrate}`
+      );
+    }
+  }
+
+  for (let target = Math.min(...targets); target <= version; target++) {
+    if (!targets.includes(target)) {
+      throw new Error(`Invalid migrations: missing migration to version ${target}`);
+    }
+  }
+}
+
 /**
  * Options for createSchema function
  *
  * @typeParam T - The type of the schema definition
+ * @typeParam D - The type of the derived token functions
  */
-export interface CreateSchemaOptions<T extends SchemaDefinition> {
+export interface CreateSchemaOptions<
+  T extends SchemaDefinition,
+  D extends DerivedTokens<T> = DerivedTokens<T>,
+> {
   /** The schema definition containing tokens and nested groups */
   definition: T;
+  /**
+   * Tokens computed from other theme values, keyed by token path
+   *
+   * Evaluated by the resolver after defaults are merged, for tokens without a value.
+   */
+  derived?: D;
+  /**
+   * Minimum contrast between color tokens, checked by validate, coerce and the resolver
+   *
+   * Failures are reported as validation errors, or as warnings for rules with
+   * `severity: 'warning'`.
+   */
+  contrast?: readonly ContrastRule<ThemePath<T>>[];
+  /**
+   * Paths of removed tokens, mapped to the paths of the tokens that replace them
+   *
+   * Legacy values at these paths are moved to their replacement by coerce and the resolver.
+   */
+  aliases?: Readonly<Record<string, ThemePath<T>>>;
+  /**
+   * Version of the schema, a positive integer
+   *
+   * Theme data records the version it was written for as `$version`; data without one is version 1.
+   */
+  version?: number;
+  /**
+   * Migrations keyed by the version they upgrade theme data to (requires `version`)
+   *
+   * Run by migrateTheme and the resolver, from the version of the data up to the schema version.
+   */
+  migrations?: Readonly<Record<number, ThemeMigration>>;
 }
 
 /**
  * Creates a validated schema from a definition object
  *
- * @param opts - Options containing the schema definition
+ * @param opts - The schema definition, with optional derived tokens, contrast rules and migrations
  * @returns A validated Schema object
  *
  * @example
@@ -198,18 +459,76 @@ export interface CreateSchemaOptions<T extends SchemaDefinition> {
  *     },
  *   },
  * });
+ *
+ * // Derived tokens are computed from other values
+ * const withDerived = createSchema({
+ *   definition: {
+ *     spacing: { md: t.dimension().default('8px'), lg: t.dimension() },
+ *   },
+ *   derived: {
+ *     'spacing.lg': (theme) => `${parseFloat(theme.spacing.md) * 2}px`,
+ *   },
+ * });
+ *
+ * // Contrast rules catch unreadable color combinations
+ * const accessible = createSchema({
+ *   definition: {
+ *     colors: { text: t.color(), background: t.color() },
+ *   },
+ *   contrast: [{ foreground: 'colors.text', background: 'colors.background', level: 'AA' }],
+ * });
+ *
+ * // Renamed tokens keep accepting values stored under their old path
+ * const renamed = createSchema({
+ *   definition: {
+ *     colors: {
+ *       brand: t.color(),
+ *       primary: t.color().deprecated({ replacedBy: 'colors.brand' }),
+ *     },
+ *   },
+ *   aliases: { brandColor: 'colors.brand' },
+ * });
+ *
+ * // Migrations upgrade theme data stored for earlier versions
+ * const versioned = createSchema({
+ *   definition: { colors: { brand: t.color() } },
+ *   version: 2,
+ *   migrations: {
+ *     2: ({ primaryColor, ...data }) => ({ ...data, colors: { brand: primaryColor } }),
+ *   },
+ * });
  * ```
  */
-export function createSchema<T extends SchemaDefinition>(opts: CreateSchemaOptions<T>): Schema<T> {
-  const { definition } = opts;
+export function createSchema<
+  T extends SchemaDefinition,
+  // Separate type parameter so derive functions are contextually typed from the definition
+  D extends DerivedTokens<T> = DerivedTokens<T>,
+>(opts: CreateSchemaOptions<T, D>): Schema<T> {
+  const { definition, derived, contrast, aliases, version, migrations } = opts;
 
   // Validate the schema structure
   validateSchemaDefinition(definition);
+  validateReferenceTargets(definition);
+  if (derived) {
+    validateDerivedTokens(definition, derived);
+  }
+  if (contrast) {
+    validateContrastRules(definition, contrast);
+  }
+  validateDeprecations(definition, aliases ?? {});
+  validateMigrations(version, migrations);
 
   // Create the schema object with brand
   const schema = {
     [SCHEMA_BRAND]: true as const,
     definition,
+    ...(derived && { derived: Object.freeze({ ...derived }) }),
+    ...(contrast && {
+      contrast: Object.freeze(contrast.map((rule) => Object.freeze({ ...rule }))),
+    }),
+    ...(aliases && { aliases: Object.freeze({ ...aliases }) }),
+    ...(version !== undefined && { version }),
+    ...(migrations && { migrations: Object.freeze({ ...migrations }) }),
   };
 
   // Freeze to ensure immutability
@@ -286,6 +605,65 @@ export function getTokenPaths(opts: GetTokenPathsOptions): string[] {
   return paths;
 }
 
+/**
+ * Options for getSchemaMetadata function
+ */
+export interface GetSchemaMetadataOptions {
+  /** The schema to collect token metadata from */
+  schema: Schema;
+}
+
+/**
+ * Gets the UI metadata of all tokens in a schema
+ *
+ * @param opts - Options containing the schema
+ * @returns The tokens of the schema with their metadata, sorted by metadata order
+ *
+ * @remarks
+ * Collects every token with the metadata set with `.meta()`, so theme editors
+ * can be generated from the schema. Tokens are sorted by their `order`, and
+ * tokens without an order follow in schema order. Hidden tokens are included,
+ * so editors decide whether to skip them along with derived tokens.
+ *
+ * @example
+ * ```ts
+ * const schema = createSchema({
+ *   definition: {
+ *     colors: {
+ *       primary: t.color().meta({ label: 'Primary color', category: 'Brand', order: 1 }),
+ *       internal: t.color().meta({ hidden: true }),
+ *     },
+ *   },
+ * });
+ *
+ * getSchemaMetadata({ schema }).filter((entry) => !entry.metadata.hidden);
+ * // [{ path: 'colors.primary', token: { type: 'color', ... },
+ * //    metadata: { label: 'Primary color', category: 'Brand', order: 1 }, isDerived: false }]
+ * ```
+ */
+export function getSchemaMetadata(opts: GetSchemaMetadataOptions): TokenMetadataEntry[] {
+  const { schema } = opts;
+  const definition = getSchemaDefinition(schema);
+  const entries: TokenMetadataEntry[] = [];
+
+  for (const path of getTokenPaths({ definition })) {
+    const token = getTokenAtPath({ definition, path });
+    if (token) {
+      entries.push({
+        path,
+        token,
+        metadata: token.metadata ?? {},
+        isDerived: schema.derived !== undefined && path in schema.derived,
+      });
+    }
+  }
+
+  // Infinity - Infinity is NaN, which keeps tokens without an order in schema order
+  return entries.sort(
+    (a, b) => (a.metadata.order ?? Infinity) - (b.metadata.order ?? Infinity) || 0
+  );
+}
+
 /**
  * Options for getTokenAtPath function
  */
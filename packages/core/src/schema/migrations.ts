@@ -0,0 +1,128 @@
+/**
+ * Theme data migrations
+ *
+ * Stored theme data records the schema version it was written for as
+ * `$version`. Migrations declared on the schema upgrade older data one version
+ * at a time, so stored themes keep working without a database backfill.
+ */
+
+import type { Schema, SchemaDefinition } from '../types/index.js';
+import { deepClone, isPlainObject } from '../internal/utils.js';
+
+/**
+ * Key under which theme data records its schema version
+ */
+const VERSION_KEY = '$version';
+
+/**
+ * Reads the schema version recorded in theme data
+ *
+ * @param data - The theme data
+ * @returns The recorded version, or 1 for data without one
+ * @throws {Error} If the recorded version is not a positive integer
+ *
+ * @internal
+ */
+function getDataVersion(data: Record<string, unknown>): number {
+  const version = data[VERSION_KEY] ?? 1;
+
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(
+      `Cannot migrate theme data: ${VERSION_KEY} must be a positive integer, got ${JSON.stringify(version)}`
+    );
+  }
+
+  return version;
+}
+
+/**
+ * Options for migrateTheme function
+ *
+ * @typeParam T - The type of the schema definition
+ */
+export interface MigrateThemeOptions<T extends SchemaDefinition> {
+  /** The schema declaring the version and migrations */
+  schema: Schema<T>;
+  /** The stored theme data to upgrade (not mutated) */
+  data: unknown;
+}
+
+/**
+ * Upgrades theme data to the version of its schema
+ *
+ * @param options - Options containing the schema and the stored theme data
+ * @returns The data at the schema version, with `$version` set to it
+ * @throws {Error} If the data is not an object, its version is invalid or newer than the schema,
+ * or a migration fails
+ *
+ * @remarks
+ * Data without `$version` is treated as version 1. Migrations run in order,
+ * from the version after the data's up to the schema version. Data that is
+ * already current, or whose schema has no version, is returned unchanged.
+ * The result is not validated; pass it to validate or coerce for that.
+ *
+ * @example
+ * ```ts
+ * const schema = createSchema({
+ *   definition: { colors: { brand: t.color() } },
+ *   version: 2,
+ *   migrations: {
+ *     2: ({ primaryColor, ...data }) => ({ ...data, colors: { brand: primaryColor } }),
+ *   },
+ * });
+ *
+ * migrateTheme({ schema, data: { primaryColor: '#3b82f6' } });
+ * // { colors: { brand: '#3b82f6' }, $version: 2 }
+ * ```
+ */
+export function migrateTheme<T extends SchemaDefinition>(
+  options: MigrateThemeOptions<T>
+): Record<string, unknown> {
+  const { schema, data } = options;
+
+  if (!isPlainObject(data)) {
+    throw new Error(
+      `Cannot migrate theme data: expected a plain object, got ${data === null ? 'null' : Array.isArray(data) ? 'array' : typeof data}`
+    );
+  }
+
+  const { version: target, migrations = {} } = schema;
+  if (target === undefined) {
+    return data;
+  }
+
+  const version = getDataVersion(data);
+  if (version > target) {
+    throw new Error(
+      `Cannot migrate theme data: version ${version} is newer than the schema version ${target}`
+    );
+  }
+  if (version === target) {
+    return data;
+  }
+
+  let migrated = deepClone(data);
+  for (let next = version + 1; next <= target; next++) {
+    const migrate = migrations[next];
+    if (!migrate) {
+      throw new Error(`Cannot migrate theme data: no migration to version ${next}`);
+    }
+
+    let result: unknown;
+    try {
+      result = migrate(migrated);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot migrate theme data: migration to version ${next} failed: ${message}`);
+    }
+
+    if (!isPlainObject(result)) {
+      throw new Error(
+        `Cannot migrate theme data: migration to version ${next} returned ${typeof result}, expected object`
+      );
+    }
+    migrated = result;
+  }
+
+  return { ...migrated, [VERSION_KEY]: target };
+}
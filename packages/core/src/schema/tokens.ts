@@ -15,12 +15,56 @@ import type {
   FontWeightToken,
   ShadowToken,
   UrlToken,
+  AssetToken,
+  EnumToken,
+  DurationToken,
+  EasingToken,
+  TransitionToken,
+  TransitionValue,
+  GradientToken,
+  TypographyToken,
+  TypographyValue,
+  ScaleToken,
+  ScaleDefinition,
+  ReferenceToken,
+  TokenDeprecation,
+  TokenMetadata,
+  NumberConstraints,
+  DimensionConstraints,
+  StringConstraints,
+  FontWeightConstraints,
+  AssetConstraints,
 } from '../types/index.js';
+import { compareDimensions, DIMENSION_UNITS, validateDimension } from '../validation/validators.js';
 
 // =============================================================================
 // Token Builder Types
 // =============================================================================
 
+/**
+ * Builder of an optional token, returned by `.optional()` and `.deprecated()`
+ *
+ * @remarks
+ * Optional tokens are not reported missing by validation and are typed as
+ * `T | undefined` in the theme. Chained methods keep the token optional.
+ *
+ * @typeParam B - The builder type
+ *
+ * @public
+ */
+export type OptionalTokenBuilder<B> = {
+  readonly [K in keyof B as K extends 'optional' | 'deprecated' ? never : K]: B[K] extends (
+    ...args: infer A
+  ) => B
+    ? (...args: A) => OptionalTokenBuilder<B>
+    : B[K];
+} & {
+  readonly isOptional: true;
+  readonly deprecation?: TokenDeprecation;
+  optional(): OptionalTokenBuilder<B>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<B>;
+};
+
 /**
  * Builder for color tokens
  *
@@ -33,10 +77,18 @@ export interface ColorTokenBuilder {
   readonly defaultValue?: string;
   /** The description for this token */
   readonly description?: string;
+  /** The UI metadata for this token */
+  readonly metadata?: TokenMetadata;
   /** Set the default value */
   default(value: string): ColorTokenBuilder;
   /** Set the description */
   describe(text: string): ColorTokenBuilder;
+  /** Set UI metadata such as a label or category, merged with metadata set before */
+  meta(metadata: TokenMetadata): ColorTokenBuilder;
+  /** Allow the token to be left without a value */
+  optional(): OptionalTokenBuilder<ColorTokenBuilder>;
+  /** Mark the token as deprecated, which also makes it optional */
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<ColorTokenBuilder>;
 }
 
 /**
@@ -46,8 +98,19 @@ export interface DimensionTokenBuilder {
   readonly type: 'dimension';
   readonly defaultValue?: string;
   readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  readonly constraints?: DimensionConstraints;
   default(value: string): DimensionTokenBuilder;
   describe(text: string): DimensionTokenBuilder;
+  meta(metadata: TokenMetadata): DimensionTokenBuilder;
+  optional(): OptionalTokenBuilder<DimensionTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<DimensionTokenBuilder>;
+  /** Set the inclusive minimum (e.g., "4px"); absolute units and rem compare across units */
+  min(value: string): DimensionTokenBuilder;
+  /** Set the inclusive maximum (e.g., "4rem"); absolute units and rem compare across units */
+  max(value: string): DimensionTokenBuilder;
+  /** Restrict the allowed units (unitless 0 stays allowed) */
+  units(units: readonly string[]): DimensionTokenBuilder;
 }
 
 /**
@@ -57,8 +120,17 @@ export interface NumberTokenBuilder {
   readonly type: 'number';
   readonly defaultValue?: number;
   readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  readonly constraints?: NumberConstraints;
   default(value: number): NumberTokenBuilder;
   describe(text: string): NumberTokenBuilder;
+  meta(metadata: TokenMetadata): NumberTokenBuilder;
+  optional(): OptionalTokenBuilder<NumberTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<NumberTokenBuilder>;
+  /** Set the inclusive minimum */
+  min(value: number): NumberTokenBuilder;
+  /** Set the inclusive maximum */
+  max(value: number): NumberTokenBuilder;
 }
 
 /**
@@ -68,8 +140,17 @@ export interface StringTokenBuilder {
   readonly type: 'string';
   readonly defaultValue?: string;
   readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  readonly constraints?: StringConstraints;
   default(value: string): StringTokenBuilder;
   describe(text: string): StringTokenBuilder;
+  meta(metadata: TokenMetadata): StringTokenBuilder;
+  optional(): OptionalTokenBuilder<StringTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<StringTokenBuilder>;
+  /** Restrict the value to one of the given strings */
+  oneOf(values: readonly string[]): StringTokenBuilder;
+  /** Require the value to match a pattern */
+  pattern(pattern: RegExp | string): StringTokenBuilder;
 }
 
 /**
@@ -79,8 +160,12 @@ export interface BooleanTokenBuilder {
   readonly type: 'boolean';
   readonly defaultValue?: boolean;
   readonly description?: string;
+  readonly metadata?: TokenMetadata;
   default(value: boolean): BooleanTokenBuilder;
   describe(text: string): BooleanTokenBuilder;
+  meta(metadata: TokenMetadata): BooleanTokenBuilder;
+  optional(): OptionalTokenBuilder<BooleanTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<BooleanTokenBuilder>;
 }
 
 /**
@@ -90,8 +175,12 @@ export interface FontFamilyTokenBuilder {
   readonly type: 'fontFamily';
   readonly defaultValue?: string;
   readonly description?: string;
+  readonly metadata?: TokenMetadata;
   default(value: string): FontFamilyTokenBuilder;
   describe(text: string): FontFamilyTokenBuilder;
+  meta(metadata: TokenMetadata): FontFamilyTokenBuilder;
+  optional(): OptionalTokenBuilder<FontFamilyTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<FontFamilyTokenBuilder>;
 }
 
 /**
@@ -101,8 +190,15 @@ export interface FontWeightTokenBuilder {
   readonly type: 'fontWeight';
   readonly defaultValue?: string | number;
   readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  readonly constraints?: FontWeightConstraints;
   default(value: string | number): FontWeightTokenBuilder;
   describe(text: string): FontWeightTokenBuilder;
+  meta(metadata: TokenMetadata): FontWeightTokenBuilder;
+  optional(): OptionalTokenBuilder<FontWeightTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<FontWeightTokenBuilder>;
+  /** Restrict the weight to an inclusive range (e.g., 400-700) */
+  range(min: number, max: number): FontWeightTokenBuilder;
 }
 
 /**
@@ -112,8 +208,12 @@ export interface ShadowTokenBuilder {
   readonly type: 'shadow';
   readonly defaultValue?: string;
   readonly description?: string;
+  readonly metadata?: TokenMetadata;
   default(value: string): ShadowTokenBuilder;
   describe(text: string): ShadowTokenBuilder;
+  meta(metadata: TokenMetadata): ShadowTokenBuilder;
+  optional(): OptionalTokenBuilder<ShadowTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<ShadowTokenBuilder>;
 }
 
 /**
@@ -123,8 +223,161 @@ export interface UrlTokenBuilder {
   readonly type: 'url';
   readonly defaultValue?: string;
   readonly description?: string;
+  readonly metadata?: TokenMetadata;
   default(value: string): UrlTokenBuilder;
   describe(text: string): UrlTokenBuilder;
+  meta(metadata: TokenMetadata): UrlTokenBuilder;
+  optional(): OptionalTokenBuilder<UrlTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<UrlTokenBuilder>;
+}
+
+/**
+ * Builder for asset tokens
+ */
+export interface AssetTokenBuilder {
+  readonly type: 'asset';
+  readonly defaultValue?: string;
+  readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  readonly constraints?: AssetConstraints;
+  default(value: string): AssetTokenBuilder;
+  describe(text: string): AssetTokenBuilder;
+  meta(metadata: TokenMetadata): AssetTokenBuilder;
+  optional(): OptionalTokenBuilder<AssetTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<AssetTokenBuilder>;
+  /** Restrict the allowed protocols (e.g., ["https", "data"]) */
+  protocols(protocols: readonly string[]): AssetTokenBuilder;
+  /** Restrict the allowed hosts; "*.example.com" matches any subdomain */
+  hosts(hosts: readonly string[]): AssetTokenBuilder;
+  /** Restrict the allowed file extensions (e.g., ["png", "svg"]) */
+  extensions(extensions: readonly string[]): AssetTokenBuilder;
+  /** Limit the decoded size of data URIs, in bytes */
+  maxDataSize(bytes: number): AssetTokenBuilder;
+}
+
+/**
+ * Builder for duration tokens
+ */
+export interface DurationTokenBuilder {
+  readonly type: 'duration';
+  readonly defaultValue?: string;
+  readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  default(value: string): DurationTokenBuilder;
+  describe(text: string): DurationTokenBuilder;
+  meta(metadata: TokenMetadata): DurationTokenBuilder;
+  optional(): OptionalTokenBuilder<DurationTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<DurationTokenBuilder>;
+}
+
+/**
+ * Builder for easing tokens
+ */
+export interface EasingTokenBuilder {
+  readonly type: 'easing';
+  readonly defaultValue?: string;
+  readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  default(value: string): EasingTokenBuilder;
+  describe(text: string): EasingTokenBuilder;
+  meta(metadata: TokenMetadata): EasingTokenBuilder;
+  optional(): OptionalTokenBuilder<EasingTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<EasingTokenBuilder>;
+}
+
+/**
+ * Builder for transition tokens
+ */
+export interface TransitionTokenBuilder {
+  readonly type: 'transition';
+  readonly defaultValue?: TransitionValue;
+  readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  default(value: TransitionValue): TransitionTokenBuilder;
+  describe(text: string): TransitionTokenBuilder;
+  meta(metadata: TokenMetadata): TransitionTokenBuilder;
+  optional(): OptionalTokenBuilder<TransitionTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<TransitionTokenBuilder>;
+}
+
+/**
+ * Builder for gradient tokens
+ */
+export interface GradientTokenBuilder {
+  readonly type: 'gradient';
+  readonly defaultValue?: string;
+  readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  default(value: string): GradientTokenBuilder;
+  describe(text: string): GradientTokenBuilder;
+  meta(metadata: TokenMetadata): GradientTokenBuilder;
+  optional(): OptionalTokenBuilder<GradientTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<GradientTokenBuilder>;
+}
+
+/**
+ * Builder for typography tokens
+ */
+export interface TypographyTokenBuilder {
+  readonly type: 'typography';
+  readonly defaultValue?: TypographyValue;
+  readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  default(value: TypographyValue): TypographyTokenBuilder;
+  describe(text: string): TypographyTokenBuilder;
+  meta(metadata: TokenMetadata): TypographyTokenBuilder;
+  optional(): OptionalTokenBuilder<TypographyTokenBuilder>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<TypographyTokenBuilder>;
+}
+
+/**
+ * Builder for enum tokens
+ *
+ * @typeParam V - Union of the allowed values
+ */
+export interface EnumTokenBuilder<V extends string> {
+  readonly type: 'enum';
+  readonly values: readonly V[];
+  readonly defaultValue?: V;
+  readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  default(value: V): EnumTokenBuilder<V>;
+  describe(text: string): EnumTokenBuilder<V>;
+  meta(metadata: TokenMetadata): EnumTokenBuilder<V>;
+  optional(): OptionalTokenBuilder<EnumTokenBuilder<V>>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<EnumTokenBuilder<V>>;
+}
+
+/**
+ * Builder for scale tokens
+ *
+ * @typeParam S - Union of the step names
+ */
+export interface ScaleTokenBuilder<S extends string> {
+  readonly type: 'scale';
+  readonly steps: readonly S[];
+  readonly defaultValue?: ScaleDefinition<S>;
+  readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  default(value: ScaleDefinition<S>): ScaleTokenBuilder<S>;
+  describe(text: string): ScaleTokenBuilder<S>;
+  meta(metadata: TokenMetadata): ScaleTokenBuilder<S>;
+  optional(): OptionalTokenBuilder<ScaleTokenBuilder<S>>;
+  deprecated(options?: TokenDeprecation): OptionalTokenBuilder<ScaleTokenBuilder<S>>;
+}
+
+/**
+ * Builder for reference tokens
+ *
+ * @typeParam P - The dot-notation path of the referenced token
+ */
+export interface ReferenceTokenBuilder<P extends string> {
+  readonly type: 'reference';
+  readonly target: P;
+  readonly description?: string;
+  readonly metadata?: TokenMetadata;
+  describe(text: string): ReferenceTokenBuilder<P>;
+  meta(metadata: TokenMetadata): ReferenceTokenBuilder<P>;
 }
 
 // =============================================================================
@@ -134,46 +387,441 @@ export interface UrlTokenBuilder {
 /**
  * Token builder result type
  */
-interface TokenBuilderResult<T extends string, V> {
+interface TokenBuilderResult<T extends string, V, C> {
   readonly type: T;
   readonly defaultValue: V | undefined;
   readonly description: string | undefined;
-  default(value: V): TokenBuilderResult<T, V>;
-  describe(text: string): TokenBuilderResult<T, V>;
+  readonly constraints?: C;
+  readonly isOptional?: true;
+  readonly deprecation?: TokenDeprecation;
+  readonly metadata?: TokenMetadata;
+  default(value: V): TokenBuilderResult<T, V, C>;
+  describe(text: string): TokenBuilderResult<T, V, C>;
+  meta(metadata: TokenMetadata): TokenBuilderResult<T, V, C>;
+  optional(): TokenBuilderResult<T, V, C>;
+  deprecated(options?: TokenDeprecation): TokenBuilderResult<T, V, C>;
+}
+
+/**
+ * Modifiers set with `.optional()`, `.deprecated()` and `.meta()`, kept by every builder method
+ */
+interface TokenModifiers {
+  readonly isOptional?: true;
+  readonly deprecation?: TokenDeprecation;
+  readonly metadata?: TokenMetadata;
+}
+
+/**
+ * Returns the modifiers of a token marked as deprecated
+ *
+ * @remarks
+ * Deprecated tokens are optional, since tenants that moved to the replacement
+ * no longer set them.
+ */
+function deprecate(modifiers: TokenModifiers, options: TokenDeprecation = {}): TokenModifiers {
+  return { ...modifiers, isOptional: true, deprecation: Object.freeze({ ...options }) };
 }
 
+/**
+ * Returns the modifiers of a token with UI metadata added
+ *
+ * @remarks
+ * Metadata is merged with the metadata set before, so `.meta()` can be called
+ * several times.
+ *
+ * @throws {Error} If the metadata is not an object or its order is not a finite number
+ */
+function addMetadata(modifiers: TokenModifiers, metadata: TokenMetadata): TokenModifiers {
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    throw new Error('Invalid metadata: meta() expects an object');
+  }
+  if (
+    metadata.order !== undefined &&
+    (typeof metadata.order !== 'number' || !Number.isFinite(metadata.order))
+  ) {
+    throw new Error(
+      `Invalid metadata: order must be a finite number, got ${String(metadata.order)}`
+    );
+  }
+  return { ...modifiers, metadata: Object.freeze({ ...modifiers.metadata, ...metadata }) };
+}
+
+/**
+ * Creates the constraint methods of a builder
+ *
+ * @param constraints - The constraints set so far
+ * @param constrain - Returns a copy of the builder with the given constraints
+ */
+type ConstraintMethods<C> = (
+  constraints: C | undefined,
+  constrain: (next: C) => unknown
+) => Record<string, unknown>;
+
 /**
  * Creates a token builder with fluent API methods
  */
-function createTokenBuilder<T extends string, V>(type: T) {
-  return function createBuilder(defaultValue?: V, description?: string): TokenBuilderResult<T, V> {
+function createTokenBuilder<T extends string, V, C = never>(
+  type: T,
+  constraintMethods?: ConstraintMethods<C>
+) {
+  return function createBuilder(
+    defaultValue?: V,
+    description?: string,
+    constraints?: C,
+    modifiers: TokenModifiers = {}
+  ): TokenBuilderResult<T, V, C> {
     return {
       type,
       defaultValue,
       description,
+      ...(constraints !== undefined && { constraints }),
+      ...modifiers,
       default(value: V) {
-        return createBuilder(value, description);
+        return createBuilder(value, description, constraints, modifiers);
       },
       describe(text: string) {
-        return createBuilder(defaultValue, text);
+        return createBuilder(defaultValue, text, constraints, modifiers);
+      },
+      meta(metadata: TokenMetadata) {
+        return createBuilder(
+          defaultValue,
+          description,
+          constraints,
+          addMetadata(modifiers, metadata)
+        );
       },
+      optional() {
+        return createBuilder(defaultValue, description, constraints, {
+          ...modifiers,
+          isOptional: true,
+        });
+      },
+      deprecated(options?: TokenDeprecation) {
+        return createBuilder(defaultValue, description, constraints, deprecate(modifiers, options));
+      },
+      ...constraintMethods?.(constraints, (next) =>
+        createBuilder(defaultValue, description, next, modifiers)
+      ),
     };
   };
 }
 
+/**
+ * Throws if a numeric constraint bound is not a finite number
+ */
+function assertFiniteBound(method: string, value: unknown): asserts value is number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(
+      `Invalid constraint: ${method}() expects a finite number, got ${String(value)}`
+    );
+  }
+}
+
+/**
+ * Throws if a minimum is greater than a maximum
+ *
+ * @param difference - The minimum minus the maximum, in a common unit
+ */
+function assertOrderedBounds(min: number | string, max: number | string, difference: number): void {
+  if (difference > 0) {
+    throw new Error(`Invalid constraint: min (${min}) is greater than max (${max})`);
+  }
+}
+
+/**
+ * Validates a dimension bound and checks it against the opposite bound
+ */
+function dimensionBound(
+  method: 'min' | 'max',
+  value: unknown,
+  constraints: DimensionConstraints | undefined
+): string {
+  const result = validateDimension(value);
+  if (!result.valid) {
+    throw new Error(
+      `Invalid constraint: ${method}() expects a dimension like "4px", got ${JSON.stringify(value)}`
+    );
+  }
+
+  const min = method === 'min' ? result.value : constraints?.min;
+  const max = method === 'max' ? result.value : constraints?.max;
+  if (min !== undefined && max !== undefined) {
+    const comparison = compareDimensions(min, max);
+    if (comparison === undefined) {
+      throw new Error(`Invalid constraint: cannot compare min (${min}) with max (${max})`);
+    }
+    assertOrderedBounds(min, max, comparison);
+  }
+  return result.value;
+}
+
+/**
+ * Validates an allowlist and normalizes its entries
+ *
+ * @param normalize - Normalizes an entry, returning undefined if it is invalid
+ */
+function allowlist(
+  method: string,
+  values: unknown,
+  normalize: (value: string) => string | undefined
+): string[] {
+  if (!Array.isArray(values) || values.length === 0) {
+    throw new Error(`Invalid constraint: ${method}() expects a non-empty array of strings`);
+  }
+  return values.map((value: unknown) => {
+    const normalized = typeof value === 'string' ? normalize(value.trim()) : undefined;
+    if (!normalized) {
+      throw new Error(
+        `Invalid constraint: ${method}() got an invalid entry ${JSON.stringify(value)}`
+      );
+    }
+    return normalized;
+  });
+}
+
+/**
+ * Creates an enum token builder accepting the given values
+ */
+function createEnumBuilder<V extends string>(
+  values: readonly V[],
+  defaultValue?: V,
+  description?: string,
+  modifiers: TokenModifiers = {}
+): EnumTokenBuilder<V> {
+  return {
+    type: 'enum',
+    values,
+    ...(defaultValue !== undefined && { defaultValue }),
+    ...(description !== undefined && { description }),
+    ...modifiers,
+    default(value: V) {
+      return createEnumBuilder(values, value, description, modifiers);
+    },
+    describe(text: string) {
+      return createEnumBuilder(values, defaultValue, text, modifiers);
+    },
+    meta(metadata: TokenMetadata) {
+      return createEnumBuilder(values, defaultValue, description, addMetadata(modifiers, metadata));
+    },
+    optional() {
+      return createEnumBuilder(values, defaultValue, description, {
+        ...modifiers,
+        isOptional: true,
+      }) as OptionalTokenBuilder<EnumTokenBuilder<V>>;
+    },
+    deprecated(options?: TokenDeprecation) {
+      return createEnumBuilder(
+        values,
+        defaultValue,
+        description,
+        deprecate(modifiers, options)
+      ) as OptionalTokenBuilder<EnumTokenBuilder<V>>;
+    },
+  };
+}
+
+/**
+ * Creates a scale token builder with the given steps
+ */
+function createScaleBuilder<S extends string>(
+  steps: readonly S[],
+  defaultValue?: ScaleDefinition<S>,
+  description?: string,
+  modifiers: TokenModifiers = {}
+): ScaleTokenBuilder<S> {
+  return {
+    type: 'scale',
+    steps,
+    ...(defaultValue !== undefined && { defaultValue }),
+    ...(description !== undefined && { description }),
+    ...modifiers,
+    default(value: ScaleDefinition<S>) {
+      return createScaleBuilder(steps, value, description, modifiers);
+    },
+    describe(text: string) {
+      return createScaleBuilder(steps, defaultValue, text, modifiers);
+    },
+    meta(metadata: TokenMetadata) {
+      return createScaleBuilder(steps, defaultValue, description, addMetadata(modifiers, metadata));
+    },
+    optional() {
+      return createScaleBuilder(steps, defaultValue, description, {
+        ...modifiers,
+        isOptional: true,
+      }) as OptionalTokenBuilder<ScaleTokenBuilder<S>>;
+    },
+    deprecated(options?: TokenDeprecation) {
+      return createScaleBuilder(
+        steps,
+        defaultValue,
+        description,
+        deprecate(modifiers, options)
+      ) as OptionalTokenBuilder<ScaleTokenBuilder<S>>;
+    },
+  };
+}
+
+/**
+ * Step names that would be mistaken for modular scale properties
+ */
+const RESERVED_SCALE_STEPS = new Set(['base', 'ratio', 'baseStep']);
+
+/**
+ * Creates a reference token builder pointing at the given path
+ */
+function createReferenceBuilder<P extends string>(
+  target: P,
+  description?: string,
+  modifiers: TokenModifiers = {}
+): ReferenceTokenBuilder<P> {
+  return {
+    type: 'reference',
+    target,
+    ...(description !== undefined && { description }),
+    ...modifiers,
+    describe(text: string) {
+      return createReferenceBuilder(target, text, modifiers);
+    },
+    meta(metadata: TokenMetadata) {
+      return createReferenceBuilder(target, description, addMetadata(modifiers, metadata));
+    },
+  };
+}
+
 // =============================================================================
 // Token Builder Factory
 // =============================================================================
 
 const colorBuilder = createTokenBuilder<'color', string>('color');
-const dimensionBuilder = createTokenBuilder<'dimension', string>('dimension');
-const numberBuilder = createTokenBuilder<'number', number>('number');
-const stringBuilder = createTokenBuilder<'string', string>('string');
+const dimensionBuilder = createTokenBuilder<'dimension', string, DimensionConstraints>(
+  'dimension',
+  (constraints, constrain) => ({
+    min(value: string) {
+      return constrain({ ...constraints, min: dimensionBound('min', value, constraints) });
+    },
+    max(value: string) {
+      return constrain({ ...constraints, max: dimensionBound('max', value, constraints) });
+    },
+    units(units: readonly string[]) {
+      if (!Array.isArray(units) || units.length === 0) {
+        throw new Error('Invalid constraint: units() expects a non-empty array of units');
+      }
+      for (const unit of units) {
+        if (!DIMENSION_UNITS.includes(unit)) {
+          throw new Error(`Invalid constraint: unknown unit ${JSON.stringify(unit)}`);
+        }
+      }
+      return constrain({ ...constraints, units: [...units] });
+    },
+  })
+);
+const numberBuilder = createTokenBuilder<'number', number, NumberConstraints>(
+  'number',
+  (constraints, constrain) => ({
+    min(value: number) {
+      assertFiniteBound('min', value);
+      if (constraints?.max !== undefined) {
+        assertOrderedBounds(value, constraints.max, value - constraints.max);
+      }
+      return constrain({ ...constraints, min: value });
+    },
+    max(value: number) {
+      assertFiniteBound('max', value);
+      if (constraints?.min !== undefined) {
+        assertOrderedBounds(constraints.min, value, constraints.min - value);
+      }
+      return constrain({ ...constraints, max: value });
+    },
+  })
+);
+const stringBuilder = createTokenBuilder<'string', string, StringConstraints>(
+  'string',
+  (constraints, constrain) => ({
+    oneOf(values: readonly string[]) {
+      if (
+        !Array.isArray(values) ||
+        values.length === 0 ||
+        !values.every((option) => typeof option === 'string')
+      ) {
+        throw new Error('Invalid constraint: oneOf() expects a non-empty array of strings');
+      }
+      return constrain({ ...constraints, oneOf: [...values] });
+    },
+    pattern(pattern: RegExp | string) {
+      if (pattern instanceof RegExp) {
+        return constrain({ ...constraints, pattern });
+      }
+      let compiled: RegExp;
+      try {
+        compiled = new RegExp(pattern);
+      } catch (error) {
+        throw new Error(
+          `Invalid constraint: pattern() got an invalid regular expression: ${(error as Error).message}`
+        );
+      }
+      return constrain({ ...constraints, pattern: compiled });
+    },
+  })
+);
 const booleanBuilder = createTokenBuilder<'boolean', boolean>('boolean');
 const fontFamilyBuilder = createTokenBuilder<'fontFamily', string>('fontFamily');
-const fontWeightBuilder = createTokenBuilder<'fontWeight', string | number>('fontWeight');
+const fontWeightBuilder = createTokenBuilder<'fontWeight', string | number, FontWeightConstraints>(
+  'fontWeight',
+  (_constraints, constrain) => ({
+    range(min: number, max: number) {
+      for (const bound of [min, max]) {
+        if (typeof bound !== 'number' || !(bound >= 1 && bound <= 1000)) {
+          throw new Error(
+            `Invalid constraint: range() expects font weights from 1 to 1000, got ${String(bound)}`
+          );
+        }
+      }
+      assertOrderedBounds(min, max, min - max);
+      return constrain({ min, max });
+    },
+  })
+);
 const shadowBuilder = createTokenBuilder<'shadow', string>('shadow');
 const urlBuilder = createTokenBuilder<'url', string>('url');
+const assetBuilder = createTokenBuilder<'asset', string, AssetConstraints>(
+  'asset',
+  (constraints, constrain) => ({
+    protocols(protocols: readonly string[]) {
+      const normalized = allowlist('protocols', protocols, (protocol) =>
+        /^[a-z][a-z0-9+.-]*:?$/i.test(protocol)
+          ? protocol.replace(/:$/, '').toLowerCase()
+          : undefined
+      );
+      return constrain({ ...constraints, protocols: normalized });
+    },
+    hosts(hosts: readonly string[]) {
+      const normalized = allowlist('hosts', hosts, (host) =>
+        /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/i.test(host) ? host.toLowerCase() : undefined
+      );
+      return constrain({ ...constraints, hosts: normalized });
+    },
+    extensions(extensions: readonly string[]) {
+      const normalized = allowlist('extensions', extensions, (extension) =>
+        /^\.?[a-z0-9]+$/i.test(extension) ? extension.replace(/^\./, '').toLowerCase() : undefined
+      );
+      return constrain({ ...constraints, extensions: normalized });
+    },
+    maxDataSize(bytes: number) {
+      assertFiniteBound('maxDataSize', bytes);
+      if (bytes < 0) {
+        throw new Error(
+          `Invalid constraint: maxDataSize() expects a non-negative number, got ${bytes}`
+        );
+      }
+      return constrain({ ...constraints, maxDataSize: bytes });
+    },
+  })
+);
+const durationBuilder = createTokenBuilder<'duration', string>('duration');
+const easingBuilder = createTokenBuilder<'easing', string>('easing');
+const transitionBuilder = createTokenBuilder<'transition', TransitionValue>('transition');
+const gradientBuilder = createTokenBuilder<'gradient', string>('gradient');
+const typographyBuilder = createTokenBuilder<'typography', TypographyValue>('typography');
 
 /**
  * Token builders namespace
@@ -207,7 +855,8 @@ export const t = {
    * @returns A color token builder
    *
    * @remarks
-   * Accepts hex (#RGB, #RRGGBB, #RRGGBBAA), rgb/rgba, and hsl/hsla values
+   * Accepts hex (#RGB, #RGBA, #RRGGBB, #RRGGBBAA), rgb/rgba, hsl/hsla, hwb, lab, lch, oklab,
+   * oklch, `color()` and `color-mix()` values, and named colors (red, transparent, currentcolor, etc.)
    */
   color(): ColorTokenBuilder {
     return colorBuilder() as ColorTokenBuilder;
@@ -216,6 +865,11 @@ export const t = {
   /**
    * Creates a dimension token
    * Accepts values with units: px, rem, em, %, vh, vw, etc.
+   *
+   * @example
+   * ```ts
+   * t.dimension().min('0px').max('4rem').units(['px', 'rem']);
+   * ```
    */
   dimension(): DimensionTokenBuilder {
     return dimensionBuilder() as DimensionTokenBuilder;
@@ -224,6 +878,11 @@ export const t = {
   /**
    * Creates a number token
    * Accepts numeric values (integers or floats)
+   *
+   * @example
+   * ```ts
+   * t.number().min(0).max(1);
+   * ```
    */
   number(): NumberTokenBuilder {
     return numberBuilder() as NumberTokenBuilder;
@@ -232,6 +891,12 @@ export const t = {
   /**
    * Creates a string token
    * Accepts arbitrary string values
+   *
+   * @example
+   * ```ts
+   * t.string().oneOf(['compact', 'comfortable']);
+   * t.string().pattern(/^[a-z-]+$/);
+   * ```
    */
   string(): StringTokenBuilder {
     return stringBuilder() as StringTokenBuilder;
@@ -255,6 +920,11 @@ export const t = {
   /**
    * Creates a font weight token
    * Accepts numeric weights (100-900) or keywords
+   *
+   * @example
+   * ```ts
+   * t.fontWeight().range(400, 700);
+   * ```
    */
   fontWeight(): FontWeightTokenBuilder {
     return fontWeightBuilder() as FontWeightTokenBuilder;
@@ -275,6 +945,228 @@ export const t = {
   url(): UrlTokenBuilder {
     return urlBuilder() as UrlTokenBuilder;
   },
+
+  /**
+   * Creates an asset token
+   *
+   * @returns An asset token builder
+   *
+   * @remarks
+   * Accepts the same URLs as URL tokens, optionally restricted by allowlists of
+   * protocols, hosts and file extensions and by a data URI size limit. Unlike URL
+   * tokens, the value is emitted in CSS as a quoted `url("...")`, ready for
+   * properties such as `background-image`.
+   *
+   * @example
+   * ```ts
+   * const schema = createSchema({
+   *   definition: {
+   *     brand: {
+   *       logo: t
+   *         .asset()
+   *         .protocols(['https'])
+   *         .hosts(['cdn.example.com', '*.acme.com'])
+   *         .extensions(['svg', 'png']),
+   *     },
+   *   },
+   * });
+   * // --brand-logo: url("https://cdn.example.com/logo.svg")
+   * ```
+   */
+  asset(): AssetTokenBuilder {
+    return assetBuilder() as AssetTokenBuilder;
+  },
+
+  /**
+   * Creates a duration token
+   * Accepts non-negative times in ms or s (e.g., "200ms", "0.3s")
+   */
+  duration(): DurationTokenBuilder {
+    return durationBuilder() as DurationTokenBuilder;
+  },
+
+  /**
+   * Creates an easing token
+   * Accepts easing keywords, cubic-bezier(), steps() and linear()
+   */
+  easing(): EasingTokenBuilder {
+    return easingBuilder() as EasingTokenBuilder;
+  },
+
+  /**
+   * Creates a transition token
+   *
+   * @returns A transition token builder
+   *
+   * @remarks
+   * The value combines a duration, an easing and an optional delay, and is emitted
+   * as a CSS variable holding the transition shorthand (e.g., "200ms ease-out 50ms").
+   *
+   * @example
+   * ```ts
+   * const schema = createSchema({
+   *   definition: {
+   *     motion: {
+   *       fade: t.transition().default({ duration: '200ms', easing: 'ease-out' }),
+   *     },
+   *   },
+   * });
+   * // transition: opacity var(--motion-fade);
+   * ```
+   */
+  transition(): TransitionTokenBuilder {
+    return transitionBuilder() as TransitionTokenBuilder;
+  },
+
+  /**
+   * Creates a gradient token
+   * Accepts linear-gradient(), radial-gradient() and conic-gradient() values,
+   * with every color stop validated like a color token
+   *
+   * @example
+   * ```ts
+   * t.gradient().default('linear-gradient(135deg, #3b82f6, #9333ea)');
+   * ```
+   */
+  gradient(): GradientTokenBuilder {
+    return gradientBuilder() as GradientTokenBuilder;
+  },
+
+  /**
+   * Creates a typography token
+   *
+   * @returns A typography token builder
+   *
+   * @remarks
+   * The value holds fontFamily and fontSize, and optionally fontWeight, lineHeight
+   * and letterSpacing. Each field is emitted as its own CSS variable, along with a
+   * `font` shorthand variable combining weight, size, line height and family.
+   *
+   * @example
+   * ```ts
+   * const schema = createSchema({
+   *   definition: {
+   *     typography: {
+   *       heading: t.typography().default({
+   *         fontFamily: 'Inter, sans-serif',
+   *         fontSize: '2rem',
+   *         fontWeight: 700,
+   *         lineHeight: 1.2,
+   *       }),
+   *     },
+   *   },
+   * });
+   * // --typography-heading-font-family, --typography-heading-font-size, ...
+   * // --typography-heading-font: 700 2rem/1.2 Inter, sans-serif
+   * ```
+   */
+  typography(): TypographyTokenBuilder {
+    return typographyBuilder() as TypographyTokenBuilder;
+  },
+
+  /**
+   * Creates an enum token
+   *
+   * @param values - The allowed values
+   * @returns An enum token builder
+   * @throws {Error} If values is empty, contains non-strings or contains duplicates
+   *
+   * @remarks
+   * The theme type of the token is the union of the values, so pass a literal
+   * array (or an `as const` tuple) to keep the literal types.
+   *
+   * @example
+   * ```ts
+   * const schema = createSchema({
+   *   definition: {
+   *     layout: { navPosition: t.enum(['top', 'side']).default('top') },
+   *   },
+   * });
+   * // InferTheme<typeof schema.definition>['layout']['navPosition'] is 'top' | 'side'
+   * ```
+   */
+  enum<const V extends readonly string[]>(values: V): EnumTokenBuilder<V[number]> {
+    if (
+      !Array.isArray(values) ||
+      values.length === 0 ||
+      !values.every((value) => typeof value === 'string')
+    ) {
+      throw new Error('Invalid enum token: values must be a non-empty array of strings');
+    }
+    const duplicate = values.find((value, index) => values.indexOf(value) !== index);
+    if (duplicate !== undefined) {
+      throw new Error(`Invalid enum token: duplicate value "${duplicate}"`);
+    }
+    return createEnumBuilder<V[number]>(Object.freeze([...values]));
+  },
+
+  /**
+   * Creates a scale token
+   *
+   * @param steps - The step names, from smallest to largest
+   * @returns A scale token builder
+   * @throws {Error} If steps is empty, contains non-strings, duplicates or a reserved name
+   *
+   * @remarks
+   * A scale is defined as an explicit list of dimensions or as a modular scale
+   * `{ base, ratio, baseStep? }`, and resolves to an object with a dimension per
+   * step. Each step is emitted as its own CSS variable. Tenants can override just
+   * the base or the ratio of a modular default. The step names `base`, `ratio` and
+   * `baseStep` are reserved.
+   *
+   * @example
+   * ```ts
+   * const schema = createSchema({
+   *   definition: {
+   *     spacing: t.scale(['1', '2', '3', '4']).default({ base: '4px', ratio: 2 }),
+   *   },
+   * });
+   * // InferTheme<typeof schema.definition>['spacing'] is { '1': string; ...; '4': string }
+   * // --spacing-1: 4px; --spacing-2: 8px; --spacing-3: 16px; --spacing-4: 32px
+   * ```
+   */
+  scale<const S extends readonly string[]>(steps: S): ScaleTokenBuilder<S[number]> {
+    if (
+      !Array.isArray(steps) ||
+      steps.length === 0 ||
+      !steps.every((step) => typeof step === 'string' && step !== '')
+    ) {
+      throw new Error('Invalid scale token: steps must be a non-empty array of non-empty strings');
+    }
+    const duplicate = steps.find((step, index) => steps.indexOf(step) !== index);
+    if (duplicate !== undefined) {
+      throw new Error(`Invalid scale token: duplicate step "${duplicate}"`);
+    }
+    const reserved = steps.find((step) => RESERVED_SCALE_STEPS.has(step));
+    if (reserved !== undefined) {
+      throw new Error(`Invalid scale token: step name "${reserved}" is reserved`);
+    }
+    return createScaleBuilder<S[number]>(Object.freeze([...steps]));
+  },
+
+  /**
+   * Creates a reference (alias) token
+   *
+   * @param target - Dot-notation path of the token to reference (e.g., "colors.primary")
+   * @returns A reference token builder
+   *
+   * @remarks
+   * A reference resolves to the value of its target after defaults are applied.
+   * Tenants may still override it with a value valid for the target's token type.
+   *
+   * @example
+   * ```ts
+   * const schema = createSchema({
+   *   definition: {
+   *     colors: { primary: t.color().default('#3b82f6') },
+   *     button: { background: t.reference('colors.primary') },
+   *   },
+   * });
+   * ```
+   */
+  reference<P extends string>(target: P): ReferenceTokenBuilder<P> {
+    return createReferenceBuilder(target);
+  },
 } as const;
 
 // Type exports for token definitions created by builders
@@ -288,4 +1180,13 @@ export type {
   FontWeightToken,
   ShadowToken,
   UrlToken,
+  AssetToken,
+  EnumToken,
+  DurationToken,
+  EasingToken,
+  TransitionToken,
+  GradientToken,
+  TypographyToken,
+  ScaleToken,
+  ReferenceToken,
 };
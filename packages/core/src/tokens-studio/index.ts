@@ -0,0 +1,433 @@
+/**
+ * Tokens Studio import
+ *
+ * Turns a Tokens Studio (Figma Tokens) export into theme data for a schema.
+ * Each Tokens Studio theme becomes one theme object, built from its token sets
+ * in set order and validated with validatePartial.
+ */
+
+import type {
+  Schema,
+  SchemaDefinition,
+  TokenDefinition,
+  InferTheme,
+  ShadowLayer,
+  ValidationResult,
+} from '../types/index.js';
+import { getSchemaDefinition, getTokenAtPath } from '../schema/index.js';
+import { formatColor, parseColor } from '../color/index.js';
+import { validatePartial } from '../validation/index.js';
+import { formatShadow } from '../validation/validators.js';
+import { getReferencedToken } from '../validation/references.js';
+import { assignAtPath, isPlainObject } from '../internal/utils.js';
+
+// ============================================================================
+// Token Sets
+// ============================================================================
+
+/**
+ * Name of the theme imported from exports without `$themes`
+ */
+const DEFAULT_THEME_NAME = 'default';
+
+/**
+ * Matches references such as "{colors.primary}", whole or inside a value
+ */
+const REFERENCE_REGEX = /\{([^{}]+)\}/g;
+
+/**
+ * Matches a value that is a single reference
+ */
+const WHOLE_REFERENCE_REGEX = /^\{([^{}]+)\}$/;
+
+/**
+ * A token set selection of a Tokens Studio theme
+ *
+ * @internal
+ */
+interface ThemeSets {
+  name: string;
+  /** Sets whose tokens are imported, in set order */
+  enabled: ReadonlySet<string>;
+  /** Enabled and source sets, in set order; source sets only provide reference targets */
+  sets: readonly string[];
+}
+
+/**
+ * Returns the token sets of an export in set order
+ *
+ * @remarks
+ * Uses `$metadata.tokenSetOrder` when present; sets missing from it follow in
+ * key order.
+ *
+ * @internal
+ */
+function getSetOrder(tokens: Record<string, unknown>): string[] {
+  const names = Object.keys(tokens).filter(
+    (key) => !key.startsWith('$') && isPlainObject(tokens[key])
+  );
+  const metadata = tokens['$metadata'];
+  const order =
+    isPlainObject(metadata) && Array.isArray(metadata['tokenSetOrder'])
+      ? metadata['tokenSetOrder'].filter((name): name is string => names.includes(name as string))
+      : [];
+
+  return [...order, ...names.filter((name) => !order.includes(name))];
+}
+
+/**
+ * Returns the themes of an export with their token sets
+ *
+ * @remarks
+ * Exports without `$themes` import all sets as a single theme named "default".
+ *
+ * @internal
+ */
+function getThemes(tokens: Record<string, unknown>): ThemeSets[] {
+  const order = getSetOrder(tokens);
+  const themes = tokens['$themes'];
+
+  if (!Array.isArray(themes) || themes.length === 0) {
+    return [{ name: DEFAULT_THEME_NAME, enabled: new Set(order), sets: order }];
+  }
+
+  return themes.filter(isPlainObject).map((theme, index) => {
+    const selected = isPlainObject(theme['selectedTokenSets']) ? theme['selectedTokenSets'] : {};
+    const sets = order.filter(
+      (name) => selected[name] === 'enabled' || selected[name] === 'source'
+    );
+    return {
+      name: typeof theme['name'] === 'string' ? theme['name'] : `theme-${index + 1}`,
+      enabled: new Set(sets.filter((name) => selected[name] === 'enabled')),
+      sets,
+    };
+  });
+}
+
+/**
+ * Returns the value of a Tokens Studio token, or undefined for groups
+ *
+ * @remarks
+ * Tokens Studio writes `value`, or `$value` in W3C mode.
+ *
+ * @internal
+ */
+function getTokenValue(node: Record<string, unknown>): { value: unknown } | undefined {
+  if ('$value' in node) {
+    return { value: node['$value'] };
+  }
+  return 'value' in node ? { value: node['value'] } : undefined;
+}
+
+/**
+ * Adds the tokens of a set to a map of token paths to values
+ *
+ * @internal
+ */
+function collectTokens(
+  group: Record<string, unknown>,
+  prefix: string,
+  values: Map<string, unknown>
+): void {
+  for (const [key, node] of Object.entries(group)) {
+    if (key.startsWith('$') || !isPlainObject(node)) {
+      continue;
+    }
+    const path = prefix ? `${prefix}.${key}` : key;
+    const token = getTokenValue(node);
+    if (token) {
+      values.set(path, token.value);
+    } else {
+      collectTokens(node, path, values);
+    }
+  }
+}
+
+/**
+ * Resolves references in a value
+ *
+ * @remarks
+ * A value that is a single reference takes the referenced value, objects
+ * included. References inside a string are replaced with the referenced
+ * string or number. References that cannot be resolved, including circular
+ * ones, are left in place so validation reports them.
+ *
+ * @internal
+ */
+function resolveValueReferences(
+  value: unknown,
+  values: ReadonlyMap<string, unknown>,
+  chain: readonly string[] = []
+): unknown {
+  const lookup = (path: string): unknown =>
+    values.has(path) && !chain.includes(path)
+      ? resolveValueReferences(values.get(path), values, [...chain, path])
+      : undefined;
+
+  if (typeof value === 'string') {
+    const whole = WHOLE_REFERENCE_REGEX.exec(value.trim());
+    if (whole) {
+      return lookup(whole[1] ?? '') ?? value;
+    }
+    return value.replace(REFERENCE_REGEX, (match, path: string) => {
+      const resolved = lookup(path);
+      return typeof resolved === 'string' || typeof resolved === 'number'
+        ? String(resolved)
+        : match;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveValueReferences(item, values, chain));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveValueReferences(item, values, chain)])
+    );
+  }
+  return value;
+}
+
+// ============================================================================
+// Value Conversion
+// ============================================================================
+
+/**
+ * Font weights for the style names used by Tokens Studio
+ */
+const FONT_WEIGHT_NAMES: ReadonlyMap<string, number> = new Map([
+  ['thin', 100],
+  ['hairline', 100],
+  ['extralight', 200],
+  ['ultralight', 200],
+  ['light', 300],
+  ['regular', 400],
+  ['book', 400],
+  ['medium', 500],
+  ['semibold', 600],
+  ['demibold', 600],
+  ['bold', 700],
+  ['extrabold', 800],
+  ['ultrabold', 800],
+  ['black', 900],
+  ['heavy', 900],
+]);
+
+/**
+ * Converts a Tokens Studio dimension, where unitless numbers are pixels
+ */
+function toDimension(value: unknown): unknown {
+  if (typeof value === 'number') {
+    return value === 0 ? '0' : `${value}px`;
+  }
+  if (typeof value === 'string' && /^-?(?:\d+\.?\d*|\.\d+)$/.test(value.trim())) {
+    return toDimension(Number(value));
+  }
+  return value;
+}
+
+/**
+ * Converts Tokens Studio's `rgba(<color>, <alpha>)` form, such as `rgba(#000000, 0.5)`,
+ * to a CSS color
+ */
+function toColor(value: unknown): unknown {
+  const match =
+    typeof value === 'string'
+      ? /^rgba?\(\s*([^,()]+?)\s*,\s*(\d*\.?\d+)(%?)\s*\)$/i.exec(value.trim())
+      : null;
+  const color = match ? parseColor(match[1]!) : undefined;
+  if (!match || !color) {
+    return value;
+  }
+  const alpha = Number(match[2]) / (match[3] ? 100 : 1);
+  return formatColor({ ...color, a: color.a * alpha }, 'rgb');
+}
+
+/**
+ * Converts a Tokens Studio font weight style name such as "Semi Bold"
+ */
+function toFontWeight(value: unknown): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  const name = value.toLowerCase().replace(/italic|oblique|[\s_-]/g, '');
+  return FONT_WEIGHT_NAMES.get(name) ?? value;
+}
+
+/**
+ * Converts a Tokens Studio shadow layer to a Livery shadow layer
+ */
+function toShadowLayer(value: Record<string, unknown>): ShadowLayer {
+  const layer: Record<string, unknown> = {
+    x: toDimension(value['x'] ?? 0),
+    y: toDimension(value['y'] ?? 0),
+    blur: toDimension(value['blur'] ?? 0),
+    spread: toDimension(value['spread'] ?? 0),
+  };
+  if (value['color'] !== undefined) {
+    layer['color'] = value['color'];
+  }
+  if (value['type'] === 'innerShadow') {
+    layer['inset'] = true;
+  }
+  return layer as unknown as ShadowLayer;
+}
+
+/**
+ * Converts a Tokens Studio typography value to a Livery typography value
+ *
+ * @remarks
+ * Properties without a Livery equivalent, such as textCase, are dropped.
+ */
+function toTypography(value: Record<string, unknown>): Record<string, unknown> {
+  const { fontFamily, fontSize, fontWeight, lineHeight, letterSpacing } = value;
+  return {
+    ...(fontFamily !== undefined && { fontFamily }),
+    ...(fontSize !== undefined && { fontSize: toDimension(fontSize) }),
+    ...(fontWeight !== undefined && { fontWeight: toFontWeight(fontWeight) }),
+    ...(lineHeight !== undefined && {
+      lineHeight:
+        typeof lineHeight === 'string' && lineHeight.trim().toLowerCase() === 'auto'
+          ? 'normal'
+          : toDimension(lineHeight),
+    }),
+    ...(letterSpacing !== undefined && { letterSpacing: toDimension(letterSpacing) }),
+  };
+}
+
+/**
+ * Converts a Tokens Studio value to the value of a Livery token
+ *
+ * @internal
+ */
+function toTokenValue(token: TokenDefinition, value: unknown): unknown {
+  switch (token.type) {
+    case 'color':
+      return toColor(value);
+    case 'dimension':
+      return toDimension(value);
+    case 'fontWeight':
+      return toFontWeight(value);
+    case 'shadow': {
+      const layers = Array.isArray(value) ? value : [value];
+      return layers.every(isPlainObject) ? formatShadow(layers.map(toShadowLayer)) : value;
+    }
+    case 'typography':
+      return isPlainObject(value) ? toTypography(value) : value;
+    default:
+      return value;
+  }
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Options for importTokensStudio function
+ *
+ * @typeParam T - The type of the schema definition
+ *
+ * @public
+ */
+export interface ImportTokensStudioOptions<T extends SchemaDefinition> {
+  /** The schema the themes are validated against */
+  schema: Schema<T>;
+  /** The Tokens Studio export, with token sets as top-level keys */
+  tokens: Record<string, unknown>;
+}
+
+/**
+ * A theme imported from Tokens Studio
+ *
+ * @typeParam T - The type of the schema definition
+ *
+ * @public
+ */
+export interface TokensStudioTheme<T extends SchemaDefinition> {
+  /** Result of validatePartial for the imported theme data */
+  result: ValidationResult<Partial<InferTheme<T>>>;
+  /** Token paths that are not tokens of the schema */
+  unmapped: readonly string[];
+}
+
+/**
+ * Imports the themes of a Tokens Studio export
+ *
+ * @param opts - Options containing the schema and the Tokens Studio export
+ * @returns The imported themes, keyed by Tokens Studio theme name
+ *
+ * @remarks
+ * Each theme in `$themes` is built from its enabled token sets, applied in
+ * the order of `$metadata.tokenSetOrder` so later sets override earlier ones.
+ * Source sets only provide reference targets. Exports without `$themes`
+ * import all sets as a single theme named "default".
+ *
+ * References (`{colors.primary}`) are resolved across the theme's sets,
+ * including references inside values such as `rgba({colors.black}, 0.5)`.
+ * Values are converted to the schema's token types: `rgba(#000000, 0.5)`
+ * becomes a CSS color, unitless dimensions are pixels, font weight names
+ * become numbers, and shadow and typography objects become Livery values.
+ * Paths that match a schema alias are moved to the aliased token.
+ *
+ * Token paths that are not tokens of the schema are skipped and listed in
+ * `unmapped`. The remaining data is validated with validatePartial, so
+ * missing tokens are allowed and invalid values are reported as errors.
+ *
+ * @example
+ * ```ts
+ * const themes = importTokensStudio({ schema, tokens: JSON.parse(exportJson) });
+ *
+ * for (const [name, { result, unmapped }] of Object.entries(themes)) {
+ *   if (unmapped.length > 0) console.warn(name, 'unmapped', unmapped);
+ *   if (result.success) await saveTheme(name, result.data);
+ * }
+ * ```
+ *
+ * @public
+ */
+export function importTokensStudio<T extends SchemaDefinition>(
+  opts: ImportTokensStudioOptions<T>
+): Record<string, TokensStudioTheme<T>> {
+  const { schema, tokens } = opts;
+  const definition = getSchemaDefinition(schema);
+  const themes: Record<string, TokensStudioTheme<T>> = {};
+
+  for (const { name, enabled, sets } of getThemes(tokens)) {
+    const values = new Map<string, unknown>();
+    const imported = new Set<string>();
+
+    for (const set of sets) {
+      const setValues = new Map<string, unknown>();
+      collectTokens(tokens[set] as Record<string, unknown>, '', setValues);
+      for (const [path, value] of setValues) {
+        values.set(path, value);
+        if (enabled.has(set)) {
+          imported.add(path);
+        }
+      }
+    }
+
+    const data: Record<string, unknown> = {};
+    const unmapped: string[] = [];
+
+    for (const path of imported) {
+      const { aliases = {} } = schema;
+      const target = Object.prototype.hasOwnProperty.call(aliases, path) ? aliases[path]! : path;
+      const token = getTokenAtPath({ definition, path: target });
+      if (!token) {
+        unmapped.push(path);
+        continue;
+      }
+
+      const referenced =
+        token.type === 'reference' ? getReferencedToken(definition, token, target) : undefined;
+      const valueToken = referenced?.ok ? referenced.value : token;
+      const value = resolveValueReferences(values.get(path), values, [path]);
+      assignAtPath(data, target, toTokenValue(valueToken, value));
+    }
+
+    themes[name] = { result: validatePartial({ schema, data }), unmapped };
+  }
+
+  return themes;
+}
@@ -18,7 +18,16 @@ export type TokenType =
   | 'fontFamily'
   | 'fontWeight'
   | 'shadow'
-  | 'url';
+  | 'url'
+  | 'asset'
+  | 'enum'
+  | 'duration'
+  | 'easing'
+  | 'transition'
+  | 'gradient'
+  | 'typography'
+  | 'scale'
+  | 'reference';
 
 /**
  * Base token definition with metadata
@@ -27,8 +36,63 @@ export interface TokenDefinitionBase<T extends TokenType, V> {
   readonly type: T;
   readonly defaultValue?: V;
   readonly description?: string;
+  /** Whether the token may be left without a value (set with `.optional()`) */
+  readonly isOptional?: boolean;
+  /** Deprecation details (set with `.deprecated()`) */
+  readonly deprecation?: TokenDeprecation;
+  /** UI metadata for generated theme editors (set with `.meta()`) */
+  readonly metadata?: TokenMetadata;
 }
 
+/**
+ * Deprecation details of a token
+ */
+export interface TokenDeprecation {
+  /** Path of the token that replaces this one; legacy values are moved there when coercing */
+  readonly replacedBy?: string;
+  /** Why the token is deprecated, included in deprecation warnings */
+  readonly reason?: string;
+}
+
+/**
+ * UI metadata of a token, used to generate theme editors such as settings screens
+ *
+ * @remarks
+ * Metadata has no effect on validation or CSS output.
+ */
+export interface TokenMetadata {
+  /** Display name of the token */
+  readonly label?: string;
+  /** Category the token is listed under (e.g., "Brand") */
+  readonly category?: string;
+  /** Sort order of the token; lower values come first */
+  readonly order?: number;
+  /** Whether the token should not be shown in editors */
+  readonly hidden?: boolean;
+  /** Whether the token should only be shown among advanced settings */
+  readonly advanced?: boolean;
+  /** The input editors should use for the token */
+  readonly editor?: TokenEditor;
+}
+
+/**
+ * Input hint for editing a token, such as a color picker or a text input
+ *
+ * @remarks
+ * Custom editor names are allowed for inputs specific to an application.
+ */
+export type TokenEditor =
+  | 'color-picker'
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'slider'
+  | 'select'
+  | 'switch'
+  | 'font-picker'
+  | 'asset-picker'
+  | (string & Record<never, never>);
+
 /**
  * Color token definition
  * Accepts hex, rgb, rgba, hsl, hsla values
@@ -43,6 +107,8 @@ export interface ColorToken extends TokenDefinitionBase<'color', string> {
  */
 export interface DimensionToken extends TokenDefinitionBase<'dimension', string> {
   readonly type: 'dimension';
+  /** Value constraints set with `.min()`, `.max()` and `.units()` */
+  readonly constraints?: DimensionConstraints;
 }
 
 /**
@@ -51,6 +117,8 @@ export interface DimensionToken extends TokenDefinitionBase<'dimension', string>
  */
 export interface NumberToken extends TokenDefinitionBase<'number', number> {
   readonly type: 'number';
+  /** Value constraints set with `.min()` and `.max()` */
+  readonly constraints?: NumberConstraints;
 }
 
 /**
@@ -59,6 +127,8 @@ export interface NumberToken extends TokenDefinitionBase<'number', number> {
  */
 export interface StringToken extends TokenDefinitionBase<'string', string> {
   readonly type: 'string';
+  /** Value constraints set with `.oneOf()` and `.pattern()` */
+  readonly constraints?: StringConstraints;
 }
 
 /**
@@ -82,6 +152,30 @@ export interface FontFamilyToken extends TokenDefinitionBase<'fontFamily', strin
  */
 export interface FontWeightToken extends TokenDefinitionBase<'fontWeight', string | number> {
   readonly type: 'fontWeight';
+  /** Value constraints set with `.range()` */
+  readonly constraints?: FontWeightConstraints;
+}
+
+/**
+ * A single layer of a shadow
+ *
+ * @remarks
+ * Shadow tokens store CSS strings; layers are accepted as coercion input and
+ * returned by `parseShadow()` for editors.
+ */
+export interface ShadowLayer {
+  /** Horizontal offset dimension */
+  readonly x: string;
+  /** Vertical offset dimension */
+  readonly y: string;
+  /** Non-negative blur radius dimension */
+  readonly blur?: string;
+  /** Spread radius dimension; may be negative */
+  readonly spread?: string;
+  /** Shadow color; defaults to currentcolor in CSS when omitted */
+  readonly color?: string;
+  /** Whether the shadow is drawn inside the box */
+  readonly inset?: boolean;
 }
 
 /**
@@ -100,6 +194,235 @@ export interface UrlToken extends TokenDefinitionBase<'url', string> {
   readonly type: 'url';
 }
 
+/**
+ * Asset token definition
+ * Accepts URLs of images and other files, emitted in CSS as `url("...")`
+ */
+export interface AssetToken extends TokenDefinitionBase<'asset', string> {
+  readonly type: 'asset';
+  /** Allowlists set with `.protocols()`, `.hosts()`, `.extensions()` and `.maxDataSize()` */
+  readonly constraints?: AssetConstraints;
+}
+
+/**
+ * Enum token definition
+ * Accepts one of a fixed set of string values
+ *
+ * @typeParam V - Union of the allowed values
+ */
+export interface EnumToken<V extends string = string> extends TokenDefinitionBase<'enum', V> {
+  readonly type: 'enum';
+  /** The allowed values */
+  readonly values: readonly V[];
+}
+
+/**
+ * Duration token definition
+ * Accepts non-negative times in ms or s (e.g., "200ms", "0.3s")
+ */
+export interface DurationToken extends TokenDefinitionBase<'duration', string> {
+  readonly type: 'duration';
+}
+
+/**
+ * Easing token definition
+ * Accepts easing keywords, cubic-bezier(), steps() and linear()
+ */
+export interface EasingToken extends TokenDefinitionBase<'easing', string> {
+  readonly type: 'easing';
+}
+
+/**
+ * Value of a transition token
+ */
+export interface TransitionValue {
+  /** Non-negative time (e.g., "200ms") */
+  readonly duration: string;
+  /** Easing function (e.g., "ease-out" or "cubic-bezier(0.4, 0, 0.2, 1)") */
+  readonly easing: string;
+  /** Optional time before the transition starts; may be negative */
+  readonly delay?: string;
+}
+
+/**
+ * Transition token definition
+ * A composite of duration, easing and optional delay, emitted as a transition shorthand
+ */
+export interface TransitionToken extends TokenDefinitionBase<'transition', TransitionValue> {
+  readonly type: 'transition';
+}
+
+/**
+ * Gradient token definition
+ * Accepts linear-gradient(), radial-gradient() and conic-gradient() values
+ */
+export interface GradientToken extends TokenDefinitionBase<'gradient', string> {
+  readonly type: 'gradient';
+}
+
+/**
+ * Value of a typography token
+ *
+ * @remarks
+ * Field names follow the DTCG typography type.
+ */
+export interface TypographyValue {
+  /** Font family stack (e.g., "Inter, sans-serif") */
+  readonly fontFamily: string;
+  /** Font size dimension (e.g., "1rem") */
+  readonly fontSize: string;
+  /** Font weight number or keyword */
+  readonly fontWeight?: string | number;
+  /** Unitless number, dimension or "normal" */
+  readonly lineHeight?: string | number;
+  /** Dimension or "normal" */
+  readonly letterSpacing?: string;
+}
+
+/**
+ * Typography token definition
+ * A composite type style, emitted as one CSS variable per field plus a `font` shorthand
+ */
+export interface TypographyToken extends TokenDefinitionBase<'typography', TypographyValue> {
+  readonly type: 'typography';
+}
+
+/**
+ * Resolved value of a scale token, with a dimension for every step
+ *
+ * @typeParam S - Union of the step names
+ */
+export type ScaleValue<S extends string = string> = { readonly [K in S]: string };
+
+/**
+ * Definition of a scale token value
+ *
+ * @remarks
+ * Either an explicit list of dimensions (one per step, in order), a modular scale
+ * where each step is `ratio` times the previous one and `baseStep` (the first
+ * step by default) equals `base`, or an object with a dimension for every step.
+ *
+ * @typeParam S - Union of the step names
+ */
+export type ScaleDefinition<S extends string = string> =
+  | readonly string[]
+  | { readonly base: string; readonly ratio: number; readonly baseStep?: S }
+  | ScaleValue<S>;
+
+/**
+ * Scale token definition
+ * A set of named dimension steps, emitted as one CSS variable per step
+ *
+ * @typeParam S - Union of the step names
+ */
+export interface ScaleToken<S extends string = string>
+  extends TokenDefinitionBase<'scale', ScaleDefinition<S>> {
+  readonly type: 'scale';
+  /** The step names, from smallest to largest */
+  readonly steps: readonly S[];
+}
+
+/**
+ * Reference token definition
+ * Points at another token in the same schema and resolves to its value
+ */
+export interface ReferenceToken<P extends string = string>
+  extends TokenDefinitionBase<'reference', never> {
+  readonly type: 'reference';
+  /** Dot-notation path of the referenced token (e.g., "colors.primary") */
+  readonly target: P;
+}
+
+// =============================================================================
+// Token Constraints
+// =============================================================================
+
+/**
+ * Bounds for number token values (inclusive)
+ */
+export interface NumberConstraints {
+  readonly min?: number;
+  readonly max?: number;
+}
+
+/**
+ * Bounds and allowed units for dimension token values
+ *
+ * @remarks
+ * Bounds are inclusive dimensions such as "4px". Absolute units are converted
+ * to pixels before comparing, and `rem` is compared as 16px. Other relative
+ * units (em, %, vw, ...) only compare with bounds in the same unit.
+ */
+export interface DimensionConstraints {
+  readonly min?: string;
+  readonly max?: string;
+  /** Allowed units; unitless `0` is always allowed */
+  readonly units?: readonly string[];
+}
+
+/**
+ * Allowed values for string token values
+ */
+export interface StringConstraints {
+  /** The value must equal one of these strings */
+  readonly oneOf?: readonly string[];
+  /** The value must match this pattern */
+  readonly pattern?: RegExp;
+}
+
+/**
+ * Allowed range for font weight token values (inclusive)
+ *
+ * @remarks
+ * The keywords `normal` and `bold` are checked as 400 and 700.
+ * Relative and CSS-wide keywords are rejected, since their weight cannot be known.
+ */
+export interface FontWeightConstraints {
+  readonly min: number;
+  readonly max: number;
+}
+
+/**
+ * Allowlists for asset token values
+ *
+ * @remarks
+ * Relative paths are same-origin and are only checked against the allowed
+ * extensions. Protocol-relative URLs (`//host/path`) are checked against the hosts.
+ * When hosts are set without protocols, only http and https URLs are allowed,
+ * so data URIs must be allowed explicitly with `protocols`.
+ */
+export interface AssetConstraints {
+  /** Allowed protocols without the colon (e.g., "https", "data") */
+  readonly protocols?: readonly string[];
+  /** Allowed hosts; "*.example.com" matches any subdomain of example.com */
+  readonly hosts?: readonly string[];
+  /** Allowed file extensions without the dot (e.g., "png"); not checked for data URIs */
+  readonly extensions?: readonly string[];
+  /** Maximum decoded size of data URIs, in bytes */
+  readonly maxDataSize?: number;
+}
+
+/**
+ * Step names of scale token values
+ *
+ * @remarks
+ * Taken from the steps of a scale token, as enum tokens take their values as `oneOf`.
+ */
+export interface ScaleConstraints {
+  readonly steps: readonly string[];
+}
+
+/**
+ * Union of the constraints supported by token types
+ */
+export type TokenConstraints =
+  | NumberConstraints
+  | DimensionConstraints
+  | StringConstraints
+  | FontWeightConstraints
+  | AssetConstraints
+  | ScaleConstraints;
+
 /**
  * Union of all token definition types
  */
@@ -112,7 +435,16 @@ export type TokenDefinition =
   | FontFamilyToken
   | FontWeightToken
   | ShadowToken
-  | UrlToken;
+  | UrlToken
+  | AssetToken
+  | EnumToken
+  | DurationToken
+  | EasingToken
+  | TransitionToken
+  | GradientToken
+  | TypographyToken
+  | ScaleToken
+  | ReferenceToken;
 
 // =============================================================================
 // Schema Types
@@ -130,12 +462,94 @@ export type SchemaDefinition = {
  */
 declare const SCHEMA_BRAND: unique symbol;
 
+/**
+ * Computes a derived token value from the rest of the theme
+ *
+ * @remarks
+ * Receives the theme after validation, with defaults applied and values
+ * normalized (and converted by `coerce`). References without a value read
+ * as their target's value, and other derived tokens as their computed value.
+ * The returned value is validated against the token's type.
+ */
+export type DeriveFunction<T extends SchemaDefinition, V> = (theme: InferTheme<T>) => V;
+
+/**
+ * Derived token declarations, keyed by the dot-notation path of the token they compute
+ */
+export type DerivedTokens<T extends SchemaDefinition> = {
+  readonly [P in ThemePath<T>]?: DeriveFunction<T, PathValue<T, P>>;
+};
+
+/**
+ * WCAG 2 conformance levels for contrast rules
+ *
+ * - `AA`: 4.5:1 (normal text)
+ * - `AA-large`: 3:1 (large text and UI components)
+ * - `AAA`: 7:1 (normal text)
+ * - `AAA-large`: 4.5:1 (large text)
+ */
+export type ContrastLevel = 'AA' | 'AA-large' | 'AAA' | 'AAA-large';
+
+/**
+ * A minimum contrast requirement between two color tokens
+ *
+ * @typeParam P - Valid token paths of the schema
+ */
+export interface ContrastRule<P extends string = string> {
+  /** Path of the foreground (text) color token */
+  readonly foreground: P;
+  /** Path of the background color token */
+  readonly background: P;
+  /** WCAG level whose ratio is required (default: 'AA') */
+  readonly level?: ContrastLevel;
+  /** Explicit minimum contrast ratio, from 1 to 21 (overrides `level`) */
+  readonly minRatio?: number;
+  /**
+   * How failures are reported (default: 'error')
+   * - 'error': fail validation with a ValidationError
+   * - 'warning': report a ValidationWarning and keep the theme valid
+   */
+  readonly severity?: 'error' | 'warning';
+}
+
 /**
  * A validated schema created by createSchema()
  */
 export interface Schema<T extends SchemaDefinition = SchemaDefinition> {
   readonly [SCHEMA_BRAND]: true;
   readonly definition: T;
+  /** Derived token functions, keyed by token path */
+  readonly derived?: Readonly<Record<string, (theme: never) => unknown>>;
+  /** Contrast requirements between color tokens */
+  readonly contrast?: readonly ContrastRule[];
+  /** Paths of removed tokens, mapped to the paths of the tokens that replace them */
+  readonly aliases?: Readonly<Record<string, string>>;
+  /** Version of the schema, recorded in theme data as `$version` */
+  readonly version?: number;
+  /** Migrations keyed by the version they upgrade theme data to */
+  readonly migrations?: Readonly<Record<number, ThemeMigration>>;
+}
+
+/**
+ * Upgrades theme data by one schema version
+ *
+ * Receives data of the previous version and returns data of the next one.
+ * The data is a copy, so it may be modified in place and returned.
+ */
+export type ThemeMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * A token of a schema with its UI metadata, as returned by getSchemaMetadata()
+ */
+export interface TokenMetadataEntry {
+  /** Dot-notation path of the token (e.g., "colors.primary") */
+  readonly path: string;
+  /** The token definition, for editors that need defaults, constraints or enum values */
+  readonly token: TokenDefinition;
+  /** The metadata set with `.meta()`, empty if none was set */
+  readonly metadata: TokenMetadata;
+  /** Whether the token is computed by a derive function rather than set by tenants */
+  readonly isDerived: boolean;
 }
 
 // =============================================================================
@@ -144,36 +558,72 @@ export interface Schema<T extends SchemaDefinition = SchemaDefinition> {
 
 /**
  * Maps token types to their runtime value types
+ *
+ * @remarks
+ * The root schema `R` is needed to look up the value type of referenced tokens.
  */
-export type TokenTypeToValue<T extends TokenDefinition> = T extends ColorToken
-  ? string
-  : T extends DimensionToken
-    ? string
-    : T extends NumberToken
-      ? number
-      : T extends StringToken
+export type TokenTypeToValue<
+  T extends TokenDefinition,
+  R extends SchemaDefinition = SchemaDefinition,
+> =
+  T extends ReferenceToken<infer P>
+    ? PathValue<R, P>
+    : T extends ColorToken
+      ? string
+      : T extends DimensionToken
         ? string
-        : T extends BooleanToken
-          ? boolean
-          : T extends FontFamilyToken
+        : T extends NumberToken
+          ? number
+          : T extends StringToken
             ? string
-            : T extends FontWeightToken
-              ? string | number
-              : T extends ShadowToken
+            : T extends BooleanToken
+              ? boolean
+              : T extends FontFamilyToken
                 ? string
-                : T extends UrlToken
-                  ? string
-                  : never;
+                : T extends FontWeightToken
+                  ? string | number
+                  : T extends ShadowToken
+                    ? string
+                    : T extends UrlToken
+                      ? string
+                      : T extends AssetToken
+                        ? string
+                        : T extends EnumToken<infer V>
+                          ? V
+                          : T extends DurationToken
+                            ? string
+                            : T extends EasingToken
+                              ? string
+                              : T extends TransitionToken
+                                ? TransitionValue
+                                : T extends GradientToken
+                                  ? string
+                                  : T extends TypographyToken
+                                    ? TypographyValue
+                                    : T extends ScaleToken<infer S>
+                                      ? ScaleValue<S>
+                                      : never;
+
+/**
+ * Maps a token definition to its value type in the theme
+ * Optional tokens may be undefined
+ */
+export type TokenValue<
+  T extends TokenDefinition,
+  R extends SchemaDefinition = SchemaDefinition,
+> = T extends { readonly isOptional: true }
+  ? TokenTypeToValue<T, R> | undefined
+  : TokenTypeToValue<T, R>;
 
 /**
  * Infers the theme type from a schema definition
  * Recursively processes nested groups
  */
-export type InferTheme<T extends SchemaDefinition> = {
+export type InferTheme<T extends SchemaDefinition, R extends SchemaDefinition = T> = {
   [K in keyof T]: T[K] extends TokenDefinition
-    ? TokenTypeToValue<T[K]>
+    ? TokenValue<T[K], R>
     : T[K] extends SchemaDefinition
-      ? InferTheme<T[K]>
+      ? InferTheme<T[K], R>
       : never;
 };
 
@@ -197,20 +647,95 @@ export type ThemePath<T extends SchemaDefinition, Prefix extends string = ''> =
 export type PathValue<
   T extends SchemaDefinition,
   P extends string,
+  R extends SchemaDefinition = T,
 > = P extends `${infer Head}.${infer Tail}`
   ? Head extends keyof T
     ? T[Head] extends SchemaDefinition
-      ? PathValue<T[Head], Tail>
+      ? PathValue<T[Head], Tail, R>
       : never
     : never
   : P extends keyof T
     ? T[P] extends TokenDefinition
-      ? TokenTypeToValue<T[P]>
+      ? TokenValue<T[P], R>
       : T[P] extends SchemaDefinition
-        ? InferTheme<T[P]>
+        ? InferTheme<T[P], R>
         : never
     : never;
 
+// =============================================================================
+// Schema Composition
+// =============================================================================
+
+/**
+ * Dot-notation paths of the tokens and nested groups of a schema
+ */
+export type SchemaPath<T extends SchemaDefinition, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends TokenDefinition
+    ? Prefix extends ''
+      ? K
+      : `${Prefix}.${K}`
+    : T[K] extends SchemaDefinition
+      ?
+          | (Prefix extends '' ? K : `${Prefix}.${K}`)
+          | SchemaPath<T[K], Prefix extends '' ? K : `${Prefix}.${K}`>
+      : never;
+}[keyof T & string];
+
+/**
+ * Deeply merges two schema definitions, with tokens of `B` replacing those of `A`
+ */
+export type MergeDefinitions<A extends SchemaDefinition, B extends SchemaDefinition> = {
+  [K in keyof A | keyof B]: K extends keyof B
+    ? K extends keyof A
+      ? B[K] extends TokenDefinition
+        ? B[K]
+        : A[K] extends SchemaDefinition
+          ? B[K] extends SchemaDefinition
+            ? MergeDefinitions<A[K], B[K]>
+            : B[K]
+          : B[K]
+      : B[K]
+    : K extends keyof A
+      ? A[K]
+      : never;
+};
+
+/**
+ * Merges the definitions of a list of schemas from left to right
+ */
+export type MergeSchemaDefinitions<
+  S extends readonly Schema<SchemaDefinition>[],
+  Acc extends SchemaDefinition = Record<never, never>,
+> = S extends readonly [Schema<infer F>, ...infer Rest extends readonly Schema<SchemaDefinition>[]]
+  ? MergeSchemaDefinitions<Rest, MergeDefinitions<Acc, F>>
+  : Acc;
+
+/**
+ * Keeps the tokens and nested groups of a schema definition at the given paths
+ */
+export type PickDefinition<T extends SchemaDefinition, P extends string> = {
+  [K in keyof T & string as K extends P ? K : P extends `${K}.${string}` ? K : never]: K extends P
+    ? T[K]
+    : T[K] extends TokenDefinition
+      ? never
+      : T[K] extends SchemaDefinition
+        ? PickDefinition<T[K], P extends `${K}.${infer Rest}` ? Rest : never>
+        : never;
+};
+
+/**
+ * Removes the tokens and nested groups of a schema definition at the given paths
+ */
+export type OmitDefinition<T extends SchemaDefinition, P extends string> = {
+  [K in keyof T & string as K extends P ? never : K]: T[K] extends TokenDefinition
+    ? T[K]
+    : T[K] extends SchemaDefinition
+      ? [Extract<P, `${K}.${string}`>] extends [never]
+        ? T[K]
+        : OmitDefinition<T[K], P extends `${K}.${infer Rest}` ? Rest : never>
+      : T[K];
+};
+
 // =============================================================================
 // Validation Types
 // =============================================================================
@@ -220,22 +745,135 @@ export type PathValue<
  */
 export type ValidationMode = 'strict' | 'coerce' | 'partial';
 
+/**
+ * How validation treats keys in theme data that the schema does not declare
+ *
+ * - `strip`: leave them out of the validated data
+ * - `warn`: leave them out and report a warning for each
+ * - `error`: fail validation with an `unknown_key` error for each
+ */
+export type UnknownKeysMode = 'strip' | 'warn' | 'error';
+
+/**
+ * Stable identifier of a validation error, for translating error messages
+ *
+ * @remarks
+ * Codes that apply to a single token type are prefixed with it. The params of
+ * each code are listed next to it; `cause` params hold the {@link ValidationIssue}
+ * of a nested value, such as a typography field.
+ */
+export type ValidationErrorCode =
+  // Any token
+  | 'required'
+  | 'invalid_type' // { expected: 'string' | 'number' | 'boolean' | 'object' }
+  | 'unknown_property' // { property }
+  | 'invalid_property' // { property, cause }
+  | 'unknown_token_type' // { type }
+  | 'unknown_key'
+  // Token types
+  | 'color.invalid_format'
+  | 'dimension.invalid_format'
+  | 'dimension.unit_not_allowed' // { unit, allowed }
+  | 'dimension.too_small' // { min }
+  | 'dimension.too_large' // { max }
+  | 'dimension.not_comparable' // { value, min } or { value, max }
+  | 'number.too_small' // { min }
+  | 'number.too_large' // { max }
+  | 'string.not_allowed' // { allowed }
+  | 'string.pattern_mismatch' // { pattern }
+  | 'fontFamily.empty'
+  | 'fontWeight.invalid_format'
+  | 'fontWeight.out_of_range' // { min, max }
+  | 'fontWeight.not_comparable' // { weight, min, max }
+  | 'shadow.empty'
+  | 'shadow.invalid_format'
+  | 'shadow.invalid_layer' // { index, cause }
+  | 'shadow.negative_length'
+  | 'shadow.color_not_allowed' // { color }
+  | 'url.empty'
+  | 'url.invalid_format'
+  | 'url.unsafe_protocol' // { protocol }
+  | 'url.unsafe_mime_type' // { mimeType }
+  | 'asset.invalid_character' // { character }
+  | 'asset.protocol_relative' // { allowed }
+  | 'asset.protocol_not_allowed' // { protocol, allowed }
+  | 'asset.host_not_allowed' // { host, allowed }
+  | 'asset.missing_extension' // { allowed }
+  | 'asset.extension_not_allowed' // { extension, allowed }
+  | 'asset.too_large' // { size, maxDataSize }
+  | 'enum.not_allowed' // { allowed }
+  | 'duration.invalid_format'
+  | 'easing.invalid_format'
+  | 'transition.invalid_delay'
+  | 'gradient.invalid_format'
+  | 'gradient.unbalanced_parentheses'
+  | 'gradient.invalid_color_stop' // { stop }
+  | 'gradient.invalid_stop_position' // { stop }
+  | 'typography.invalid_line_height'
+  | 'typography.invalid_letter_spacing'
+  | 'scale.invalid_format'
+  | 'scale.length_mismatch' // { count, received }
+  | 'scale.unknown_step' // { step }
+  | 'scale.missing_step' // { step }
+  | 'scale.invalid_step' // { step, cause }
+  | 'scale.invalid_ratio'
+  | 'scale.invalid_base_step' // { allowed }
+  | 'reference.unsupported'
+  | 'reference.circular' // { chain }
+  // Schema rules
+  | 'derived.circular' // { chain }
+  | 'derived.failed' // { reason }
+  | 'contrast.insufficient'; // { ratio, minRatio, level?, background }
+
+/**
+ * Structured values of a validation error, such as the bounds of a constraint
+ */
+export type ValidationErrorParams = Readonly<Record<string, unknown>>;
+
+/**
+ * What is wrong with a value: a stable code, its params and an English message
+ */
+export interface ValidationIssue {
+  readonly code: ValidationErrorCode;
+  readonly params: ValidationErrorParams;
+  readonly message: string;
+}
+
 /**
  * A single validation error
  */
-export interface ValidationError {
+export interface ValidationError extends ValidationIssue {
+  readonly path: string;
+  /** The type expected at the path, or undefined for keys the schema does not declare */
+  readonly expected: TokenType | 'object' | undefined;
+  readonly received: unknown;
+}
+
+/**
+ * A non-fatal validation issue, such as a contrast rule with warning severity,
+ * a value at a deprecated path or a coerced value
+ */
+export interface ValidationWarning {
   readonly path: string;
   readonly message: string;
-  readonly expected: TokenType | 'object';
   readonly received: unknown;
 }
 
 /**
- * Result of validation - either success with data or failure with errors
+ * Result of validation - either success with data or failure with errors.
+ * Warnings are reported either way.
  */
 export type ValidationResult<T> =
-  | { readonly success: true; readonly data: T }
-  | { readonly success: false; readonly errors: readonly ValidationError[] };
+  | {
+      readonly success: true;
+      readonly data: T;
+      readonly warnings: readonly ValidationWarning[];
+    }
+  | {
+      readonly success: false;
+      readonly errors: readonly ValidationError[];
+      readonly warnings: readonly ValidationWarning[];
+    };
 
 // =============================================================================
 // Resolver Types
@@ -271,7 +909,7 @@ export interface ResolverOptions<T extends SchemaDefinition> {
 export interface ThemeResolver<T extends SchemaDefinition> {
   /** Resolve theme for a theme ID, using cache if available */
   resolve(params: { themeId: string }): Promise<InferTheme<T>>;
-  /** Invalidate cached theme for a theme ID */
+  /** Invalidate cached theme for a theme ID, and the cached themes that extend it */
   invalidate(params: { themeId: string }): void;
   /** Clear all cached themes */
   clearCache(): void;
@@ -293,4 +931,67 @@ export interface CssVariableOptions {
   readonly separator?: string;
   /** Transform function for variable names */
   readonly transformName?: (path: string) => string;
+  /**
+   * How reference tokens are emitted (default: 'resolve')
+   * - 'resolve': emit the resolved value
+   * - 'var': emit a var() pointing at the referenced token, so changing it updates every alias
+   */
+  readonly references?: 'resolve' | 'var';
+}
+
+// =============================================================================
+// Theme Diff Types
+// =============================================================================
+
+/**
+ * A token that has a value in the new theme but not in the old one
+ */
+export type TokenAdded<
+  T extends SchemaDefinition,
+  P extends ThemePath<T> = ThemePath<T>,
+> = P extends unknown ? { readonly path: P; readonly newValue: PathValue<T, P> } : never;
+
+/**
+ * A token that has a value in the old theme but not in the new one
+ */
+export type TokenRemoved<
+  T extends SchemaDefinition,
+  P extends ThemePath<T> = ThemePath<T>,
+> = P extends unknown ? { readonly path: P; readonly oldValue: PathValue<T, P> } : never;
+
+/**
+ * A token whose value differs between the themes
+ */
+export type TokenChanged<
+  T extends SchemaDefinition,
+  P extends ThemePath<T> = ThemePath<T>,
+> = P extends unknown
+  ? { readonly path: P; readonly oldValue: PathValue<T, P>; readonly newValue: PathValue<T, P> }
+  : never;
+
+/**
+ * Changes of the CSS variables generated for two themes
+ */
+export interface CssVariablesDiff {
+  readonly added: readonly { readonly name: string; readonly newValue: string }[];
+  readonly removed: readonly { readonly name: string; readonly oldValue: string }[];
+  readonly changed: readonly {
+    readonly name: string;
+    readonly oldValue: string;
+    readonly newValue: string;
+  }[];
+}
+
+/**
+ * Differences between two themes of a schema
+ */
+export interface ThemeDiff<T extends SchemaDefinition> {
+  /** Tokens set only in the new theme */
+  readonly added: readonly TokenAdded<T>[];
+  /** Tokens set only in the old theme */
+  readonly removed: readonly TokenRemoved<T>[];
+  /** Tokens whose value changed */
+  readonly changed: readonly TokenChanged<T>[];
+  /** Changes of the generated CSS variables */
+  readonly cssVariables: CssVariablesDiff;
 }
@@ -0,0 +1,106 @@
+/**
+ * Contrast rule checks
+ *
+ * Contrast rules declared on a schema are checked against the final color
+ * values, after defaults, references and derived tokens have been applied.
+ */
+
+import type {
+  ContrastLevel,
+  ContrastRule,
+  ValidationError,
+  ValidationWarning,
+} from '../types/index.js';
+import { contrastRatio, parseColor } from '../color/index.js';
+import { getAtPath } from '../internal/utils.js';
+
+/**
+ * Minimum contrast ratio of each WCAG level
+ *
+ * @internal
+ */
+export const CONTRAST_LEVELS: Readonly<Record<ContrastLevel, number>> = {
+  AA: 4.5,
+  'AA-large': 3,
+  AAA: 7,
+  'AAA-large': 4.5,
+};
+
+/**
+ * Describes the requirement of a rule for error messages
+ *
+ * @internal
+ */
+function describeRequirement(rule: ContrastRule): string {
+  if (rule.minRatio !== undefined) {
+    return `${rule.minRatio}:1`;
+  }
+  const level = rule.level ?? 'AA';
+  return `${CONTRAST_LEVELS[level]}:1 (${level})`;
+}
+
+/**
+ * Checks contrast rules against theme data
+ *
+ * @param rules - The contrast rules declared on the schema
+ * @param data - The validated theme data
+ * @returns Failures of rules with error severity and of rules with warning severity
+ *
+ * @remarks
+ * Rules are skipped when either color is missing or has no concrete value
+ * (e.g., `currentcolor`), since their contrast cannot be known.
+ *
+ * @internal
+ */
+export function checkContrast(
+  rules: readonly ContrastRule[],
+  data: Record<string, unknown>
+): { errors: ValidationError[]; warnings: ValidationWarning[] } {
+  const errors: ValidationError[] = [];
+  const warnings: ValidationWarning[] = [];
+
+  for (const rule of rules) {
+    const foreground = getAtPath(data, rule.foreground);
+    const background = getAtPath(data, rule.background);
+    if (
+      typeof foreground !== 'string' ||
+      typeof background !== 'string' ||
+      !parseColor(foreground) ||
+      !parseColor(background)
+    ) {
+      continue;
+    }
+
+    const ratio = contrastRatio(foreground, background);
+    const required = rule.minRatio ?? CONTRAST_LEVELS[rule.level ?? 'AA'];
+    if (ratio >= required) {
+      continue;
+    }
+
+    // Round down so a failing ratio is never displayed as the required one
+    const displayed = Math.floor(ratio * 100) / 100;
+    const failure = {
+      path: rule.foreground,
+      message: `contrast ratio ${displayed}:1 against "${rule.background}" is below ${describeRequirement(rule)}`,
+      received: foreground,
+    };
+
+    if (rule.severity === 'warning') {
+      warnings.push(failure);
+    } else {
+      errors.push({
+        ...failure,
+        code: 'contrast.insufficient',
+        params: {
+          ratio: displayed,
+          minRatio: required,
+          ...(rule.minRatio === undefined && { level: rule.level ?? 'AA' }),
+          background: rule.background,
+        },
+        expected: 'color',
+      });
+    }
+  }
+
+  return { errors, warnings };
+}
@@ -0,0 +1,134 @@
+/**
+ * Legacy path migration
+ *
+ * Values stored under the path of a deprecated token or a schema alias are
+ * moved to the token that replaces them, so renaming a token does not drop the
+ * values of tenants whose stored themes still use the old path. Strict and
+ * partial validation only report them.
+ */
+
+import type { Schema, TokenDeprecation, ValidationWarning } from '../types/index.js';
+import { getTokenAtPath, getTokenPaths } from '../schema/index.js';
+import { assignAtPath, deepClone, getAtPath, isPlainObject } from '../internal/utils.js';
+
+/**
+ * Collects the deprecated paths of a schema with their deprecation details
+ *
+ * @internal
+ */
+function getDeprecatedPaths(schema: Schema): Array<[path: string, deprecation: TokenDeprecation]> {
+  const { definition, aliases = {} } = schema;
+  const deprecated: Array<[string, TokenDeprecation]> = Object.entries(aliases).map(
+    ([path, replacedBy]) => [path, { replacedBy }]
+  );
+
+  for (const path of getTokenPaths({ definition })) {
+    const deprecation = getTokenAtPath({ definition, path })?.deprecation;
+    if (deprecation) {
+      deprecated.push([path, deprecation]);
+    }
+  }
+
+  return deprecated;
+}
+
+/**
+ * Removes the value at a dot-notation path, leaving parent groups in place
+ *
+ * @internal
+ */
+function deleteAtPath(obj: Record<string, unknown>, path: string): void {
+  const parts = path.split('.');
+  const last = parts.pop()!;
+  const parent = parts.length > 0 ? getAtPath<unknown>(obj, parts.join('.')) : obj;
+
+  if (isPlainObject(parent)) {
+    delete parent[last];
+  }
+}
+
+/**
+ * Describes a deprecated path and what replaces it
+ *
+ * @internal
+ */
+function deprecationMessage(path: string, { replacedBy, reason }: TokenDeprecation): string {
+  let message = replacedBy
+    ? `"${path}" is deprecated, use "${replacedBy}" instead`
+    : `"${path}" is deprecated`;
+  if (reason) {
+    message += ` (${reason})`;
+  }
+  return message;
+}
+
+/**
+ * Moves values at deprecated paths to the tokens that replace them
+ *
+ * @param schema - The schema declaring deprecated tokens and aliases
+ * @param data - The theme data to migrate (not mutated)
+ * @returns The migrated data and a warning for each deprecated path in use
+ *
+ * @remarks
+ * A legacy value is only moved when the replacement has no value of its own;
+ * otherwise it is dropped. Values of deprecated tokens without a replacement
+ * are kept. Data is cloned only when it contains legacy values.
+ *
+ * @internal
+ */
+export function migrateLegacyPaths(
+  schema: Schema,
+  data: unknown
+): { data: unknown; warnings: ValidationWarning[] } {
+  const warnings: ValidationWarning[] = [];
+  if (!isPlainObject(data)) {
+    return { data, warnings };
+  }
+
+  let migrated: Record<string, unknown> | undefined;
+
+  for (const [path, deprecation] of getDeprecatedPaths(schema)) {
+    const value = getAtPath(data, path);
+    if (value === undefined) {
+      continue;
+    }
+
+    const { replacedBy } = deprecation;
+    let message = deprecationMessage(path, deprecation);
+    if (replacedBy) {
+      migrated ??= deepClone(data);
+      if (getAtPath(migrated, replacedBy) === undefined) {
+        assignAtPath(migrated, replacedBy, value);
+      } else {
+        message += `; value ignored since "${replacedBy}" is set`;
+      }
+      deleteAtPath(migrated, path);
+    }
+
+    warnings.push({ path, message, received: value });
+  }
+
+  return { data: migrated ?? data, warnings };
+}
+
+/**
+ * Reports values at deprecated paths without moving them
+ *
+ * @param schema - The schema declaring deprecated tokens and aliases
+ * @param data - The theme data to check
+ * @returns A warning for each deprecated path in use
+ *
+ * @internal
+ */
+export function findLegacyPaths(schema: Schema, data: unknown): ValidationWarning[] {
+  if (!isPlainObject(data)) {
+    return [];
+  }
+
+  return getDeprecatedPaths(schema).flatMap(([path, deprecation]) => {
+    const value = getAtPath(data, path);
+    return value === undefined
+      ? []
+      : [{ path, message: deprecationMessage(path, deprecation), received: value }];
+  });
+}
@@ -9,10 +9,165 @@ import type {
   ValidationResult,
   ValidationError,
   ValidationMode,
+  ValidationWarning,
   TokenDefinition,
+  UnknownKeysMode,
 } from '../types/index.js';
-import { isTokenDefinition, isSchemaDefinition, getSchemaDefinition } from '../schema/index.js';
+import {
+  isTokenDefinition,
+  isSchemaDefinition,
+  getSchemaDefinition,
+  getTokenAtPath,
+} from '../schema/index.js';
 import { validateValue, coerceValue } from './validators.js';
+import { getReferencedToken, circularReferenceError, resolveReferences } from './references.js';
+import { checkContrast } from './contrast.js';
+import { findLegacyPaths, migrateLegacyPaths } from './deprecations.js';
+import { applyDerivedTokens } from '../resolver/derived.js';
+import { assignAtPath, deepEqual, getAtPath, isPlainObject } from '../internal/utils.js';
+
+/**
+ * State shared across a single collectErrors traversal
+ *
+ * @internal
+ */
+interface CollectContext {
+  /** The root schema definition (used to look up reference targets) */
+  readonly root: SchemaDefinition;
+  /** Paths of reference tokens whose values must be resolved afterwards */
+  readonly references: string[];
+  /** Paths of derived tokens, which are computed rather than required */
+  readonly derived: ReadonlySet<string>;
+  /** Paths of derived tokens without a value, which are computed once all other values are known */
+  readonly uncomputed: string[];
+  /** How keys the schema does not declare are handled */
+  readonly unknownKeys: UnknownKeysMode;
+  /** Paths of schema aliases, which are not reported as unknown keys */
+  readonly aliases: ReadonlySet<string>;
+  /** Non-fatal issues found along the way */
+  readonly warnings: ValidationWarning[];
+}
+
+/**
+ * Builds the validation error for a required value that is missing
+ *
+ * @internal
+ */
+function requiredError(path: string, token: TokenDefinition): ValidationError {
+  return {
+    path,
+    code: 'required',
+    params: {},
+    message: 'required value is missing',
+    expected: token.type,
+    received: undefined,
+  };
+}
+
+/**
+ * Validates or coerces the value of a token
+ *
+ * @param token - The token to check the value against (not a reference)
+ * @param value - The value to check
+ * @param path - Path of the token
+ * @param mode - The validation mode; only coerce mode converts values
+ * @param context - Traversal state receiving warnings for values that coercion changed
+ * @returns The validated value, or the validation error
+ *
+ * @internal
+ */
+function checkTokenValue(
+  token: TokenDefinition,
+  value: unknown,
+  path: string,
+  mode: ValidationMode,
+  context: CollectContext
+): { ok: true; value: unknown } | { ok: false; error: ValidationError } {
+  const constraints =
+    token.type === 'enum'
+      ? { oneOf: token.values }
+      : token.type === 'scale'
+        ? { steps: token.steps }
+        : 'constraints' in token
+          ? token.constraints
+          : undefined;
+  const validated = validateValue(value, token.type, constraints);
+  const result =
+    mode === 'coerce' && !validated.valid ? coerceValue(value, token.type, constraints) : validated;
+
+  if (!result.valid) {
+    return {
+      ok: false,
+      error: {
+        path,
+        code: result.code,
+        params: result.params,
+        message: result.message,
+        expected: token.type,
+        received: value,
+      },
+    };
+  }
+
+  // Validation also normalizes values (e.g. 'Red' to 'red'), so compare the values themselves.
+  // Modular scales are expanded into steps, so only coercion changes a scale value.
+  const changed = token.type === 'scale' ? result !== validated : !deepEqual(value, result.value);
+  // Defaults are part of the schema rather than tenant input
+  if (mode === 'coerce' && changed && !deepEqual(value, token.defaultValue)) {
+    context.warnings.push({
+      path,
+      message: `coerced ${JSON.stringify(value)} to ${JSON.stringify(result.value)}`,
+      received: value,
+    });
+  }
+  return { ok: true, value: result.value };
+}
+
+/**
+ * Reports a key of the theme data that the schema does not declare
+ *
+ * @param path - Path of the key
+ * @param value - The value stored under the key
+ * @param context - Traversal state holding the unknown keys mode
+ * @param errors - Errors of the current traversal, used in error mode
+ *
+ * @remarks
+ * Alias paths are known keys. Groups that lead to an alias are checked key by
+ * key, since coerce mode leaves them behind after moving the aliased values.
+ *
+ * @internal
+ */
+function reportUnknownKey(
+  path: string,
+  value: unknown,
+  context: CollectContext,
+  errors: ValidationError[]
+): void {
+  if (context.aliases.has(path)) {
+    return;
+  }
+
+  if (isPlainObject(value) && [...context.aliases].some((alias) => alias.startsWith(`${path}.`))) {
+    for (const [key, nested] of Object.entries(value)) {
+      reportUnknownKey(`${path}.${key}`, nested, context, errors);
+    }
+    return;
+  }
+
+  const message = 'key is not declared in the schema';
+  if (context.unknownKeys === 'error') {
+    errors.push({
+      path,
+      code: 'unknown_key',
+      params: {},
+      message,
+      expected: undefined,
+      received: value,
+    });
+  } else {
+    context.warnings.push({ path, message, received: value });
+  }
+}
 
 /**
  * Collects all validation errors for a theme against a schema
@@ -21,6 +176,7 @@ import { validateValue, coerceValue } from './validators.js';
  * @param data - The data to validate
  * @param mode - The validation mode ('strict', 'partial', or 'coerce')
  * @param path - The current path in the schema (for error messages)
+ * @param context - Traversal state shared with nested groups
  * @returns Object containing validation errors and coerced data
  *
  * @remarks
@@ -30,13 +186,30 @@ import { validateValue, coerceValue } from './validators.js';
  * - In partial mode: Missing values are allowed
  * - In coerce mode: Values are converted to the correct type when possible
  *
+ * Reference tokens and derived tokens without a value are recorded in the
+ * context, and resolved or computed once all other values are known. In
+ * partial mode, derived tokens are not computed. Missing optional tokens are
+ * left out of the data.
+ * Keys the schema does not declare are always left out, and reported unless the
+ * unknown keys mode is 'strip'. Root keys starting with `$`, such as `$version`,
+ * are theme metadata rather than unknown keys.
+ *
  * @internal
  */
 function collectErrors(
   definition: SchemaDefinition,
   data: unknown,
   mode: ValidationMode,
-  path: string = ''
+  path: string = '',
+  context: CollectContext = {
+    root: definition,
+    references: [],
+    derived: new Set(),
+    uncomputed: [],
+    unknownKeys: 'strip',
+    aliases: new Set(),
+    warnings: [],
+  }
 ): { errors: ValidationError[]; coercedData: Record<string, unknown> } {
   const errors: ValidationError[] = [];
   const coercedData: Record<string, unknown> = {};
@@ -49,43 +222,52 @@ function collectErrors(
         : undefined;
 
     if (isTokenDefinition(schemaValue)) {
-      const token = schemaValue as TokenDefinition;
+      let token = schemaValue as TokenDefinition;
+
+      if (token.type === 'reference') {
+        // Missing references take the value of their target later on
+        if (dataValue === undefined) {
+          context.references.push(currentPath);
+          continue;
+        }
+
+        // Provided values are validated against the referenced token's type
+        const referenced = getReferencedToken(context.root, token, currentPath);
+        if (!referenced.ok) {
+          errors.push(circularReferenceError(currentPath, referenced.chain));
+          continue;
+        }
+        token = referenced.value;
+      }
+
+      // Scale defaults are definitions, so they are expanded like provided values
+      const value =
+        dataValue === undefined && token.type === 'scale' ? token.defaultValue : dataValue;
 
       // Handle missing values
-      if (dataValue === undefined) {
+      if (value === undefined) {
         if (token.defaultValue !== undefined) {
           // Use default value
           coercedData[key] = token.defaultValue;
         } else if (mode === 'partial') {
           // Skip missing values in partial mode
           continue;
-        } else {
+        } else if (context.derived.has(currentPath)) {
+          // Computed once all other values are known
+          context.uncomputed.push(currentPath);
+        } else if (!token.isOptional) {
           // Required value is missing
-          errors.push({
-            path: currentPath,
-            message: 'required value is missing',
-            expected: token.type,
-            received: undefined,
-          });
+          errors.push(requiredError(currentPath, token));
         }
         continue;
       }
 
       // Validate or coerce the value
-      const result =
-        mode === 'coerce'
-          ? coerceValue(dataValue, token.type)
-          : validateValue(dataValue, token.type);
-
-      if (result.valid) {
-        coercedData[key] = result.value;
+      const checked = checkTokenValue(token, value, currentPath, mode, context);
+      if (checked.ok) {
+        coercedData[key] = checked.value;
       } else {
-        errors.push({
-          path: currentPath,
-          message: result.message,
-          expected: token.type,
-          received: dataValue,
-        });
+        errors.push(checked.error);
       }
     } else if (isSchemaDefinition(schemaValue)) {
       // Handle nested groups
@@ -94,7 +276,7 @@ function collectErrors(
           continue;
         }
         // Check if all nested tokens have defaults
-        const nestedResult = collectErrors(schemaValue, {}, mode, currentPath);
+        const nestedResult = collectErrors(schemaValue, {}, mode, currentPath, context);
         if (nestedResult.errors.length > 0) {
           errors.push(...nestedResult.errors);
         }
@@ -102,21 +284,79 @@ function collectErrors(
       } else if (typeof dataValue !== 'object' || dataValue === null) {
         errors.push({
           path: currentPath,
+          code: 'invalid_type',
+          params: { expected: 'object' },
           message: 'expected object for nested group',
           expected: 'object',
           received: dataValue,
         });
       } else {
-        const nestedResult = collectErrors(schemaValue, dataValue, mode, currentPath);
+        const nestedResult = collectErrors(schemaValue, dataValue, mode, currentPath, context);
         errors.push(...nestedResult.errors);
         coercedData[key] = nestedResult.coercedData;
       }
     }
   }
 
+  if (context.unknownKeys !== 'strip' && isPlainObject(data)) {
+    for (const [key, value] of Object.entries(data)) {
+      const declared = Object.prototype.hasOwnProperty.call(definition, key);
+      if (!declared && !(path === '' && key.startsWith('$'))) {
+        reportUnknownKey(path ? `${path}.${key}` : key, value, context, errors);
+      }
+    }
+  }
+
   return { errors, coercedData };
 }
 
+/**
+ * Computes derived tokens without a value and validates the computed values
+ *
+ * @param schema - The schema declaring derived tokens
+ * @param data - The validated theme data (mutated in place)
+ * @param mode - The validation mode; only coerce mode converts computed values
+ * @param context - Traversal state holding the derived tokens to compute
+ * @returns Errors for derived tokens that could not be computed or are invalid
+ *
+ * @internal
+ */
+function collectDerivedErrors(
+  schema: Schema,
+  data: Record<string, unknown>,
+  mode: ValidationMode,
+  context: CollectContext
+): ValidationError[] {
+  if (context.uncomputed.length === 0) {
+    return [];
+  }
+
+  const errors = applyDerivedTokens(schema, data);
+  const failed = new Set(errors.map((error) => error.path));
+
+  for (const path of context.uncomputed) {
+    const token = getTokenAtPath({ definition: context.root, path })!;
+    const value = getAtPath(data, path);
+
+    if (failed.has(path) || (value === undefined && token.isOptional)) {
+      continue;
+    }
+    if (value === undefined) {
+      errors.push(requiredError(path, token));
+      continue;
+    }
+
+    const checked = checkTokenValue(token, value, path, mode, context);
+    if (checked.ok) {
+      assignAtPath(data, path, checked.value);
+    } else {
+      errors.push(checked.error);
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Options for validate function
  *
@@ -127,6 +367,22 @@ export interface ValidateOptions<T extends SchemaDefinition> {
   schema: Schema<T>;
   /** The data to validate */
   data: unknown;
+  /**
+   * How keys the schema does not declare are handled: left out of the data ('strip'),
+   * left out with a warning ('warn'), or reported as `unknown_key` errors ('error').
+   * Defaults to 'strip'.
+   */
+  unknownKeys?: UnknownKeysMode;
+  /**
+   * Called for each non-fatal issue, such as a failed contrast rule with warning severity,
+   * a value at a deprecated path or a coerced value. Warnings are also returned in the result.
+   */
+  onWarning?: (warning: ValidationWarning) => void;
+  /**
+   * Formats the message of each error, for example to translate it by its code and params.
+   * Receives the error with its English message.
+   */
+  formatMessage?: (error: ValidationError) => string;
 }
 
 /**
@@ -135,27 +391,71 @@ export interface ValidateOptions<T extends SchemaDefinition> {
  * @typeParam T - The type of the schema definition
  * @param options - Validation options containing schema and data
  * @param mode - The validation mode ('strict', 'partial', or 'coerce')
+ * @param checkLegacyPaths - Whether to move or report values at deprecated paths
  * @returns Validation result with typed data or errors
  *
  * @remarks
  * This internal function is used by validate, validatePartial, and coerce
  * to share validation logic while applying different validation modes.
+ * Derived tokens are computed from the validated values, before references
+ * are resolved so that references to derived tokens get their values.
+ * Contrast rules are checked once references are resolved, so they see the
+ * final color values. In coerce mode, values at deprecated paths are first
+ * moved to the tokens that replace them; other modes only warn about them.
+ * Messages are formatted last, so formatMessage sees every error.
  *
  * @internal
  */
 function validateWithMode<T extends SchemaDefinition>(
   options: ValidateOptions<T>,
-  mode: ValidationMode
+  mode: ValidationMode,
+  checkLegacyPaths: boolean = true
 ): ValidationResult<InferTheme<T>> {
-  const { schema, data } = options;
+  const { schema, unknownKeys = 'strip', onWarning, formatMessage } = options;
   const definition = getSchemaDefinition(schema);
-  const { errors, coercedData } = collectErrors(definition, data, mode);
+  const warnings: ValidationWarning[] = [];
+  let { data } = options;
+
+  if (checkLegacyPaths && mode === 'coerce') {
+    const migration = migrateLegacyPaths(schema, data);
+    data = migration.data;
+    warnings.push(...migration.warnings);
+  } else if (checkLegacyPaths) {
+    warnings.push(...findLegacyPaths(schema, data));
+  }
+
+  const context: CollectContext = {
+    root: definition,
+    references: [],
+    derived: new Set(Object.keys(schema.derived ?? {})),
+    uncomputed: [],
+    unknownKeys,
+    aliases: new Set(Object.keys(schema.aliases ?? {})),
+    warnings,
+  };
+  const { errors, coercedData } = collectErrors(definition, data, mode, '', context);
+  errors.push(...collectDerivedErrors(schema, coercedData, mode, context));
+  errors.push(...resolveReferences(definition, coercedData, context.references));
+
+  if (schema.contrast) {
+    const contrast = checkContrast(schema.contrast, coercedData);
+    errors.push(...contrast.errors);
+    warnings.push(...contrast.warnings);
+  }
+
+  warnings.forEach((warning) => onWarning?.(warning));
 
   if (errors.length > 0) {
-    return { success: false, errors };
+    return {
+      success: false,
+      errors: formatMessage
+        ? errors.map((error) => ({ ...error, message: formatMessage(error) }))
+        : errors,
+      warnings,
+    };
   }
 
-  return { success: true, data: coercedData as InferTheme<T> };
+  return { success: true, data: coercedData as InferTheme<T>, warnings };
 }
 
 /**
@@ -207,7 +507,9 @@ export function validatePartial<T extends SchemaDefinition>(
  * Validates and coerces theme data
  *
  * Attempts to convert values to the correct type when possible.
- * For example, "123" -> 123 for number tokens.
+ * For example, "123" -> 123 for number tokens. Values at the paths of
+ * deprecated tokens and schema aliases are moved to their replacements.
+ * Each converted value is reported as a warning.
  *
  * @param options - Validation options containing schema and data
  * @returns Validation result with coerced typed data or errors
@@ -218,6 +520,14 @@ export function validatePartial<T extends SchemaDefinition>(
  * if (result.success) {
  *   console.log(result.data);
  * }
+ *
+ * // Translate error messages by their code, keeping English for the others
+ * coerce({
+ *   schema,
+ *   data: rawThemeData,
+ *   formatMessage: (error) =>
+ *     error.code === 'required' ? 'Valeur obligatoire manquante' : error.message,
+ * });
  * ```
  */
 export function coerce<T extends SchemaDefinition>(
@@ -226,5 +536,23 @@ export function coerce<T extends SchemaDefinition>(
   return validateWithMode(options, 'coerce');
 }
 
+/**
+ * Coerces theme data whose deprecated paths were already migrated
+ *
+ * @param options - Validation options containing schema and data
+ * @returns Validation result with coerced typed data or errors
+ *
+ * @remarks
+ * Used by the resolver, which migrates and reports legacy values before merging
+ * parent themes and defaults, so that each one is reported once per resolve.
+ *
+ * @internal
+ */
+export function coerceMigrated<T extends SchemaDefinition>(
+  options: ValidateOptions<T>
+): ValidationResult<InferTheme<T>> {
+  return validateWithMode(options, 'coerce', false);
+}
+
 export { validateValue, coerceValue } from './validators.js';
 export { escapeCssValue, needsCssEscaping } from './css-escape.js';
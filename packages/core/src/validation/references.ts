@@ -0,0 +1,130 @@
+/**
+ * Reference token resolution
+ *
+ * Reference tokens alias another token in the same schema. Their values are
+ * filled in after all other tokens have been validated, following chains of
+ * references and reporting circular ones.
+ */
+
+import type {
+  SchemaDefinition,
+  TokenDefinition,
+  ReferenceToken,
+  ValidationError,
+} from '../types/index.js';
+import { getTokenAtPath } from '../schema/index.js';
+import { assignAtPath, deepClone, getAtPath } from '../internal/utils.js';
+
+/**
+ * Outcome of following a reference chain
+ *
+ * @internal
+ */
+type ReferenceResolution<T> = { ok: true; value: T } | { ok: false; chain: string[] };
+
+/**
+ * Follows a reference token to the concrete token it ultimately points at
+ *
+ * @param definition - The root schema definition
+ * @param reference - The reference token to follow
+ * @param path - Path of the reference token
+ * @returns The concrete token, or the chain of paths forming a cycle
+ *
+ * @internal
+ */
+export function getReferencedToken(
+  definition: SchemaDefinition,
+  reference: ReferenceToken,
+  path: string
+): ReferenceResolution<TokenDefinition> {
+  const chain = [path];
+  let token: TokenDefinition = reference;
+
+  while (token.type === 'reference') {
+    const target: string = token.target;
+    if (chain.includes(target)) {
+      return { ok: false, chain: [...chain, target] };
+    }
+    chain.push(target);
+
+    // createSchema guarantees that every reference target exists
+    token = getTokenAtPath({ definition, path: target })!;
+  }
+
+  return { ok: true, value: token };
+}
+
+/**
+ * Builds the validation error for a circular reference chain
+ *
+ * @internal
+ */
+export function circularReferenceError(path: string, chain: string[]): ValidationError {
+  return {
+    path,
+    code: 'reference.circular',
+    params: { chain: [...chain] },
+    message: `circular reference: ${chain.join(' -> ')}`,
+    expected: 'reference',
+    received: undefined,
+  };
+}
+
+/**
+ * Resolves reference tokens whose values were not provided
+ *
+ * @param definition - The root schema definition
+ * @param data - The validated theme data (mutated in place)
+ * @param paths - Paths of reference tokens without a provided value
+ * @returns Errors for circular references
+ *
+ * @remarks
+ * References are resolved in dependency order, so a reference to another
+ * reference receives the final value. References whose target has no value
+ * (e.g., missing in partial mode) are left unset.
+ *
+ * @internal
+ */
+export function resolveReferences(
+  definition: SchemaDefinition,
+  data: Record<string, unknown>,
+  paths: readonly string[]
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const unresolved = new Set(paths);
+
+  function follow(path: string, chain: string[]): ReferenceResolution<unknown> {
+    if (chain.includes(path)) {
+      return { ok: false, chain: [...chain, path] };
+    }
+
+    if (!unresolved.has(path)) {
+      return { ok: true, value: getAtPath(data, path) };
+    }
+
+    const token = getTokenAtPath({ definition, path }) as ReferenceToken;
+    const result = follow(token.target, [...chain, path]);
+
+    if (result.ok) {
+      unresolved.delete(path);
+      if (result.value !== undefined) {
+        assignAtPath(data, path, deepClone(result.value));
+      }
+    }
+
+    return result;
+  }
+
+  for (const path of paths) {
+    if (!unresolved.has(path)) {
+      continue;
+    }
+
+    const result = follow(path, []);
+    if (!result.ok) {
+      errors.push(circularReferenceError(path, result.chain));
+    }
+  }
+
+  return errors;
+}
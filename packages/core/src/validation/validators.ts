@@ -5,7 +5,24 @@
  * and optionally coerces the value to the correct type.
  */
 
-import type { TokenType } from '../types/index.js';
+import type {
+  AssetConstraints,
+  DimensionConstraints,
+  FontWeightConstraints,
+  NumberConstraints,
+  ScaleConstraints,
+  ShadowLayer,
+  StringConstraints,
+  TokenConstraints,
+  TokenType,
+  TransitionValue,
+  TypographyValue,
+  ValidationErrorCode,
+  ValidationErrorParams,
+  ValidationIssue,
+} from '../types/index.js';
+import { parseCssColor, parseInterpolationMethod } from '../color/parse.js';
+import { splitTopLevel } from '../internal/utils.js';
 
 /**
  * Validation result for a single value
@@ -14,191 +31,136 @@ import type { TokenType } from '../types/index.js';
  */
 export type ValueValidationResult<T> =
   | { valid: true; value: T }
-  | { valid: false; message: string };
+  | { valid: false; message: string; code: ValidationErrorCode; params: ValidationErrorParams };
 
 /**
- * Color validation regex patterns
+ * A failed validation result
+ *
+ * @internal
+ */
+type ValueValidationFailure = Extract<ValueValidationResult<never>, { valid: false }>;
+
+/**
+ * Creates a failed validation result
+ *
+ * @param code - The error code
+ * @param message - The English error message
+ * @param params - Structured values of the error, such as the bounds of a constraint
+ *
+ * @internal
+ */
+function invalid(
+  code: ValidationErrorCode,
+  message: string,
+  params: ValidationErrorParams = {}
+): ValueValidationFailure {
+  return { valid: false, message, code, params };
+}
+
+/**
+ * Creates a failed validation result for a value of the wrong JavaScript type
+ *
+ * @internal
+ */
+function invalidType(
+  expected: 'string' | 'number' | 'boolean' | 'object',
+  message: string = `expected ${expected}`
+): ValueValidationFailure {
+  return invalid('invalid_type', message, { expected });
+}
+
+/**
+ * Gets the issue of a failed validation result, to nest it as the cause of another
+ *
+ * @internal
+ */
+function toIssue(result: ValueValidationFailure): ValidationIssue {
+  return { code: result.code, params: result.params, message: result.message };
+}
+
+/**
+ * Creates a failed validation result for an invalid property of a composite value
+ *
+ * @param property - The name of the property
+ * @param label - Prefix of the message (e.g., "invalid typography fontSize")
+ * @param cause - The failed result of the property value
+ *
+ * @internal
+ */
+function invalidProperty(
+  property: string,
+  label: string,
+  cause: ValueValidationFailure
+): ValueValidationFailure {
+  return invalid('invalid_property', `${label}: ${cause.message}`, {
+    property,
+    cause: toIssue(cause),
+  });
+}
+
+/**
+ * Units accepted in dimension values
+ *
+ * @internal
  */
-const HEX_COLOR_REGEX = /^#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{4}|[0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$/;
-const RGB_COLOR_REGEX =
-  /^rgba?\(\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*(,\s*(0|1|0?\.\d+))?\s*\)$/;
-const HSL_COLOR_REGEX =
-  /^hsla?\(\s*\d{1,3}\s*,\s*\d{1,3}%\s*,\s*\d{1,3}%\s*(,\s*(0|1|0?\.\d+))?\s*\)$/;
+export const DIMENSION_UNITS: readonly string[] = [
+  'px',
+  'rem',
+  'em',
+  '%',
+  'vh',
+  'vw',
+  'vmin',
+  'vmax',
+  'ch',
+  'ex',
+  'cm',
+  'mm',
+  'in',
+  'pt',
+  'pc',
+  'svh',
+  'svw',
+  'dvh',
+  'dvw',
+  'lvh',
+  'lvw',
+];
 
 /**
  * Dimension validation regex
  */
-const DIMENSION_REGEX =
-  /^-?(\d+\.?\d*|\.\d+)(px|rem|em|%|vh|vw|vmin|vmax|ch|ex|cm|mm|in|pt|pc|svh|svw|dvh|dvw|lvh|lvw)$/;
+const DIMENSION_REGEX = new RegExp(`^(-?(?:\\d+\\.?\\d*|\\.\\d+))(${DIMENSION_UNITS.join('|')})$`);
+
+/**
+ * Size in pixels of units that can be compared across units
+ *
+ * @remarks
+ * `rem` assumes the default root font size of 16px.
+ *
+ * @internal
+ */
+const PIXELS_PER_UNIT: Readonly<Record<string, number>> = {
+  px: 1,
+  rem: 16,
+  in: 96,
+  cm: 96 / 2.54,
+  mm: 96 / 25.4,
+  pt: 4 / 3,
+  pc: 16,
+};
 
 /**
  * Valid font weight keywords (using Set for O(1) lookup)
  */
-const FONT_WEIGHT_KEYWORDS = new Set(['normal', 'bold', 'bolder', 'lighter', 'inherit', 'initial', 'unset']);
-
-/**
- * CSS named colors (140+ colors from CSS Color Module Level 4)
- * Plus special keywords: transparent, currentcolor, inherit, initial, unset
- *
- * @internal
- */
-const CSS_NAMED_COLORS = new Set([
-  // Special keywords
-  'transparent',
-  'currentcolor',
-  'inherit',
-  'initial',
-  'unset',
-  // CSS Color Level 4 named colors (alphabetical)
-  'aliceblue',
-  'antiquewhite',
-  'aqua',
-  'aquamarine',
-  'azure',
-  'beige',
-  'bisque',
-  'black',
-  'blanchedalmond',
-  'blue',
-  'blueviolet',
-  'brown',
-  'burlywood',
-  'cadetblue',
-  'chartreuse',
-  'chocolate',
-  'coral',
-  'cornflowerblue',
-  'cornsilk',
-  'crimson',
-  'cyan',
-  'darkblue',
-  'darkcyan',
-  'darkgoldenrod',
-  'darkgray',
-  'darkgreen',
-  'darkgrey',
-  'darkkhaki',
-  'darkmagenta',
-  'darkolivegreen',
-  'darkorange',
-  'darkorchid',
-  'darkred',
-  'darksalmon',
-  'darkseagreen',
-  'darkslateblue',
-  'darkslategray',
-  'darkslategrey',
-  'darkturquoise',
-  'darkviolet',
-  'deeppink',
-  'deepskyblue',
-  'dimgray',
-  'dimgrey',
-  'dodgerblue',
-  'firebrick',
-  'floralwhite',
-  'forestgreen',
-  'fuchsia',
-  'gainsboro',
-  'ghostwhite',
-  'gold',
-  'goldenrod',
-  'gray',
-  'green',
-  'greenyellow',
-  'grey',
-  'honeydew',
-  'hotpink',
-  'indianred',
-  'indigo',
-  'ivory',
-  'khaki',
-  'lavender',
-  'lavenderblush',
-  'lawngreen',
-  'lemonchiffon',
-  'lightblue',
-  'lightcoral',
-  'lightcyan',
-  'lightgoldenrodyellow',
-  'lightgray',
-  'lightgreen',
-  'lightgrey',
-  'lightpink',
-  'lightsalmon',
-  'lightseagreen',
-  'lightskyblue',
-  'lightslategray',
-  'lightslategrey',
-  'lightsteelblue',
-  'lightyellow',
-  'lime',
-  'limegreen',
-  'linen',
-  'magenta',
-  'maroon',
-  'mediumaquamarine',
-  'mediumblue',
-  'mediumorchid',
-  'mediumpurple',
-  'mediumseagreen',
-  'mediumslateblue',
-  'mediumspringgreen',
-  'mediumturquoise',
-  'mediumvioletred',
-  'midnightblue',
-  'mintcream',
-  'mistyrose',
-  'moccasin',
-  'navajowhite',
-  'navy',
-  'oldlace',
-  'olive',
-  'olivedrab',
-  'orange',
-  'orangered',
-  'orchid',
-  'palegoldenrod',
-  'palegreen',
-  'paleturquoise',
-  'palevioletred',
-  'papayawhip',
-  'peachpuff',
-  'peru',
-  'pink',
-  'plum',
-  'powderblue',
-  'purple',
-  'rebeccapurple',
-  'red',
-  'rosybrown',
-  'royalblue',
-  'saddlebrown',
-  'salmon',
-  'sandybrown',
-  'seagreen',
-  'seashell',
-  'sienna',
-  'silver',
-  'skyblue',
-  'slateblue',
-  'slategray',
-  'slategrey',
-  'snow',
-  'springgreen',
-  'steelblue',
-  'tan',
-  'teal',
-  'thistle',
-  'tomato',
-  'turquoise',
-  'violet',
-  'wheat',
-  'white',
-  'whitesmoke',
-  'yellow',
-  'yellowgreen',
-]);
+export const FONT_WEIGHT_KEYWORDS = new Set(['normal', 'bold', 'bolder', 'lighter', 'inherit', 'initial', 'unset']);
+
+/**
+ * CSS-wide keywords, accepted as color and font weight values
+ *
+ * @internal
+ */
+export const CSS_WIDE_KEYWORDS: ReadonlySet<string> = new Set(['inherit', 'initial', 'unset']);
 
 /**
  * Validates a color value
@@ -209,59 +171,62 @@ const CSS_NAMED_COLORS = new Set([
  * @remarks
  * Accepts:
  * - CSS named colors (red, blue, transparent, currentcolor, etc.)
- * - Hex colors (#RGB, #RRGGBB, #RRGGBBAA)
- * - RGB/RGBA: rgb(255, 0, 0), rgba(255, 0, 0, 0.5)
- * - HSL/HSLA: hsl(0, 100%, 50%), hsla(0, 100%, 50%, 0.5)
+ * - Hex colors (#RGB, #RGBA, #RRGGBB, #RRGGBBAA)
+ * - RGB/RGBA: rgb(255, 0, 0), rgba(255, 0, 0, 0.5), rgb(255 0 0 / 50%)
+ * - HSL/HSLA: hsl(0, 100%, 50%), hsl(0deg 100% 50% / 0.5)
+ * - HWB, Lab, LCH, OKLab, OKLCH: oklch(62.8% 0.258 29.23)
+ * - Predefined color spaces: color(display-p3 1 0 0)
+ * - Color mixing: color-mix(in oklch, red 40%, blue)
+ *
+ * Function names and keywords are lowercased, whitespace is collapsed and
+ * numbers are serialized canonically. Hex colors keep their case.
  *
  * @example
  * ```typescript
- * validateColor('#3b82f6');        // { valid: true, value: '#3b82f6' }
- * validateColor('red');            // { valid: true, value: 'red' }
- * validateColor('transparent');    // { valid: true, value: 'transparent' }
- * validateColor('rgb(255, 0, 0)'); // { valid: true, value: 'rgb(255, 0, 0)' }
- * validateColor('notacolor');      // { valid: false, message: '...' }
+ * validateColor('#3b82f6');                 // { valid: true, value: '#3b82f6' }
+ * validateColor('Red');                     // { valid: true, value: 'red' }
+ * validateColor('rgb(255,0,0)');            // { valid: true, value: 'rgb(255, 0, 0)' }
+ * validateColor('OKLCH( 62.8%  .258 29 )'); // { valid: true, value: 'oklch(62.8% 0.258 29)' }
+ * validateColor('notacolor');               // { valid: false, message: '...' }
  * ```
  *
  * @public
  */
 export function validateColor(value: unknown): ValueValidationResult<string> {
   if (typeof value !== 'string') {
-    return { valid: false, message: 'expected string' };
+    return invalidType('string');
   }
 
-  const trimmed = value.trim();
-  const lower = trimmed.toLowerCase();
-
-  // Check for CSS named colors first (O(1) lookup)
-  if (CSS_NAMED_COLORS.has(lower)) {
+  const lower = value.trim().toLowerCase();
+  if (CSS_WIDE_KEYWORDS.has(lower)) {
     return { valid: true, value: lower };
   }
 
-  // Check hex, rgb, hsl formats
-  if (
-    HEX_COLOR_REGEX.test(trimmed) ||
-    RGB_COLOR_REGEX.test(trimmed) ||
-    HSL_COLOR_REGEX.test(trimmed)
-  ) {
-    return { valid: true, value: trimmed };
+  const parsed = parseCssColor(value);
+  if (parsed) {
+    return { valid: true, value: parsed.value };
   }
 
-  return {
-    valid: false,
-    message: 'invalid color format (expected hex, rgb, rgba, hsl, hsla, or CSS named color)',
-  };
+  return invalid(
+    'color.invalid_format',
+    'invalid color format (expected hex, rgb, hsl, hwb, lab, lch, oklab, oklch, color(), color-mix(), or CSS named color)'
+  );
 }
 
 /**
  * Validates a dimension value
  *
  * @param value - The value to validate
+ * @param constraints - Optional bounds and allowed units
  * @returns Validation result with the dimension string or error message
  *
  * @remarks
  * Accepts values with units: px, rem, em, %, vh, vw, vmin, vmax, ch, ex, cm, mm, in, pt, pc, svh, svw, dvh, dvw, lvh, lvw
  * Also accepts '0' without units.
  *
+ * Bounds are compared in pixels when both units are absolute (or rem, as 16px).
+ * A value whose unit cannot be compared with a bound is rejected.
+ *
  * @example
  * ```typescript
  * validateDimension('16px');   // { valid: true, value: '16px' }
@@ -273,32 +238,33 @@ export function validateColor(value: unknown): ValueValidationResult<string> {
  *
  * @public
  */
-export function validateDimension(value: unknown): ValueValidationResult<string> {
+export function validateDimension(
+  value: unknown,
+  constraints?: DimensionConstraints
+): ValueValidationResult<string> {
   if (typeof value !== 'string') {
-    return { valid: false, message: 'expected string' };
+    return invalidType('string');
   }
 
   const trimmed = value.trim();
 
   // Allow 0 without units
-  if (trimmed === '0') {
-    return { valid: true, value: '0' };
-  }
-
-  if (DIMENSION_REGEX.test(trimmed)) {
-    return { valid: true, value: trimmed };
+  if (trimmed === '0' || DIMENSION_REGEX.test(trimmed)) {
+    const failure = constraints && checkDimensionConstraints(trimmed, constraints);
+    return failure ?? { valid: true, value: trimmed };
   }
 
-  return {
-    valid: false,
-    message: 'invalid dimension format (expected number with unit like px, rem, em, %, etc.)',
-  };
+  return invalid(
+    'dimension.invalid_format',
+    'invalid dimension format (expected number with unit like px, rem, em, %, etc.)'
+  );
 }
 
 /**
  * Validates a number value
  *
  * @param value - The value to validate
+ * @param constraints - Optional inclusive bounds
  * @returns Validation result with the number or error message
  *
  * @remarks
@@ -315,22 +281,36 @@ export function validateDimension(value: unknown): ValueValidationResult<string>
  *
  * @public
  */
-export function validateNumber(value: unknown): ValueValidationResult<number> {
+export function validateNumber(
+  value: unknown,
+  constraints?: NumberConstraints
+): ValueValidationResult<number> {
   if (typeof value === 'number' && !Number.isNaN(value)) {
+    if (constraints?.min !== undefined && value < constraints.min) {
+      return invalid('number.too_small', `must be at least ${constraints.min}`, {
+        min: constraints.min,
+      });
+    }
+    if (constraints?.max !== undefined && value > constraints.max) {
+      return invalid('number.too_large', `must be at most ${constraints.max}`, {
+        max: constraints.max,
+      });
+    }
     return { valid: true, value };
   }
 
-  return { valid: false, message: 'expected number' };
+  return invalidType('number');
 }
 
 /**
  * Validates a string value
  *
  * @param value - The value to validate
+ * @param constraints - Optional allowed values and pattern
  * @returns Validation result with the string or error message
  *
  * @remarks
- * Accepts any string value including empty strings.
+ * Accepts any string value including empty strings, unless constraints are given.
  * Non-string values are rejected.
  *
  * @example
@@ -342,12 +322,26 @@ export function validateNumber(value: unknown): ValueValidationResult<number> {
  *
  * @public
  */
-export function validateString(value: unknown): ValueValidationResult<string> {
+export function validateString(
+  value: unknown,
+  constraints?: StringConstraints
+): ValueValidationResult<string> {
   if (typeof value === 'string') {
+    if (constraints?.oneOf && !constraints.oneOf.includes(value)) {
+      const allowed = constraints.oneOf.map((option) => `"${option}"`).join(', ');
+      return invalid('string.not_allowed', `must be one of ${allowed}`, {
+        allowed: [...constraints.oneOf],
+      });
+    }
+    // search() ignores lastIndex, so global and sticky patterns behave like the others
+    if (constraints?.pattern && value.search(constraints.pattern) === -1) {
+      const pattern = String(constraints.pattern);
+      return invalid('string.pattern_mismatch', `must match pattern ${pattern}`, { pattern });
+    }
     return { valid: true, value };
   }
 
-  return { valid: false, message: 'expected string' };
+  return invalidType('string');
 }
 
 /**
@@ -375,7 +369,7 @@ export function validateBoolean(value: unknown): ValueValidationResult<boolean>
     return { valid: true, value };
   }
 
-  return { valid: false, message: 'expected boolean' };
+  return invalidType('boolean');
 }
 
 /**
@@ -400,12 +394,12 @@ export function validateBoolean(value: unknown): ValueValidationResult<boolean>
  */
 export function validateFontFamily(value: unknown): ValueValidationResult<string> {
   if (typeof value !== 'string') {
-    return { valid: false, message: 'expected string' };
+    return invalidType('string');
   }
 
   const trimmed = value.trim();
   if (trimmed.length === 0) {
-    return { valid: false, message: 'font family cannot be empty' };
+    return invalid('fontFamily.empty', 'font family cannot be empty');
   }
 
   return { valid: true, value: trimmed };
@@ -415,12 +409,16 @@ export function validateFontFamily(value: unknown): ValueValidationResult<string
  * Validates a font weight value
  *
  * @param value - The value to validate
+ * @param constraints - Optional inclusive weight range
  * @returns Validation result with the font weight (string or number) or error message
  *
  * @remarks
  * Accepts numeric weights (1-1000) or keywords (normal, bold, bolder, lighter, inherit, initial, unset).
  * String numbers like "700" are converted to numbers.
  *
+ * With a range, `normal` and `bold` are checked as 400 and 700 and the other
+ * keywords are rejected, since their weight depends on the parent element.
+ *
  * @example
  * ```typescript
  * validateFontWeight(400);      // { valid: true, value: 400 }
@@ -433,12 +431,18 @@ export function validateFontFamily(value: unknown): ValueValidationResult<string
  *
  * @public
  */
-export function validateFontWeight(value: unknown): ValueValidationResult<string | number> {
+export function validateFontWeight(
+  value: unknown,
+  constraints?: FontWeightConstraints
+): ValueValidationResult<string | number> {
   if (typeof value === 'number') {
     if (value >= 1 && value <= 1000) {
-      return { valid: true, value };
+      return checkFontWeightRange(value, constraints);
     }
-    return { valid: false, message: 'font weight number must be between 1 and 1000' };
+    return invalid('fontWeight.out_of_range', 'font weight number must be between 1 and 1000', {
+      min: 1,
+      max: 1000,
+    });
   }
 
   if (typeof value === 'string') {
@@ -447,20 +451,173 @@ export function validateFontWeight(value: unknown): ValueValidationResult<string
 
     // Check for keyword
     if (FONT_WEIGHT_KEYWORDS.has(lower)) {
-      return { valid: true, value: lower };
+      return checkFontWeightRange(lower, constraints);
     }
 
     // Check for numeric string (parse original trimmed, not lowercased)
     const num = Number(trimmed);
     if (!Number.isNaN(num) && num >= 1 && num <= 1000) {
-      return { valid: true, value: num };
+      return checkFontWeightRange(num, constraints);
     }
   }
 
-  return {
-    valid: false,
-    message: 'invalid font weight (expected number 1-1000 or keyword)',
-  };
+  return invalid(
+    'fontWeight.invalid_format',
+    'invalid font weight (expected number 1-1000 or keyword)'
+  );
+}
+
+/**
+ * Font weights of the keywords that can be checked against a range
+ *
+ * @internal
+ */
+const FONT_WEIGHT_KEYWORD_VALUES: ReadonlyMap<string, number> = new Map([
+  ['normal', 400],
+  ['bold', 700],
+]);
+
+/**
+ * Checks a valid font weight against an optional range
+ *
+ * @internal
+ */
+function checkFontWeightRange(
+  weight: string | number,
+  constraints: FontWeightConstraints | undefined
+): ValueValidationResult<string | number> {
+  if (!constraints) {
+    return { valid: true, value: weight };
+  }
+
+  const numeric = typeof weight === 'number' ? weight : FONT_WEIGHT_KEYWORD_VALUES.get(weight);
+  if (numeric === undefined) {
+    return invalid(
+      'fontWeight.not_comparable',
+      `font weight "${weight}" cannot be checked against the range ${constraints.min}-${constraints.max}`,
+      { weight, min: constraints.min, max: constraints.max }
+    );
+  }
+  if (numeric < constraints.min || numeric > constraints.max) {
+    return invalid(
+      'fontWeight.out_of_range',
+      `font weight must be between ${constraints.min} and ${constraints.max}`,
+      { min: constraints.min, max: constraints.max }
+    );
+  }
+
+  return { valid: true, value: weight };
+}
+
+/**
+ * Splits a valid dimension into its number and unit
+ *
+ * @remarks
+ * Unitless `0` has an empty unit.
+ *
+ * @internal
+ */
+function parseDimension(dimension: string): { value: number; unit: string } | undefined {
+  if (dimension === '0') {
+    return { value: 0, unit: '' };
+  }
+  const match = DIMENSION_REGEX.exec(dimension);
+  if (!match) {
+    return undefined;
+  }
+  return { value: Number(match[1]), unit: match[2] ?? '' };
+}
+
+/**
+ * Compares two valid dimensions
+ *
+ * @param a - The first dimension
+ * @param b - The second dimension
+ * @returns A negative number, zero or a positive number when `a` is smaller than,
+ * equal to or larger than `b`, or undefined when their units cannot be compared
+ *
+ * @remarks
+ * Dimensions in the same unit are always comparable. Across units, absolute
+ * units and `rem` are converted to pixels. Unitless `0` compares with any unit.
+ *
+ * @example
+ * ```typescript
+ * compareDimensions('1rem', '16px'); // 0
+ * compareDimensions('1in', '90px');  // 6
+ * compareDimensions('50%', '10px');  // undefined
+ * ```
+ *
+ * @internal
+ */
+export function compareDimensions(a: string, b: string): number | undefined {
+  const left = parseDimension(a);
+  const right = parseDimension(b);
+  if (!left || !right) {
+    return undefined;
+  }
+
+  if (left.unit === right.unit || left.value === 0 || right.value === 0) {
+    return left.value - right.value;
+  }
+
+  const leftScale = PIXELS_PER_UNIT[left.unit];
+  const rightScale = PIXELS_PER_UNIT[right.unit];
+  if (leftScale === undefined || rightScale === undefined) {
+    return undefined;
+  }
+  return left.value * leftScale - right.value * rightScale;
+}
+
+/**
+ * Checks a valid dimension against its constraints
+ *
+ * @returns A failed result, or undefined when the dimension satisfies the constraints
+ *
+ * @internal
+ */
+function checkDimensionConstraints(
+  dimension: string,
+  constraints: DimensionConstraints
+): ValueValidationFailure | undefined {
+  const unit = parseDimension(dimension)?.unit ?? '';
+  if (constraints.units && unit !== '' && !constraints.units.includes(unit)) {
+    return invalid(
+      'dimension.unit_not_allowed',
+      `unit "${unit}" is not allowed (expected ${constraints.units.join(', ')})`,
+      { unit, allowed: [...constraints.units] }
+    );
+  }
+
+  const { min, max } = constraints;
+  if (min !== undefined) {
+    const comparison = compareDimensions(dimension, min);
+    if (comparison === undefined) {
+      return invalid(
+        'dimension.not_comparable',
+        `cannot compare ${dimension} with the minimum ${min}`,
+        { value: dimension, min }
+      );
+    }
+    if (comparison < 0) {
+      return invalid('dimension.too_small', `must be at least ${min}`, { min });
+    }
+  }
+
+  if (max !== undefined) {
+    const comparison = compareDimensions(dimension, max);
+    if (comparison === undefined) {
+      return invalid(
+        'dimension.not_comparable',
+        `cannot compare ${dimension} with the maximum ${max}`,
+        { value: dimension, max }
+      );
+    }
+    if (comparison > 0) {
+      return invalid('dimension.too_large', `must be at most ${max}`, { max });
+    }
+  }
+
+  return undefined;
 }
 
 /**
@@ -553,6 +710,9 @@ function splitShadows(shadowStr: string): string[] {
  * - Single shadow: `[inset] offset-x offset-y [blur] [spread] [color]`
  * - Multiple shadows: comma-separated shadow values
  *
+ * Arrays of layer objects are accepted by {@link coerceValue}, and
+ * {@link parseShadow} converts shadow strings back into layers.
+ *
  * @example
  * ```typescript
  * validateShadow('0 1px 3px rgba(0,0,0,0.1)'); // valid
@@ -565,7 +725,7 @@ function splitShadows(shadowStr: string): string[] {
  */
 export function validateShadow(value: unknown): ValueValidationResult<string> {
   if (typeof value !== 'string') {
-    return { valid: false, message: 'expected string' };
+    return invalidType('string');
   }
 
   const trimmed = value.trim();
@@ -578,7 +738,7 @@ export function validateShadow(value: unknown): ValueValidationResult<string> {
 
   // Check for empty
   if (trimmed.length === 0) {
-    return { valid: false, message: 'shadow cannot be empty' };
+    return invalid('shadow.empty', 'shadow cannot be empty');
   }
 
   // Split by comma for multiple shadows (but not inside color functions like rgba())
@@ -586,16 +746,270 @@ export function validateShadow(value: unknown): ValueValidationResult<string> {
 
   for (const shadow of shadows) {
     if (!validateSingleShadow(shadow)) {
-      return {
-        valid: false,
-        message: 'invalid shadow syntax (expected: [inset] offset-x offset-y [blur] [spread] [color])',
-      };
+      return invalid(
+        'shadow.invalid_format',
+        'invalid shadow syntax (expected: [inset] offset-x offset-y [blur] [spread] [color])'
+      );
     }
   }
 
   return { valid: true, value: trimmed };
 }
 
+/**
+ * Keys of a shadow layer
+ *
+ * @internal
+ */
+const SHADOW_LAYER_KEYS = new Set(['x', 'y', 'blur', 'spread', 'color', 'inset']);
+
+/**
+ * Validates a shadow length, rejecting negative values unless allowed
+ *
+ * @internal
+ */
+function validateShadowLength(
+  value: unknown,
+  allowNegative: boolean
+): ValueValidationResult<string> {
+  const dimension = validateDimension(value);
+  if (dimension.valid && !allowNegative && (parseDimension(dimension.value)?.value ?? 0) < 0) {
+    return invalid('shadow.negative_length', 'cannot be negative');
+  }
+  return dimension;
+}
+
+/**
+ * Validates a shadow color, rejecting CSS-wide keywords
+ *
+ * @internal
+ */
+function validateShadowColor(value: unknown): ValueValidationResult<string> {
+  const color = validateColor(value);
+  if (color.valid && CSS_WIDE_KEYWORDS.has(color.value)) {
+    return invalid(
+      'shadow.color_not_allowed',
+      `"${color.value}" is not allowed in a shadow layer`,
+      { color: color.value }
+    );
+  }
+  return color;
+}
+
+/**
+ * Validates a shadow layer object
+ *
+ * @remarks
+ * Numeric lengths are converted to pixels.
+ *
+ * @internal
+ */
+function validateShadowLayer(value: unknown): ValueValidationResult<ShadowLayer> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return invalidType('object', 'expected object with x and y');
+  }
+
+  const obj = value as Record<string, unknown>;
+  const unknownKey = Object.keys(obj).find((key) => !SHADOW_LAYER_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return invalid('unknown_property', `unknown property "${unknownKey}"`, {
+      property: unknownKey,
+    });
+  }
+
+  const layer: Record<string, unknown> = {};
+  for (const key of ['x', 'y', 'blur', 'spread'] as const) {
+    const field = obj[key];
+    if (field === undefined && (key === 'blur' || key === 'spread')) {
+      continue;
+    }
+    const length = validateShadowLength(
+      typeof field === 'number' ? `${field}px` : field,
+      key !== 'blur'
+    );
+    if (!length.valid) {
+      return invalidProperty(key, `invalid ${key}`, length);
+    }
+    layer[key] = length.value;
+  }
+
+  if (obj['color'] !== undefined) {
+    const color = validateShadowColor(obj['color']);
+    if (!color.valid) {
+      return invalidProperty('color', 'invalid color', color);
+    }
+    layer['color'] = color.value;
+  }
+
+  if (obj['inset'] !== undefined) {
+    if (typeof obj['inset'] !== 'boolean') {
+      return invalidProperty('inset', 'invalid inset', invalidType('boolean'));
+    }
+    layer['inset'] = obj['inset'];
+  }
+
+  return { valid: true, value: layer as unknown as ShadowLayer };
+}
+
+/**
+ * Serializes shadow layers to a CSS shadow string
+ *
+ * @remarks
+ * A blur of `0` is written when only the spread is set, and an empty list
+ * serializes to `none`.
+ *
+ * @internal
+ */
+export function formatShadow(layers: readonly ShadowLayer[]): string {
+  if (layers.length === 0) {
+    return 'none';
+  }
+
+  return layers
+    .map((layer) => {
+      const parts = layer.inset ? ['inset', layer.x, layer.y] : [layer.x, layer.y];
+      if (layer.blur !== undefined || layer.spread !== undefined) {
+        parts.push(layer.blur ?? '0');
+      }
+      if (layer.spread !== undefined) {
+        parts.push(layer.spread);
+      }
+      if (layer.color !== undefined) {
+        parts.push(layer.color);
+      }
+      return parts.join(' ');
+    })
+    .join(', ');
+}
+
+/**
+ * Validates an array of shadow layer objects and serializes it to a shadow string
+ *
+ * @internal
+ */
+function coerceShadowLayers(layers: readonly unknown[]): ValueValidationResult<string> {
+  const validated: ShadowLayer[] = [];
+  for (const [index, value] of layers.entries()) {
+    const layer = validateShadowLayer(value);
+    if (!layer.valid) {
+      return invalid(
+        'shadow.invalid_layer',
+        `invalid shadow layer ${index + 1}: ${layer.message}`,
+        { index: index + 1, cause: toIssue(layer) }
+      );
+    }
+    validated.push(layer.value);
+  }
+  return { valid: true, value: formatShadow(validated) };
+}
+
+/**
+ * Parses a single shadow into a layer
+ *
+ * @remarks
+ * Follows the CSS grammar: the lengths are contiguous, and `inset` and the
+ * color may come before or after them.
+ *
+ * @internal
+ */
+function parseShadowLayer(shadow: string): ShadowLayer | undefined {
+  const tokens = splitTopLevel(shadow, /\s/)?.filter((token) => token !== '');
+  if (!tokens || tokens.length === 0) {
+    return undefined;
+  }
+
+  const lengths: string[] = [];
+  let lengthsEnded = false;
+  let inset = false;
+  let color: string | undefined;
+
+  for (const token of tokens) {
+    if (validateDimension(token).valid) {
+      if (lengthsEnded) {
+        return undefined;
+      }
+      lengths.push(token);
+      continue;
+    }
+
+    lengthsEnded = lengths.length > 0;
+    if (token.toLowerCase() === 'inset' && !inset) {
+      inset = true;
+      continue;
+    }
+    const parsed = color === undefined ? validateShadowColor(token) : undefined;
+    if (!parsed?.valid) {
+      return undefined;
+    }
+    color = parsed.value;
+  }
+
+  const [x, y, blur, spread] = lengths;
+  if (x === undefined || y === undefined || lengths.length > 4) {
+    return undefined;
+  }
+  if (blur !== undefined && !validateShadowLength(blur, false).valid) {
+    return undefined;
+  }
+
+  return {
+    x,
+    y,
+    ...(blur !== undefined && { blur }),
+    ...(spread !== undefined && { spread }),
+    ...(color !== undefined && { color }),
+    ...(inset && { inset }),
+  };
+}
+
+/**
+ * Parses a shadow string into layers
+ *
+ * @param value - The shadow string to parse
+ * @returns The layers of the shadow, or undefined if the value cannot be represented as layers
+ *
+ * @remarks
+ * Intended for editors that present shadows as structured layers: the layers can
+ * be edited and passed back as tenant data, where coercion serializes them again.
+ * `none` parses to an empty list. CSS-wide keywords and shadows that do not
+ * follow the CSS grammar return undefined. Colors are normalized as in
+ * {@link validateColor}.
+ *
+ * @example
+ * ```typescript
+ * parseShadow('0 1px 3px rgba(0,0,0,0.1), inset 0 0 0 1px #fff');
+ * // [
+ * //   { x: '0', y: '1px', blur: '3px', color: 'rgba(0, 0, 0, 0.1)' },
+ * //   { x: '0', y: '0', blur: '0', spread: '1px', color: '#fff', inset: true },
+ * // ]
+ * parseShadow('none');     // []
+ * parseShadow('inherit');  // undefined
+ * ```
+ *
+ * @public
+ */
+export function parseShadow(value: string): ShadowLayer[] | undefined {
+  const trimmed = value.trim();
+  if (trimmed.toLowerCase() === 'none') {
+    return [];
+  }
+
+  const shadows = splitTopLevel(trimmed, /,/);
+  if (!shadows) {
+    return undefined;
+  }
+
+  const layers: ShadowLayer[] = [];
+  for (const shadow of shadows) {
+    const layer = parseShadowLayer(shadow);
+    if (!layer) {
+      return undefined;
+    }
+    layers.push(layer);
+  }
+  return layers;
+}
+
 /**
  * Allowed URL protocols for security
  *
@@ -608,7 +1022,11 @@ const ALLOWED_URL_PROTOCOLS = new Set(['http:', 'https:', 'data:']);
  *
  * @internal
  */
-const DANGEROUS_DATA_MIMES = ['text/html', 'application/javascript', 'application/x-javascript'];
+export const DANGEROUS_DATA_MIMES: readonly string[] = [
+  'text/html',
+  'application/javascript',
+  'application/x-javascript',
+];
 
 /**
  * Validates a URL value with security checks
@@ -642,13 +1060,13 @@ const DANGEROUS_DATA_MIMES = ['text/html', 'application/javascript', 'applicatio
  */
 export function validateUrl(value: unknown): ValueValidationResult<string> {
   if (typeof value !== 'string') {
-    return { valid: false, message: 'expected string' };
+    return invalidType('string');
   }
 
   const trimmed = value.trim();
 
   if (trimmed.length === 0) {
-    return { valid: false, message: 'URL cannot be empty' };
+    return invalid('url.empty', 'URL cannot be empty');
   }
 
   // Allow relative paths and hash fragments
@@ -662,10 +1080,11 @@ export function validateUrl(value: unknown): ValueValidationResult<string> {
 
     // Check for allowed protocols
     if (!ALLOWED_URL_PROTOCOLS.has(url.protocol)) {
-      return {
-        valid: false,
-        message: `unsafe URL protocol '${url.protocol}' (allowed: http, https, data)`,
-      };
+      return invalid(
+        'url.unsafe_protocol',
+        `unsafe URL protocol '${url.protocol}' (allowed: http, https, data)`,
+        { protocol: url.protocol }
+      );
     }
 
     // Special check for data URLs - block dangerous MIME types
@@ -675,10 +1094,11 @@ export function validateUrl(value: unknown): ValueValidationResult<string> {
       if (mimeMatch) {
         const mime = mimeMatch[1]!.toLowerCase();
         if (DANGEROUS_DATA_MIMES.some((dangerous) => mime.includes(dangerous))) {
-          return {
-            valid: false,
-            message: `dangerous data URL MIME type '${mime}' is not allowed`,
-          };
+          return invalid(
+            'url.unsafe_mime_type',
+            `dangerous data URL MIME type '${mime}' is not allowed`,
+            { mimeType: mime }
+          );
         }
       }
     }
@@ -686,59 +1106,1255 @@ export function validateUrl(value: unknown): ValueValidationResult<string> {
     return { valid: true, value: trimmed };
   } catch {
     // URL parsing failed - not a valid absolute URL
-    return {
-      valid: false,
-      message: 'invalid URL format',
-    };
+    return invalid('url.invalid_format', 'invalid URL format');
   }
 }
 
 /**
- * Validates a value against a token type
- *
- * @param value - The value to validate
- * @param tokenType - The expected token type
- * @returns Validation result with the validated value or error message
+ * Checks whether a host matches an allowed host pattern
  *
  * @remarks
- * Dispatches to the appropriate validator based on token type.
- *
- * @example
- * ```typescript
- * validateValue('#3b82f6', 'color');   // { valid: true, value: '#3b82f6' }
- * validateValue('16px', 'dimension');  // { valid: true, value: '16px' }
- * validateValue(42, 'number');         // { valid: true, value: 42 }
- * validateValue('hello', 'number');    // { valid: false, message: '...' }
- * ```
+ * A leading `*.` matches any subdomain, but not the domain itself.
+ *
+ * @internal
+ */
+function matchesHost(host: string, pattern: string): boolean {
+  const lower = pattern.toLowerCase();
+  return lower.startsWith('*.') ? host.endsWith(lower.slice(1)) : host === lower;
+}
+
+/**
+ * Computes the decoded size of a data URI in bytes
+ *
+ * @internal
+ */
+function getDataUriSize(uri: string): number {
+  const comma = uri.indexOf(',');
+  if (comma === -1) {
+    return 0;
+  }
+
+  const header = uri.slice(5, comma).toLowerCase().split(';');
+  const payload = uri.slice(comma + 1);
+  if (header.includes('base64')) {
+    const data = payload.replace(/\s|%20/g, '');
+    const padding = data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0;
+    return Math.floor((data.length * 3) / 4) - padding;
+  }
+  // Each percent-encoded octet decodes to a single byte
+  return new TextEncoder().encode(payload.replace(/%[0-9a-f]{2}/gi, '_')).length;
+}
+
+/**
+ * Gets the lowercased file extension of a URL path, without the dot
+ *
+ * @internal
+ */
+function getExtension(path: string): string | undefined {
+  const segment = path.slice(path.lastIndexOf('/') + 1);
+  const dot = segment.lastIndexOf('.');
+  return dot > 0 ? segment.slice(dot + 1).toLowerCase() : undefined;
+}
+
+/**
+ * Protocols allowed for assets restricted to hosts but not to protocols
+ *
+ * @internal
+ */
+const NETWORK_PROTOCOLS: readonly string[] = ['http', 'https'];
+
+/**
+ * Base that asset URLs are resolved against, so relative paths keep its origin
+ *
+ * @internal
+ */
+const ASSET_BASE_URL = 'https://base.invalid/';
+
+/**
+ * Checks a valid URL against asset constraints
+ *
+ * @returns A failed result naming the violated rule, or undefined if the URL is allowed
+ *
+ * @remarks
+ * Every value is resolved the way a browser would, so values that only look
+ * relative, such as `//evil.com/x.png`, are checked against the protocols and
+ * hosts like absolute URLs.
+ *
+ * @internal
+ */
+function checkAssetConstraints(
+  asset: string,
+  constraints: AssetConstraints
+): ValueValidationFailure | undefined {
+  let url: URL;
+  try {
+    url = new URL(asset, ASSET_BASE_URL);
+  } catch {
+    return invalid('url.invalid_format', 'invalid URL format');
+  }
+
+  const { protocols, hosts, extensions, maxDataSize } = constraints;
+  const isExternal = url.origin !== new URL(ASSET_BASE_URL).origin;
+  const protocolRelative = isExternal && !/^[a-z][a-z\d+.-]*:/i.test(asset);
+  const isData = url.protocol === 'data:';
+  // URLs without a host, such as data URIs, would otherwise bypass an allowlist of hosts
+  const allowedProtocols = protocols ?? (hosts ? NETWORK_PROTOCOLS : undefined);
+
+  if (protocols && protocolRelative) {
+    return invalid(
+      'asset.protocol_relative',
+      `protocol-relative URL is not allowed (expected ${protocols.join(', ')})`,
+      { allowed: [...protocols] }
+    );
+  }
+
+  if (allowedProtocols && isExternal) {
+    const protocol = url.protocol.slice(0, -1);
+    if (!allowedProtocols.includes(protocol)) {
+      return invalid(
+        'asset.protocol_not_allowed',
+        `protocol "${protocol}" is not allowed (expected ${allowedProtocols.join(', ')})`,
+        { protocol, allowed: [...allowedProtocols] }
+      );
+    }
+  }
+
+  if (hosts && isExternal && !isData && !hosts.some((host) => matchesHost(url.hostname, host))) {
+    return invalid(
+      'asset.host_not_allowed',
+      `host "${url.hostname}" is not allowed (expected ${hosts.join(', ')})`,
+      { host: url.hostname, allowed: [...hosts] }
+    );
+  }
+
+  if (extensions && !isData) {
+    const extension = getExtension(url.pathname);
+    if (extension === undefined) {
+      return invalid(
+        'asset.missing_extension',
+        `missing file extension (expected ${extensions.join(', ')})`,
+        { allowed: [...extensions] }
+      );
+    }
+    if (!extensions.includes(extension)) {
+      return invalid(
+        'asset.extension_not_allowed',
+        `extension "${extension}" is not allowed (expected ${extensions.join(', ')})`,
+        { extension, allowed: [...extensions] }
+      );
+    }
+  }
+
+  if (maxDataSize !== undefined && isData) {
+    const size = getDataUriSize(asset);
+    if (size > maxDataSize) {
+      return invalid(
+        'asset.too_large',
+        `data URI is ${size} bytes, exceeding maxDataSize of ${maxDataSize} bytes`,
+        { size, maxDataSize }
+      );
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Validates an asset URL value
+ *
+ * @param value - The value to validate
+ * @param constraints - Optional allowlists of protocols, hosts and extensions, and a data URI size limit
+ * @returns Validation result with the URL string or error message
+ *
+ * @remarks
+ * Applies the security checks of {@link validateUrl}, then the constraints in order:
+ * protocols, hosts, extensions and data URI size. The error message names the
+ * violated rule. Relative paths are same-origin, so they are only checked against
+ * the extensions. Protocol-relative URLs are rejected when protocols are restricted.
+ * Backslashes and control characters, such as tabs and newlines, are always rejected.
+ *
+ * @example
+ * ```typescript
+ * const constraints = { protocols: ['https'], hosts: ['*.example.com'], extensions: ['png', 'svg'] };
+ * validateAsset('https://cdn.example.com/logo.svg', constraints); // valid
+ * validateAsset('https://evil.com/logo.svg', constraints);
+ * // { valid: false, message: 'host "evil.com" is not allowed (expected *.example.com)' }
+ * validateAsset('https://cdn.example.com/logo.gif', constraints);
+ * // { valid: false, message: 'extension "gif" is not allowed (expected png, svg)' }
+ * ```
+ *
+ * @public
+ */
+export function validateAsset(
+  value: unknown,
+  constraints?: AssetConstraints
+): ValueValidationResult<string> {
+  const result = validateUrl(value);
+  if (!result.valid) {
+    return result;
+  }
+
+  // Browsers read backslashes as slashes and drop tabs and newlines, which would
+  // turn a relative-looking path into a URL on another host
+  const character = [...result.value].find(
+    (char) => char === '\\' || char < ' ' || char === '\u007f'
+  );
+  if (character !== undefined) {
+    return invalid(
+      'asset.invalid_character',
+      `invalid character ${JSON.stringify(character)} in asset URL`,
+      { character }
+    );
+  }
+
+  return constraints ? (checkAssetConstraints(result.value, constraints) ?? result) : result;
+}
+
+/**
+ * Validates an enum value
+ *
+ * @param value - The value to validate
+ * @param values - The allowed values
+ * @returns Validation result with the value or error message
+ *
+ * @remarks
+ * Values are compared exactly, without trimming or case folding.
+ *
+ * @example
+ * ```typescript
+ * validateEnum('top', ['top', 'side']);    // { valid: true, value: 'top' }
+ * validateEnum('bottom', ['top', 'side']); // { valid: false, message: '...' }
+ * ```
+ *
+ * @public
+ */
+export function validateEnum(
+  value: unknown,
+  values: readonly string[]
+): ValueValidationResult<string> {
+  if (typeof value === 'string' && values.includes(value)) {
+    return { valid: true, value };
+  }
+
+  const allowed = values.map((option) => `"${option}"`).join(', ');
+  return invalid('enum.not_allowed', `expected one of ${allowed}`, { allowed: [...values] });
+}
+
+/**
+ * Time regex - a number with an ms or s unit
+ *
+ * @internal
+ */
+const TIME_REGEX = /^(-?(?:\d+\.?\d*|\.\d+))(ms|s)$/i;
+
+/**
+ * Number regex for easing function arguments
+ *
+ * @internal
+ */
+const EASING_NUMBER_REGEX = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i;
+
+/**
+ * Easing keywords
+ *
+ * @internal
+ */
+const EASING_KEYWORDS = new Set([
+  'linear',
+  'ease',
+  'ease-in',
+  'ease-out',
+  'ease-in-out',
+  'step-start',
+  'step-end',
+]);
+
+/**
+ * Step positions accepted by steps()
+ *
+ * @internal
+ */
+const STEP_POSITIONS = new Set([
+  'jump-start',
+  'jump-end',
+  'jump-none',
+  'jump-both',
+  'start',
+  'end',
+]);
+
+/**
+ * Validates a time with an ms or s unit and lowercases the unit
+ *
+ * @internal
+ */
+function parseTime(value: string, allowNegative: boolean): string | undefined {
+  const match = TIME_REGEX.exec(value.trim());
+  if (!match || (!allowNegative && Number(match[1]) < 0)) {
+    return undefined;
+  }
+  return `${match[1]}${(match[2] ?? '').toLowerCase()}`;
+}
+
+/**
+ * Parses an easing function argument as a number
+ *
+ * @internal
+ */
+function parseEasingNumber(value: string): number | undefined {
+  return EASING_NUMBER_REGEX.test(value) ? Number(value) : undefined;
+}
+
+/**
+ * Normalizes a cubic-bezier() argument list
+ *
+ * @remarks
+ * The x coordinates of both control points must be between 0 and 1.
+ *
+ * @internal
+ */
+function parseCubicBezier(args: string[]): string | undefined {
+  const numbers = args.map(parseEasingNumber);
+  if (numbers.length !== 4 || numbers.some((n) => n === undefined)) {
+    return undefined;
+  }
+  const [x1 = 0, , x2 = 0] = numbers as number[];
+  if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+    return undefined;
+  }
+  return `cubic-bezier(${numbers.join(', ')})`;
+}
+
+/**
+ * Normalizes a steps() argument list
+ *
+ * @internal
+ */
+function parseSteps(args: string[]): string | undefined {
+  const [countArg, position, ...rest] = args;
+  const count = parseEasingNumber(countArg ?? '');
+  if (count === undefined || !Number.isInteger(count) || count < 1 || rest.length > 0) {
+    return undefined;
+  }
+  if (position === undefined) {
+    return `steps(${count})`;
+  }
+  const keyword = position.toLowerCase();
+  if (!STEP_POSITIONS.has(keyword) || (keyword === 'jump-none' && count < 2)) {
+    return undefined;
+  }
+  return `steps(${count}, ${keyword})`;
+}
+
+/**
+ * Normalizes a linear() argument list
+ *
+ * @remarks
+ * Each stop is an output number with up to two input percentages, in any order.
+ * At least two stops are required.
+ *
+ * @internal
+ */
+function parseLinear(args: string[]): string | undefined {
+  if (args.length < 2) {
+    return undefined;
+  }
+
+  const stops: string[] = [];
+  for (const stop of args) {
+    let output: number | undefined;
+    const inputs: string[] = [];
+    for (const part of stop.split(/\s+/)) {
+      if (part.endsWith('%')) {
+        const input = parseEasingNumber(part.slice(0, -1));
+        if (input === undefined) {
+          return undefined;
+        }
+        inputs.push(`${input}%`);
+      } else {
+        const number = parseEasingNumber(part);
+        if (number === undefined || output !== undefined) {
+          return undefined;
+        }
+        output = number;
+      }
+    }
+    if (output === undefined || inputs.length > 2) {
+      return undefined;
+    }
+    stops.push([String(output), ...inputs].join(' '));
+  }
+
+  return `linear(${stops.join(', ')})`;
+}
+
+/**
+ * Validates a duration value
+ *
+ * @param value - The value to validate
+ * @returns Validation result with the duration string or error message
+ *
+ * @remarks
+ * Accepts non-negative times in milliseconds or seconds. Units are lowercased.
+ * Plain numbers are rejected - use {@link coerceValue} to convert them to ms.
+ *
+ * @example
+ * ```typescript
+ * validateDuration('200ms'); // { valid: true, value: '200ms' }
+ * validateDuration('0.3S');  // { valid: true, value: '0.3s' }
+ * validateDuration('-1s');   // { valid: false, message: '...' }
+ * validateDuration(200);     // { valid: false, message: '...' }
+ * ```
+ *
+ * @public
+ */
+export function validateDuration(value: unknown): ValueValidationResult<string> {
+  if (typeof value !== 'string') {
+    return invalidType('string');
+  }
+
+  const time = parseTime(value, false);
+  if (time !== undefined) {
+    return { valid: true, value: time };
+  }
+
+  return invalid(
+    'duration.invalid_format',
+    'invalid duration (expected a non-negative time in ms or s, like "200ms")'
+  );
+}
+
+/**
+ * Validates an easing value
+ *
+ * @param value - The value to validate
+ * @returns Validation result with the easing string or error message
+ *
+ * @remarks
+ * Accepts:
+ * - Keywords: linear, ease, ease-in, ease-out, ease-in-out, step-start, step-end
+ * - cubic-bezier(x1, y1, x2, y2) with x1 and x2 between 0 and 1
+ * - steps(count[, position]) with a position of jump-start, jump-end, jump-none, jump-both, start or end
+ * - linear(stops) with at least two stops, e.g. linear(0, 0.25 75%, 1)
+ *
+ * Keywords and function names are lowercased and arguments are separated by ", ".
+ *
+ * @example
+ * ```typescript
+ * validateEasing('ease-in-out');                 // { valid: true, value: 'ease-in-out' }
+ * validateEasing('cubic-bezier(.4,0,.2,1)');     // { valid: true, value: 'cubic-bezier(0.4, 0, 0.2, 1)' }
+ * validateEasing('steps(4, jump-end)');          // { valid: true, value: 'steps(4, jump-end)' }
+ * validateEasing('cubic-bezier(2, 0, 0.2, 1)');  // { valid: false, message: '...' }
+ * ```
+ *
+ * @public
+ */
+export function validateEasing(value: unknown): ValueValidationResult<string> {
+  if (typeof value !== 'string') {
+    return invalidType('string');
+  }
+
+  const trimmed = value.trim();
+  const lower = trimmed.toLowerCase();
+  if (EASING_KEYWORDS.has(lower)) {
+    return { valid: true, value: lower };
+  }
+
+  const match = /^([a-z-]+)\(([^()]*)\)$/i.exec(trimmed);
+  if (match) {
+    const args = (match[2] ?? '').split(',').map((arg) => arg.trim());
+    const name = (match[1] ?? '').toLowerCase();
+    const easing =
+      name === 'cubic-bezier'
+        ? parseCubicBezier(args)
+        : name === 'steps'
+          ? parseSteps(args)
+          : name === 'linear'
+            ? parseLinear(args)
+            : undefined;
+    if (easing !== undefined) {
+      return { valid: true, value: easing };
+    }
+  }
+
+  return invalid(
+    'easing.invalid_format',
+    'invalid easing (expected keyword, cubic-bezier(), steps(), or linear())'
+  );
+}
+
+/**
+ * Keys of a transition value
+ *
+ * @internal
+ */
+const TRANSITION_KEYS = new Set(['duration', 'easing', 'delay']);
+
+/**
+ * Validates a transition value
+ *
+ * @param value - The value to validate
+ * @returns Validation result with the normalized transition or error message
+ *
+ * @remarks
+ * Expects an object with a `duration`, an `easing` and an optional `delay`.
+ * The delay may be negative. Each part is normalized like its own token type.
+ *
+ * @example
+ * ```typescript
+ * validateTransition({ duration: '200ms', easing: 'ease-out' });
+ * // { valid: true, value: { duration: '200ms', easing: 'ease-out' } }
+ * validateTransition({ duration: '200ms' });
+ * // { valid: false, message: 'invalid transition easing: expected string' }
+ * ```
+ *
+ * @public
+ */
+export function validateTransition(value: unknown): ValueValidationResult<TransitionValue> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return invalidType('object', 'expected object with duration and easing');
+  }
+
+  const obj = value as Record<string, unknown>;
+  const unknownKey = Object.keys(obj).find((key) => !TRANSITION_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return invalid('unknown_property', `unknown transition property "${unknownKey}"`, {
+      property: unknownKey,
+    });
+  }
+
+  const duration = validateDuration(obj['duration']);
+  if (!duration.valid) {
+    return invalidProperty('duration', 'invalid transition duration', duration);
+  }
+
+  const easing = validateEasing(obj['easing']);
+  if (!easing.valid) {
+    return invalidProperty('easing', 'invalid transition easing', easing);
+  }
+
+  const rawDelay = obj['delay'];
+  if (rawDelay === undefined) {
+    return { valid: true, value: { duration: duration.value, easing: easing.value } };
+  }
+
+  const delay = typeof rawDelay === 'string' ? parseTime(rawDelay, true) : undefined;
+  if (delay === undefined) {
+    return invalid(
+      'transition.invalid_delay',
+      'invalid transition delay: expected a time in ms or s, like "100ms"'
+    );
+  }
+
+  return { valid: true, value: { duration: duration.value, easing: easing.value, delay } };
+}
+
+/**
+ * Converts coercible parts of a transition value
+ *
+ * @remarks
+ * Numeric durations and delays become milliseconds, and an array of four
+ * numbers becomes a cubic-bezier() easing.
+ *
+ * @internal
+ */
+function coerceTransitionParts(value: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...value };
+  for (const key of ['duration', 'delay']) {
+    if (typeof result[key] === 'number') {
+      result[key] = `${result[key]}ms`;
+    }
+  }
+  if (Array.isArray(result['easing'])) {
+    result['easing'] = `cubic-bezier(${result['easing'].join(', ')})`;
+  }
+  return result;
+}
+
+/**
+ * Kind of gradient of each gradient function
+ *
+ * @internal
+ */
+const GRADIENT_FUNCTIONS: ReadonlyMap<string, 'linear' | 'radial' | 'conic'> = new Map([
+  ['linear-gradient', 'linear'],
+  ['radial-gradient', 'radial'],
+  ['conic-gradient', 'conic'],
+  ['repeating-linear-gradient', 'linear'],
+  ['repeating-radial-gradient', 'radial'],
+  ['repeating-conic-gradient', 'conic'],
+] as const);
+
+/**
+ * Angle regex for gradient directions and conic color stops
+ *
+ * @internal
+ */
+const ANGLE_REGEX = /^-?(?:\d+\.?\d*|\.\d+)(?:deg|grad|rad|turn)$/;
+
+/**
+ * Percentage regex for conic color stops
+ *
+ * @internal
+ */
+const PERCENTAGE_REGEX = /^-?(?:\d+\.?\d*|\.\d+)%$/;
+
+/**
+ * CSS math functions accepted as gradient positions without further checks
+ *
+ * @internal
+ */
+const MATH_FUNCTION_REGEX = /^(?:calc|min|max|clamp)\(.*\)$/;
+
+/**
+ * Side keywords of `to <side-or-corner>` in linear gradients
+ *
+ * @internal
+ */
+const GRADIENT_SIDES: ReadonlyMap<string, 'x' | 'y'> = new Map([
+  ['left', 'x'],
+  ['right', 'x'],
+  ['top', 'y'],
+  ['bottom', 'y'],
+] as const);
+
+/**
+ * Shape keywords of radial gradients
+ *
+ * @internal
+ */
+const RADIAL_SHAPES = new Set(['circle', 'ellipse']);
+
+/**
+ * Size keywords of radial gradients
+ *
+ * @internal
+ */
+const RADIAL_EXTENTS = new Set([
+  'closest-side',
+  'closest-corner',
+  'farthest-side',
+  'farthest-corner',
+]);
+
+/**
+ * Keywords of a background position
+ *
+ * @internal
+ */
+const POSITION_KEYWORDS = new Set(['left', 'right', 'top', 'bottom', 'center']);
+
+/**
+ * Checks a length or percentage, such as a color stop position in a linear gradient
+ *
+ * @internal
+ */
+function isLengthPercentage(token: string): boolean {
+  return token === '0' || DIMENSION_REGEX.test(token) || MATH_FUNCTION_REGEX.test(token);
+}
+
+/**
+ * Checks an angle or percentage, such as a color stop position in a conic gradient
+ *
+ * @internal
+ */
+function isAnglePercentage(token: string): boolean {
+  return (
+    token === '0' ||
+    ANGLE_REGEX.test(token) ||
+    PERCENTAGE_REGEX.test(token) ||
+    MATH_FUNCTION_REGEX.test(token)
+  );
+}
+
+/**
+ * Checks the tokens of a background position (e.g., "center", "left 10% top")
+ *
+ * @internal
+ */
+function isPosition(tokens: readonly string[]): boolean {
+  return (
+    tokens.length >= 1 &&
+    tokens.length <= 4 &&
+    tokens.every((token) => POSITION_KEYWORDS.has(token) || isLengthPercentage(token))
+  );
+}
+
+/**
+ * Checks the configuration argument of a gradient, before its color stops
+ *
+ * @param kind - The kind of gradient
+ * @param tokens - The lowercase tokens of the argument
+ *
+ * @internal
+ */
+function isGradientConfig(kind: 'linear' | 'radial' | 'conic', tokens: string[]): boolean {
+  // The color interpolation method may come before or after the other parts
+  const inIndex = tokens.indexOf('in');
+  if (inIndex !== -1) {
+    const rest = tokens.slice(inIndex);
+    const length = rest[3] === 'hue' ? 4 : 2;
+    if (!parseInterpolationMethod(rest.slice(0, length))) {
+      return false;
+    }
+    tokens = [...tokens.slice(0, inIndex), ...rest.slice(length)];
+    if (tokens.length === 0) {
+      return true;
+    }
+  }
+
+  if (kind === 'linear') {
+    if (tokens.length === 1) {
+      return tokens[0] === '0' || ANGLE_REGEX.test(tokens[0]!);
+    }
+    const axes = tokens.slice(1).map((token) => GRADIENT_SIDES.get(token));
+    return (
+      tokens[0] === 'to' &&
+      (axes.length === 1 || (axes.length === 2 && axes[0] !== axes[1])) &&
+      axes.every((axis) => axis !== undefined)
+    );
+  }
+
+  const atIndex = tokens.indexOf('at');
+  const before = atIndex === -1 ? tokens : tokens.slice(0, atIndex);
+  if (atIndex !== -1 && !isPosition(tokens.slice(atIndex + 1))) {
+    return false;
+  }
+
+  if (kind === 'conic') {
+    return (
+      before.length === 0 ||
+      (before.length === 2 &&
+        before[0] === 'from' &&
+        (before[1] === '0' || ANGLE_REGEX.test(before[1]!)))
+    );
+  }
+
+  // [<shape> || <extent keyword or 1-2 lengths>]
+  const shapes = before.filter((token) => RADIAL_SHAPES.has(token));
+  const extents = before.filter((token) => RADIAL_EXTENTS.has(token));
+  const sizes = before.filter((token) => !RADIAL_SHAPES.has(token) && !RADIAL_EXTENTS.has(token));
+  return (
+    (before.length > 0 || atIndex !== -1) &&
+    shapes.length <= 1 &&
+    extents.length <= 1 &&
+    sizes.length <= 2 &&
+    sizes.every(isLengthPercentage) &&
+    (extents.length === 0 || sizes.length === 0)
+  );
+}
+
+/**
+ * Validates and normalizes a single gradient function
+ *
+ * @returns The normalized gradient, or an error message
+ *
+ * @internal
+ */
+function parseGradient(value: string): ValueValidationResult<string> {
+  const invalidGradient = invalid(
+    'gradient.invalid_format',
+    'invalid gradient (expected linear-gradient(), radial-gradient() or conic-gradient() with at least two color stops)'
+  );
+
+  const match = /^([a-z-]+)\((.*)\)$/i.exec(value);
+  const name = match?.[1]?.toLowerCase() ?? '';
+  const kind = GRADIENT_FUNCTIONS.get(name);
+  const args = splitTopLevel(match?.[2] ?? '', /,/);
+  if (!kind || !args) {
+    return invalidGradient;
+  }
+
+  const isStopPosition = kind === 'conic' ? isAnglePercentage : isLengthPercentage;
+  const parts: string[] = [];
+  let colorStops = 0;
+  let previousWasHint = true;
+
+  for (const [index, arg] of args.entries()) {
+    const tokens = splitTopLevel(arg, /\s/)?.filter(Boolean) ?? [];
+    const [first = '', ...positions] = tokens;
+    const color = parseCssColor(first);
+
+    if (!color) {
+      const lower = tokens.map((token) => token.toLowerCase());
+      if (index === 0 && isGradientConfig(kind, lower)) {
+        parts.push(lower.join(' '));
+        continue;
+      }
+      // A color hint is a lone position between two color stops
+      if (tokens.length === 1 && isStopPosition(lower[0]!) && !previousWasHint) {
+        parts.push(lower[0]!);
+        previousWasHint = true;
+        continue;
+      }
+      return tokens.length === 0
+        ? invalidGradient
+        : invalid('gradient.invalid_color_stop', `invalid gradient color stop "${arg}"`, {
+            stop: arg,
+          });
+    }
+
+    if (positions.length > 2 || !positions.every((token) => isStopPosition(token.toLowerCase()))) {
+      return invalid(
+        'gradient.invalid_stop_position',
+        `invalid gradient color stop position in "${arg}"`,
+        { stop: arg }
+      );
+    }
+
+    parts.push([color.value, ...positions.map((token) => token.toLowerCase())].join(' '));
+    colorStops++;
+    previousWasHint = false;
+  }
+
+  if (colorStops < 2 || previousWasHint) {
+    return invalidGradient;
+  }
+
+  return { valid: true, value: `${name}(${parts.join(', ')})` };
+}
+
+/**
+ * Validates a gradient value
+ *
+ * @param value - The value to validate
+ * @returns Validation result with the normalized gradient or error message
+ *
+ * @remarks
+ * Accepts linear-gradient(), radial-gradient() and conic-gradient() and their
+ * repeating- variants, or a comma-separated list of them for layered backgrounds.
+ *
+ * Color stops accept the same colors as {@link validateColor} (except CSS-wide
+ * keywords), followed by up to two positions. Color hints, directions, shapes,
+ * positions and color interpolation methods (`in oklch`) are checked too.
+ *
+ * Function names and keywords are lowercased and arguments are separated by ", ".
+ *
+ * @example
+ * ```typescript
+ * validateGradient('linear-gradient(to right, #3b82f6, #9333ea)');
+ * // { valid: true, value: 'linear-gradient(to right, #3b82f6, #9333ea)' }
+ * validateGradient('radial-gradient(circle at top, RED 0%, blue 80%)');
+ * // { valid: true, value: 'radial-gradient(circle at top, red 0%, blue 80%)' }
+ * validateGradient('linear-gradient(red, notacolor)');
+ * // { valid: false, message: 'invalid gradient color stop "notacolor"' }
+ * ```
+ *
+ * @public
+ */
+export function validateGradient(value: unknown): ValueValidationResult<string> {
+  if (typeof value !== 'string') {
+    return invalidType('string');
+  }
+
+  const layers = splitTopLevel(value.trim().replace(/\s+/g, ' '), /,/);
+  if (!layers) {
+    return invalid('gradient.unbalanced_parentheses', 'invalid gradient (unbalanced parentheses)');
+  }
+
+  const gradients: string[] = [];
+  for (const layer of layers) {
+    const result = parseGradient(layer);
+    if (!result.valid) {
+      return result;
+    }
+    gradients.push(result.value);
+  }
+
+  return { valid: true, value: gradients.join(', ') };
+}
+
+/**
+ * Keys of a typography value
+ *
+ * @internal
+ */
+const TYPOGRAPHY_KEYS = new Set([
+  'fontFamily',
+  'fontSize',
+  'fontWeight',
+  'lineHeight',
+  'letterSpacing',
+]);
+
+/**
+ * Validates a line height: a non-negative unitless number, a dimension or "normal"
+ *
+ * @internal
+ */
+function validateLineHeight(value: unknown): ValueValidationResult<string | number> {
+  if (typeof value === 'number') {
+    return validateNumber(value, { min: 0 });
+  }
+  if (typeof value === 'string' && value.trim().toLowerCase() === 'normal') {
+    return { valid: true, value: 'normal' };
+  }
+  const dimension = validateDimension(value);
+  return dimension.valid
+    ? dimension
+    : invalid('typography.invalid_line_height', 'expected unitless number, dimension or "normal"');
+}
+
+/**
+ * Validates a letter spacing: a dimension or "normal"
+ *
+ * @internal
+ */
+function validateLetterSpacing(value: unknown): ValueValidationResult<string> {
+  if (typeof value === 'string' && value.trim().toLowerCase() === 'normal') {
+    return { valid: true, value: 'normal' };
+  }
+  const dimension = validateDimension(value);
+  return dimension.valid
+    ? dimension
+    : invalid('typography.invalid_letter_spacing', 'expected dimension or "normal"');
+}
+
+/**
+ * Validators of the typography fields
+ *
+ * @internal
+ */
+const TYPOGRAPHY_FIELDS: ReadonlyArray<
+  readonly [keyof TypographyValue, (value: unknown) => ValueValidationResult<unknown>, boolean]
+> = [
+  ['fontFamily', validateFontFamily, true],
+  ['fontSize', validateDimension, true],
+  ['fontWeight', validateFontWeight, false],
+  ['lineHeight', validateLineHeight, false],
+  ['letterSpacing', validateLetterSpacing, false],
+];
+
+/**
+ * Validates a typography value
+ *
+ * @param value - The value to validate
+ * @returns Validation result with the normalized typography or error message
+ *
+ * @remarks
+ * Expects an object with a `fontFamily` and a `fontSize`, and optionally a
+ * `fontWeight`, `lineHeight` and `letterSpacing`. Each field is checked with the
+ * validator of its token type; line height also accepts unitless numbers and
+ * "normal", and letter spacing accepts "normal".
+ *
+ * @example
+ * ```typescript
+ * validateTypography({ fontFamily: 'Inter', fontSize: '1rem', fontWeight: '600' });
+ * // { valid: true, value: { fontFamily: 'Inter', fontSize: '1rem', fontWeight: 600 } }
+ * validateTypography({ fontFamily: 'Inter', fontSize: 16 });
+ * // { valid: false, message: 'invalid typography fontSize: expected string' }
+ * ```
+ *
+ * @public
+ */
+export function validateTypography(value: unknown): ValueValidationResult<TypographyValue> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return invalidType('object', 'expected object with fontFamily and fontSize');
+  }
+
+  const obj = value as Record<string, unknown>;
+  const unknownKey = Object.keys(obj).find((key) => !TYPOGRAPHY_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return invalid('unknown_property', `unknown typography property "${unknownKey}"`, {
+      property: unknownKey,
+    });
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, validator, required] of TYPOGRAPHY_FIELDS) {
+    if (obj[key] === undefined && !required) {
+      continue;
+    }
+    const field = validator(obj[key]);
+    if (!field.valid) {
+      return invalidProperty(key, `invalid typography ${key}`, field);
+    }
+    result[key] = field.value;
+  }
+
+  return { valid: true, value: result as unknown as TypographyValue };
+}
+
+/**
+ * Converts coercible fields of a typography value
+ *
+ * @remarks
+ * Numeric font sizes and letter spacings become pixels, and numeric strings
+ * become unitless line heights.
+ *
+ * @internal
+ */
+function coerceTypographyParts(value: Record<string, unknown>): Record<string, unknown> {
+  const result = { ...value };
+  for (const key of ['fontSize', 'letterSpacing']) {
+    if (typeof result[key] === 'number') {
+      result[key] = `${result[key]}px`;
+    }
+  }
+  const lineHeight = result['lineHeight'];
+  if (
+    typeof lineHeight === 'string' &&
+    lineHeight.trim() !== '' &&
+    !Number.isNaN(Number(lineHeight))
+  ) {
+    result['lineHeight'] = Number(lineHeight);
+  }
+  return result;
+}
+
+/**
+ * Keys of a modular scale definition
+ *
+ * @internal
+ */
+const MODULAR_SCALE_KEYS = new Set(['base', 'ratio', 'baseStep']);
+
+/**
+ * Checks if a scale value is a modular scale rather than an object of steps
+ *
+ * @param value - The scale value (not an array)
+ * @returns True if the value has a `base` or `ratio`
+ *
+ * @internal
+ */
+export function isModularScale(value: object): boolean {
+  return 'base' in value || 'ratio' in value;
+}
+
+/**
+ * Validates the dimension of every step of a scale
+ *
+ * @internal
+ */
+function validateScaleSteps(
+  entries: ReadonlyArray<readonly [string, unknown]>
+): ValueValidationResult<Record<string, string>> {
+  const result: Record<string, string> = {};
+  for (const [step, value] of entries) {
+    const dimension = validateDimension(value);
+    if (!dimension.valid) {
+      return invalid('scale.invalid_step', `invalid scale step "${step}": ${dimension.message}`, {
+        step,
+        cause: toIssue(dimension),
+      });
+    }
+    result[step] = dimension.value;
+  }
+  return { valid: true, value: result };
+}
+
+/**
+ * Computes the steps of a modular scale
+ *
+ * @remarks
+ * Computed dimensions are rounded to 4 decimals.
+ *
+ * @internal
+ */
+function expandModularScale(
+  definition: Record<string, unknown>,
+  steps: readonly string[]
+): ValueValidationResult<Record<string, string>> {
+  const unknownKey = Object.keys(definition).find((key) => !MODULAR_SCALE_KEYS.has(key));
+  if (unknownKey !== undefined) {
+    return invalid('unknown_property', `unknown scale property "${unknownKey}"`, {
+      property: unknownKey,
+    });
+  }
+
+  const base = validateDimension(definition['base']);
+  if (!base.valid) {
+    return invalidProperty('base', 'invalid scale base', base);
+  }
+
+  const ratio = definition['ratio'];
+  if (typeof ratio !== 'number' || !Number.isFinite(ratio) || ratio <= 0) {
+    return invalid('scale.invalid_ratio', 'invalid scale ratio: expected positive number');
+  }
+
+  const baseStep = definition['baseStep'] ?? steps[0];
+  const baseIndex = typeof baseStep === 'string' ? steps.indexOf(baseStep) : -1;
+  if (baseIndex === -1) {
+    const expected = steps.map((step) => `"${step}"`).join(', ');
+    return invalid(
+      'scale.invalid_base_step',
+      `invalid scale baseStep: expected one of ${expected}`,
+      { allowed: [...steps] }
+    );
+  }
+
+  const { value: size, unit } = parseDimension(base.value)!;
+  const result: Record<string, string> = {};
+  for (const [index, step] of steps.entries()) {
+    const scaled = Number((size * ratio ** (index - baseIndex)).toFixed(4));
+    result[step] = `${scaled}${unit}`;
+  }
+  return { valid: true, value: result };
+}
+
+/**
+ * Validates a scale value and computes its steps
+ *
+ * @param value - The value to validate
+ * @param steps - The step names of the scale, from smallest to largest
+ * @returns Validation result with a dimension for every step or error message
+ *
+ * @remarks
+ * Accepts an array with a dimension per step, a modular scale
+ * `{ base, ratio, baseStep? }` where `baseStep` (the first step by default)
+ * equals `base` and each step is `ratio` times the previous one, or an object
+ * with a dimension for every step.
+ *
+ * @example
+ * ```typescript
+ * validateScale({ base: '4px', ratio: 2 }, ['1', '2', '3']);
+ * // { valid: true, value: { '1': '4px', '2': '8px', '3': '16px' } }
+ * validateScale({ base: '1rem', ratio: 1.25, baseStep: 'md' }, ['sm', 'md', 'lg']);
+ * // { valid: true, value: { sm: '0.8rem', md: '1rem', lg: '1.25rem' } }
+ * validateScale(['4px', '8px'], ['1', '2', '3']);
+ * // { valid: false, message: 'expected 3 scale values, got 2' }
+ * ```
+ *
+ * @public
+ */
+export function validateScale(
+  value: unknown,
+  steps: readonly string[]
+): ValueValidationResult<Record<string, string>> {
+  if (Array.isArray(value)) {
+    if (value.length !== steps.length) {
+      return invalid(
+        'scale.length_mismatch',
+        `expected ${steps.length} scale values, got ${value.length}`,
+        { count: steps.length, received: value.length }
+      );
+    }
+    return validateScaleSteps(steps.map((step, index) => [step, value[index]] as const));
+  }
+
+  if (typeof value !== 'object' || value === null) {
+    return invalid(
+      'scale.invalid_format',
+      'expected array of dimensions or object with base and ratio'
+    );
+  }
+
+  const obj = value as Record<string, unknown>;
+  if (isModularScale(obj)) {
+    return expandModularScale(obj, steps);
+  }
+
+  const unknownKey = Object.keys(obj).find((key) => !steps.includes(key));
+  if (unknownKey !== undefined) {
+    return invalid('scale.unknown_step', `unknown scale step "${unknownKey}"`, {
+      step: unknownKey,
+    });
+  }
+  const missingStep = steps.find((step) => obj[step] === undefined);
+  if (missingStep !== undefined) {
+    return invalid('scale.missing_step', `missing scale step "${missingStep}"`, {
+      step: missingStep,
+    });
+  }
+  return validateScaleSteps(steps.map((step) => [step, obj[step]] as const));
+}
+
+/**
+ * Converts numeric dimensions of a scale value to pixels
+ *
+ * @internal
+ */
+function coerceScaleParts(value: object): unknown {
+  const toPixels = (dimension: unknown) =>
+    typeof dimension === 'number' ? `${dimension}px` : dimension;
+
+  if (Array.isArray(value)) {
+    return value.map(toPixels);
+  }
+  const obj = value as Record<string, unknown>;
+  if (isModularScale(obj)) {
+    return { ...obj, base: toPixels(obj['base']) };
+  }
+  return Object.fromEntries(
+    Object.entries(obj).map(([step, dimension]) => [step, toPixels(dimension)])
+  );
+}
+
+/**
+ * Validates a value against a token type
+ *
+ * @param value - The value to validate
+ * @param tokenType - The expected token type
+ * @param constraints - Optional constraints of the token (see {@link TokenConstraints})
+ * @returns Validation result with the validated value or error message
+ *
+ * @remarks
+ * Dispatches to the appropriate validator based on token type.
+ * Constraints are passed to the number, dimension, string, fontWeight and asset validators.
+ * Enum tokens take their allowed values as the `oneOf` constraint, and scale
+ * tokens take their step names as the `steps` constraint.
+ *
+ * @example
+ * ```typescript
+ * validateValue('#3b82f6', 'color');   // { valid: true, value: '#3b82f6' }
+ * validateValue('16px', 'dimension');  // { valid: true, value: '16px' }
+ * validateValue(42, 'number');         // { valid: true, value: 42 }
+ * validateValue('hello', 'number');    // { valid: false, message: '...' }
+ * ```
  *
  * @public
  */
 export function validateValue(
   value: unknown,
-  tokenType: TokenType
+  tokenType: TokenType,
+  constraints?: TokenConstraints
 ): ValueValidationResult<unknown> {
   switch (tokenType) {
     case 'color':
       return validateColor(value);
     case 'dimension':
-      return validateDimension(value);
+      return validateDimension(value, constraints as DimensionConstraints | undefined);
     case 'number':
-      return validateNumber(value);
+      return validateNumber(value, constraints as NumberConstraints | undefined);
     case 'string':
-      return validateString(value);
+      return validateString(value, constraints as StringConstraints | undefined);
     case 'boolean':
       return validateBoolean(value);
     case 'fontFamily':
       return validateFontFamily(value);
     case 'fontWeight':
-      return validateFontWeight(value);
+      return validateFontWeight(value, constraints as FontWeightConstraints | undefined);
     case 'shadow':
       return validateShadow(value);
     case 'url':
       return validateUrl(value);
+    case 'asset':
+      return validateAsset(value, constraints as AssetConstraints | undefined);
+    case 'enum':
+      return validateEnum(value, (constraints as StringConstraints | undefined)?.oneOf ?? []);
+    case 'duration':
+      return validateDuration(value);
+    case 'easing':
+      return validateEasing(value);
+    case 'transition':
+      return validateTransition(value);
+    case 'gradient':
+      return validateGradient(value);
+    case 'typography':
+      return validateTypography(value);
+    case 'scale':
+      return validateScale(value, (constraints as ScaleConstraints | undefined)?.steps ?? []);
+    case 'reference':
+      // References have no value type of their own; validate against the target's type
+      return invalid(
+        'reference.unsupported',
+        'reference tokens are validated against their target type'
+      );
     default: {
       const _exhaustive: never = tokenType;
-      return { valid: false, message: `unknown token type: ${_exhaustive}` };
+      return invalid('unknown_token_type', `unknown token type: ${_exhaustive}`, {
+        type: _exhaustive,
+      });
     }
   }
 }
@@ -748,6 +2364,7 @@ export function validateValue(
  *
  * @param value - The value to coerce
  * @param tokenType - The target token type
+ * @param constraints - Optional constraints of the token, checked after coercion
  * @returns Validation result with the coerced value or error message
  *
  * @remarks
@@ -755,6 +2372,11 @@ export function validateValue(
  * - Strings to numbers ("123" -> 123)
  * - Strings/numbers to booleans ("true"/1 -> true, "false"/0 -> false)
  * - Numbers to dimensions (16 -> "16px")
+ * - Numbers to durations (200 -> "200ms"), also inside transitions
+ * - Arrays of shadow layer objects to shadow strings, with numeric lengths in px
+ * - Numeric typography font sizes and letter spacings to px, and numeric line height strings to numbers
+ * - Numeric scale dimensions and bases to px
+ * - Arrays of four numbers to easings ([0.4, 0, 0.2, 1] -> "cubic-bezier(0.4, 0, 0.2, 1)")
  * - Any to string (via String())
  *
  * @example
@@ -767,9 +2389,13 @@ export function validateValue(
  *
  * @public
  */
-export function coerceValue(value: unknown, tokenType: TokenType): ValueValidationResult<unknown> {
+export function coerceValue(
+  value: unknown,
+  tokenType: TokenType,
+  constraints?: TokenConstraints
+): ValueValidationResult<unknown> {
   // First try direct validation
-  const directResult = validateValue(value, tokenType);
+  const directResult = validateValue(value, tokenType, constraints);
   if (directResult.valid) {
     return directResult;
   }
@@ -780,7 +2406,7 @@ export function coerceValue(value: unknown, tokenType: TokenType): ValueValidati
       if (typeof value === 'string') {
         const num = Number(value);
         if (!Number.isNaN(num)) {
-          return { valid: true, value: num };
+          return validateNumber(num, constraints as NumberConstraints | undefined);
         }
       }
       break;
@@ -796,14 +2422,53 @@ export function coerceValue(value: unknown, tokenType: TokenType): ValueValidati
 
     case 'string':
       if (value !== null && value !== undefined) {
-        return { valid: true, value: String(value) };
+        return validateString(String(value), constraints as StringConstraints | undefined);
       }
       break;
 
     case 'dimension':
       // Try to add 'px' if it's a plain number
       if (typeof value === 'number') {
-        return { valid: true, value: `${value}px` };
+        return validateDimension(`${value}px`, constraints as DimensionConstraints | undefined);
+      }
+      break;
+
+    case 'duration':
+      if (typeof value === 'number') {
+        return validateDuration(`${value}ms`);
+      }
+      break;
+
+    case 'shadow':
+      if (Array.isArray(value)) {
+        return coerceShadowLayers(value);
+      }
+      break;
+
+    case 'easing':
+      if (Array.isArray(value)) {
+        return validateEasing(`cubic-bezier(${value.join(', ')})`);
+      }
+      break;
+
+    case 'transition':
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return validateTransition(coerceTransitionParts(value as Record<string, unknown>));
+      }
+      break;
+
+    case 'typography':
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return validateTypography(coerceTypographyParts(value as Record<string, unknown>));
+      }
+      break;
+
+    case 'scale':
+      if (typeof value === 'object' && value !== null) {
+        return validateScale(
+          coerceScaleParts(value),
+          (constraints as ScaleConstraints | undefined)?.steps ?? []
+        );
       }
       break;
   }
@@ -0,0 +1,333 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseColor,
+  formatColor,
+  convertColor,
+  lighten,
+  darken,
+  saturate,
+  mix,
+  alpha,
+  invert,
+  luminance,
+  contrastRatio,
+} from '../src/color/index';
+
+describe('parseColor', () => {
+  it('parses 6-digit hex', () => {
+    expect(parseColor('#3b82f6')).toEqual({ r: 59, g: 130, b: 246, a: 1 });
+  });
+
+  it('parses 3-digit hex', () => {
+    expect(parseColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+  });
+
+  it('parses 8-digit hex with alpha', () => {
+    expect(parseColor('#00000080')).toEqual({ r: 0, g: 0, b: 0, a: 128 / 255 });
+  });
+
+  it('parses 4-digit hex with alpha', () => {
+    expect(parseColor('#f008')).toEqual({ r: 255, g: 0, b: 0, a: 136 / 255 });
+  });
+
+  it('parses uppercase hex', () => {
+    expect(parseColor('#3B82F6')).toEqual({ r: 59, g: 130, b: 246, a: 1 });
+  });
+
+  it('parses rgb()', () => {
+    expect(parseColor('rgb(255, 0, 0)')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+  });
+
+  it('parses rgba()', () => {
+    expect(parseColor('rgba(0, 0, 0, 0.5)')).toEqual({ r: 0, g: 0, b: 0, a: 0.5 });
+  });
+
+  it('parses percentage rgb channels and alpha', () => {
+    expect(parseColor('rgba(100%, 0%, 50%, 50%)')).toEqual({ r: 255, g: 0, b: 127.5, a: 0.5 });
+  });
+
+  it('clamps out-of-range rgb channels', () => {
+    expect(parseColor('rgb(300, 0, 0)')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+  });
+
+  it('parses hsl()', () => {
+    expect(parseColor('hsl(0, 100%, 50%)')).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+    expect(parseColor('hsl(120, 100%, 25%)')).toEqual({ r: 0, g: 127.5, b: 0, a: 1 });
+  });
+
+  it('parses hsla() with deg hue', () => {
+    expect(parseColor('hsla(240deg, 100%, 50%, 0.25)')).toEqual({ r: 0, g: 0, b: 255, a: 0.25 });
+  });
+
+  it('parses named colors case-insensitively', () => {
+    expect(parseColor('rebeccapurple')).toEqual({ r: 102, g: 51, b: 153, a: 1 });
+    expect(parseColor('White')).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+  });
+
+  it('parses transparent', () => {
+    expect(parseColor('transparent')).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+  });
+
+  it('trims whitespace', () => {
+    expect(parseColor('  #000  ')).toEqual({ r: 0, g: 0, b: 0, a: 1 });
+  });
+
+  it('returns undefined for keywords without a concrete color', () => {
+    expect(parseColor('currentcolor')).toBeUndefined();
+    expect(parseColor('inherit')).toBeUndefined();
+  });
+
+  it('returns undefined for invalid colors', () => {
+    expect(parseColor('notacolor')).toBeUndefined();
+    expect(parseColor('#ggg')).toBeUndefined();
+    expect(parseColor('rgb(255, 0)')).toBeUndefined();
+    expect(parseColor('rgb(255, 0, red)')).toBeUndefined();
+    expect(parseColor('rgba(0, 0, 0, x)')).toBeUndefined();
+    expect(parseColor('hsl(0, 100, 50)')).toBeUndefined();
+    expect(parseColor('hsl(red, 100%, 50%)')).toBeUndefined();
+  });
+});
+
+describe('parseColor (modern syntax)', () => {
+  it('parses space-separated rgb() and hsl()', () => {
+    expect(parseColor('rgb(255 0 0 / 50%)')).toEqual({ r: 255, g: 0, b: 0, a: 0.5 });
+    expect(parseColor('hsl(120deg 50% 50%)')).toEqual({ r: 63.75, g: 191.25, b: 63.75, a: 1 });
+    expect(parseColor('hsl(0.5turn 50 50)')).toEqual({ r: 63.75, g: 191.25, b: 191.25, a: 1 });
+  });
+
+  it('treats none as a missing component', () => {
+    expect(parseColor('rgb(none 0 0)')).toEqual({ r: 0, g: 0, b: 0, a: 1 });
+    expect(parseColor('hsl(none 0% 50%)')).toEqual({ r: 127.5, g: 127.5, b: 127.5, a: 1 });
+  });
+
+  it('parses oklch, oklab, lab, lch and hwb', () => {
+    expect(convertColor('oklch(62.31% 0.188 259.81)', 'hex')).toBe('#3b82f6');
+    expect(convertColor('oklch(0.7 0.1 30 / 50%)', 'rgb')).toBe('rgba(213, 134, 121, 0.5)');
+    expect(convertColor('oklab(0.6 0.1 -0.1)', 'hex')).toBe('#9f63ba');
+    expect(convertColor('lab(50% 40 59.5)', 'hex')).toBe('#bf5700');
+    expect(convertColor('lch(52.2 72.2 50)', 'hex')).toBe('#cd561a');
+    expect(convertColor('hwb(200 0% 0%)', 'hex')).toBe('#00aaff');
+    expect(convertColor('hwb(0 60% 60%)', 'hex')).toBe('#808080');
+  });
+
+  it('parses color() with predefined color spaces', () => {
+    expect(convertColor('color(srgb 1 0.5 0)', 'hex')).toBe('#ff8000');
+    expect(convertColor('color(display-p3 0.5 0.6 0.7)', 'hex')).toBe('#799ab5');
+    expect(convertColor('color(rec2020 0.4 0.5 0.6)', 'hex')).toBe('#5c8ea6');
+    expect(convertColor('color(xyz-d50 0.2 0.3 0.4)', 'hex')).toBe('#00a8bd');
+  });
+
+  it('clips colors outside the sRGB gamut', () => {
+    expect(convertColor('color(display-p3 1 0 0)', 'hex')).toBe('#ff0000');
+    expect(convertColor('oklch(70% 0.4 145)', 'hex')).toBe('#00d200');
+  });
+
+  it('parses color-mix()', () => {
+    expect(convertColor('color-mix(in srgb, red, blue)', 'hex')).toBe('#800080');
+    expect(convertColor('color-mix(in oklab, red, blue)', 'hex')).toBe('#8c53a2');
+    expect(convertColor('color-mix(in srgb, red 25%, blue)', 'hex')).toBe('#4000bf');
+  });
+
+  it('interpolates hue in color-mix() with the given method', () => {
+    expect(convertColor('color-mix(in hsl, red, blue)', 'hex')).toBe('#ff00ff');
+    expect(convertColor('color-mix(in hsl longer hue, red, blue)', 'hex')).toBe('#00ff00');
+    expect(convertColor('color-mix(in lch increasing hue, red, blue)', 'hex')).toBe('#008240');
+  });
+
+  it('ignores powerless hues in color-mix()', () => {
+    expect(convertColor('color-mix(in oklch, white, blue)', 'hex')).toBe('#74a3ff');
+  });
+
+  it('premultiplies alpha in color-mix()', () => {
+    expect(convertColor('color-mix(in srgb, red 50%, transparent)', 'hex')).toBe('#ff000080');
+  });
+
+  it('reduces alpha when color-mix() percentages sum below 100%', () => {
+    expect(convertColor('color-mix(in srgb, red 20%, blue 20%)', 'hex')).toBe('#80008066');
+  });
+
+  it('parses nested color-mix()', () => {
+    expect(
+      convertColor('color-mix(in srgb, red 25%, color-mix(in oklab, blue, white))', 'hex')
+    ).toBe('#967ac6');
+  });
+
+  it('returns undefined for color-mix() with currentcolor', () => {
+    expect(parseColor('color-mix(in srgb, currentcolor, red)')).toBeUndefined();
+  });
+
+  it('manipulates modern colors', () => {
+    expect(lighten('oklch(62.31% 0.188 259.81)', 0.1)).toBe('#6ca1f8');
+    expect(alpha('color(display-p3 1 0 0)', 0.5)).toBe('#ff000080');
+  });
+
+  it('returns undefined for malformed modern syntax', () => {
+    expect(parseColor('oklch(0.62 0.2)')).toBeUndefined();
+    expect(parseColor('rgb(1e400 0 0)')).toBeUndefined();
+    expect(parseColor('color(foo 1 0 0)')).toBeUndefined();
+    expect(parseColor('hwb(30, 10%, 10%)')).toBeUndefined();
+  });
+});
+
+describe('formatColor', () => {
+  const blue = { r: 59, g: 130, b: 246, a: 1 };
+  const translucent = { r: 59, g: 130, b: 246, a: 0.5 };
+
+  it('formats hex by default', () => {
+    expect(formatColor(blue)).toBe('#3b82f6');
+  });
+
+  it('formats translucent hex with an alpha channel', () => {
+    expect(formatColor(translucent, 'hex')).toBe('#3b82f680');
+  });
+
+  it('formats rgb and rgba', () => {
+    expect(formatColor(blue, 'rgb')).toBe('rgb(59, 130, 246)');
+    expect(formatColor(translucent, 'rgb')).toBe('rgba(59, 130, 246, 0.5)');
+  });
+
+  it('formats hsl and hsla', () => {
+    expect(formatColor(blue, 'hsl')).toBe('hsl(217, 91%, 60%)');
+    expect(formatColor(translucent, 'hsl')).toBe('hsla(217, 91%, 60%, 0.5)');
+  });
+
+  it('formats oklch', () => {
+    expect(formatColor(blue, 'oklch')).toBe('oklch(62.31% 0.188 259.81)');
+    expect(formatColor(translucent, 'oklch')).toBe('oklch(62.31% 0.188 259.81 / 0.5)');
+  });
+
+  it('formats achromatic oklch with zero hue', () => {
+    expect(formatColor({ r: 255, g: 255, b: 255, a: 1 }, 'oklch')).toBe('oklch(100% 0 0)');
+  });
+
+  it('rounds and clamps channels', () => {
+    expect(formatColor({ r: 300, g: -5, b: 127.5, a: 2 }, 'rgb')).toBe('rgb(255, 0, 128)');
+  });
+
+  it('throws for unknown formats', () => {
+    // @ts-expect-error - testing invalid input
+    expect(() => formatColor(blue, 'cmyk')).toThrow('Unknown color format: cmyk');
+  });
+});
+
+describe('convertColor', () => {
+  it('converts between formats', () => {
+    expect(convertColor('red', 'hex')).toBe('#ff0000');
+    expect(convertColor('#3b82f6', 'rgb')).toBe('rgb(59, 130, 246)');
+    expect(convertColor('rgb(59, 130, 246)', 'hsl')).toBe('hsl(217, 91%, 60%)');
+    expect(convertColor('red', 'oklch')).toBe('oklch(62.8% 0.2577 29.23)');
+  });
+
+  it('converts hsl colors in every hue sector', () => {
+    expect(convertColor('hsl(60, 100%, 50%)', 'hex')).toBe('#ffff00');
+    expect(convertColor('hsl(180, 100%, 50%)', 'hex')).toBe('#00ffff');
+    expect(convertColor('hsl(300, 100%, 50%)', 'hex')).toBe('#ff00ff');
+  });
+
+  it('throws for invalid colors', () => {
+    expect(() => convertColor('notacolor', 'hex')).toThrow('Invalid color: "notacolor"');
+  });
+});
+
+describe('lighten / darken', () => {
+  it('adjusts HSL lightness', () => {
+    expect(lighten('#3b82f6', 0.1)).toBe('#6ca1f8');
+    expect(darken('#3b82f6', 0.08)).toBe('#1469f4');
+  });
+
+  it('clamps lightness', () => {
+    expect(lighten('#3b82f6', 1)).toBe('#ffffff');
+    expect(darken('#3b82f6', 1)).toBe('#000000');
+  });
+
+  it('preserves alpha', () => {
+    expect(lighten('rgba(0, 0, 0, 0.5)', 0.5)).toBe('#80808080');
+  });
+});
+
+describe('saturate', () => {
+  it('adjusts HSL saturation', () => {
+    expect(saturate('hsl(0, 50%, 50%)', 0.5)).toBe('#ff0000');
+  });
+
+  it('desaturates with negative amounts', () => {
+    expect(saturate('#3b82f6', -1)).toBe('#999999');
+  });
+});
+
+describe('mix', () => {
+  it('mixes equally by default', () => {
+    expect(mix('#000000', '#ffffff')).toBe('#808080');
+  });
+
+  it('weights the second color', () => {
+    expect(mix('#3b82f6', '#ffffff', 0.2)).toBe('#629bf8');
+    expect(mix('red', 'blue', 0)).toBe('#ff0000');
+    expect(mix('red', 'blue', 1)).toBe('#0000ff');
+  });
+
+  it('mixes alpha', () => {
+    expect(mix('#000000', 'transparent')).toBe('#00000080');
+  });
+});
+
+describe('alpha', () => {
+  it('sets the alpha channel', () => {
+    expect(alpha('#3b82f6', 0.5)).toBe('#3b82f680');
+    expect(alpha('#3b82f680', 1)).toBe('#3b82f6');
+  });
+
+  it('clamps alpha', () => {
+    expect(alpha('#000', -1)).toBe('#00000000');
+  });
+});
+
+describe('invert', () => {
+  it('inverts RGB channels', () => {
+    expect(invert('#3b82f6')).toBe('#c47d09');
+    expect(invert('white')).toBe('#000000');
+  });
+
+  it('preserves alpha', () => {
+    expect(invert('rgba(255, 255, 255, 0.5)')).toBe('#00000080');
+  });
+});
+
+describe('luminance', () => {
+  it('computes WCAG relative luminance', () => {
+    expect(luminance('#ffffff')).toBe(1);
+    expect(luminance('#000000')).toBe(0);
+    expect(luminance('#ff0000')).toBeCloseTo(0.2126, 4);
+    expect(luminance('#00ff00')).toBeCloseTo(0.7152, 4);
+    expect(luminance('#808080')).toBeCloseTo(0.2159, 4);
+  });
+
+  it('throws for invalid colors', () => {
+    expect(() => luminance('currentcolor')).toThrow('Invalid color');
+  });
+});
+
+describe('contrastRatio', () => {
+  it('computes the WCAG contrast ratio', () => {
+    expect(contrastRatio('#000000', '#ffffff')).toBe(21);
+    expect(contrastRatio('#ffffff', '#ffffff')).toBe(1);
+    expect(contrastRatio('#3b82f6', '#ffffff')).toBeCloseTo(3.68, 2);
+  });
+
+  it('is symmetric for opaque colors', () => {
+    expect(contrastRatio('#ffffff', '#3b82f6')).toBe(contrastRatio('#3b82f6', '#ffffff'));
+  });
+
+  it('composites a translucent foreground over the background', () => {
+    expect(contrastRatio('rgba(0, 0, 0, 0.5)', '#ffffff')).toBeCloseTo(3.98, 2);
+    expect(contrastRatio('transparent', '#000000')).toBe(1);
+  });
+
+  it('composites a translucent background over white', () => {
+    expect(contrastRatio('#ffffff', 'rgba(0, 0, 0, 0.5)')).toBeCloseTo(3.98, 2);
+  });
+
+  it('throws for invalid colors', () => {
+    expect(() => contrastRatio('currentcolor', '#ffffff')).toThrow('Invalid color');
+  });
+});
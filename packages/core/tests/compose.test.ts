@@ -0,0 +1,212 @@
+import { describe, it, expect } from 'vitest';
+import { createSchema, isSchema } from '../src/schema/index';
+import { extendSchema, mergeSchemas, pickSchema, omitSchema } from '../src/schema/compose';
+import { t } from '../src/schema/tokens';
+import { validate } from '../src/validation/index';
+
+const base = createSchema({
+  definition: {
+    colors: {
+      text: t.color().default('#000000'),
+      background: t.color().default('#ffffff'),
+      link: t.reference('colors.text'),
+    },
+    spacing: { sm: t.dimension().default('4px'), md: t.dimension() },
+  },
+  derived: {
+    'spacing.md': (theme) => `${parseFloat(theme.spacing.sm) * 2}px`,
+  },
+  contrast: [{ foreground: 'colors.text', background: 'colors.background' }],
+});
+
+describe('extendSchema', () => {
+  it('adds tokens and groups to the base schema', () => {
+    const schema = extendSchema({
+      schema: base,
+      definition: {
+        colors: { accent: t.color() },
+        radii: { md: t.dimension().default('8px') },
+      },
+    });
+
+    expect(isSchema(schema)).toBe(true);
+    expect(Object.keys(schema.definition)).toEqual(['colors', 'spacing', 'radii']);
+    expect(Object.keys(schema.definition.colors)).toEqual(['text', 'background', 'link', 'accent']);
+    expect(base.definition).not.toHaveProperty('radii');
+  });
+
+  it('replaces tokens of the same type', () => {
+    const schema = extendSchema({
+      schema: base,
+      definition: { colors: { text: t.color().default('#111827') } },
+    });
+
+    expect(schema.definition.colors.text.defaultValue).toBe('#111827');
+  });
+
+  it('combines derived tokens, contrast rules, aliases and migrations', () => {
+    const migrate = (data: Record<string, unknown>) => data;
+    const versioned = createSchema({
+      definition: { colors: { brand: t.color() } },
+      version: 2,
+      migrations: { 2: migrate },
+      aliases: { brandColor: 'colors.brand' },
+    });
+
+    const schema = extendSchema({
+      schema: versioned,
+      definition: { colors: { text: t.color() } },
+      contrast: [{ foreground: 'colors.text', background: 'colors.brand' }],
+      aliases: { textColor: 'colors.text' },
+      version: 3,
+      migrations: { 3: migrate },
+    });
+
+    expect(schema.version).toBe(3);
+    expect(Object.keys(schema.migrations ?? {})).toEqual(['2', '3']);
+    expect(schema.aliases).toEqual({ brandColor: 'colors.brand', textColor: 'colors.text' });
+    expect(schema.contrast).toHaveLength(1);
+    expect(extendSchema({ schema: base, definition: {} }).derived).toEqual(base.derived);
+  });
+
+  it('throws for conflicting token types', () => {
+    expect(() =>
+      extendSchema({ schema: base, definition: { colors: { text: t.dimension() } } })
+    ).toThrow('Conflicting token types at "colors.text": color and dimension');
+  });
+
+  it('throws when a token replaces a group', () => {
+    expect(() => extendSchema({ schema: base, definition: { spacing: t.dimension() } })).toThrow(
+      'Conflicting definitions at "spacing": a token and a nested group'
+    );
+  });
+});
+
+describe('mergeSchemas', () => {
+  const motion = createSchema({
+    definition: {
+      motion: { fast: t.duration().default('150ms') },
+      colors: { accent: t.color() },
+    },
+    contrast: [{ foreground: 'colors.accent', background: 'colors.accent' }],
+  });
+
+  it('merges definitions from left to right', () => {
+    const schema = mergeSchemas({ schemas: [base, motion] });
+
+    expect(Object.keys(schema.definition)).toEqual(['colors', 'spacing', 'motion']);
+    expect(Object.keys(schema.definition.colors)).toEqual(['text', 'background', 'link', 'accent']);
+    expect(schema.contrast).toHaveLength(2);
+    expect(Object.keys(schema.derived ?? {})).toEqual(['spacing.md']);
+  });
+
+  it('validates theme data against the merged schema', () => {
+    const schema = mergeSchemas({ schemas: [base, motion] });
+    const result = validate({
+      schema,
+      data: { colors: { accent: 'nope' }, spacing: { md: '8px' } },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => e.path)).toEqual(['colors.accent']);
+    }
+  });
+
+  it('keeps the version of the only versioned schema', () => {
+    const versioned = createSchema({
+      definition: { fonts: { body: t.fontFamily() } },
+      version: 2,
+    });
+
+    expect(mergeSchemas({ schemas: [base, versioned] }).version).toBe(2);
+    expect(() => mergeSchemas({ schemas: [versioned, versioned] })).toThrow(
+      'Conflicting schema versions: only one of the merged schemas may have a version'
+    );
+  });
+
+  it('throws for conflicting token types', () => {
+    const other = createSchema({ definition: { spacing: { sm: t.number() } } });
+
+    expect(() => mergeSchemas({ schemas: [base, other] })).toThrow(
+      'Conflicting token types at "spacing.sm": dimension and number'
+    );
+  });
+});
+
+describe('pickSchema', () => {
+  it('keeps the given tokens and groups', () => {
+    const schema = pickSchema({ schema: base, paths: ['colors', 'spacing.sm'] });
+
+    expect(schema.definition).toEqual({
+      colors: base.definition.colors,
+      spacing: { sm: base.definition.spacing.sm },
+    });
+    expect(schema.contrast).toEqual(base.contrast);
+    expect(schema.derived).toBeUndefined();
+  });
+
+  it('throws for unknown paths', () => {
+    expect(() =>
+      // @ts-expect-error - testing invalid input
+      pickSchema({ schema: base, paths: ['colors.text.type'] })
+    ).toThrow('Invalid path "colors.text.type": not a token or group in the schema');
+  });
+
+  it('keeps derived tokens whose dependencies are kept', () => {
+    const schema = pickSchema({ schema: base, paths: ['spacing'] });
+
+    expect(Object.keys(schema.derived ?? {})).toEqual(['spacing.md']);
+    expect(validate({ schema, data: {} })).toEqual({
+      success: true,
+      data: { spacing: { sm: '4px', md: '8px' } },
+      warnings: [],
+    });
+  });
+
+  it('throws when a kept reference loses its target', () => {
+    expect(() => pickSchema({ schema: base, paths: ['colors.link'] })).toThrow(
+      'Invalid reference at "colors.link"'
+    );
+  });
+});
+
+describe('omitSchema', () => {
+  it('removes the given tokens and groups', () => {
+    const schema = omitSchema({ schema: base, paths: ['spacing', 'colors.background'] });
+
+    expect(schema.definition).toEqual({
+      colors: { text: base.definition.colors.text, link: base.definition.colors.link },
+    });
+    expect(schema.contrast).toBeUndefined();
+    expect(schema.derived).toBeUndefined();
+  });
+
+  it('keeps groups whose tokens are all removed', () => {
+    const schema = omitSchema({ schema: base, paths: ['spacing.sm', 'spacing.md'] });
+
+    expect(schema.definition.spacing).toEqual({});
+  });
+
+  it('throws when a kept derived token depends on a removed token', () => {
+    expect(() => omitSchema({ schema: base, paths: ['spacing.sm'] })).toThrow(
+      'Invalid derived token "spacing.md": depends on removed "spacing.sm"'
+    );
+
+    const derivedSchema = createSchema({
+      definition: { a: t.color(), b: t.color(), theme: { c: t.color() } },
+      derived: {
+        b: (theme) => theme.a,
+        'theme.c': (theme) => {
+          throw new Error(`no value for ${theme.b}`);
+        },
+      },
+    });
+    expect(() => omitSchema({ schema: derivedSchema, paths: ['a'] })).toThrow(
+      'Invalid derived token "b": depends on removed "a"'
+    );
+    expect(() => pickSchema({ schema: derivedSchema, paths: ['theme'] })).toThrow(
+      'Invalid derived token "theme.c": depends on removed "b"'
+    );
+  });
+});
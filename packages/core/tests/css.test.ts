@@ -129,6 +129,7 @@ describe('toCssVariables', () => {
         fontWeight: t.fontWeight(),
         shadow: t.shadow(),
         url: t.url(),
+        navPosition: t.enum(['top', 'side']),
       },
     });
 
@@ -142,6 +143,7 @@ describe('toCssVariables', () => {
       fontWeight: 700,
       shadow: '0 2px 4px #000',
       url: 'https://example.com',
+      navPosition: 'side' as const,
     };
 
     const variables = toCssVariables({ schema: allTypesSchema, theme: allTypesTheme });
@@ -155,6 +157,7 @@ describe('toCssVariables', () => {
     expect(variables['--font-weight']).toBe('700');
     expect(variables['--shadow']).toBe('0 2px 4px #000');
     expect(variables['--url']).toBe('https://example.com');
+    expect(variables['--nav-position']).toBe('side');
   });
 
   it('returns empty object for empty theme', () => {
@@ -250,6 +253,13 @@ describe('cssVar', () => {
     const ref = cssVar({ path: 'primary' });
     expect(ref).toBe('var(--primary)');
   });
+
+  it('supports a fallback', () => {
+    expect(cssVar({ path: 'brand.accent', fallback: 'var(--colors-primary)' })).toBe(
+      'var(--brand-accent, var(--colors-primary))'
+    );
+    expect(cssVar({ path: 'brand.accent', fallback: '' })).toBe('var(--brand-accent, )');
+  });
 });
 
 describe('createCssVarHelper', () => {
@@ -275,6 +285,12 @@ describe('createCssVarHelper', () => {
     expect(themeVar('colors.primary')).toBe('var(--app-colors-primary)');
   });
 
+  it('passes fallbacks', () => {
+    const themeVar = createCssVarHelper({ schema, options: { prefix: 'app' } });
+
+    expect(themeVar('colors.secondary', '#fff')).toBe('var(--app-colors-secondary, #fff)');
+  });
+
   it('can be used in template literals', () => {
     const themeVar = createCssVarHelper({ schema });
 
@@ -288,6 +304,23 @@ describe('createCssVarHelper', () => {
   });
 });
 
+describe('Optional tokens', () => {
+  it('omits variables of missing optional tokens', () => {
+    const schema = createSchema({
+      definition: {
+        colors: { primary: t.color(), accent: t.color().optional() },
+      },
+    });
+
+    const variables = toCssVariables({
+      schema,
+      theme: { colors: { primary: '#3b82f6', accent: undefined } },
+    });
+
+    expect(variables).toEqual({ '--colors-primary': '#3b82f6' });
+  });
+});
+
 describe('Edge cases', () => {
   it('handles special characters in values', () => {
     const schema = createSchema({
@@ -430,3 +463,222 @@ describe('toCssStringAll', () => {
     expect(css).toBe('');
   });
 });
+
+describe('Reference tokens', () => {
+  const schema = createSchema({
+    definition: {
+      colors: {
+        primary: t.color(),
+      },
+      button: {
+        background: t.reference('colors.primary'),
+        border: t.reference('colors.primary'),
+      },
+    },
+  });
+
+  const theme: InferTheme<typeof schema.definition> = {
+    colors: { primary: '#3b82f6' },
+    button: { background: '#3b82f6', border: '#000000' },
+  };
+
+  it('emits resolved values by default', () => {
+    const variables = toCssVariables({ schema, theme });
+
+    expect(variables['--button-background']).toBe('#3b82f6');
+    expect(variables['--button-border']).toBe('#000000');
+  });
+
+  it('emits var() for references holding their target value', () => {
+    const variables = toCssVariables({ schema, theme, options: { references: 'var' } });
+
+    expect(variables['--colors-primary']).toBe('#3b82f6');
+    expect(variables['--button-background']).toBe('var(--colors-primary)');
+    // Overridden references keep their own value
+    expect(variables['--button-border']).toBe('#000000');
+  });
+
+  it('applies the prefix to referenced variable names', () => {
+    const variables = toCssVariables({
+      schema,
+      theme,
+      options: { references: 'var', prefix: 'theme' },
+    });
+
+    expect(variables['--theme-button-background']).toBe('var(--theme-colors-primary)');
+  });
+});
+
+describe('Transition tokens', () => {
+  const schema = createSchema({
+    definition: {
+      motion: {
+        fade: t.transition(),
+        slide: t.transition(),
+        dialog: t.reference('motion.fade'),
+      },
+    },
+  });
+
+  const theme: InferTheme<typeof schema.definition> = {
+    motion: {
+      fade: { duration: '200ms', easing: 'ease-out' },
+      slide: { duration: '300ms', easing: 'cubic-bezier(0.4, 0, 0.2, 1)', delay: '50ms' },
+      dialog: { duration: '200ms', easing: 'ease-out' },
+    },
+  };
+
+  it('emits the transition shorthand', () => {
+    const variables = toCssVariables({ schema, theme });
+
+    expect(variables['--motion-fade']).toBe('200ms ease-out');
+    expect(variables['--motion-slide']).toBe('300ms cubic-bezier(0.4, 0, 0.2, 1) 50ms');
+    expect(variables['--motion-dialog']).toBe('200ms ease-out');
+  });
+
+  it('emits var() for references holding an equal transition', () => {
+    const variables = toCssVariables({ schema, theme, options: { references: 'var' } });
+
+    expect(variables['--motion-dialog']).toBe('var(--motion-fade)');
+  });
+});
+
+describe('Gradient tokens', () => {
+  it('emits gradients as escaped values', () => {
+    const schema = createSchema({ definition: { hero: t.gradient() } });
+    const gradient = 'linear-gradient(to right, #3b82f6 0%, rgb(147 51 234 / 50%) 100%)';
+
+    expect(toCssVariables({ schema, theme: { hero: gradient } })['--hero']).toBe(gradient);
+    // Unvalidated values are still escaped
+    expect(toCssVariables({ schema, theme: { hero: 'red;}body{color:red' } })['--hero']).toBe(
+      'red\\;\\}body\\{color:red'
+    );
+  });
+});
+
+describe('Asset tokens', () => {
+  const schema = createSchema({ definition: { brand: { logo: t.asset() } } });
+
+  it('emits assets as quoted url() values', () => {
+    const variables = toCssVariables({
+      schema,
+      theme: { brand: { logo: 'https://cdn.example.com/logo.svg?v=2' } },
+    });
+
+    expect(variables['--brand-logo']).toBe('url("https://cdn.example.com/logo.svg?v=2")');
+  });
+
+  it('escapes characters that could end the string', () => {
+    const variables = toCssVariables({
+      schema,
+      theme: { brand: { logo: '/logo.svg");}body{color:red;}\\' } },
+    });
+
+    expect(variables['--brand-logo']).toBe('url("/logo.svg\\");}body{color:red;}\\\\")');
+  });
+
+  it('escapes line breaks as hex escapes', () => {
+    const variables = toCssVariables({ schema, theme: { brand: { logo: '/a\nb.svg' } } });
+
+    expect(variables['--brand-logo']).toBe('url("/a\\a b.svg")');
+  });
+});
+
+describe('Scale tokens', () => {
+  const schema = createSchema({
+    definition: {
+      spacing: t.scale(['1', '2', '3']),
+      fontSizes: t.scale(['sm', 'md']),
+      gap: t.reference('spacing'),
+    },
+  });
+
+  const theme: InferTheme<typeof schema.definition> = {
+    spacing: { '1': '4px', '2': '8px', '3': '16px' },
+    fontSizes: { sm: '0.875rem', md: '1rem' },
+    gap: { '1': '4px', '2': '10px', '3': '16px' },
+  };
+
+  it('emits one variable per step', () => {
+    const variables = toCssVariables({ schema, theme });
+
+    expect(variables['--spacing-1']).toBe('4px');
+    expect(variables['--spacing-2']).toBe('8px');
+    expect(variables['--spacing-3']).toBe('16px');
+    expect(variables['--font-sizes-sm']).toBe('0.875rem');
+    expect(variables['--spacing']).toBeUndefined();
+  });
+
+  it('emits var() for each step of a reference holding its target value', () => {
+    const variables = toCssVariables({ schema, theme, options: { references: 'var' } });
+
+    expect(variables['--gap-1']).toBe('var(--spacing-1)');
+    expect(variables['--gap-2']).toBe('10px');
+  });
+});
+
+describe('Typography tokens', () => {
+  const schema = createSchema({
+    definition: {
+      typography: {
+        heading: t.typography(),
+        body: t.typography(),
+        title: t.reference('typography.heading'),
+      },
+    },
+  });
+
+  const theme: InferTheme<typeof schema.definition> = {
+    typography: {
+      heading: {
+        fontFamily: '"Inter Display", sans-serif',
+        fontSize: '2rem',
+        fontWeight: 700,
+        lineHeight: 1.2,
+        letterSpacing: '-0.02em',
+      },
+      body: { fontFamily: 'Inter', fontSize: '1rem' },
+      title: {
+        fontFamily: '"Inter Display", sans-serif',
+        fontSize: '2.5rem',
+        fontWeight: 700,
+        lineHeight: 1.2,
+        letterSpacing: '-0.02em',
+      },
+    },
+  };
+
+  it('emits one variable per field and a font shorthand', () => {
+    const variables = toCssVariables({ schema, theme });
+
+    expect(variables['--typography-heading-font-family']).toBe('\\"Inter Display\\", sans-serif');
+    expect(variables['--typography-heading-font-size']).toBe('2rem');
+    expect(variables['--typography-heading-font-weight']).toBe('700');
+    expect(variables['--typography-heading-line-height']).toBe('1.2');
+    expect(variables['--typography-heading-letter-spacing']).toBe('-0.02em');
+    expect(variables['--typography-heading-font']).toBe(
+      '700 2rem/1.2 \\"Inter Display\\", sans-serif'
+    );
+    expect(variables['--typography-heading']).toBeUndefined();
+  });
+
+  it('omits variables of missing fields', () => {
+    const variables = toCssVariables({ schema, theme });
+
+    expect(variables['--typography-body-font-weight']).toBeUndefined();
+    expect(variables['--typography-body-line-height']).toBeUndefined();
+    expect(variables['--typography-body-font']).toBe('1rem Inter');
+  });
+
+  it('emits var() for each field of a reference holding its target value', () => {
+    const variables = toCssVariables({ schema, theme, options: { references: 'var' } });
+
+    expect(variables['--typography-title-font-family']).toBe(
+      'var(--typography-heading-font-family)'
+    );
+    expect(variables['--typography-title-font-size']).toBe('2.5rem');
+    expect(variables['--typography-title-font']).toBe(
+      '700 2.5rem/1.2 \\"Inter Display\\", sans-serif'
+    );
+  });
+});
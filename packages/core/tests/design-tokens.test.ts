@@ -0,0 +1,280 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSchema } from '../src/schema/index';
+import { t } from '../src/schema/tokens';
+import { validate } from '../src/validation/index';
+import { fromDesignTokens, toDesignTokens } from '../src/design-tokens/index';
+
+describe('fromDesignTokens', () => {
+  it('imports tokens with inherited types as a definition and theme', () => {
+    const { definition, theme } = fromDesignTokens({
+      tokens: {
+        colors: {
+          $type: 'color',
+          primary: { $value: '#3b82f6', $description: 'Brand color' },
+          retired: { $value: '#000000', $deprecated: 'Unused' },
+          muted: { $value: { colorSpace: 'oklch', components: [0.7, 0.02, 260], alpha: 0.5 } },
+        },
+        spacing: {
+          sm: { $type: 'dimension', $value: '4px' },
+          md: { $type: 'dimension', $value: { value: 1, unit: 'rem' } },
+        },
+      },
+    });
+    const schema = createSchema({ definition });
+
+    expect(theme).toEqual({
+      colors: { primary: '#3b82f6', retired: '#000000', muted: 'oklch(0.7 0.02 260 / 0.5)' },
+      spacing: { sm: '4px', md: '1rem' },
+    });
+    expect(schema.definition['colors']).toMatchObject({
+      primary: { type: 'color', description: 'Brand color' },
+      retired: { type: 'color', deprecation: { reason: 'Unused' } },
+    });
+    expect(validate({ schema, data: theme }).success).toBe(true);
+  });
+
+  it('imports aliases as reference tokens', () => {
+    const onWarning = vi.fn();
+    const { definition, theme } = fromDesignTokens({
+      tokens: {
+        colors: {
+          $type: 'color',
+          primary: { $value: '#3b82f6' },
+          link: { $value: '{colors.primary}' },
+          visited: { $value: '{colors.link}', $deprecated: true },
+        },
+      },
+      onWarning,
+    });
+
+    expect(definition['colors']).toMatchObject({
+      link: { type: 'reference', target: 'colors.primary' },
+      visited: { type: 'reference', target: 'colors.link' },
+    });
+    expect(theme).toEqual({ colors: { primary: '#3b82f6' } });
+    expect(onWarning).toHaveBeenCalledWith({
+      path: 'colors.visited',
+      message: 'Unsupported deprecation: aliases cannot be deprecated',
+      received: true,
+    });
+  });
+
+  it('converts composite tokens and resolves aliases inside them', () => {
+    const { theme } = fromDesignTokens({
+      tokens: {
+        base: { $type: 'dimension', size: { $value: '16px' } },
+        motion: {
+          fast: { $type: 'duration', $value: { value: 150, unit: 'ms' } },
+          standard: { $type: 'cubicBezier', $value: [0.4, 0, 0.2, 1] },
+          fade: {
+            $type: 'transition',
+            $value: {
+              duration: '{motion.fast}',
+              delay: '0ms',
+              timingFunction: '{motion.standard}',
+            },
+          },
+        },
+        shadows: {
+          card: {
+            $type: 'shadow',
+            $value: [
+              { color: '#00000026', offsetX: '0px', offsetY: '1px', blur: '3px', spread: '0px' },
+              {
+                color: '#ffffff',
+                offsetX: '0px',
+                offsetY: '0px',
+                blur: '0px',
+                spread: '1px',
+                inset: true,
+              },
+            ],
+          },
+        },
+        text: {
+          body: {
+            $type: 'typography',
+            $value: {
+              fontFamily: ['Open Sans', 'sans-serif'],
+              fontSize: '{base.size}',
+              fontWeight: 400,
+              lineHeight: 1.5,
+            },
+          },
+        },
+      },
+    });
+
+    expect(theme).toEqual({
+      base: { size: '16px' },
+      motion: {
+        fast: '150ms',
+        standard: 'cubic-bezier(0.4, 0, 0.2, 1)',
+        fade: { duration: '150ms', easing: 'cubic-bezier(0.4, 0, 0.2, 1)', delay: '0ms' },
+      },
+      shadows: { card: '0px 1px 3px 0px #00000026, inset 0px 0px 0px 1px #ffffff' },
+      text: {
+        body: {
+          fontFamily: '"Open Sans", sans-serif',
+          fontSize: '16px',
+          fontWeight: 400,
+          lineHeight: 1.5,
+        },
+      },
+    });
+  });
+
+  it('reports unsupported tokens and aliases to them', () => {
+    const onWarning = vi.fn();
+    const { definition, theme } = fromDesignTokens({
+      tokens: {
+        borders: {
+          thin: { $type: 'border', $value: { width: '1px', style: 'solid', color: '#000' } },
+          alias: { $value: '{borders.thin}' },
+        },
+        untyped: { $value: 'hello' },
+        invalid: { $type: 'number', $value: '12' },
+      },
+      onWarning,
+    });
+
+    expect(definition).toEqual({});
+    expect(theme).toEqual({});
+    expect(onWarning.mock.calls.map(([warning]) => [warning.path, warning.message])).toEqual([
+      ['borders.thin', 'Unsupported token type "border"'],
+      ['untyped', 'Missing token type'],
+      ['invalid', 'Unsupported number value'],
+      ['borders.alias', 'Unsupported alias: "borders.thin" is not an imported token'],
+    ]);
+  });
+
+  it('skips names that would reach the object prototype', () => {
+    const onWarning = vi.fn();
+    const { definition, theme } = fromDesignTokens({
+      tokens: JSON.parse(
+        '{"__proto__":{"polluted":{"$type":"color","$value":"#fff"}},' +
+          '"colors":{"constructor":{"prototype":{"$type":"color","$value":"#000"}}}}'
+      ),
+      onWarning,
+    });
+
+    expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+    expect(Object.prototype).not.toHaveProperty('polluted');
+    expect(definition).toEqual({});
+    expect(theme).toEqual({});
+    expect(onWarning.mock.calls.map(([warning]) => [warning.path, warning.message])).toEqual([
+      ['__proto__', 'Unsupported name "__proto__"'],
+      ['colors.constructor', 'Unsupported name "constructor"'],
+    ]);
+  });
+});
+
+describe('toDesignTokens', () => {
+  const schema = createSchema({
+    definition: {
+      colors: {
+        primary: t.color().describe('Brand color'),
+        link: t.reference('colors.primary'),
+        legacy: t.color().deprecated({ reason: 'Unused' }),
+      },
+      motion: {
+        easing: t.easing(),
+        fade: t.transition(),
+      },
+      shadows: { card: t.shadow() },
+      flags: { beta: t.boolean() },
+    },
+  });
+
+  it('exports tokens with types, aliases and metadata', () => {
+    const tokens = toDesignTokens({
+      schema,
+      theme: {
+        colors: { primary: '#3b82f6', link: '#3b82f6', legacy: '#000000' },
+        motion: { easing: 'ease-out', fade: { duration: '200ms', easing: 'ease-in' } },
+        shadows: { card: '0 1px 3px rgba(0,0,0,0.1)' },
+        flags: { beta: true },
+      },
+    });
+
+    expect(tokens).toEqual({
+      colors: {
+        primary: { $type: 'color', $value: '#3b82f6', $description: 'Brand color' },
+        link: { $value: '{colors.primary}' },
+        legacy: { $type: 'color', $value: '#000000', $deprecated: 'Unused' },
+      },
+      motion: {
+        easing: { $type: 'cubicBezier', $value: [0, 0, 0.58, 1] },
+        fade: {
+          $type: 'transition',
+          $value: { duration: '200ms', delay: '0ms', timingFunction: [0.42, 0, 1, 1] },
+        },
+      },
+      shadows: {
+        card: {
+          $type: 'shadow',
+          $value: [
+            { color: 'rgba(0, 0, 0, 0.1)', offsetX: '0', offsetY: '1px', blur: '3px', spread: '0' },
+          ],
+        },
+      },
+      flags: {},
+    });
+  });
+
+  it('exports the value of references the theme overrides', () => {
+    const aliasSchema = createSchema({
+      definition: { a: t.color(), b: t.reference('a').describe('Accent') },
+    });
+    const theme = { a: '#ff0000', b: '#00ff00' };
+    const tokens = toDesignTokens({ schema: aliasSchema, theme });
+
+    expect(tokens).toEqual({
+      a: { $type: 'color', $value: '#ff0000' },
+      b: { $type: 'color', $value: '#00ff00', $description: 'Accent' },
+    });
+    expect(fromDesignTokens({ tokens }).theme).toEqual(theme);
+  });
+
+  it('reports tokens without a design token equivalent', () => {
+    const onWarning = vi.fn();
+    toDesignTokens({
+      schema,
+      theme: {
+        colors: { primary: '#3b82f6', link: '#3b82f6', legacy: undefined },
+        motion: { easing: 'steps(4)', fade: { duration: '200ms', easing: 'ease' } },
+        shadows: { card: 'none' },
+        flags: { beta: false },
+      },
+      onWarning,
+    });
+
+    expect(onWarning.mock.calls.map(([warning]) => [warning.path, warning.message])).toEqual([
+      ['motion.easing', 'Unsupported easing value'],
+      ['flags.beta', 'Unsupported token type "boolean"'],
+    ]);
+  });
+
+  it('round-trips through fromDesignTokens', () => {
+    const theme = {
+      colors: { primary: '#3b82f6', link: '#3b82f6', legacy: '#000000' },
+      motion: {
+        easing: 'cubic-bezier(0.4, 0, 0.2, 1)',
+        fade: { duration: '200ms', easing: 'ease-in' },
+      },
+      shadows: { card: '0 1px 3px #000000' },
+      flags: { beta: true },
+    };
+    const imported = fromDesignTokens({ tokens: toDesignTokens({ schema, theme }) });
+
+    expect(imported.theme).toEqual({
+      colors: { primary: '#3b82f6', legacy: '#000000' },
+      motion: {
+        easing: 'cubic-bezier(0.4, 0, 0.2, 1)',
+        fade: { duration: '200ms', easing: 'cubic-bezier(0.42, 0, 1, 1)', delay: '0ms' },
+      },
+      shadows: { card: '0 1px 3px 0 #000000' },
+    });
+    expect(Object.keys(imported.definition)).toEqual(['colors', 'motion', 'shadows']);
+  });
+});
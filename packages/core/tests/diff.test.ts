@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createSchema } from '../src/schema/index';
+import { t } from '../src/schema/tokens';
+import { diffThemes } from '../src/diff/index';
+
+const schema = createSchema({
+  definition: {
+    colors: {
+      primary: t.color(),
+      accent: t.color().optional(),
+      link: t.reference('colors.primary'),
+    },
+    text: { body: t.typography() },
+  },
+});
+
+const before = {
+  colors: { primary: '#3b82f6', accent: '#f59e0b', link: '#3b82f6' },
+  text: { body: { fontFamily: 'Inter', fontSize: '1rem' } },
+};
+
+describe('diffThemes', () => {
+  it('returns added, removed and changed tokens in schema order', () => {
+    const diff = diffThemes({
+      schema,
+      before: { ...before, colors: { ...before.colors, accent: undefined } },
+      after: {
+        colors: { primary: '#2563eb', accent: '#f59e0b', link: '#2563eb' },
+        text: { body: { fontFamily: 'Inter', fontSize: '1.125rem' } },
+      },
+    });
+
+    expect(diff.added).toEqual([{ path: 'colors.accent', newValue: '#f59e0b' }]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([
+      { path: 'colors.primary', oldValue: '#3b82f6', newValue: '#2563eb' },
+      { path: 'colors.link', oldValue: '#3b82f6', newValue: '#2563eb' },
+      {
+        path: 'text.body',
+        oldValue: { fontFamily: 'Inter', fontSize: '1rem' },
+        newValue: { fontFamily: 'Inter', fontSize: '1.125rem' },
+      },
+    ]);
+  });
+
+  it('compares composite values structurally', () => {
+    const diff = diffThemes({
+      schema,
+      before,
+      after: { ...before, text: { body: { fontSize: '1rem', fontFamily: 'Inter' } } },
+    });
+
+    expect(diff).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+      cssVariables: { added: [], removed: [], changed: [] },
+    });
+  });
+
+  it('diffs the generated CSS variables', () => {
+    const diff = diffThemes({
+      schema,
+      before,
+      after: { ...before, colors: { primary: '#2563eb', accent: undefined, link: '#2563eb' } },
+      cssOptions: { prefix: 'brand', references: 'var' },
+    });
+
+    expect(diff.removed).toEqual([{ path: 'colors.accent', oldValue: '#f59e0b' }]);
+    expect(diff.cssVariables).toEqual({
+      added: [],
+      removed: [{ name: '--brand-colors-accent', oldValue: '#f59e0b' }],
+      changed: [{ name: '--brand-colors-primary', oldValue: '#3b82f6', newValue: '#2563eb' }],
+    });
+  });
+});
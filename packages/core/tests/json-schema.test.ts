@@ -0,0 +1,225 @@
+import { describe, it, expect } from 'vitest';
+import { createSchema } from '../src/schema/index';
+import { t } from '../src/schema/tokens';
+import { toJsonSchema, type JsonSchema } from '../src/json-schema/index';
+
+function matches(schema: unknown, value: string): boolean {
+  // JSON Schema validators such as Ajv compile patterns with the unicode flag
+  return new RegExp((schema as JsonSchema)['pattern'] as string, 'u').test(value);
+}
+
+describe('toJsonSchema', () => {
+  const schema = createSchema({
+    definition: {
+      colors: {
+        primary: t.color().describe('Brand color'),
+        secondary: t.color().default('#64748b'),
+        accent: t.color().optional(),
+        link: t.reference('colors.primary'),
+      },
+      spacing: {
+        sm: t.dimension().default('4px'),
+        md: t.dimension(),
+      },
+      layout: { columns: t.number().min(1).max(24).default(12) },
+    },
+    derived: {
+      'spacing.md': (theme) => `${parseFloat(theme.spacing.sm) * 2}px`,
+    },
+  });
+
+  it('emits a draft 2020-12 document with nested groups', () => {
+    const jsonSchema = toJsonSchema({ schema });
+
+    expect(jsonSchema['$schema']).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(jsonSchema['type']).toBe('object');
+    expect(Object.keys(jsonSchema['properties'] as object)).toEqual([
+      'colors',
+      'spacing',
+      'layout',
+    ]);
+    expect(JSON.parse(JSON.stringify(jsonSchema))).toEqual(jsonSchema);
+  });
+
+  it('requires tokens without defaults that are not optional, derived or references', () => {
+    const jsonSchema = toJsonSchema({ schema });
+    const properties = jsonSchema['properties'] as Record<string, JsonSchema>;
+
+    expect(jsonSchema['required']).toEqual(['colors']);
+    expect(properties['colors']?.['required']).toEqual(['primary']);
+    expect(properties['spacing']).not.toHaveProperty('required');
+    expect(properties['layout']).not.toHaveProperty('required');
+  });
+
+  it('includes types, descriptions, defaults and deprecations', () => {
+    const deprecated = createSchema({
+      definition: {
+        colors: {
+          brand: t.color().default('#3b82f6'),
+          primary: t.color().deprecated({ replacedBy: 'colors.brand' }),
+        },
+      },
+    });
+    const colors = (toJsonSchema({ schema })['properties'] as Record<string, JsonSchema>)[
+      'colors'
+    ]?.['properties'] as Record<string, JsonSchema>;
+    const legacy = (
+      toJsonSchema({ schema: deprecated })['properties'] as Record<string, JsonSchema>
+    )['colors']?.['properties'] as Record<string, JsonSchema>;
+
+    expect(colors['primary']).toEqual({
+      type: 'string',
+      pattern: expect.any(String),
+      format: 'livery-color',
+      'x-livery-type': 'color',
+      description: 'Brand color',
+    });
+    expect(colors['secondary']?.['default']).toBe('#64748b');
+    expect(legacy['primary']?.['deprecated']).toBe(true);
+    expect(legacy['brand']).not.toHaveProperty('deprecated');
+  });
+
+  it('emits the value schema of referenced tokens', () => {
+    const colors = (toJsonSchema({ schema })['properties'] as Record<string, JsonSchema>)[
+      'colors'
+    ]?.['properties'] as Record<string, JsonSchema>;
+
+    expect(colors['link']).toEqual({
+      type: 'string',
+      pattern: expect.any(String),
+      format: 'livery-color',
+      'x-livery-type': 'color',
+      'x-livery-reference': 'colors.primary',
+    });
+  });
+
+  it('emits number bounds', () => {
+    const layout = (toJsonSchema({ schema })['properties'] as Record<string, JsonSchema>)[
+      'layout'
+    ]?.['properties'] as Record<string, JsonSchema>;
+
+    expect(layout['columns']).toEqual({
+      type: 'number',
+      minimum: 1,
+      maximum: 24,
+      'x-livery-type': 'number',
+      default: 12,
+    });
+  });
+});
+
+describe('toJsonSchema token types', () => {
+  const schema = createSchema({
+    definition: {
+      size: t.dimension(),
+      pixels: t.dimension().units(['px']).min('0px'),
+      duration: t.duration(),
+      weight: t.fontWeight(),
+      family: t.fontFamily(),
+      code: t.string().pattern(/^[A-Z]{3}$/),
+      slug: t.string().pattern(/^[a-z]+$/i),
+      variant: t.enum(['solid', 'outline']),
+      enabled: t.boolean(),
+      transition: t.transition(),
+      text: t.typography(),
+      scale: t.scale(['sm', 'md', 'lg']),
+      color: t.color(),
+      shadow: t.shadow(),
+      link: t.url(),
+      logo: t.asset(),
+    },
+  });
+  const properties = toJsonSchema({ schema })['properties'] as Record<string, JsonSchema>;
+
+  it('matches dimensions with the allowed units', () => {
+    expect(matches(properties['size'], '1.5rem')).toBe(true);
+    expect(matches(properties['size'], ' -4px ')).toBe(true);
+    expect(matches(properties['size'], '0')).toBe(true);
+    expect(matches(properties['size'], '12')).toBe(false);
+    expect(matches(properties['pixels'], '4rem')).toBe(false);
+    expect(properties['pixels']?.['x-livery-constraints']).toEqual({ min: '0px' });
+  });
+
+  it('matches durations in any case', () => {
+    expect(matches(properties['duration'], '150ms')).toBe(true);
+    expect(matches(properties['duration'], '.5S')).toBe(true);
+    expect(matches(properties['duration'], '-1s')).toBe(false);
+  });
+
+  it('matches font weights as numbers or keywords', () => {
+    const [numeric, keyword] = properties['weight']?.['anyOf'] as JsonSchema[];
+
+    expect(numeric).toEqual({ type: 'number', minimum: 1, maximum: 1000 });
+    expect(matches(keyword, 'Bold')).toBe(true);
+    expect(matches(keyword, '600')).toBe(true);
+    expect(matches(keyword, 'heavy')).toBe(false);
+  });
+
+  it('emits string patterns without flags that change matching', () => {
+    expect(properties['family']?.['pattern']).toBe('\\S');
+    expect(properties['code']?.['pattern']).toBe('^[A-Z]{3}$');
+    expect(properties['slug']).not.toHaveProperty('pattern');
+    expect(properties['slug']?.['x-livery-pattern']).toBe('/^[a-z]+$/i');
+  });
+
+  it('emits enums and booleans', () => {
+    expect(properties['variant']).toEqual({ enum: ['solid', 'outline'], 'x-livery-type': 'enum' });
+    expect(properties['enabled']).toEqual({ type: 'boolean', 'x-livery-type': 'boolean' });
+  });
+
+  it('emits closed objects for composite tokens', () => {
+    expect(properties['transition']).toMatchObject({
+      type: 'object',
+      required: ['duration', 'easing'],
+      additionalProperties: false,
+    });
+    expect(properties['text']).toMatchObject({
+      type: 'object',
+      required: ['fontFamily', 'fontSize'],
+      additionalProperties: false,
+    });
+    expect(Object.keys(properties['text']?.['properties'] as object)).toEqual([
+      'fontFamily',
+      'fontSize',
+      'fontWeight',
+      'lineHeight',
+      'letterSpacing',
+    ]);
+  });
+
+  it('rejects CSS values that could end a declaration', () => {
+    expect(matches(properties['color'], 'rgb(0 0 0 / 50%)')).toBe(true);
+    expect(matches(properties['shadow'], '0 1px 2px #0000001a')).toBe(true);
+    expect(matches(properties['color'], 'red;}body{background:red')).toBe(false);
+    expect(matches(properties['color'], 'red</style>')).toBe(false);
+    expect(matches(properties['shadow'], 'none\\;')).toBe(false);
+    expect(matches(properties['color'], 'red\n')).toBe(false);
+    expect(properties['color']?.['format']).toBe('livery-color');
+  });
+
+  it('rejects URLs with unsafe protocols', () => {
+    expect(matches(properties['link'], 'https://example.com')).toBe(true);
+    expect(matches(properties['link'], '/images/logo.png')).toBe(true);
+    expect(matches(properties['link'], 'data:image/png;base64,AAAA')).toBe(true);
+    expect(matches(properties['link'], 'javascript:alert(1)')).toBe(false);
+    expect(matches(properties['link'], 'JavaScript:alert(1)')).toBe(false);
+    expect(matches(properties['link'], 'data:text/html,<script></script>')).toBe(false);
+    expect(matches(properties['link'], 'DATA:Text/HTML;base64,AAAA')).toBe(false);
+  });
+
+  it('rejects asset URLs with backslashes or control characters', () => {
+    expect(matches(properties['logo'], 'https://cdn.example.com/logo.svg')).toBe(true);
+    expect(matches(properties['logo'], 'javascript:alert(1)')).toBe(false);
+    expect(matches(properties['logo'], '/\\evil.com/x.png')).toBe(false);
+    expect(matches(properties['logo'], '/\t/evil.com/x.png')).toBe(false);
+  });
+
+  it('accepts every scale form', () => {
+    const [list, modular, steps] = properties['scale']?.['anyOf'] as JsonSchema[];
+
+    expect(list).toMatchObject({ type: 'array', minItems: 3, maxItems: 3 });
+    expect(modular).toMatchObject({ required: ['base', 'ratio'] });
+    expect(modular?.['properties']).toHaveProperty('baseStep', { enum: ['sm', 'md', 'lg'] });
+    expect(steps).toMatchObject({ required: ['sm', 'md', 'lg'], additionalProperties: false });
+  });
+});
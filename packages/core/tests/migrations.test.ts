@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSchema } from '../src/schema/index';
+import { migrateTheme } from '../src/schema/migrations';
+import { t } from '../src/schema/tokens';
+
+describe('migrateTheme', () => {
+  const schema = createSchema({
+    definition: {
+      colors: { brand: t.color(), text: t.color() },
+    },
+    version: 3,
+    migrations: {
+      2: ({ primaryColor, ...data }) => ({ ...data, colors: { brand: primaryColor } }),
+      3: (data) => {
+        const colors = data['colors'] as Record<string, unknown>;
+        colors['text'] = colors['brand'];
+        return data;
+      },
+    },
+  });
+
+  it('upgrades data without a version from version 1', () => {
+    expect(migrateTheme({ schema, data: { primaryColor: '#3b82f6' } })).toEqual({
+      colors: { brand: '#3b82f6', text: '#3b82f6' },
+      $version: 3,
+    });
+  });
+
+  it('runs only the migrations after the recorded version', () => {
+    const data = { colors: { brand: '#3b82f6' }, $version: 2 };
+
+    expect(migrateTheme({ schema, data })).toEqual({
+      colors: { brand: '#3b82f6', text: '#3b82f6' },
+      $version: 3,
+    });
+    expect(data).toEqual({ colors: { brand: '#3b82f6' }, $version: 2 });
+  });
+
+  it('returns current data unchanged', () => {
+    const data = { colors: { brand: '#000000', text: '#ffffff' }, $version: 3 };
+
+    expect(migrateTheme({ schema, data })).toBe(data);
+  });
+
+  it('returns data unchanged for schemas without a version', () => {
+    const unversioned = createSchema({ definition: { colors: { brand: t.color() } } });
+    const data = { primaryColor: '#3b82f6', $version: 7 };
+
+    expect(migrateTheme({ schema: unversioned, data })).toBe(data);
+  });
+
+  it('throws for invalid or newer versions', () => {
+    expect(() => migrateTheme({ schema, data: { $version: '2' } })).toThrow(
+      'Cannot migrate theme data: $version must be a positive integer, got "2"'
+    );
+    expect(() => migrateTheme({ schema, data: { $version: 4 } })).toThrow(
+      'Cannot migrate theme data: version 4 is newer than the schema version 3'
+    );
+    expect(() => migrateTheme({ schema, data: null })).toThrow(
+      'Cannot migrate theme data: expected a plain object, got null'
+    );
+  });
+
+  it('throws for data older than the first migration', () => {
+    const partial = createSchema({
+      definition: { colors: { brand: t.color() } },
+      version: 3,
+      migrations: { 3: (data) => data },
+    });
+
+    expect(() => migrateTheme({ schema: partial, data: {} })).toThrow(
+      'Cannot migrate theme data: no migration to version 2'
+    );
+    expect(migrateTheme({ schema: partial, data: { $version: 2 } })).toEqual({ $version: 3 });
+  });
+
+  it('reports failing migrations', () => {
+    const failing = createSchema({
+      definition: { colors: { brand: t.color() } },
+      version: 2,
+      migrations: {
+        2: () => {
+          throw new Error('boom');
+        },
+      },
+    });
+    const invalid = createSchema({
+      definition: { colors: { brand: t.color() } },
+      version: 2,
+      migrations: { 2: vi.fn().mockReturnValue(undefined) },
+    });
+
+    expect(() => migrateTheme({ schema: failing, data: {} })).toThrow(
+      'Cannot migrate theme data: migration to version 2 failed: boom'
+    );
+    expect(() => migrateTheme({ schema: invalid, data: {} })).toThrow(
+      'Cannot migrate theme data: migration to version 2 returned undefined, expected object'
+    );
+  });
+});
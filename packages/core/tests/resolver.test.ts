@@ -172,6 +172,439 @@ describe('createResolver', () => {
 
       expect(theme.count).toBe(42);
     });
+
+    it('resolves references after merging defaults', async () => {
+      const schemaWithReference = createSchema({
+        definition: {
+          colors: {
+            primary: t.color().default('#000000'),
+          },
+          button: {
+            background: t.reference('colors.primary'),
+          },
+        },
+      });
+
+      const fetcher = vi.fn().mockResolvedValue({
+        colors: { primary: '#3b82f6' },
+      });
+
+      const resolver = createResolver({ schema: schemaWithReference, fetcher });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.button.background).toBe('#3b82f6');
+    });
+
+    it('recomputes a modular scale when a tenant overrides its base', async () => {
+      const schemaWithScale = createSchema({
+        definition: {
+          spacing: t.scale(['1', '2', '3']).default({ base: '4px', ratio: 2 }),
+        },
+      });
+
+      const fetcher = vi.fn().mockResolvedValue({ spacing: { base: '6px' } });
+      const onWarning = vi.fn();
+
+      const resolver = createResolver({ schema: schemaWithScale, fetcher, onWarning });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.spacing).toEqual({ '1': '6px', '2': '12px', '3': '24px' });
+      expect(onWarning).not.toHaveBeenCalled();
+    });
+
+    it('does not warn about scale defaults', async () => {
+      const schemaWithScale = createSchema({
+        definition: {
+          spacing: t.scale(['1', '2', '3']).default({ base: '4px', ratio: 2 }),
+        },
+      });
+
+      const fetcher = vi.fn().mockResolvedValue({});
+      const onWarning = vi.fn();
+
+      const resolver = createResolver({ schema: schemaWithScale, fetcher, onWarning });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.spacing).toEqual({ '1': '4px', '2': '8px', '3': '16px' });
+      expect(onWarning).not.toHaveBeenCalled();
+    });
+
+    it('replaces a scale that a tenant overrides with a scale of another form', async () => {
+      const schemaWithScales = createSchema({
+        definition: {
+          spacing: t.scale(['1', '2']).default({ base: '4px', ratio: 2 }),
+          sizes: t.scale(['sm', 'lg']).default({ sm: '8px', lg: '16px' }),
+        },
+      });
+
+      const fetcher = vi.fn().mockResolvedValue({
+        spacing: { '1': '2px', '2': '6px' },
+        sizes: { base: '10px', ratio: 3 },
+      });
+
+      const resolver = createResolver({ schema: schemaWithScales, fetcher });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.spacing).toEqual({ '1': '2px', '2': '6px' });
+      expect(theme.sizes).toEqual({ sm: '10px', lg: '30px' });
+    });
+
+    it('rejects steps that replace a modular scale without listing every step', async () => {
+      const schemaWithScale = createSchema({
+        definition: {
+          spacing: t.scale(['1', '2']).default({ base: '4px', ratio: 2 }),
+        },
+      });
+
+      const fetcher = vi.fn().mockResolvedValue({ spacing: { '1': '2px' } });
+
+      const resolver = createResolver({ schema: schemaWithScale, fetcher });
+
+      await expect(resolver.resolve({ themeId: 'theme-1' })).rejects.toThrow(
+        'spacing: missing scale step "2"'
+      );
+    });
+  });
+
+  describe('derived tokens', () => {
+    const derivedSchema = createSchema({
+      definition: {
+        spacing: {
+          base: t.dimension().default('4px'),
+          md: t.dimension(),
+          lg: t.dimension(),
+        },
+        colors: {
+          primary: t.color().default('#000000'),
+          link: t.reference('colors.primary'),
+          linkHover: t.color(),
+        },
+      },
+      derived: {
+        // Declared before its dependency to exercise ordering
+        'spacing.lg': (theme) => `${parseFloat(theme.spacing.md) * 2}px`,
+        'spacing.md': (theme) => `${parseFloat(theme.spacing.base) * 2}px`,
+        'colors.linkHover': (theme) => theme.colors.link,
+      },
+    });
+
+    it('computes derived tokens after merging defaults', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ spacing: { base: '5px' } });
+
+      const resolver = createResolver({ schema: derivedSchema, fetcher });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.spacing.md).toBe('10px');
+      expect(theme.spacing.lg).toBe('20px');
+    });
+
+    it('follows references when reading values', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ colors: { primary: '#3b82f6' } });
+
+      const resolver = createResolver({ schema: derivedSchema, fetcher });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.colors.linkHover).toBe('#3b82f6');
+    });
+
+    it('keeps values provided by the tenant', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ spacing: { md: '12px' } });
+
+      const resolver = createResolver({ schema: derivedSchema, fetcher });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.spacing.md).toBe('12px');
+      expect(theme.spacing.lg).toBe('24px');
+    });
+
+    it('validates derived values', async () => {
+      const invalidSchema = createSchema({
+        definition: { size: t.dimension() },
+        derived: { size: () => 'large' },
+      });
+
+      const resolver = createResolver({ schema: invalidSchema, fetcher: () => ({}) });
+
+      await expect(resolver.resolve({ themeId: 'theme-1' })).rejects.toThrow(
+        'size: invalid dimension'
+      );
+    });
+
+    it('reports circular dependencies', async () => {
+      const circularSchema = createSchema({
+        definition: { a: t.number(), b: t.number() },
+        derived: {
+          a: (theme) => theme.b + 1,
+          b: (theme) => theme.a + 1,
+        },
+      });
+
+      const resolver = createResolver({ schema: circularSchema, fetcher: () => ({}) });
+
+      await expect(resolver.resolve({ themeId: 'theme-1' })).rejects.toThrow(
+        'a: circular dependency: a -> b -> a, b: circular dependency: b -> a -> b'
+      );
+    });
+
+    it('reports errors thrown by derive functions', async () => {
+      const throwingSchema = createSchema({
+        definition: { a: t.number() },
+        derived: {
+          a: () => {
+            throw new Error('boom');
+          },
+        },
+      });
+
+      const resolver = createResolver({ schema: throwingSchema, fetcher: () => ({}) });
+
+      await expect(resolver.resolve({ themeId: 'theme-1' })).rejects.toThrow(
+        'a: failed to derive value: boom'
+      );
+    });
+  });
+
+  describe('contrast rules', () => {
+    const contrastSchema = createSchema({
+      definition: {
+        colors: {
+          text: t.color().default('#000000'),
+          muted: t.color(),
+          background: t.color().default('#ffffff'),
+        },
+      },
+      derived: {
+        'colors.muted': (theme) => theme.colors.text,
+      },
+      contrast: [
+        { foreground: 'colors.text', background: 'colors.background' },
+        { foreground: 'colors.muted', background: 'colors.background', severity: 'warning' },
+      ],
+    });
+
+    it('throws for failed rules with error severity', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ colors: { text: '#cccccc' } });
+
+      const resolver = createResolver({ schema: contrastSchema, fetcher });
+
+      await expect(resolver.resolve({ themeId: 'theme-1' })).rejects.toThrow(
+        'Invalid theme data for theme "theme-1": colors.text: contrast ratio 1.6:1'
+      );
+    });
+
+    it('reports failed rules with warning severity via onWarning', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ colors: { muted: '#cccccc' } });
+      const onWarning = vi.fn();
+
+      const resolver = createResolver({ schema: contrastSchema, fetcher, onWarning });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.colors.muted).toBe('#cccccc');
+      expect(onWarning).toHaveBeenCalledTimes(1);
+      expect(onWarning).toHaveBeenCalledWith({
+        themeId: 'theme-1',
+        warning: {
+          path: 'colors.muted',
+          message: 'contrast ratio 1.6:1 against "colors.background" is below 4.5:1 (AA)',
+          received: '#cccccc',
+        },
+      });
+    });
+
+    it('checks derived colors', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ colors: { text: '#777777' } });
+      const onWarning = vi.fn();
+
+      const resolver = createResolver({ schema: contrastSchema, fetcher, onWarning });
+
+      await expect(resolver.resolve({ themeId: 'theme-1' })).rejects.toThrow('colors.text');
+      expect(onWarning).toHaveBeenCalledWith(
+        expect.objectContaining({ warning: expect.objectContaining({ path: 'colors.muted' }) })
+      );
+    });
+  });
+
+  describe('deprecated tokens', () => {
+    const deprecatedSchema = createSchema({
+      definition: {
+        colors: {
+          brand: t.color().default('#3b82f6'),
+          primary: t.color().default('#000000').deprecated({ replacedBy: 'colors.brand' }),
+        },
+      },
+      aliases: { brandColor: 'colors.brand' },
+    });
+
+    it('moves legacy values before applying defaults', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ brandColor: '#f97316' });
+      const onWarning = vi.fn();
+
+      const resolver = createResolver({ schema: deprecatedSchema, fetcher, onWarning });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.colors.brand).toBe('#f97316');
+      expect(onWarning).toHaveBeenCalledTimes(1);
+      expect(onWarning).toHaveBeenCalledWith({
+        themeId: 'theme-1',
+        warning: {
+          path: 'brandColor',
+          message: '"brandColor" is deprecated, use "colors.brand" instead',
+          received: '#f97316',
+        },
+      });
+    });
+
+    it('does not report defaults of deprecated tokens', async () => {
+      const onWarning = vi.fn();
+
+      const resolver = createResolver({ schema: deprecatedSchema, fetcher: () => ({}), onWarning });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme.colors).toEqual({ brand: '#3b82f6', primary: '#000000' });
+      expect(onWarning).not.toHaveBeenCalled();
+    });
+
+    it('reports deprecated tokens without a replacement only for tenants that use them', async () => {
+      const schema = createSchema({
+        definition: { radius: t.dimension().default('4px').deprecated({ reason: 'unused' }) },
+      });
+      const themes: Record<string, unknown> = { legacy: { radius: '8px' }, current: {} };
+      const fetcher = vi.fn().mockImplementation(({ themeId }) => themes[themeId]);
+      const onWarning = vi.fn();
+
+      const resolver = createResolver({ schema, fetcher, onWarning });
+      await resolver.resolve({ themeId: 'current' });
+      expect(onWarning).not.toHaveBeenCalled();
+
+      const theme = await resolver.resolve({ themeId: 'legacy' });
+      expect(theme.radius).toBe('8px');
+      expect(onWarning).toHaveBeenCalledTimes(1);
+      expect(onWarning).toHaveBeenCalledWith({
+        themeId: 'legacy',
+        warning: { path: 'radius', message: '"radius" is deprecated (unused)', received: '8px' },
+      });
+    });
+  });
+
+  describe('migrations', () => {
+    const versionedSchema = createSchema({
+      definition: {
+        colors: { brand: t.color(), text: t.color().default('#000000') },
+      },
+      version: 2,
+      migrations: {
+        2: ({ primaryColor, ...data }) => ({ ...data, colors: { brand: primaryColor } }),
+      },
+    });
+
+    it('migrates fetched data before merging defaults', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ primaryColor: '#3b82f6' });
+
+      const resolver = createResolver({ schema: versionedSchema, fetcher });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme).toEqual({ colors: { brand: '#3b82f6', text: '#000000' } });
+    });
+
+    it('throws when data cannot be migrated', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ $version: 3 });
+
+      const resolver = createResolver({ schema: versionedSchema, fetcher });
+
+      await expect(resolver.resolve({ themeId: 'theme-1' })).rejects.toThrow(
+        'Invalid theme data for theme "theme-1": Cannot migrate theme data: version 3 is newer'
+      );
+    });
+
+    it('accepts data that is not a plain object for unversioned schemas', async () => {
+      class StoredTheme {
+        colors = { brand: '#3b82f6' };
+      }
+      const schema = createSchema({ definition: { colors: { brand: t.color() } } });
+      const fetcher = vi.fn().mockResolvedValue(new StoredTheme());
+
+      const resolver = createResolver({ schema, fetcher });
+      const theme = await resolver.resolve({ themeId: 'theme-1' });
+
+      expect(theme).toEqual({ colors: { brand: '#3b82f6' } });
+    });
+  });
+
+  describe('parent themes', () => {
+    const themes: Record<string, Record<string, unknown>> = {
+      base: { colors: { primary: '#3b82f6' }, spacing: { md: '12px' } },
+      acme: { $extends: 'base', colors: { secondary: '#f59e0b' } },
+      'acme-dark': { $extends: 'acme', colors: { primary: '#1e3a8a' } },
+      globex: { colors: { primary: '#16a34a' } },
+      orphan: { $extends: 'missing' },
+      loop: { $extends: 'loop-b' },
+      'loop-b': { $extends: 'loop' },
+    };
+    const fetcher = vi.fn().mockImplementation(({ themeId }) => themes[themeId]);
+
+    beforeEach(() => {
+      fetcher.mockClear();
+    });
+
+    it('merges theme data over the parent theme recursively', async () => {
+      const resolver = createResolver({ schema, fetcher });
+
+      expect(await resolver.resolve({ themeId: 'acme-dark' })).toEqual({
+        colors: { primary: '#1e3a8a', secondary: '#f59e0b' },
+        spacing: { sm: '4px', md: '12px' },
+      });
+      expect(await resolver.resolve({ themeId: 'acme' })).toEqual({
+        colors: { primary: '#3b82f6', secondary: '#f59e0b' },
+        spacing: { sm: '4px', md: '12px' },
+      });
+      expect(fetcher).toHaveBeenCalledTimes(3);
+    });
+
+    it('recomputes derived tokens from the merged data', async () => {
+      const derivedSchema = createSchema({
+        definition: { colors: { primary: t.color(), link: t.color() } },
+        derived: { 'colors.link': (theme) => theme.colors.primary },
+      });
+      const resolver = createResolver({ schema: derivedSchema, fetcher });
+
+      expect(await resolver.resolve({ themeId: 'acme-dark' })).toEqual({
+        colors: { primary: '#1e3a8a', link: '#1e3a8a' },
+      });
+    });
+
+    it('throws for missing and circular parents', async () => {
+      const resolver = createResolver({ schema, fetcher });
+
+      await expect(resolver.resolve({ themeId: 'orphan' })).rejects.toThrow(
+        'Invalid theme data for theme "orphan": parent theme "missing" not found'
+      );
+      await expect(resolver.resolve({ themeId: 'loop' })).rejects.toThrow(
+        'Invalid theme data for theme "loop-b": circular $extends chain loop -> loop-b -> loop'
+      );
+    });
+
+    it('throws for invalid parent theme IDs', async () => {
+      const fetcher = vi.fn().mockResolvedValue({ $extends: 42 });
+      const resolver = createResolver({ schema, fetcher });
+
+      await expect(resolver.resolve({ themeId: 'theme-1' })).rejects.toThrow(
+        'Invalid theme data for theme "theme-1": $extends must be a theme ID, got 42'
+      );
+    });
+
+    it('invalidates cached descendants with their parent', async () => {
+      const resolver = createResolver({ schema, fetcher });
+
+      await resolver.resolve({ themeId: 'acme-dark' });
+      await resolver.resolve({ themeId: 'globex' });
+      expect(fetcher).toHaveBeenCalledTimes(4);
+
+      resolver.invalidate({ themeId: 'base' });
+
+      await resolver.resolve({ themeId: 'globex' }); // should use cache
+      await resolver.resolve({ themeId: 'acme-dark' }); // should refetch the chain
+      expect(fetcher).toHaveBeenCalledTimes(7);
+    });
   });
 
   describe('invalidate()', () => {
@@ -3,6 +3,7 @@ import {
   createSchema,
   getTokenPaths,
   getTokenAtPath,
+  getSchemaMetadata,
   isSchema,
   isTokenDefinition,
   isSchemaDefinition,
@@ -115,6 +116,215 @@ describe('createSchema', () => {
       createSchema({ definition: null });
     }).toThrow();
   });
+
+  it('accepts references to existing tokens', () => {
+    const schema = createSchema({
+      definition: {
+        colors: { primary: t.color() },
+        button: { background: t.reference('colors.primary') },
+      },
+    });
+
+    expect(schema.definition.button.background.target).toBe('colors.primary');
+  });
+
+  it('throws for references to missing tokens', () => {
+    expect(() => {
+      createSchema({
+        definition: {
+          colors: { primary: t.color() },
+          button: { background: t.reference('colors.primry') },
+        },
+      });
+    }).toThrow('Invalid reference at "button.background": target "colors.primry"');
+  });
+
+  it('stores derived token functions', () => {
+    const derive = () => '8px';
+    const schema = createSchema({
+      definition: { spacing: { md: t.dimension() } },
+      derived: { 'spacing.md': derive },
+    });
+
+    expect(schema.derived?.['spacing.md']).toBe(derive);
+  });
+
+  it('throws for derived tokens that are not in the schema', () => {
+    expect(() => {
+      createSchema({
+        definition: { spacing: { md: t.dimension() } },
+        // @ts-expect-error - testing invalid input
+        derived: { 'spacing.lg': () => '16px' },
+      });
+    }).toThrow('Invalid derived token "spacing.lg": not a token in the schema');
+  });
+
+  it('throws for derived tokens that are not functions', () => {
+    expect(() => {
+      createSchema({
+        definition: { spacing: { md: t.dimension() } },
+        // @ts-expect-error - testing invalid input
+        derived: { 'spacing.md': '8px' },
+      });
+    }).toThrow('Invalid derived token "spacing.md": expected function, got string');
+  });
+
+  it('stores contrast rules', () => {
+    const schema = createSchema({
+      definition: { colors: { text: t.color(), background: t.color() } },
+      contrast: [{ foreground: 'colors.text', background: 'colors.background', level: 'AAA' }],
+    });
+
+    expect(schema.contrast).toEqual([
+      { foreground: 'colors.text', background: 'colors.background', level: 'AAA' },
+    ]);
+    expect(Object.isFrozen(schema.contrast)).toBe(true);
+  });
+
+  it('accepts contrast rules on references to color tokens', () => {
+    expect(() => {
+      createSchema({
+        definition: {
+          colors: { text: t.color(), background: t.color() },
+          button: { text: t.reference('colors.text') },
+        },
+        contrast: [{ foreground: 'button.text', background: 'colors.background' }],
+      });
+    }).not.toThrow();
+  });
+
+  it('throws for contrast rules on non-color tokens', () => {
+    expect(() => {
+      createSchema({
+        definition: { colors: { text: t.color() }, spacing: { md: t.dimension() } },
+        contrast: [{ foreground: 'colors.text', background: 'spacing.md' }],
+      });
+    }).toThrow('Invalid contrast rule: "spacing.md" is not a color token in the schema');
+  });
+
+  it('throws for contrast rules on missing tokens', () => {
+    expect(() => {
+      createSchema({
+        definition: { colors: { text: t.color(), background: t.color() } },
+        // @ts-expect-error - testing invalid input
+        contrast: [{ foreground: 'colors.txt', background: 'colors.background' }],
+      });
+    }).toThrow('Invalid contrast rule: "colors.txt" is not a color token in the schema');
+  });
+
+  it('throws for invalid contrast requirements', () => {
+    const definition = { colors: { text: t.color(), background: t.color() } };
+
+    expect(() => {
+      createSchema({
+        definition,
+        // @ts-expect-error - testing invalid input
+        contrast: [{ foreground: 'colors.text', background: 'colors.background', level: 'A' }],
+      });
+    }).toThrow('Invalid contrast rule: unknown level "A"');
+
+    expect(() => {
+      createSchema({
+        definition,
+        contrast: [{ foreground: 'colors.text', background: 'colors.background', minRatio: 25 }],
+      });
+    }).toThrow('Invalid contrast rule: minRatio must be a number from 1 to 21, got 25');
+  });
+
+  it('stores frozen aliases', () => {
+    const schema = createSchema({
+      definition: { colors: { brand: t.color() } },
+      aliases: { brandColor: 'colors.brand' },
+    });
+
+    expect(schema.aliases).toEqual({ brandColor: 'colors.brand' });
+    expect(Object.isFrozen(schema.aliases)).toBe(true);
+  });
+
+  it('throws for replacements that are not tokens', () => {
+    expect(() => {
+      createSchema({
+        definition: { colors: { old: t.color().deprecated({ replacedBy: 'colors.new' }) } },
+      });
+    }).toThrow(
+      'Invalid deprecated token "colors.old": replacement "colors.new" is not a token in the schema'
+    );
+
+    expect(() => {
+      createSchema({
+        definition: { colors: { brand: t.color() } },
+        // @ts-expect-error - testing invalid input
+        aliases: { brandColor: 'colors' },
+      });
+    }).toThrow('Invalid alias "brandColor": replacement "colors" is not a token in the schema');
+  });
+
+  it('throws for replacements that are deprecated themselves', () => {
+    expect(() => {
+      createSchema({
+        definition: {
+          a: t.color().deprecated({ replacedBy: 'b' }),
+          b: t.color().deprecated({ replacedBy: 'c' }),
+          c: t.color(),
+        },
+      });
+    }).toThrow('Invalid deprecated token "a": replacement "b" is deprecated itself');
+  });
+
+  it('throws for aliases of existing tokens', () => {
+    expect(() => {
+      createSchema({
+        definition: { colors: { brand: t.color(), primary: t.color() } },
+        aliases: { 'colors.primary': 'colors.brand' },
+      });
+    }).toThrow('Invalid alias "colors.primary": still a token in the schema');
+  });
+
+  it('stores the version and frozen migrations', () => {
+    const migrate = (data: Record<string, unknown>) => data;
+    const schema = createSchema({
+      definition: { colors: { brand: t.color() } },
+      version: 2,
+      migrations: { 2: migrate },
+    });
+
+    expect(schema.version).toBe(2);
+    expect(schema.migrations).toEqual({ 2: migrate });
+    expect(Object.isFrozen(schema.migrations)).toBe(true);
+  });
+
+  it('throws for invalid versions and migrations', () => {
+    const definition = { colors: { brand: t.color() } };
+    const migrate = (data: Record<string, unknown>) => data;
+
+    expect(() => createSchema({ definition, version: 1.5 })).toThrow(
+      'Invalid schema version: expected positive integer, got 1.5'
+    );
+    expect(() => createSchema({ definition, migrations: { 2: migrate } })).toThrow(
+      'Invalid migrations: a schema version is required'
+    );
+    expect(() => createSchema({ definition, version: 2, migrations: { 3: migrate } })).toThrow(
+      'Invalid migration "3": expected a version from 2 to 2'
+    );
+    expect(() =>
+      createSchema({ definition, version: 4, migrations: { 2: migrate, 4: migrate } })
+    ).toThrow('Invalid migrations: missing migration to version 3');
+    expect(() =>
+      // @ts-expect-error - testing invalid input
+      createSchema({ definition, version: 2, migrations: { 2: 'rename' } })
+    ).toThrow('Invalid migration to version 2: expected function, got string');
+  });
+
+  it('throws for references to nested groups', () => {
+    expect(() => {
+      createSchema({
+        definition: {
+          colors: { primary: t.color() },
+          alias: t.reference('colors'),
+        },
+      });
+    }).toThrow('Invalid reference at "alias"');
+  });
 });
 
 describe('getTokenPaths', () => {
@@ -215,6 +425,49 @@ describe('getTokenAtPath', () => {
   });
 });
 
+describe('getSchemaMetadata', () => {
+  const schema = createSchema({
+    definition: {
+      colors: {
+        primary: t.color().meta({ label: 'Primary', category: 'Brand', order: 2 }),
+        hover: t.color(),
+        accent: t.color().meta({ label: 'Accent', category: 'Brand', order: 1 }),
+      },
+      layout: {
+        density: t.enum(['compact', 'comfortable']).meta({ editor: 'select', advanced: true }),
+      },
+    },
+    derived: {
+      'colors.hover': (theme) => theme.colors.primary,
+    },
+  });
+
+  it('returns every token with its metadata, sorted by order', () => {
+    const entries = getSchemaMetadata({ schema });
+
+    expect(entries.map((entry) => entry.path)).toEqual([
+      'colors.accent',
+      'colors.primary',
+      'colors.hover',
+      'layout.density',
+    ]);
+    expect(entries[0]).toEqual({
+      path: 'colors.accent',
+      token: schema.definition.colors.accent,
+      metadata: { label: 'Accent', category: 'Brand', order: 1 },
+      isDerived: false,
+    });
+    expect(entries[3]?.metadata).toEqual({ editor: 'select', advanced: true });
+  });
+
+  it('marks derived tokens and defaults to empty metadata', () => {
+    const hover = getSchemaMetadata({ schema }).find((entry) => entry.path === 'colors.hover');
+
+    expect(hover?.metadata).toEqual({});
+    expect(hover?.isDerived).toBe(true);
+  });
+});
+
 describe('Type guards', () => {
   describe('isTokenDefinition', () => {
     it('returns true for color token', () => {
@@ -0,0 +1,207 @@
+import { describe, it, expect } from 'vitest';
+import { createSchema } from '../src/schema/index';
+import { t } from '../src/schema/tokens';
+import { importTokensStudio } from '../src/tokens-studio/index';
+
+const schema = createSchema({
+  definition: {
+    colors: {
+      primary: t.color(),
+      overlay: t.color().optional(),
+      link: t.reference('colors.primary'),
+    },
+    spacing: { sm: t.dimension(), md: t.dimension() },
+    shadows: { card: t.shadow().optional() },
+    text: { body: t.typography().optional(), weight: t.fontWeight().optional() },
+  },
+  aliases: { 'colors.brand': 'colors.primary' },
+});
+
+const tokens = {
+  core: {
+    palette: {
+      blue: { value: '#3b82f6', type: 'color' },
+      red: { value: '#ef4444', type: 'color' },
+      black: { value: '#000000', type: 'color' },
+    },
+    spacing: { sm: { value: '4', type: 'spacing' } },
+  },
+  'brands/acme': {
+    colors: {
+      primary: { value: '{palette.blue}', type: 'color' },
+      overlay: { value: 'rgba({palette.black}, 0.5)', type: 'color' },
+    },
+    spacing: { md: { value: '{spacing.sm}', type: 'spacing' } },
+  },
+  'brands/globex': {
+    colors: { brand: { value: '{palette.red}', type: 'color' } },
+    badges: { new: { value: '#22c55e', type: 'color' } },
+  },
+  $themes: [
+    {
+      id: 'acme',
+      name: 'acme',
+      selectedTokenSets: { core: 'source', 'brands/acme': 'enabled' },
+    },
+    {
+      id: 'globex',
+      name: 'globex',
+      selectedTokenSets: { core: 'enabled', 'brands/globex': 'enabled' },
+    },
+  ],
+  $metadata: { tokenSetOrder: ['core', 'brands/acme', 'brands/globex'] },
+};
+
+describe('importTokensStudio', () => {
+  it('imports each theme from its enabled sets and resolves references', () => {
+    const themes = importTokensStudio({ schema, tokens });
+
+    expect(Object.keys(themes)).toEqual(['acme', 'globex']);
+    expect(themes['acme']?.result).toEqual({
+      success: true,
+      data: {
+        colors: { primary: '#3b82f6', overlay: 'rgba(0, 0, 0, 0.5)', link: '#3b82f6' },
+        spacing: { md: '4px' },
+      },
+      warnings: [],
+    });
+    expect(themes['acme']?.unmapped).toEqual([]);
+  });
+
+  it('reports unmapped paths and maps schema aliases', () => {
+    const globex = importTokensStudio({ schema, tokens })['globex'];
+
+    expect(globex?.unmapped).toEqual([
+      'palette.blue',
+      'palette.red',
+      'palette.black',
+      'badges.new',
+    ]);
+    expect(globex?.result).toEqual({
+      success: true,
+      data: { colors: { primary: '#ef4444', link: '#ef4444' }, spacing: { sm: '4px' } },
+      warnings: [],
+    });
+  });
+
+  it('does not read aliases from the object prototype', () => {
+    const themes = importTokensStudio({
+      schema,
+      tokens: { global: { constructor: { value: '#000000' }, toString: { value: '#ffffff' } } },
+    });
+
+    expect(themes['default']?.unmapped).toEqual(['constructor', 'toString']);
+  });
+
+  it('converts rgba() with a color and an alpha', () => {
+    const themes = importTokensStudio({
+      schema,
+      tokens: {
+        global: {
+          colors: {
+            primary: { value: 'rgba(#3b82f6, 50%)', type: 'color' },
+            overlay: { value: 'rgba(#00000080, 0.5)', type: 'color' },
+          },
+        },
+      },
+    });
+
+    expect(themes['default']?.result).toEqual({
+      success: true,
+      data: {
+        colors: {
+          primary: 'rgba(59, 130, 246, 0.5)',
+          overlay: 'rgba(0, 0, 0, 0.251)',
+          link: 'rgba(59, 130, 246, 0.5)',
+        },
+      },
+      warnings: [],
+    });
+  });
+
+  it('applies sets in set order', () => {
+    const themes = importTokensStudio({
+      schema,
+      tokens: {
+        override: { colors: { primary: { $value: '#111827', $type: 'color' } } },
+        base: { colors: { primary: { $value: '#ffffff', $type: 'color' } } },
+        $metadata: { tokenSetOrder: ['base', 'override'] },
+      },
+    });
+
+    expect(Object.keys(themes)).toEqual(['default']);
+    expect(themes['default']?.result).toEqual({
+      success: true,
+      data: { colors: { primary: '#111827', link: '#111827' } },
+      warnings: [],
+    });
+  });
+
+  it('converts shadows, typography and font weight names', () => {
+    const result = importTokensStudio({
+      schema,
+      tokens: {
+        global: {
+          shadows: {
+            card: {
+              value: [
+                { x: '0', y: '1', blur: '3', spread: '0', color: '#0000001a', type: 'dropShadow' },
+                { x: 0, y: 0, blur: 0, spread: 1, color: '#ffffff', type: 'innerShadow' },
+              ],
+              type: 'boxShadow',
+            },
+          },
+          text: {
+            body: {
+              value: {
+                fontFamily: 'Inter',
+                fontWeight: 'Semi Bold',
+                fontSize: '16',
+                lineHeight: 'AUTO',
+                letterSpacing: '0%',
+                textCase: 'none',
+              },
+              type: 'typography',
+            },
+            weight: { value: 'Bold Italic', type: 'fontWeights' },
+          },
+        },
+      },
+    })['default']?.result;
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        shadows: { card: '0 1px 3px 0 #0000001a, inset 0 0 0 1px #ffffff' },
+        text: {
+          body: {
+            fontFamily: 'Inter',
+            fontWeight: 600,
+            fontSize: '16px',
+            lineHeight: 'normal',
+            letterSpacing: '0%',
+          },
+          weight: 700,
+        },
+      },
+      warnings: [],
+    });
+  });
+
+  it('reports invalid values and unresolved references as validation errors', () => {
+    const result = importTokensStudio({
+      schema,
+      tokens: {
+        global: {
+          colors: { primary: { value: '{palette.missing}', type: 'color' } },
+          spacing: { sm: { value: 'large', type: 'spacing' } },
+        },
+      },
+    })['default']?.result;
+
+    expect(result?.success).toBe(false);
+    if (result && !result.success) {
+      expect(result.errors.map((error) => error.path)).toEqual(['colors.primary', 'spacing.sm']);
+    }
+  });
+});
@@ -191,6 +191,271 @@ describe('Token Builders', () => {
     });
   });
 
+  describe('t.asset()', () => {
+    it('creates an asset token', () => {
+      const token = t.asset().default('/logo.svg');
+      expect(token.type).toBe('asset');
+      expect(token.defaultValue).toBe('/logo.svg');
+    });
+  });
+
+  describe('motion tokens', () => {
+    it('creates duration and easing tokens', () => {
+      expect(t.duration().default('200ms').defaultValue).toBe('200ms');
+      expect(t.duration().type).toBe('duration');
+      expect(t.easing().default('ease-out').defaultValue).toBe('ease-out');
+      expect(t.easing().type).toBe('easing');
+    });
+
+    it('creates transition tokens', () => {
+      const token = t.transition().default({ duration: '200ms', easing: 'ease-out' });
+      expect(token.type).toBe('transition');
+      expect(token.defaultValue).toEqual({ duration: '200ms', easing: 'ease-out' });
+    });
+  });
+
+  describe('t.gradient()', () => {
+    it('creates a gradient token', () => {
+      const token = t.gradient().default('linear-gradient(135deg, #3b82f6, #9333ea)');
+      expect(token.type).toBe('gradient');
+      expect(token.defaultValue).toBe('linear-gradient(135deg, #3b82f6, #9333ea)');
+    });
+  });
+
+  describe('t.typography()', () => {
+    it('creates a typography token', () => {
+      const token = t.typography().default({ fontFamily: 'Inter', fontSize: '1rem' });
+      expect(token.type).toBe('typography');
+      expect(token.defaultValue).toEqual({ fontFamily: 'Inter', fontSize: '1rem' });
+    });
+  });
+
+  describe('t.enum()', () => {
+    it('creates an enum token', () => {
+      const token = t.enum(['top', 'side']);
+      expect(token.type).toBe('enum');
+      expect(token.values).toEqual(['top', 'side']);
+      expect(token.defaultValue).toBeUndefined();
+    });
+
+    it('supports default and description', () => {
+      const token = t.enum(['filled', 'outline']).default('outline').describe('Button style');
+      expect(token.values).toEqual(['filled', 'outline']);
+      expect(token.defaultValue).toBe('outline');
+      expect(token.description).toBe('Button style');
+    });
+
+    it('copies and freezes the values', () => {
+      const values = ['top', 'side'];
+      const token = t.enum(values);
+      values.push('bottom');
+      expect(token.values).toEqual(['top', 'side']);
+      expect(Object.isFrozen(token.values)).toBe(true);
+    });
+
+    it('rejects empty, non-string and duplicate values', () => {
+      expect(() => t.enum([])).toThrow(
+        'Invalid enum token: values must be a non-empty array of strings'
+      );
+      expect(() => t.enum([1] as unknown as string[])).toThrow('non-empty array of strings');
+      expect(() => t.enum(['top', 'top'])).toThrow('Invalid enum token: duplicate value "top"');
+    });
+  });
+
+  describe('t.scale()', () => {
+    it('creates a scale token', () => {
+      const token = t.scale(['sm', 'md', 'lg']).default({ base: '1rem', ratio: 1.25 });
+      expect(token.type).toBe('scale');
+      expect(token.steps).toEqual(['sm', 'md', 'lg']);
+      expect(token.defaultValue).toEqual({ base: '1rem', ratio: 1.25 });
+      expect(Object.isFrozen(token.steps)).toBe(true);
+    });
+
+    it('rejects empty, duplicate and reserved steps', () => {
+      expect(() => t.scale([])).toThrow('steps must be a non-empty array');
+      expect(() => t.scale(['1', ''])).toThrow('steps must be a non-empty array');
+      expect(() => t.scale(['1', '1'])).toThrow('duplicate step "1"');
+      expect(() => t.scale(['1', 'base'])).toThrow('step name "base" is reserved');
+    });
+  });
+
+  describe('t.reference()', () => {
+    it('creates a reference token', () => {
+      const token = t.reference('colors.primary');
+      expect(token.type).toBe('reference');
+      expect(token.target).toBe('colors.primary');
+      expect(token.description).toBeUndefined();
+    });
+
+    it('supports description', () => {
+      const token = t.reference('colors.primary').describe('Button background');
+      expect(token.target).toBe('colors.primary');
+      expect(token.description).toBe('Button background');
+    });
+  });
+
+  describe('Constraints', () => {
+    it('stores number bounds', () => {
+      const token = t.number().min(0).max(1).default(0.5);
+      expect(token.constraints).toEqual({ min: 0, max: 1 });
+      expect(token.defaultValue).toBe(0.5);
+    });
+
+    it('stores dimension bounds and units', () => {
+      const token = t.dimension().min('4px').max('4rem').units(['px', 'rem']);
+      expect(token.constraints).toEqual({ min: '4px', max: '4rem', units: ['px', 'rem'] });
+    });
+
+    it('stores string options and patterns', () => {
+      expect(t.string().oneOf(['sm', 'md']).constraints).toEqual({ oneOf: ['sm', 'md'] });
+      expect(t.string().pattern('^[a-z]+$').constraints?.pattern).toEqual(/^[a-z]+$/);
+    });
+
+    it('stores font weight ranges', () => {
+      expect(t.fontWeight().range(400, 700).constraints).toEqual({ min: 400, max: 700 });
+    });
+
+    it('stores normalized asset allowlists', () => {
+      const token = t
+        .asset()
+        .protocols(['HTTPS:', 'data'])
+        .hosts(['CDN.example.com', '*.acme.com'])
+        .extensions(['.SVG', 'png'])
+        .maxDataSize(2048);
+      expect(token.constraints).toEqual({
+        protocols: ['https', 'data'],
+        hosts: ['cdn.example.com', '*.acme.com'],
+        extensions: ['svg', 'png'],
+        maxDataSize: 2048,
+      });
+    });
+
+    it('omits constraints when none are set', () => {
+      expect('constraints' in t.number()).toBe(false);
+    });
+
+    it('keeps constraints when chaining default and describe', () => {
+      const token = t.number().min(1).describe('Scale').default(2);
+      expect(token.constraints).toEqual({ min: 1 });
+    });
+
+    it('rejects a minimum greater than the maximum', () => {
+      expect(() => t.number().max(1).min(2)).toThrow(
+        'Invalid constraint: min (2) is greater than max (1)'
+      );
+      expect(() => t.dimension().min('2rem').max('16px')).toThrow(
+        'Invalid constraint: min (2rem) is greater than max (16px)'
+      );
+      expect(() => t.fontWeight().range(700, 400)).toThrow('min (700) is greater than max (400)');
+    });
+
+    it('rejects invalid bounds', () => {
+      expect(() => t.number().min(NaN)).toThrow('min() expects a finite number');
+      expect(() => t.dimension().max('16')).toThrow('max() expects a dimension like "4px"');
+      expect(() => t.dimension().min('1em').max('10px')).toThrow(
+        'cannot compare min (1em) with max (10px)'
+      );
+      expect(() => t.fontWeight().range(0, 700)).toThrow('expects font weights from 1 to 1000');
+    });
+
+    it('rejects invalid units, options and patterns', () => {
+      expect(() => t.dimension().units([])).toThrow('units() expects a non-empty array');
+      expect(() => t.dimension().units(['px', 'furlong'])).toThrow('unknown unit "furlong"');
+      expect(() => t.string().oneOf([])).toThrow('oneOf() expects a non-empty array of strings');
+      expect(() => t.string().pattern('[')).toThrow('invalid regular expression');
+    });
+
+    it('rejects invalid asset allowlists', () => {
+      expect(() => t.asset().protocols([])).toThrow('protocols() expects a non-empty array');
+      expect(() => t.asset().protocols(['ht tp'])).toThrow('protocols() got an invalid entry');
+      expect(() => t.asset().hosts(['https://cdn.example.com'])).toThrow(
+        'hosts() got an invalid entry "https://cdn.example.com"'
+      );
+      expect(() => t.asset().extensions(['png', ''])).toThrow('extensions() got an invalid entry');
+      expect(() => t.asset().maxDataSize(-1)).toThrow(
+        'maxDataSize() expects a non-negative number'
+      );
+    });
+  });
+
+  describe('optional()', () => {
+    it('marks tokens as optional', () => {
+      expect(t.color().optional().isOptional).toBe(true);
+      expect(t.enum(['a', 'b']).optional().isOptional).toBe(true);
+      expect(t.scale(['1', '2']).optional().isOptional).toBe(true);
+      expect('isOptional' in t.color()).toBe(false);
+    });
+
+    it('keeps tokens optional when chaining', () => {
+      const token = t.number().optional().min(0).describe('Opacity').default(1);
+      expect(token.isOptional).toBe(true);
+      expect(token.constraints).toEqual({ min: 0 });
+      expect(t.enum(['a', 'b']).optional().default('a').isOptional).toBe(true);
+      expect(t.color().describe('Accent').optional().description).toBe('Accent');
+    });
+  });
+
+  describe('deprecated()', () => {
+    it('records the deprecation and makes tokens optional', () => {
+      const token = t.color().deprecated({ replacedBy: 'colors.brand', reason: 'renamed' });
+      expect(token.deprecation).toEqual({ replacedBy: 'colors.brand', reason: 'renamed' });
+      expect(token.isOptional).toBe(true);
+      expect(t.enum(['a', 'b']).deprecated().deprecation).toEqual({});
+      expect(t.scale(['1', '2']).deprecated().isOptional).toBe(true);
+      expect('deprecation' in t.color()).toBe(false);
+    });
+
+    it('keeps the deprecation when chaining', () => {
+      const token = t.number().deprecated({ replacedBy: 'opacity' }).min(0).default(1).optional();
+      expect(token.deprecation).toEqual({ replacedBy: 'opacity' });
+      expect(token.constraints).toEqual({ min: 0 });
+      expect(t.enum(['a', 'b']).deprecated().default('a').deprecation).toEqual({});
+    });
+  });
+
+  describe('meta()', () => {
+    it('records UI metadata', () => {
+      const token = t
+        .color()
+        .meta({ label: 'Primary color', category: 'Brand', editor: 'color-picker' });
+      expect(token.metadata).toEqual({
+        label: 'Primary color',
+        category: 'Brand',
+        editor: 'color-picker',
+      });
+      expect(t.enum(['a', 'b']).meta({ order: 1 }).metadata).toEqual({ order: 1 });
+      expect(t.reference('colors.primary').meta({ hidden: true }).metadata).toEqual({
+        hidden: true,
+      });
+      expect('metadata' in t.color()).toBe(false);
+    });
+
+    it('merges metadata and keeps it when chaining', () => {
+      const token = t
+        .dimension()
+        .meta({ label: 'Radius', order: 2 })
+        .min('0px')
+        .deprecated()
+        .meta({ advanced: true, order: 3 })
+        .default('4px');
+      expect(token.metadata).toEqual({ label: 'Radius', order: 3, advanced: true });
+      expect(token.isOptional).toBe(true);
+      expect(token.constraints).toEqual({ min: '0px' });
+      expect(t.scale(['1', '2']).meta({ label: 'Spacing' }).optional().metadata).toEqual({
+        label: 'Spacing',
+      });
+    });
+
+    it('throws on invalid metadata', () => {
+      expect(() => t.color().meta({ order: Number.NaN })).toThrow(
+        'Invalid metadata: order must be a finite number, got NaN'
+      );
+      expect(() => t.color().meta(null as never)).toThrow(
+        'Invalid metadata: meta() expects an object'
+      );
+    });
+  });
+
   describe('Immutability', () => {
     it('chaining creates new instances', () => {
       const base = t.color();
@@ -1,7 +1,16 @@
 import { describe, it, expectTypeOf } from 'vitest';
 import { createSchema } from '../src/schema/index';
 import { t } from '../src/schema/tokens';
-import type { InferTheme, ThemePath, PathValue } from '../src/types/index';
+import { extendSchema, mergeSchemas, pickSchema, omitSchema } from '../src/schema/compose';
+import type {
+  InferTheme,
+  ThemePath,
+  PathValue,
+  SchemaPath,
+  TokenChanged,
+  TransitionValue,
+  TypographyValue,
+} from '../src/types/index';
 
 /**
  * Type-level tests to ensure type inference works correctly
@@ -105,6 +114,182 @@ describe('Type Inference', () => {
     });
   });
 
+  describe('Reference tokens', () => {
+    it('infers the value type of the referenced token', () => {
+      const schema = createSchema({
+        definition: {
+          colors: { primary: t.color() },
+          weights: { bold: t.fontWeight() },
+          button: {
+            background: t.reference('colors.primary'),
+            weight: t.reference('weights.bold'),
+            alias: t.reference('button.background'),
+          },
+        },
+      });
+
+      type Theme = InferTheme<typeof schema.definition>;
+
+      expectTypeOf<Theme['button']['background']>().toEqualTypeOf<string>();
+      expectTypeOf<Theme['button']['weight']>().toEqualTypeOf<string | number>();
+      expectTypeOf<Theme['button']['alias']>().toEqualTypeOf<string>();
+      expectTypeOf<PathValue<typeof schema.definition, 'button.weight'>>().toEqualTypeOf<
+        string | number
+      >();
+    });
+  });
+
+  describe('Motion tokens', () => {
+    it('infers duration, easing and transition values', () => {
+      const schema = createSchema({
+        definition: {
+          fast: t.duration(),
+          standard: t.easing(),
+          fade: t.transition(),
+        },
+      });
+
+      type Theme = InferTheme<typeof schema.definition>;
+
+      expectTypeOf<Theme['fast']>().toEqualTypeOf<string>();
+      expectTypeOf<Theme['standard']>().toEqualTypeOf<string>();
+      expectTypeOf<Theme['fade']>().toEqualTypeOf<TransitionValue>();
+    });
+  });
+
+  describe('Typography tokens', () => {
+    it('infers an object type', () => {
+      const schema = createSchema({
+        definition: {
+          typography: { body: t.typography() },
+        },
+      });
+
+      type Theme = InferTheme<typeof schema.definition>;
+
+      expectTypeOf<Theme['typography']['body']>().toEqualTypeOf<TypographyValue>();
+      expectTypeOf<Theme['typography']['body']['fontSize']>().toEqualTypeOf<string>();
+      expectTypeOf<
+        PathValue<typeof schema.definition, 'typography.body'>
+      >().toEqualTypeOf<TypographyValue>();
+    });
+  });
+
+  describe('Scale tokens', () => {
+    it('infers an object with a property per step', () => {
+      const schema = createSchema({
+        definition: {
+          spacing: t.scale(['1', '2', '3']).default({ base: '4px', ratio: 2, baseStep: '2' }),
+        },
+      });
+
+      type Theme = InferTheme<typeof schema.definition>;
+
+      expectTypeOf<Theme['spacing']>().toEqualTypeOf<{
+        readonly '1': string;
+        readonly '2': string;
+        readonly '3': string;
+      }>();
+      expectTypeOf<Theme['spacing']['2']>().toEqualTypeOf<string>();
+    });
+  });
+
+  describe('Optional tokens', () => {
+    it('adds undefined to the value type', () => {
+      const schema = createSchema({
+        definition: {
+          colors: {
+            primary: t.color(),
+            accent: t.color().optional(),
+            link: t.reference('colors.accent'),
+          },
+          layout: { density: t.enum(['compact', 'comfortable']).optional().default('compact') },
+          opacity: t.number().optional().min(0),
+        },
+      });
+
+      type Theme = InferTheme<typeof schema.definition>;
+
+      expectTypeOf<Theme['colors']['primary']>().toEqualTypeOf<string>();
+      expectTypeOf<Theme['colors']['accent']>().toEqualTypeOf<string | undefined>();
+      expectTypeOf<Theme['colors']['link']>().toEqualTypeOf<string | undefined>();
+      expectTypeOf<Theme['layout']['density']>().toEqualTypeOf<
+        'compact' | 'comfortable' | undefined
+      >();
+      expectTypeOf<Theme['opacity']>().toEqualTypeOf<number | undefined>();
+      expectTypeOf<PathValue<typeof schema.definition, 'colors.accent'>>().toEqualTypeOf<
+        string | undefined
+      >();
+    });
+
+    it('treats deprecated tokens as optional', () => {
+      const schema = createSchema({
+        definition: {
+          colors: {
+            brand: t.color(),
+            primary: t.color().deprecated({ replacedBy: 'colors.brand' }),
+          },
+          sizes: t.scale(['sm', 'md']).deprecated().default(['4px', '8px']),
+        },
+        aliases: { brandColor: 'colors.brand' },
+      });
+
+      type Theme = InferTheme<typeof schema.definition>;
+
+      expectTypeOf<Theme['colors']['brand']>().toEqualTypeOf<string>();
+      expectTypeOf<Theme['colors']['primary']>().toEqualTypeOf<string | undefined>();
+      expectTypeOf<Theme['sizes']>().toEqualTypeOf<
+        { readonly sm: string; readonly md: string } | undefined
+      >();
+    });
+  });
+
+  describe('Enum tokens', () => {
+    it('infers the union of the allowed values', () => {
+      const schema = createSchema({
+        definition: {
+          layout: { navPosition: t.enum(['top', 'side'] as const).default('top') },
+          buttons: { style: t.enum(['filled', 'outline']) },
+          primary: t.reference('buttons.style'),
+        },
+      });
+
+      type Theme = InferTheme<typeof schema.definition>;
+
+      expectTypeOf<Theme['layout']['navPosition']>().toEqualTypeOf<'top' | 'side'>();
+      expectTypeOf<Theme['buttons']['style']>().toEqualTypeOf<'filled' | 'outline'>();
+      expectTypeOf<Theme['primary']>().toEqualTypeOf<'filled' | 'outline'>();
+      expectTypeOf<PathValue<typeof schema.definition, 'layout.navPosition'>>().toEqualTypeOf<
+        'top' | 'side'
+      >();
+    });
+
+    it('only accepts allowed values as default', () => {
+      // @ts-expect-error - 'bottom' is not an allowed value
+      t.enum(['top', 'side']).default('bottom');
+    });
+  });
+
+  describe('Derived tokens', () => {
+    it('types the theme and return value of derive functions', () => {
+      createSchema({
+        definition: {
+          colors: { primary: t.color() },
+          count: t.number(),
+          label: t.string(),
+        },
+        derived: {
+          label: (theme) => {
+            expectTypeOf(theme.colors.primary).toEqualTypeOf<string>();
+            return theme.colors.primary;
+          },
+          // @ts-expect-error - number tokens must derive numbers
+          count: (theme) => theme.colors.primary,
+        },
+      });
+    });
+  });
+
   describe('ThemePath', () => {
     it('generates correct paths for flat schema', () => {
       const schema = createSchema({
@@ -189,6 +374,70 @@ describe('Type Inference', () => {
     });
   });
 
+  describe('Schema composition', () => {
+    const base = createSchema({
+      definition: {
+        colors: { text: t.color(), background: t.color() },
+        spacing: { sm: t.dimension(), md: t.dimension() },
+      },
+    });
+
+    it('infers extended and merged schemas', () => {
+      const extended = extendSchema({
+        schema: base,
+        definition: { colors: { accent: t.color().optional() }, motion: { fast: t.duration() } },
+        derived: { 'colors.accent': (theme) => theme.colors.text },
+      });
+      const merged = mergeSchemas({
+        schemas: [base, createSchema({ definition: { opacity: t.number() } })],
+      });
+
+      type Extended = InferTheme<typeof extended.definition>;
+      type Merged = InferTheme<typeof merged.definition>;
+
+      expectTypeOf<Extended['colors']>().toEqualTypeOf<{
+        text: string;
+        background: string;
+        accent: string | undefined;
+      }>();
+      expectTypeOf<Extended['motion']['fast']>().toEqualTypeOf<string>();
+      expectTypeOf<Merged['opacity']>().toEqualTypeOf<number>();
+      expectTypeOf<Merged['spacing']['md']>().toEqualTypeOf<string>();
+    });
+
+    it('infers picked and omitted schemas', () => {
+      const picked = pickSchema({ schema: base, paths: ['colors.text', 'spacing'] });
+      const omitted = omitSchema({ schema: base, paths: ['colors.text', 'spacing'] });
+
+      expectTypeOf<InferTheme<typeof picked.definition>>().toEqualTypeOf<{
+        colors: { text: string };
+        spacing: { sm: string; md: string };
+      }>();
+      expectTypeOf<InferTheme<typeof omitted.definition>>().toEqualTypeOf<{
+        colors: { background: string };
+      }>();
+      expectTypeOf<SchemaPath<typeof base.definition>>().toEqualTypeOf<
+        'colors' | 'colors.text' | 'colors.background' | 'spacing' | 'spacing.sm' | 'spacing.md'
+      >();
+    });
+  });
+
+  describe('Theme diff', () => {
+    it('types change values by path', () => {
+      const schema = createSchema({
+        definition: { colors: { primary: t.color() }, layout: { columns: t.number() } },
+      });
+      type Change = TokenChanged<typeof schema.definition>;
+
+      expectTypeOf<
+        Extract<Change, { path: 'layout.columns' }>['newValue']
+      >().toEqualTypeOf<number>();
+      expectTypeOf<
+        Extract<Change, { path: 'colors.primary' }>['oldValue']
+      >().toEqualTypeOf<string>();
+    });
+  });
+
   describe('Schema type safety', () => {
     it('schema definition is correctly typed', () => {
       const schema = createSchema({
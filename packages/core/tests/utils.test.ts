@@ -2,8 +2,10 @@ import { describe, it, expect } from 'vitest';
 import {
   deepClone,
   deepMerge,
+  deepEqual,
   getAtPath,
   setAtPath,
+  assignAtPath,
   pathToKebabCase,
   isPlainObject,
   createLRUCache,
@@ -95,6 +97,26 @@ describe('deepMerge', () => {
   });
 });
 
+describe('deepEqual', () => {
+  it('compares primitive values', () => {
+    expect(deepEqual('red', 'red')).toBe(true);
+    expect(deepEqual(NaN, NaN)).toBe(true);
+    expect(deepEqual('Red', 'red')).toBe(false);
+    expect(deepEqual(8, '8')).toBe(false);
+  });
+
+  it('compares nested objects regardless of key order', () => {
+    expect(deepEqual({ a: 1, b: { c: [1, 2] } }, { b: { c: [1, 2] }, a: 1 })).toBe(true);
+    expect(deepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+    expect(deepEqual({ a: [1, 2] }, { a: [1, 3] })).toBe(false);
+  });
+
+  it('does not treat arrays and objects as equal', () => {
+    expect(deepEqual([], {})).toBe(false);
+    expect(deepEqual({ 0: 'a' }, ['a'])).toBe(false);
+  });
+});
+
 describe('getAtPath', () => {
   const obj = {
     colors: {
@@ -159,6 +181,33 @@ describe('setAtPath', () => {
   });
 });
 
+describe('assignAtPath', () => {
+  it('sets value in place', () => {
+    const obj: Record<string, unknown> = { a: { b: 1 } };
+    assignAtPath(obj, 'a.b', 2);
+
+    expect(obj).toEqual({ a: { b: 2 } });
+  });
+
+  it('creates intermediate objects', () => {
+    const obj: Record<string, unknown> = { a: 1 };
+    assignAtPath(obj, 'b.c', 'value');
+
+    expect(obj).toEqual({ a: 1, b: { c: 'value' } });
+  });
+
+  it('refuses path segments that reach the prototype', () => {
+    const obj: Record<string, unknown> = {};
+
+    expect(() => assignAtPath(obj, '__proto__.polluted', true)).toThrow(
+      'Invalid path "__proto__.polluted": "__proto__" is not allowed as a key'
+    );
+    expect(() => assignAtPath(obj, 'a.constructor.prototype.polluted', true)).toThrow();
+    expect(() => setAtPath(obj, '__proto__.polluted', true)).toThrow();
+    expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+  });
+});
+
 describe('pathToKebabCase', () => {
   it('converts dot paths to kebab-case', () => {
     expect(pathToKebabCase('colors.primary')).toBe('colors-primary');
@@ -1,7 +1,8 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { createSchema } from '../src/schema/index';
 import { t } from '../src/schema/tokens';
 import { validate, validatePartial, coerce } from '../src/validation/index';
+import type { ValidationError } from '../src/types/index';
 
 describe('validate (strict mode)', () => {
   const schema = createSchema({
@@ -483,3 +484,1120 @@ describe('Complex schemas', () => {
     }
   });
 });
+
+describe('Reference tokens', () => {
+  const schema = createSchema({
+    definition: {
+      colors: {
+        primary: t.color().default('#3b82f6'),
+        accent: t.reference('colors.primary'),
+      },
+      button: {
+        background: t.reference('colors.primary'),
+        border: t.reference('colors.accent'),
+      },
+    },
+  });
+
+  it('resolves references to their target values', () => {
+    const result = validate({ schema, data: { colors: { primary: '#ff0000' } } });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.button.background).toBe('#ff0000');
+    }
+  });
+
+  it('resolves chained references', () => {
+    const result = validate({ schema, data: {} });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.colors.accent).toBe('#3b82f6');
+      expect(result.data.button.border).toBe('#3b82f6');
+    }
+  });
+
+  it('allows overriding a reference with a valid value', () => {
+    const result = validate({ schema, data: { colors: { accent: '#00ff00' } } });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.colors.accent).toBe('#00ff00');
+      expect(result.data.button.border).toBe('#00ff00');
+      expect(result.data.button.background).toBe('#3b82f6');
+    }
+  });
+
+  it("validates overrides against the target's token type", () => {
+    const result = validate({ schema, data: { button: { border: 'not-a-color' } } });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]!.path).toBe('button.border');
+      expect(result.errors[0]!.expected).toBe('color');
+    }
+  });
+
+  it('coerces overrides using the target token type', () => {
+    const numberSchema = createSchema({
+      definition: {
+        base: t.number().default(1),
+        alias: t.reference('base'),
+      },
+    });
+
+    const result = coerce({ schema: numberSchema, data: { alias: '2' } });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.alias).toBe(2);
+    }
+  });
+
+  it('does not report a missing reference when its target is missing', () => {
+    const requiredSchema = createSchema({
+      definition: {
+        primary: t.color(),
+        alias: t.reference('primary'),
+      },
+    });
+
+    const result = validate({ schema: requiredSchema, data: {} });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => e.path)).toEqual(['primary']);
+    }
+  });
+
+  it('leaves references unset in partial mode when the target is missing', () => {
+    const partialSchema = createSchema({
+      definition: {
+        primary: t.color(),
+        alias: t.reference('primary'),
+      },
+    });
+
+    const result = validatePartial({ schema: partialSchema, data: {} });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({});
+    }
+  });
+
+  it('reports circular references', () => {
+    const circularSchema = createSchema({
+      definition: {
+        a: t.reference('b'),
+        b: t.reference('a'),
+        c: t.reference('a'),
+      },
+    });
+
+    const result = validate({ schema: circularSchema, data: {} });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => [e.path, e.message])).toEqual([
+        ['a', 'circular reference: a -> b -> a'],
+        ['b', 'circular reference: b -> a -> b'],
+        ['c', 'circular reference: c -> a -> b -> a'],
+      ]);
+      expect(result.errors.every((e) => e.expected === 'reference')).toBe(true);
+    }
+  });
+
+  it('reports circular references for provided values', () => {
+    const circularSchema = createSchema({
+      definition: {
+        a: t.reference('b'),
+        b: t.reference('a'),
+      },
+    });
+
+    const result = validate({ schema: circularSchema, data: { a: '#fff', b: '#000' } });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => e.message)).toEqual([
+        'circular reference: a -> b -> a',
+        'circular reference: b -> a -> b',
+      ]);
+    }
+  });
+});
+
+describe('Derived tokens', () => {
+  const schema = createSchema({
+    definition: {
+      spacing: {
+        md: t.dimension(),
+        lg: t.dimension(),
+      },
+    },
+    derived: {
+      'spacing.lg': (theme) => theme.spacing.md,
+    },
+  });
+
+  it('computes derived tokens without a value', () => {
+    const result = validate({ schema, data: { spacing: { md: '8px' } } });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.spacing).toEqual({ md: '8px', lg: '8px' });
+    }
+  });
+
+  it('validates computed values', () => {
+    const invalid = createSchema({
+      definition: { opacity: t.number(), label: t.string() },
+      // Derive functions are typed, so this simulates untyped input
+      derived: { opacity: (theme) => theme.label as unknown as number },
+    });
+
+    expect(validate({ schema: invalid, data: { label: '0.5' } }).success).toBe(false);
+    expect(coerce({ schema: invalid, data: { label: '0.5' } })).toEqual({
+      success: true,
+      data: { opacity: 0.5, label: '0.5' },
+      warnings: [{ path: 'opacity', message: 'coerced "0.5" to 0.5', received: '0.5' }],
+    });
+  });
+
+  it('reports derived tokens that compute no value as missing', () => {
+    const empty = createSchema({
+      definition: { size: t.dimension() },
+      derived: { size: () => undefined as unknown as string },
+    });
+
+    const result = validate({ schema: empty, data: {} });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => [e.path, e.code])).toEqual([['size', 'required']]);
+    }
+  });
+
+  it('does not compute derived tokens in partial mode', () => {
+    const result = validatePartial({ schema, data: { spacing: { md: '8px' } } });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.spacing).toEqual({ md: '8px' });
+    }
+  });
+
+  it('validates provided derived values', () => {
+    const result = validate({ schema, data: { spacing: { md: '8px', lg: 'large' } } });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0]!.path).toBe('spacing.lg');
+    }
+  });
+});
+
+describe('Enum tokens', () => {
+  const schema = createSchema({
+    definition: {
+      layout: { navPosition: t.enum(['top', 'side']).default('top') },
+      buttons: { style: t.enum(['filled', 'outline']) },
+    },
+  });
+
+  it('accepts allowed values and applies defaults', () => {
+    const result = validate({ schema, data: { buttons: { style: 'outline' } } });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.layout.navPosition).toBe('top');
+      expect(result.data.buttons.style).toBe('outline');
+    }
+  });
+
+  it('rejects other values', () => {
+    const result = coerce({ schema, data: { layout: { navPosition: 'bottom' }, buttons: {} } });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        {
+          path: 'layout.navPosition',
+          message: 'expected one of "top", "side"',
+          code: 'enum.not_allowed',
+          params: { allowed: ['top', 'side'] },
+          expected: 'enum',
+          received: 'bottom',
+        },
+        {
+          path: 'buttons.style',
+          message: 'required value is missing',
+          code: 'required',
+          params: {},
+          expected: 'enum',
+          received: undefined,
+        },
+      ]);
+    }
+  });
+});
+
+describe('Motion tokens', () => {
+  const schema = createSchema({
+    definition: {
+      motion: {
+        fast: t.duration().default('150ms'),
+        standard: t.easing().default('ease-in-out'),
+        fade: t.transition(),
+      },
+    },
+  });
+
+  it('validates and normalizes motion values', () => {
+    const result = validate({
+      schema,
+      data: { motion: { fade: { duration: '0.2S', easing: 'steps(4,end)' } } },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.motion.fast).toBe('150ms');
+      expect(result.data.motion.fade).toEqual({ duration: '0.2s', easing: 'steps(4, end)' });
+    }
+  });
+
+  it('reports invalid motion values', () => {
+    const result = validate({
+      schema,
+      data: { motion: { fast: 150, standard: 'wobble', fade: { duration: '1s', easing: 'ease' } } },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => e.path)).toEqual(['motion.fast', 'motion.standard']);
+    }
+  });
+
+  it('coerces numbers to milliseconds', () => {
+    const result = coerce({
+      schema,
+      data: { motion: { fast: 100, fade: { duration: 200, easing: 'ease', delay: 50 } } },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.motion.fast).toBe('100ms');
+      expect(result.data.motion.fade).toEqual({ duration: '200ms', easing: 'ease', delay: '50ms' });
+    }
+  });
+});
+
+describe('Gradient tokens', () => {
+  const schema = createSchema({
+    definition: {
+      hero: { background: t.gradient() },
+    },
+  });
+
+  it('accepts and normalizes gradients', () => {
+    const result = validate({
+      schema,
+      data: { hero: { background: 'linear-gradient(135deg, #3B82F6, RED)' } },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.hero.background).toBe('linear-gradient(135deg, #3B82F6, red)');
+    }
+  });
+
+  it('reports invalid color stops', () => {
+    const result = validate({
+      schema,
+      data: { hero: { background: 'linear-gradient(#3b82f6, brand)' } },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        {
+          path: 'hero.background',
+          message: 'invalid gradient color stop "brand"',
+          code: 'gradient.invalid_color_stop',
+          params: { stop: 'brand' },
+          expected: 'gradient',
+          received: 'linear-gradient(#3b82f6, brand)',
+        },
+      ]);
+    }
+  });
+});
+
+describe('Typography tokens', () => {
+  const schema = createSchema({
+    definition: {
+      typography: {
+        body: t.typography().default({ fontFamily: 'Inter, sans-serif', fontSize: '1rem' }),
+        heading: t.typography(),
+      },
+    },
+  });
+
+  it('validates each field', () => {
+    const result = validate({
+      schema,
+      data: {
+        typography: { heading: { fontFamily: 'Inter', fontSize: '2rem', fontWeight: 'heavy' } },
+      },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        {
+          path: 'typography.heading',
+          message:
+            'invalid typography fontWeight: invalid font weight (expected number 1-1000 or keyword)',
+          code: 'invalid_property',
+          params: {
+            property: 'fontWeight',
+            cause: {
+              code: 'fontWeight.invalid_format',
+              params: {},
+              message: 'invalid font weight (expected number 1-1000 or keyword)',
+            },
+          },
+          expected: 'typography',
+          received: { fontFamily: 'Inter', fontSize: '2rem', fontWeight: 'heavy' },
+        },
+      ]);
+    }
+  });
+
+  it('applies defaults and coerces fields', () => {
+    const result = coerce({
+      schema,
+      data: { typography: { heading: { fontFamily: 'Inter', fontSize: 32, lineHeight: '1.2' } } },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.typography.body).toEqual({
+        fontFamily: 'Inter, sans-serif',
+        fontSize: '1rem',
+      });
+      expect(result.data.typography.heading).toEqual({
+        fontFamily: 'Inter',
+        fontSize: '32px',
+        lineHeight: 1.2,
+      });
+    }
+  });
+});
+
+describe('Shadow layers', () => {
+  const schema = createSchema({
+    definition: {
+      elevation: { card: t.shadow().default('none') },
+    },
+  });
+
+  it('coerces layer arrays to shadow strings', () => {
+    const result = coerce({
+      schema,
+      data: { elevation: { card: [{ x: 0, y: 1, blur: 3, color: 'rgba(0,0,0,0.1)' }] } },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.elevation.card).toBe('0px 1px 3px rgba(0, 0, 0, 0.1)');
+    }
+  });
+
+  it('reports the invalid layer', () => {
+    const result = coerce({
+      schema,
+      data: { elevation: { card: [{ x: 0, y: 1, color: 'shadowy' }] } },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0]?.path).toBe('elevation.card');
+      expect(result.errors[0]?.message).toMatch(/^invalid shadow layer 1: invalid color/);
+    }
+  });
+});
+
+describe('Asset tokens', () => {
+  const schema = createSchema({
+    definition: {
+      brand: {
+        logo: t.asset().protocols(['https']).hosts(['cdn.example.com']).extensions(['svg']),
+      },
+    },
+  });
+
+  it('accepts allowed assets', () => {
+    const result = validate({
+      schema,
+      data: { brand: { logo: 'https://cdn.example.com/logo.svg' } },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('reports the violated rule', () => {
+    const result = validate({
+      schema,
+      data: { brand: { logo: 'https://evil.com/logo.svg' } },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        {
+          path: 'brand.logo',
+          message: 'host "evil.com" is not allowed (expected cdn.example.com)',
+          code: 'asset.host_not_allowed',
+          params: { host: 'evil.com', allowed: ['cdn.example.com'] },
+          expected: 'asset',
+          received: 'https://evil.com/logo.svg',
+        },
+      ]);
+    }
+  });
+});
+
+describe('Scale tokens', () => {
+  const schema = createSchema({
+    definition: {
+      spacing: t.scale(['1', '2', '3']).default({ base: '4px', ratio: 2 }),
+      radii: t.scale(['sm', 'lg']),
+    },
+  });
+
+  it('expands defaults and provided scales', () => {
+    const result = validate({ schema, data: { radii: ['2px', '8px'] } });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.spacing).toEqual({ '1': '4px', '2': '8px', '3': '16px' });
+      expect(result.data.radii).toEqual({ sm: '2px', lg: '8px' });
+    }
+  });
+
+  it('reports invalid scales', () => {
+    const result = validate({ schema, data: { radii: { base: '2px', ratio: -1 } } });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        {
+          path: 'radii',
+          message: 'invalid scale ratio: expected positive number',
+          code: 'scale.invalid_ratio',
+          params: {},
+          expected: 'scale',
+          received: { base: '2px', ratio: -1 },
+        },
+      ]);
+    }
+  });
+});
+
+describe('Optional tokens', () => {
+  const schema = createSchema({
+    definition: {
+      colors: {
+        primary: t.color(),
+        accent: t.color().optional(),
+        link: t.reference('colors.accent'),
+      },
+      logo: t.asset().optional(),
+    },
+  });
+
+  it('does not report missing optional tokens', () => {
+    const result = validate({ schema, data: { colors: { primary: '#3b82f6' } } });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ colors: { primary: '#3b82f6' } });
+    }
+  });
+
+  it('validates optional tokens that are provided', () => {
+    const result = validate({ schema, data: { colors: { primary: '#3b82f6', accent: 'nope' } } });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => e.path)).toEqual(['colors.accent']);
+    }
+  });
+
+  it('resolves references to provided optional tokens', () => {
+    const result = validate({
+      schema,
+      data: { colors: { primary: '#3b82f6', accent: '#f97316' } },
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.colors.link).toBe('#f97316');
+    }
+  });
+});
+
+describe('Deprecated tokens', () => {
+  const schema = createSchema({
+    definition: {
+      colors: {
+        brand: t.color(),
+        primary: t.color().deprecated({ replacedBy: 'colors.brand', reason: 'renamed in v2' }),
+        legacy: t.color().deprecated(),
+      },
+      radius: t.dimension().default('4px'),
+    },
+    aliases: { borderRadius: 'radius' },
+  });
+
+  it('moves legacy values to their replacement when coercing', () => {
+    const onWarning = vi.fn();
+    const data = { colors: { primary: '#3b82f6' }, borderRadius: 8 };
+    const result = coerce({ schema, data, onWarning });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data).toEqual({ colors: { brand: '#3b82f6' }, radius: '8px' });
+    }
+    expect(data).toEqual({ colors: { primary: '#3b82f6' }, borderRadius: 8 });
+    expect(result.warnings).toEqual([
+      {
+        path: 'borderRadius',
+        message: '"borderRadius" is deprecated, use "radius" instead',
+        received: 8,
+      },
+      {
+        path: 'colors.primary',
+        message: '"colors.primary" is deprecated, use "colors.brand" instead (renamed in v2)',
+        received: '#3b82f6',
+      },
+      { path: 'radius', message: 'coerced 8 to "8px"', received: 8 },
+    ]);
+    expect(onWarning.mock.calls.map(([warning]) => warning)).toEqual(result.warnings);
+  });
+
+  it('keeps the value of the replacement when both are set', () => {
+    const onWarning = vi.fn();
+    const result = coerce({
+      schema,
+      data: { colors: { brand: '#000000', primary: '#3b82f6' } },
+      onWarning,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.colors).toEqual({ brand: '#000000' });
+    }
+    expect(onWarning).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: expect.stringContaining('value ignored since "colors.brand" is set'),
+      })
+    );
+  });
+
+  it('keeps values of deprecated tokens without a replacement', () => {
+    const onWarning = vi.fn();
+    const result = coerce({
+      schema,
+      data: { colors: { brand: '#000000', legacy: '#ffffff' } },
+      onWarning,
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.colors.legacy).toBe('#ffffff');
+    }
+    expect(onWarning).toHaveBeenCalledWith({
+      path: 'colors.legacy',
+      message: '"colors.legacy" is deprecated',
+      received: '#ffffff',
+    });
+  });
+
+  it('does not move legacy values in strict mode', () => {
+    const result = validate({ schema, data: { colors: { primary: '#3b82f6' } } });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => e.path)).toEqual(['colors.brand']);
+    }
+    expect(result.warnings.map((w) => w.path)).toEqual(['colors.primary']);
+  });
+
+  it('reports legacy values in partial mode without moving them', () => {
+    const result = validatePartial({ schema, data: { borderRadius: '8px' } });
+
+    expect(result).toEqual({
+      success: true,
+      data: { radius: '4px' },
+      warnings: [
+        {
+          path: 'borderRadius',
+          message: '"borderRadius" is deprecated, use "radius" instead',
+          received: '8px',
+        },
+      ],
+    });
+  });
+});
+
+describe('Unknown keys', () => {
+  const schema = createSchema({
+    definition: {
+      colors: { primary: t.color() },
+      radius: t.dimension().default('4px'),
+    },
+    aliases: { 'legacy.radius': 'radius' },
+  });
+  const data = {
+    $version: 2,
+    colors: { primary: '#3b82f6', secondary: '#f97316' },
+    colours: { primary: '#000000' },
+  };
+
+  it('strips unknown keys by default', () => {
+    expect(validate({ schema, data })).toEqual({
+      success: true,
+      data: { colors: { primary: '#3b82f6' }, radius: '4px' },
+      warnings: [],
+    });
+  });
+
+  it('warns about unknown keys', () => {
+    const onWarning = vi.fn();
+    const result = validate({ schema, data, unknownKeys: 'warn', onWarning });
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      {
+        path: 'colors.secondary',
+        message: 'key is not declared in the schema',
+        received: '#f97316',
+      },
+      {
+        path: 'colours',
+        message: 'key is not declared in the schema',
+        received: { primary: '#000000' },
+      },
+    ]);
+    expect(onWarning).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails on unknown keys in error mode', () => {
+    const result = validatePartial({ schema, data, unknownKeys: 'error' });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        {
+          path: 'colors.secondary',
+          code: 'unknown_key',
+          params: {},
+          message: 'key is not declared in the schema',
+          expected: undefined,
+          received: '#f97316',
+        },
+        {
+          path: 'colours',
+          code: 'unknown_key',
+          params: {},
+          message: 'key is not declared in the schema',
+          expected: undefined,
+          received: { primary: '#000000' },
+        },
+      ]);
+    }
+  });
+
+  it('does not report alias paths or the groups left behind by moving them', () => {
+    const result = coerce({
+      schema,
+      data: { colors: { primary: '#3b82f6' }, legacy: { radius: '8px', shadow: 'none' } },
+      unknownKeys: 'error',
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((e) => e.path)).toEqual(['legacy.shadow']);
+    }
+    expect(result.warnings.map((w) => w.path)).toEqual(['legacy.radius']);
+  });
+});
+
+describe('Coercion warnings', () => {
+  const schema = createSchema({
+    definition: { opacity: t.number(), label: t.string(), spacing: t.dimension() },
+  });
+
+  it('warns about each value that coercion changed', () => {
+    const result = coerce({ schema, data: { opacity: '0.5', label: 'Save', spacing: '8px' } });
+
+    expect(result).toEqual({
+      success: true,
+      data: { opacity: 0.5, label: 'Save', spacing: '8px' },
+      warnings: [{ path: 'opacity', message: 'coerced "0.5" to 0.5', received: '0.5' }],
+    });
+  });
+
+  it('warns about values that normalization changed', () => {
+    const colors = createSchema({ definition: { primary: t.color(), accent: t.color() } });
+    const data = { primary: 'Red', accent: 'rgb(1e3 0 0)' };
+
+    expect(coerce({ schema: colors, data }).warnings).toEqual([
+      { path: 'primary', message: 'coerced "Red" to "red"', received: 'Red' },
+      {
+        path: 'accent',
+        message: 'coerced "rgb(1e3 0 0)" to "rgb(1000 0 0)"',
+        received: 'rgb(1e3 0 0)',
+      },
+    ]);
+    expect(validate({ schema: colors, data }).warnings).toEqual([]);
+  });
+
+  it('does not warn about values that coercion left unchanged', () => {
+    const result = coerce({ schema, data: { opacity: 0.5, label: 'Save', spacing: '8px' } });
+
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('does not warn about defaults', () => {
+    const withDefaults = createSchema({
+      definition: { space: t.scale(['1', '2', '3']).default({ base: '4px', ratio: 2 }) },
+    });
+
+    expect(coerce({ schema: withDefaults, data: {} })).toEqual({
+      success: true,
+      data: { space: { '1': '4px', '2': '8px', '3': '16px' } },
+      warnings: [],
+    });
+  });
+
+  it('does not warn about expanded modular scales', () => {
+    const scales = createSchema({ definition: { space: t.scale(['1', '2']) } });
+
+    expect(coerce({ schema: scales, data: { space: { base: '4px', ratio: 2 } } }).warnings).toEqual(
+      []
+    );
+    expect(coerce({ schema: scales, data: { space: [4, '8px'] } }).warnings).toEqual([
+      {
+        path: 'space',
+        message: 'coerced [4,"8px"] to {"1":"4px","2":"8px"}',
+        received: [4, '8px'],
+      },
+    ]);
+  });
+
+  it('reports warnings alongside errors', () => {
+    const result = coerce({ schema, data: { opacity: '0.5', label: 'Save' } });
+
+    expect(result.success).toBe(false);
+    expect(result.warnings.map((w) => w.path)).toEqual(['opacity']);
+  });
+});
+
+describe('Value constraints', () => {
+  const schema = createSchema({
+    definition: {
+      opacity: t.number().min(0).max(1),
+      radius: t.dimension().max('2rem').units(['px', 'rem']),
+      density: t.string().oneOf(['compact', 'comfortable']),
+      heading: t.fontWeight().range(500, 900).default(700),
+      link: t.reference('opacity'),
+    },
+  });
+
+  it('accepts values within the constraints', () => {
+    const result = validate({
+      schema,
+      data: { opacity: 0.5, radius: '24px', density: 'compact' },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('reports constraint violations with the token path', () => {
+    const result = validate({
+      schema,
+      data: { opacity: 1.5, radius: '1em', density: 'cozy', heading: 400, link: -1 },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        {
+          path: 'opacity',
+          message: 'must be at most 1',
+          code: 'number.too_large',
+          params: { max: 1 },
+          expected: 'number',
+          received: 1.5,
+        },
+        {
+          path: 'radius',
+          message: 'unit "em" is not allowed (expected px, rem)',
+          code: 'dimension.unit_not_allowed',
+          params: { unit: 'em', allowed: ['px', 'rem'] },
+          expected: 'dimension',
+          received: '1em',
+        },
+        {
+          path: 'density',
+          message: 'must be one of "compact", "comfortable"',
+          code: 'string.not_allowed',
+          params: { allowed: ['compact', 'comfortable'] },
+          expected: 'string',
+          received: 'cozy',
+        },
+        {
+          path: 'heading',
+          message: 'font weight must be between 500 and 900',
+          code: 'fontWeight.out_of_range',
+          params: { min: 500, max: 900 },
+          expected: 'fontWeight',
+          received: 400,
+        },
+        {
+          path: 'link',
+          message: 'must be at least 0',
+          code: 'number.too_small',
+          params: { min: 0 },
+          expected: 'number',
+          received: -1,
+        },
+      ]);
+    }
+  });
+
+  it('checks coerced values against the constraints', () => {
+    const result = coerce({
+      schema,
+      data: { opacity: '0.25', radius: 48, density: 'compact' },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]!.path).toBe('radius');
+      expect(result.errors[0]!.message).toBe('must be at most 2rem');
+    }
+  });
+});
+
+describe('Contrast rules', () => {
+  const schema = createSchema({
+    definition: {
+      colors: {
+        text: t.color(),
+        muted: t.color(),
+        background: t.color(),
+        link: t.reference('colors.text'),
+      },
+    },
+    contrast: [
+      { foreground: 'colors.text', background: 'colors.background' },
+      { foreground: 'colors.link', background: 'colors.background', level: 'AAA' },
+      { foreground: 'colors.muted', background: 'colors.background', severity: 'warning' },
+    ],
+  });
+
+  it('accepts colors that meet the required ratio', () => {
+    const result = validate({
+      schema,
+      data: { colors: { text: '#000000', muted: '#595959', background: '#ffffff' } },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('reports failed rules as validation errors', () => {
+    const result = validate({
+      schema,
+      data: { colors: { text: '#777777', muted: '#595959', background: '#ffffff', link: '#000' } },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toEqual([
+        {
+          path: 'colors.text',
+          message: 'contrast ratio 4.47:1 against "colors.background" is below 4.5:1 (AA)',
+          code: 'contrast.insufficient',
+          params: { ratio: 4.47, minRatio: 4.5, level: 'AA', background: 'colors.background' },
+          expected: 'color',
+          received: '#777777',
+        },
+      ]);
+    }
+  });
+
+  it('checks resolved reference values', () => {
+    const result = validate({
+      schema,
+      data: { colors: { text: '#666666', muted: '#595959', background: '#ffffff' } },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]!.path).toBe('colors.link');
+      expect(result.errors[0]!.message).toContain('is below 7:1 (AAA)');
+    }
+  });
+
+  it('reports rules with warning severity via onWarning', () => {
+    const warnings: unknown[] = [];
+    const result = validate({
+      schema,
+      data: { colors: { text: '#000000', muted: '#cccccc', background: '#ffffff' } },
+      onWarning: (warning) => warnings.push(warning),
+    });
+
+    expect(result.success).toBe(true);
+    expect(warnings).toEqual([
+      {
+        path: 'colors.muted',
+        message: 'contrast ratio 1.6:1 against "colors.background" is below 4.5:1 (AA)',
+        received: '#cccccc',
+      },
+    ]);
+  });
+
+  it('composites translucent foregrounds over the background', () => {
+    const result = validate({
+      schema,
+      data: { colors: { text: 'rgba(0, 0, 0, 0.5)', muted: '#000', background: '#ffffff' } },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0]!.message).toContain('contrast ratio 3.97:1');
+    }
+  });
+
+  it('uses an explicit minimum ratio', () => {
+    const ratioSchema = createSchema({
+      definition: { colors: { text: t.color(), background: t.color() } },
+      contrast: [{ foreground: 'colors.text', background: 'colors.background', minRatio: 3 }],
+    });
+
+    const data = { colors: { text: '#3b82f6', background: '#ffffff' } };
+    expect(validate({ schema: ratioSchema, data }).success).toBe(true);
+
+    const failing = validate({ schema: ratioSchema, data: { colors: { ...data.colors, text: '#cccccc' } } });
+    expect(failing.success).toBe(false);
+    if (!failing.success) {
+      expect(failing.errors[0]!.message).toContain('is below 3:1');
+    }
+  });
+
+  it('skips rules whose colors are missing or have no concrete value', () => {
+    expect(validatePartial({ schema, data: { colors: { text: '#ffffff' } } }).success).toBe(true);
+    expect(
+      validate({
+        schema,
+        data: { colors: { text: 'currentcolor', muted: 'inherit', background: '#ffffff' } },
+      }).success
+    ).toBe(true);
+  });
+
+  it('checks coerced values', () => {
+    const result = coerce({
+      schema,
+      data: { colors: { text: '#ffffff', muted: '#000', background: '#ffffff' } },
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('Error codes', () => {
+  const schema = createSchema({
+    definition: {
+      colors: { primary: t.color(), accent: t.color() },
+      spacing: { md: t.dimension().units(['px']) },
+    },
+  });
+
+  it('reports a code and params for every error', () => {
+    const result = validate({
+      schema,
+      data: { colors: { primary: 'blurple' }, spacing: { md: '2em' } },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map(({ path, code, params }) => ({ path, code, params }))).toEqual([
+        { path: 'colors.primary', code: 'color.invalid_format', params: {} },
+        { path: 'colors.accent', code: 'required', params: {} },
+        {
+          path: 'spacing.md',
+          code: 'dimension.unit_not_allowed',
+          params: { unit: 'em', allowed: ['px'] },
+        },
+      ]);
+    }
+  });
+
+  it('reports groups that are not objects', () => {
+    const result = validatePartial({ schema, data: { colors: 'red' } });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors[0]).toMatchObject({
+        path: 'colors',
+        code: 'invalid_type',
+        params: { expected: 'object' },
+      });
+    }
+  });
+
+  it('formats messages with formatMessage', () => {
+    const messages: Record<string, (params: Record<string, unknown>) => string> = {
+      required: () => 'Valeur obligatoire',
+      'dimension.unit_not_allowed': (params) => `Unité « ${String(params['unit'])} » non autorisée`,
+    };
+    const formatMessage = vi.fn(
+      (error: ValidationError) => messages[error.code]?.(error.params) ?? error.message
+    );
+
+    const result = coerce({
+      schema,
+      data: { colors: { primary: 'blurple' }, spacing: { md: '2em' } },
+      formatMessage,
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors.map((error) => error.message)).toEqual([
+        'invalid color format (expected hex, rgb, hsl, hwb, lab, lch, oklab, oklch, color(), color-mix(), or CSS named color)',
+        'Valeur obligatoire',
+        'Unité « em » non autorisée',
+      ]);
+    }
+    expect(formatMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'required', message: 'required value is missing' })
+    );
+  });
+
+  it('does not call formatMessage for valid data', () => {
+    const formatMessage = vi.fn(() => '');
+    const data = { colors: { primary: '#3b82f6', accent: '#9333ea' }, spacing: { md: '8px' } };
+
+    expect(validate({ schema, data, formatMessage }).success).toBe(true);
+    expect(formatMessage).not.toHaveBeenCalled();
+  });
+});
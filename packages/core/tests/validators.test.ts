@@ -8,7 +8,16 @@ import {
   validateFontFamily,
   validateFontWeight,
   validateShadow,
+  parseShadow,
   validateUrl,
+  validateAsset,
+  validateEnum,
+  validateDuration,
+  validateEasing,
+  validateTransition,
+  validateGradient,
+  validateTypography,
+  validateScale,
   validateValue,
   coerceValue,
 } from '../src/validation/validators';
@@ -98,6 +107,104 @@ describe('validateColor', () => {
     });
   });
 
+  describe('modern color syntax', () => {
+    it('accepts space-separated rgb() and hsl() with alpha', () => {
+      expect(validateColor('rgb(255 0 0 / 50%)')).toEqual({ valid: true, value: 'rgb(255 0 0 / 50%)' });
+      expect(validateColor('hsl(240deg 100% 50% / 0.5)')).toEqual({
+        valid: true,
+        value: 'hsl(240deg 100% 50% / 0.5)',
+      });
+    });
+
+    it('accepts oklch(), oklab(), lab(), lch() and hwb()', () => {
+      expect(validateColor('oklch(62.8% 0.258 29.23)').valid).toBe(true);
+      expect(validateColor('oklch(0.7 0.1 30 / 50%)').valid).toBe(true);
+      expect(validateColor('oklab(0.6 0.1 -0.1)').valid).toBe(true);
+      expect(validateColor('lab(50% 40 59.5)').valid).toBe(true);
+      expect(validateColor('lch(52.2 72.2 50)').valid).toBe(true);
+      expect(validateColor('hwb(194 0% 0%)').valid).toBe(true);
+    });
+
+    it('accepts color() with predefined color spaces', () => {
+      expect(validateColor('color(display-p3 1 0 0)').valid).toBe(true);
+      expect(validateColor('color(srgb 100% 0% 0% / 0.5)').valid).toBe(true);
+      expect(validateColor('color(rec2020 0.4 0.5 0.6)').valid).toBe(true);
+      expect(validateColor('color(xyz-d50 0.2 0.3 0.4)').valid).toBe(true);
+    });
+
+    it('accepts color-mix()', () => {
+      expect(validateColor('color-mix(in oklch, red 40%, blue)').valid).toBe(true);
+      expect(validateColor('color-mix(in hsl longer hue, red, blue)').valid).toBe(true);
+      expect(validateColor('color-mix(in srgb, currentcolor, transparent 20%)').valid).toBe(true);
+      expect(validateColor('color-mix(in srgb, color-mix(in oklab, red, white), blue)').valid).toBe(true);
+    });
+
+    it('accepts none and angle units', () => {
+      expect(validateColor('oklch(0.5 none 120)').valid).toBe(true);
+      expect(validateColor('hsl(0.5turn 50% 50%)').valid).toBe(true);
+      expect(validateColor('lch(50 30 1.2rad)').valid).toBe(true);
+    });
+
+    it('normalizes case, whitespace and numbers', () => {
+      expect(validateColor('  OKLCH( 62.8%   .258 29 )  ')).toEqual({
+        valid: true,
+        value: 'oklch(62.8% 0.258 29)',
+      });
+      expect(validateColor('RGB(255 0 0/.5)')).toEqual({ valid: true, value: 'rgb(255 0 0 / 0.5)' });
+      expect(validateColor('rgb(255,0,0)')).toEqual({ valid: true, value: 'rgb(255, 0, 0)' });
+      expect(validateColor('Color-Mix(IN SRGB,Red 25%,Blue)')).toEqual({
+        valid: true,
+        value: 'color-mix(in srgb, red 25%, blue)',
+      });
+    });
+
+    it('rejects malformed modern syntax', () => {
+      expect(validateColor('oklch(0.62 0.2)').valid).toBe(false);
+      expect(validateColor('oklch(0.62 0.2 30 40)').valid).toBe(false);
+      expect(validateColor('oklch(0.62 0.2 red)').valid).toBe(false);
+      expect(validateColor('oklch(50% 0.1 120 /)').valid).toBe(false);
+      expect(validateColor('oklch(0.62, 0.2, 30)').valid).toBe(false);
+      expect(validateColor('rgb(255, 0%, 0)').valid).toBe(false);
+      expect(validateColor('rgb(none, 0, 0)').valid).toBe(false);
+      expect(validateColor('color(display-p3 1 0)').valid).toBe(false);
+      expect(validateColor('color(hsl 1 0 0)').valid).toBe(false);
+    });
+
+    it('rejects malformed color-mix()', () => {
+      expect(validateColor('color-mix(in srgb, red)').valid).toBe(false);
+      expect(validateColor('color-mix(in foo, red, blue)').valid).toBe(false);
+      expect(validateColor('color-mix(in srgb hue, red, blue)').valid).toBe(false);
+      expect(validateColor('color-mix(in srgb, red 150%, blue)').valid).toBe(false);
+      expect(validateColor('color-mix(in srgb, red 0%, blue 0%)').valid).toBe(false);
+      expect(validateColor('color-mix(in srgb, inherit, blue)').valid).toBe(false);
+    });
+
+    it('rejects deeply nested color-mix()', () => {
+      let color = 'red';
+      for (let i = 0; i < 10; i++) {
+        color = `color-mix(in srgb, ${color}, blue)`;
+      }
+      expect(validateColor(color).valid).toBe(false);
+    });
+
+    it('rejects non-color functions and injection attempts', () => {
+      expect(validateColor('rgb(var(--x) 0 0)').valid).toBe(false);
+      expect(validateColor('rgb(calc(255) 0 0)').valid).toBe(false);
+      expect(validateColor('url(x)').valid).toBe(false);
+      expect(validateColor('oklch(0.5 0.1 120); background: red').valid).toBe(false);
+      expect(validateColor('rgb(255 0 0) }').valid).toBe(false);
+      expect(validateColor('constructor').valid).toBe(false);
+    });
+  });
+
+  describe('CSS-wide keywords', () => {
+    it('accepts inherit, initial and unset', () => {
+      expect(validateColor('inherit')).toEqual({ valid: true, value: 'inherit' });
+      expect(validateColor('INITIAL')).toEqual({ valid: true, value: 'initial' });
+      expect(validateColor('unset').valid).toBe(true);
+    });
+  });
+
   describe('invalid inputs', () => {
     it('rejects non-string', () => {
       expect(validateColor(123).valid).toBe(false);
@@ -159,6 +266,57 @@ describe('validateDimension', () => {
   it('rejects non-string', () => {
     expect(validateDimension(16).valid).toBe(false);
   });
+
+  describe('constraints', () => {
+    it('enforces bounds in the same unit', () => {
+      expect(validateDimension('4px', { min: '4px', max: '32px' }).valid).toBe(true);
+      expect(validateDimension('2px', { min: '4px' })).toEqual({
+        valid: false,
+        message: 'must be at least 4px',
+        code: 'dimension.too_small',
+        params: { min: '4px' },
+      });
+      expect(validateDimension('33px', { max: '32px' })).toEqual({
+        valid: false,
+        message: 'must be at most 32px',
+        code: 'dimension.too_large',
+        params: { max: '32px' },
+      });
+    });
+
+    it('compares absolute units and rem in pixels', () => {
+      expect(validateDimension('1rem', { max: '16px' }).valid).toBe(true);
+      expect(validateDimension('1.5rem', { max: '16px' }).valid).toBe(false);
+      expect(validateDimension('1in', { min: '90px' }).valid).toBe(true);
+      expect(validateDimension('12pt', { min: '1rem' }).valid).toBe(true);
+    });
+
+    it('compares unitless zero with any unit', () => {
+      expect(validateDimension('0', { min: '0px', max: '50%' }).valid).toBe(true);
+      expect(validateDimension('0', { min: '1em' }).valid).toBe(false);
+    });
+
+    it('rejects values that cannot be compared with a bound', () => {
+      expect(validateDimension('50%', { min: '4px' })).toEqual({
+        valid: false,
+        message: 'cannot compare 50% with the minimum 4px',
+        code: 'dimension.not_comparable',
+        params: { value: '50%', min: '4px' },
+      });
+      expect(validateDimension('2em', { max: '4em' }).valid).toBe(true);
+    });
+
+    it('enforces allowed units', () => {
+      expect(validateDimension('1rem', { units: ['px', 'rem'] }).valid).toBe(true);
+      expect(validateDimension('0', { units: ['px'] }).valid).toBe(true);
+      expect(validateDimension('2em', { units: ['px', 'rem'] })).toEqual({
+        valid: false,
+        message: 'unit "em" is not allowed (expected px, rem)',
+        code: 'dimension.unit_not_allowed',
+        params: { unit: 'em', allowed: ['px', 'rem'] },
+      });
+    });
+  });
 });
 
 describe('validateNumber', () => {
@@ -185,6 +343,23 @@ describe('validateNumber', () => {
     expect(validateNumber(null).valid).toBe(false);
     expect(validateNumber(undefined).valid).toBe(false);
   });
+
+  it('enforces inclusive bounds', () => {
+    expect(validateNumber(0, { min: 0, max: 1 }).valid).toBe(true);
+    expect(validateNumber(1, { min: 0, max: 1 }).valid).toBe(true);
+    expect(validateNumber(-0.5, { min: 0 })).toEqual({
+      valid: false,
+      message: 'must be at least 0',
+      code: 'number.too_small',
+      params: { min: 0 },
+    });
+    expect(validateNumber(1.5, { max: 1 })).toEqual({
+      valid: false,
+      message: 'must be at most 1',
+      code: 'number.too_large',
+      params: { max: 1 },
+    });
+  });
 });
 
 describe('validateString', () => {
@@ -198,6 +373,32 @@ describe('validateString', () => {
     expect(validateString(123).valid).toBe(false);
     expect(validateString(null).valid).toBe(false);
   });
+
+  it('enforces allowed values', () => {
+    expect(validateString('md', { oneOf: ['sm', 'md'] }).valid).toBe(true);
+    expect(validateString('xl', { oneOf: ['sm', 'md'] })).toEqual({
+      valid: false,
+      message: 'must be one of "sm", "md"',
+      code: 'string.not_allowed',
+      params: { allowed: ['sm', 'md'] },
+    });
+  });
+
+  it('enforces patterns', () => {
+    expect(validateString('brand-blue', { pattern: /^[a-z-]+$/ }).valid).toBe(true);
+    expect(validateString('Brand', { pattern: /^[a-z-]+$/ })).toEqual({
+      valid: false,
+      message: 'must match pattern /^[a-z-]+$/',
+      code: 'string.pattern_mismatch',
+      params: { pattern: '/^[a-z-]+$/' },
+    });
+  });
+
+  it('ignores the state of global patterns', () => {
+    const pattern = /a/g;
+    expect(validateString('a', { pattern }).valid).toBe(true);
+    expect(validateString('a', { pattern }).valid).toBe(true);
+  });
 });
 
 describe('validateBoolean', () => {
@@ -277,6 +478,32 @@ describe('validateFontWeight', () => {
   it('rejects invalid keywords', () => {
     expect(validateFontWeight('heavy').valid).toBe(false);
   });
+
+  it('enforces a range', () => {
+    const range = { min: 400, max: 700 };
+    expect(validateFontWeight(400, range).valid).toBe(true);
+    expect(validateFontWeight('700', range)).toEqual({ valid: true, value: 700 });
+    expect(validateFontWeight(300, range)).toEqual({
+      valid: false,
+      message: 'font weight must be between 400 and 700',
+      code: 'fontWeight.out_of_range',
+      params: { min: 400, max: 700 },
+    });
+  });
+
+  it('checks normal and bold against a range', () => {
+    expect(validateFontWeight('bold', { min: 400, max: 700 }).valid).toBe(true);
+    expect(validateFontWeight('normal', { min: 500, max: 900 }).valid).toBe(false);
+  });
+
+  it('rejects relative keywords when a range is set', () => {
+    expect(validateFontWeight('bolder', { min: 400, max: 700 })).toEqual({
+      valid: false,
+      message: 'font weight "bolder" cannot be checked against the range 400-700',
+      code: 'fontWeight.not_comparable',
+      params: { weight: 'bolder', min: 400, max: 700 },
+    });
+  });
 });
 
 describe('validateShadow', () => {
@@ -302,6 +529,47 @@ describe('validateShadow', () => {
   it('rejects non-string', () => {
     expect(validateShadow(123).valid).toBe(false);
   });
+
+  it('rejects layer arrays without coercion', () => {
+    expect(validateShadow([{ x: '0', y: '1px' }]).valid).toBe(false);
+  });
+});
+
+describe('parseShadow', () => {
+  it('parses layers with normalized colors', () => {
+    expect(parseShadow('0 1px 3px rgba(0,0,0,0.1), inset 0 0 0 1px #fff')).toEqual([
+      { x: '0', y: '1px', blur: '3px', color: 'rgba(0, 0, 0, 0.1)' },
+      { x: '0', y: '0', blur: '0', spread: '1px', color: '#fff', inset: true },
+    ]);
+  });
+
+  it('accepts inset and color on either side of the lengths', () => {
+    expect(parseShadow('Red 2px 4px INSET')).toEqual([
+      { x: '2px', y: '4px', color: 'red', inset: true },
+    ]);
+  });
+
+  it('parses none to an empty list', () => {
+    expect(parseShadow(' none ')).toEqual([]);
+  });
+
+  it('returns undefined for values that are not layers', () => {
+    expect(parseShadow('inherit')).toBeUndefined();
+    expect(parseShadow('')).toBeUndefined();
+    expect(parseShadow('1px')).toBeUndefined();
+    expect(parseShadow('1px 2px 3px 4px 5px')).toBeUndefined();
+    expect(parseShadow('1px red 2px')).toBeUndefined();
+    expect(parseShadow('1px 2px -3px')).toBeUndefined();
+    expect(parseShadow('1px 2px red blue')).toBeUndefined();
+    expect(parseShadow('inset inset 1px 2px')).toBeUndefined();
+    expect(parseShadow('1px 2px, ')).toBeUndefined();
+    expect(parseShadow('1px 2px rgba(0, 0, 0')).toBeUndefined();
+  });
+
+  it('round-trips through coercion', () => {
+    const shadow = 'inset 0 2px 4px -1px rgba(0, 0, 0, 0.1), 0 1px 2px #000';
+    expect(coerceValue(parseShadow(shadow), 'shadow')).toEqual({ valid: true, value: shadow });
+  });
 });
 
 describe('validateUrl', () => {
@@ -385,6 +653,509 @@ describe('validateUrl', () => {
   });
 });
 
+describe('validateAsset', () => {
+  const constraints = {
+    protocols: ['https', 'data'],
+    hosts: ['cdn.example.com', '*.acme.com'],
+    extensions: ['svg', 'png'],
+    maxDataSize: 8,
+  };
+
+  it('accepts URLs without constraints', () => {
+    expect(validateAsset(' https://example.com/logo ')).toEqual({
+      valid: true,
+      value: 'https://example.com/logo',
+    });
+  });
+
+  it('applies the security checks of URLs', () => {
+    expect(validateAsset('javascript:alert(1)', constraints).valid).toBe(false);
+    expect(validateAsset('data:text/html,<script></script>').valid).toBe(false);
+  });
+
+  it('accepts URLs matching every allowlist', () => {
+    expect(validateAsset('https://cdn.example.com/logo.svg?v=2', constraints).valid).toBe(true);
+    expect(validateAsset('https://img.acme.com/a/b/icon.PNG', constraints).valid).toBe(true);
+    expect(validateAsset('/images/logo.svg', constraints).valid).toBe(true);
+  });
+
+  it('names the violated protocol rule', () => {
+    expect(validateAsset('http://cdn.example.com/logo.svg', constraints)).toEqual({
+      valid: false,
+      message: 'protocol "http" is not allowed (expected https, data)',
+      code: 'asset.protocol_not_allowed',
+      params: { protocol: 'http', allowed: ['https', 'data'] },
+    });
+    expect(validateAsset('//cdn.example.com/logo.svg', constraints)).toEqual({
+      valid: false,
+      message: 'protocol-relative URL is not allowed (expected https, data)',
+      code: 'asset.protocol_relative',
+      params: { allowed: ['https', 'data'] },
+    });
+  });
+
+  it('names the violated host rule', () => {
+    expect(validateAsset('https://evil.com/logo.svg', constraints)).toEqual({
+      valid: false,
+      message: 'host "evil.com" is not allowed (expected cdn.example.com, *.acme.com)',
+      code: 'asset.host_not_allowed',
+      params: { host: 'evil.com', allowed: ['cdn.example.com', '*.acme.com'] },
+    });
+    // A wildcard matches subdomains only
+    expect(validateAsset('https://acme.com/logo.svg', constraints).valid).toBe(false);
+    expect(validateAsset('https://evilacme.com/logo.svg', constraints).valid).toBe(false);
+    expect(validateAsset('//evil.com/logo.svg', { hosts: ['cdn.example.com'] }).valid).toBe(false);
+  });
+
+  it('only allows network URLs when hosts are set without protocols', () => {
+    const hosts = { hosts: ['cdn.example.com'] };
+    const dataUri = 'data:image/png;base64,iVBORw0KGgo=';
+
+    expect(validateAsset(dataUri, hosts)).toEqual({
+      valid: false,
+      message: 'protocol "data" is not allowed (expected http, https)',
+      code: 'asset.protocol_not_allowed',
+      params: { protocol: 'data', allowed: ['http', 'https'] },
+    });
+    expect(validateAsset('http://cdn.example.com/logo.svg', hosts).valid).toBe(true);
+    expect(validateAsset('//cdn.example.com/logo.svg', hosts).valid).toBe(true);
+    expect(validateAsset(dataUri, { ...hosts, protocols: ['https', 'data'] }).valid).toBe(true);
+    expect(validateAsset(dataUri).valid).toBe(true);
+  });
+
+  it('rejects relative-looking URLs that browsers resolve to another host', () => {
+    const hosts = { hosts: ['cdn.example.com'] };
+
+    expect(validateAsset('/\\evil.com/x.png', hosts)).toEqual({
+      valid: false,
+      message: 'invalid character "\\\\" in asset URL',
+      code: 'asset.invalid_character',
+      params: { character: '\\' },
+    });
+    expect(validateAsset('/\t/evil.com/x.png', hosts)).toEqual({
+      valid: false,
+      message: 'invalid character "\\t" in asset URL',
+      code: 'asset.invalid_character',
+      params: { character: '\t' },
+    });
+    expect(validateAsset('/\\evil.com/x.png').valid).toBe(false);
+    expect(validateAsset('/images/x.png', hosts).valid).toBe(true);
+  });
+
+  it('names the violated extension rule', () => {
+    expect(validateAsset('https://cdn.example.com/logo.gif', constraints)).toEqual({
+      valid: false,
+      message: 'extension "gif" is not allowed (expected svg, png)',
+      code: 'asset.extension_not_allowed',
+      params: { extension: 'gif', allowed: ['svg', 'png'] },
+    });
+    expect(validateAsset('https://cdn.example.com/logo', constraints)).toEqual({
+      valid: false,
+      message: 'missing file extension (expected svg, png)',
+      code: 'asset.missing_extension',
+      params: { allowed: ['svg', 'png'] },
+    });
+    expect(validateAsset('./logo.gif?v=1.svg', constraints).valid).toBe(false);
+  });
+
+  it('limits the decoded size of data URIs', () => {
+    // "PHN2Zy8+" decodes to the 6 bytes "<svg/>"
+    expect(validateAsset('data:image/svg+xml;base64,PHN2Zy8+', constraints).valid).toBe(true);
+    expect(validateAsset('data:image/svg+xml,%3Csvg%2F%3E', constraints).valid).toBe(true);
+    expect(validateAsset('data:image/svg+xml,<svg></svg>', constraints)).toEqual({
+      valid: false,
+      message: 'data URI is 11 bytes, exceeding maxDataSize of 8 bytes',
+      code: 'asset.too_large',
+      params: { size: 11, maxDataSize: 8 },
+    });
+  });
+});
+
+describe('validateEnum', () => {
+  it('accepts allowed values', () => {
+    expect(validateEnum('top', ['top', 'side'])).toEqual({ valid: true, value: 'top' });
+  });
+
+  it('rejects other values', () => {
+    expect(validateEnum('bottom', ['top', 'side'])).toEqual({
+      valid: false,
+      message: 'expected one of "top", "side"',
+      code: 'enum.not_allowed',
+      params: { allowed: ['top', 'side'] },
+    });
+    expect(validateEnum('Top', ['top', 'side']).valid).toBe(false);
+    expect(validateEnum(1, ['1']).valid).toBe(false);
+  });
+});
+
+describe('validateDuration', () => {
+  it('accepts ms and s values', () => {
+    expect(validateDuration('200ms')).toEqual({ valid: true, value: '200ms' });
+    expect(validateDuration('0.3s')).toEqual({ valid: true, value: '0.3s' });
+    expect(validateDuration('.5s')).toEqual({ valid: true, value: '.5s' });
+    expect(validateDuration('0ms').valid).toBe(true);
+  });
+
+  it('lowercases units and trims whitespace', () => {
+    expect(validateDuration(' 150MS ')).toEqual({ valid: true, value: '150ms' });
+  });
+
+  it('rejects negative, unitless and non-time values', () => {
+    expect(validateDuration('-100ms').valid).toBe(false);
+    expect(validateDuration('200').valid).toBe(false);
+    expect(validateDuration('200px').valid).toBe(false);
+    expect(validateDuration(200)).toEqual({
+      valid: false,
+      message: 'expected string',
+      code: 'invalid_type',
+      params: { expected: 'string' },
+    });
+  });
+});
+
+describe('validateEasing', () => {
+  it('accepts keywords', () => {
+    for (const keyword of ['linear', 'ease', 'ease-in', 'ease-out', 'ease-in-out', 'step-start']) {
+      expect(validateEasing(keyword)).toEqual({ valid: true, value: keyword });
+    }
+    expect(validateEasing('Ease-Out')).toEqual({ valid: true, value: 'ease-out' });
+  });
+
+  it('accepts and normalizes cubic-bezier()', () => {
+    expect(validateEasing('cubic-bezier(.4,0,.2,1)')).toEqual({
+      valid: true,
+      value: 'cubic-bezier(0.4, 0, 0.2, 1)',
+    });
+    expect(validateEasing('CUBIC-BEZIER(0.34, 1.56, 0.64, 1)').valid).toBe(true);
+  });
+
+  it('rejects cubic-bezier() with x coordinates outside 0-1', () => {
+    expect(validateEasing('cubic-bezier(1.2, 0, 0.2, 1)').valid).toBe(false);
+    expect(validateEasing('cubic-bezier(0.4, 0, -0.1, 1)').valid).toBe(false);
+    expect(validateEasing('cubic-bezier(0.4, 0, 0.2)').valid).toBe(false);
+  });
+
+  it('accepts steps()', () => {
+    expect(validateEasing('steps(4)')).toEqual({ valid: true, value: 'steps(4)' });
+    expect(validateEasing('steps(4,JUMP-END)')).toEqual({
+      valid: true,
+      value: 'steps(4, jump-end)',
+    });
+    expect(validateEasing('steps(2, jump-none)').valid).toBe(true);
+  });
+
+  it('rejects invalid steps()', () => {
+    expect(validateEasing('steps(0)').valid).toBe(false);
+    expect(validateEasing('steps(1.5)').valid).toBe(false);
+    expect(validateEasing('steps(1, jump-none)').valid).toBe(false);
+    expect(validateEasing('steps(4, middle)').valid).toBe(false);
+  });
+
+  it('accepts linear() with stops', () => {
+    expect(validateEasing('linear(0, 0.25 75%, 1)')).toEqual({
+      valid: true,
+      value: 'linear(0, 0.25 75%, 1)',
+    });
+    expect(validateEasing('linear(0, 25% 0.5 50%, 1)')).toEqual({
+      valid: true,
+      value: 'linear(0, 0.5 25% 50%, 1)',
+    });
+  });
+
+  it('rejects invalid linear()', () => {
+    expect(validateEasing('linear(0)').valid).toBe(false);
+    expect(validateEasing('linear(0, 50%, 1)').valid).toBe(false);
+    expect(validateEasing('linear(0, 0.5 1, 1)').valid).toBe(false);
+    expect(validateEasing('linear(0, 0.5 10% 20% 30%, 1)').valid).toBe(false);
+  });
+
+  it('rejects other values', () => {
+    expect(validateEasing('bounce').valid).toBe(false);
+    expect(validateEasing('spring(1, 100, 10, 0)').valid).toBe(false);
+    expect(validateEasing(1).valid).toBe(false);
+  });
+});
+
+describe('validateTransition', () => {
+  it('accepts and normalizes transitions', () => {
+    expect(validateTransition({ duration: '200MS', easing: 'cubic-bezier(.4,0,.2,1)' })).toEqual({
+      valid: true,
+      value: { duration: '200ms', easing: 'cubic-bezier(0.4, 0, 0.2, 1)' },
+    });
+  });
+
+  it('accepts negative delays', () => {
+    expect(validateTransition({ duration: '1s', easing: 'ease', delay: '-0.5s' })).toEqual({
+      valid: true,
+      value: { duration: '1s', easing: 'ease', delay: '-0.5s' },
+    });
+  });
+
+  it('reports the invalid part', () => {
+    expect(validateTransition({ duration: '-1s', easing: 'ease' }).valid).toBe(false);
+    expect(validateTransition({ duration: '1s' })).toEqual({
+      valid: false,
+      message: 'invalid transition easing: expected string',
+      code: 'invalid_property',
+      params: {
+        property: 'easing',
+        cause: { code: 'invalid_type', params: { expected: 'string' }, message: 'expected string' },
+      },
+    });
+    expect(validateTransition({ duration: '1s', easing: 'ease', delay: 'soon' })).toEqual({
+      valid: false,
+      message: 'invalid transition delay: expected a time in ms or s, like "100ms"',
+      code: 'transition.invalid_delay',
+      params: {},
+    });
+  });
+
+  it('rejects unknown properties and non-objects', () => {
+    expect(validateTransition({ duration: '1s', easing: 'ease', property: 'opacity' })).toEqual({
+      valid: false,
+      message: 'unknown transition property "property"',
+      code: 'unknown_property',
+      params: { property: 'property' },
+    });
+    expect(validateTransition('200ms ease').valid).toBe(false);
+    expect(validateTransition(['200ms', 'ease']).valid).toBe(false);
+  });
+});
+
+describe('validateGradient', () => {
+  it('accepts linear gradients', () => {
+    expect(validateGradient('linear-gradient(#3b82f6, #9333ea)').valid).toBe(true);
+    expect(validateGradient('linear-gradient(135deg, #3b82f6 0%, #9333ea 100%)').valid).toBe(true);
+    expect(validateGradient('linear-gradient(to top right, red, blue)').valid).toBe(true);
+    expect(validateGradient('linear-gradient(0.25turn, red 10px 20px, blue)').valid).toBe(true);
+  });
+
+  it('accepts radial gradients', () => {
+    expect(validateGradient('radial-gradient(red, blue)').valid).toBe(true);
+    expect(validateGradient('radial-gradient(circle at top, red, blue)').valid).toBe(true);
+    expect(validateGradient('radial-gradient(circle 40px at 10% 20%, red, blue)').valid).toBe(true);
+    expect(validateGradient('radial-gradient(ellipse farthest-corner, red, blue)').valid).toBe(
+      true
+    );
+    expect(validateGradient('radial-gradient(at left 10px top, red, blue)').valid).toBe(true);
+  });
+
+  it('accepts conic gradients', () => {
+    expect(validateGradient('conic-gradient(red, blue)').valid).toBe(true);
+    expect(
+      validateGradient('conic-gradient(from 90deg at center, red 0deg, blue 0.5turn)').valid
+    ).toBe(true);
+    expect(validateGradient('conic-gradient(red 0% 25%, blue 25% 50%)').valid).toBe(true);
+  });
+
+  it('accepts repeating gradients and layered gradients', () => {
+    expect(
+      validateGradient('repeating-linear-gradient(45deg, red 0 10px, blue 10px 20px)').valid
+    ).toBe(true);
+    expect(
+      validateGradient('linear-gradient(red, blue), radial-gradient(circle, white, transparent)')
+        .valid
+    ).toBe(true);
+  });
+
+  it('accepts color hints and interpolation methods', () => {
+    expect(validateGradient('linear-gradient(red, 30%, blue)').valid).toBe(true);
+    expect(validateGradient('linear-gradient(in oklch, red, blue)').valid).toBe(true);
+    expect(validateGradient('linear-gradient(to right in oklch longer hue, red, blue)').valid).toBe(
+      true
+    );
+    expect(validateGradient('conic-gradient(in srgb from 45deg, red, blue)').valid).toBe(true);
+  });
+
+  it('validates color stops like color tokens', () => {
+    expect(
+      validateGradient('linear-gradient(oklch(62.8% 0.258 29.23), color-mix(in srgb, red, blue))')
+        .valid
+    ).toBe(true);
+    expect(validateGradient('linear-gradient(red, notacolor)')).toEqual({
+      valid: false,
+      message: 'invalid gradient color stop "notacolor"',
+      code: 'gradient.invalid_color_stop',
+      params: { stop: 'notacolor' },
+    });
+    expect(validateGradient('linear-gradient(red, rgb(300 0 0 0 0))').valid).toBe(false);
+  });
+
+  it('normalizes gradients', () => {
+    expect(validateGradient('Linear-Gradient( TO RIGHT,RED  10PX,rgb(0,0,255) )')).toEqual({
+      valid: true,
+      value: 'linear-gradient(to right, red 10px, rgb(0, 0, 255))',
+    });
+  });
+
+  it('rejects invalid gradients', () => {
+    expect(validateGradient('linear-gradient(red)').valid).toBe(false);
+    expect(validateGradient('linear-gradient(red, 30%)').valid).toBe(false);
+    expect(validateGradient('linear-gradient(red, 10%, 20%, blue)').valid).toBe(false);
+    expect(validateGradient('linear-gradient(to left right, red, blue)').valid).toBe(false);
+    expect(validateGradient('linear-gradient(red 10px 20px 30px, blue)').valid).toBe(false);
+    expect(validateGradient('conic-gradient(red 10px, blue)').valid).toBe(false);
+    expect(validateGradient('radial-gradient(square, red, blue)').valid).toBe(false);
+    expect(validateGradient('linear-gradient(in srgb longer hue, red, blue)').valid).toBe(false);
+    expect(validateGradient('url(image.png)').valid).toBe(false);
+    expect(validateGradient('linear-gradient(red, blue').valid).toBe(false);
+    expect(validateGradient('#3b82f6').valid).toBe(false);
+    expect(validateGradient(42).valid).toBe(false);
+  });
+});
+
+describe('validateTypography', () => {
+  it('accepts and normalizes typography', () => {
+    expect(
+      validateTypography({
+        fontFamily: ' Inter, sans-serif ',
+        fontSize: '1rem',
+        fontWeight: '600',
+        lineHeight: 1.5,
+        letterSpacing: '-0.01em',
+      })
+    ).toEqual({
+      valid: true,
+      value: {
+        fontFamily: 'Inter, sans-serif',
+        fontSize: '1rem',
+        fontWeight: 600,
+        lineHeight: 1.5,
+        letterSpacing: '-0.01em',
+      },
+    });
+  });
+
+  it('only requires fontFamily and fontSize', () => {
+    expect(validateTypography({ fontFamily: 'Inter', fontSize: '16px' })).toEqual({
+      valid: true,
+      value: { fontFamily: 'Inter', fontSize: '16px' },
+    });
+  });
+
+  it('accepts normal and dimension line heights and letter spacings', () => {
+    const base = { fontFamily: 'Inter', fontSize: '16px' };
+    expect(validateTypography({ ...base, lineHeight: 'Normal' }).valid).toBe(true);
+    expect(validateTypography({ ...base, lineHeight: '24px' }).valid).toBe(true);
+    expect(validateTypography({ ...base, letterSpacing: 'normal' }).valid).toBe(true);
+  });
+
+  it('reports the invalid field', () => {
+    const base = { fontFamily: 'Inter', fontSize: '16px' };
+    expect(validateTypography({ fontFamily: 'Inter', fontSize: 16 })).toEqual({
+      valid: false,
+      message: 'invalid typography fontSize: expected string',
+      code: 'invalid_property',
+      params: {
+        property: 'fontSize',
+        cause: { code: 'invalid_type', params: { expected: 'string' }, message: 'expected string' },
+      },
+    });
+    expect(validateTypography({ fontSize: '16px' })).toEqual({
+      valid: false,
+      message: 'invalid typography fontFamily: expected string',
+      code: 'invalid_property',
+      params: {
+        property: 'fontFamily',
+        cause: { code: 'invalid_type', params: { expected: 'string' }, message: 'expected string' },
+      },
+    });
+    expect(validateTypography({ ...base, fontWeight: 1200 }).valid).toBe(false);
+    expect(validateTypography({ ...base, lineHeight: -1 }).valid).toBe(false);
+    expect(validateTypography({ ...base, lineHeight: '1.5' }).valid).toBe(false);
+    expect(validateTypography({ ...base, letterSpacing: 2 }).valid).toBe(false);
+  });
+
+  it('rejects unknown properties and non-objects', () => {
+    expect(validateTypography({ fontFamily: 'Inter', fontSize: '1rem', color: 'red' })).toEqual({
+      valid: false,
+      message: 'unknown typography property "color"',
+      code: 'unknown_property',
+      params: { property: 'color' },
+    });
+    expect(validateTypography('16px Inter').valid).toBe(false);
+  });
+});
+
+describe('validateScale', () => {
+  const steps = ['sm', 'md', 'lg', 'xl'];
+
+  it('computes modular scales from the first step', () => {
+    expect(validateScale({ base: '4px', ratio: 2 }, steps)).toEqual({
+      valid: true,
+      value: { sm: '4px', md: '8px', lg: '16px', xl: '32px' },
+    });
+  });
+
+  it('computes modular scales around a base step', () => {
+    expect(validateScale({ base: '1rem', ratio: 1.25, baseStep: 'md' }, steps)).toEqual({
+      valid: true,
+      value: { sm: '0.8rem', md: '1rem', lg: '1.25rem', xl: '1.5625rem' },
+    });
+    expect(validateScale({ base: '16px', ratio: 1.333 }, steps)).toEqual({
+      valid: true,
+      value: { sm: '16px', md: '21.328px', lg: '28.4302px', xl: '37.8975px' },
+    });
+  });
+
+  it('accepts explicit lists and step objects', () => {
+    const value = { sm: '2px', md: '4px', lg: '8px', xl: '0' };
+    expect(validateScale(['2px', '4px', '8px', '0'], steps)).toEqual({ valid: true, value });
+    expect(validateScale(value, steps)).toEqual({ valid: true, value });
+  });
+
+  it('rejects invalid scales', () => {
+    expect(validateScale(['2px'], steps)).toEqual({
+      valid: false,
+      message: 'expected 4 scale values, got 1',
+      code: 'scale.length_mismatch',
+      params: { count: 4, received: 1 },
+    });
+    expect(validateScale(['2px', '4px', '8', '16px'], steps).valid).toBe(false);
+    expect(validateScale({ sm: '2px', md: '4px', lg: '8px' }, steps)).toEqual({
+      valid: false,
+      message: 'missing scale step "xl"',
+      code: 'scale.missing_step',
+      params: { step: 'xl' },
+    });
+    expect(validateScale({ sm: '2px', xxl: '4px' }, steps)).toEqual({
+      valid: false,
+      message: 'unknown scale step "xxl"',
+      code: 'scale.unknown_step',
+      params: { step: 'xxl' },
+    });
+    expect(validateScale({ base: 4, ratio: 2 }, steps)).toEqual({
+      valid: false,
+      message: 'invalid scale base: expected string',
+      code: 'invalid_property',
+      params: {
+        property: 'base',
+        cause: { code: 'invalid_type', params: { expected: 'string' }, message: 'expected string' },
+      },
+    });
+    expect(validateScale({ base: '4px', ratio: 0 }, steps)).toEqual({
+      valid: false,
+      message: 'invalid scale ratio: expected positive number',
+      code: 'scale.invalid_ratio',
+      params: {},
+    });
+    expect(validateScale({ base: '4px' }, steps).valid).toBe(false);
+    expect(validateScale({ base: '4px', ratio: 2, baseStep: 'xxl' }, steps)).toEqual({
+      valid: false,
+      message: 'invalid scale baseStep: expected one of "sm", "md", "lg", "xl"',
+      code: 'scale.invalid_base_step',
+      params: { allowed: ['sm', 'md', 'lg', 'xl'] },
+    });
+    expect(validateScale({ base: '4px', ratio: 2, step: 1 }, steps)).toEqual({
+      valid: false,
+      message: 'unknown scale property "step"',
+      code: 'unknown_property',
+      params: { property: 'step' },
+    });
+    expect(validateScale('4px', steps).valid).toBe(false);
+  });
+});
+
 describe('validateValue', () => {
   it('dispatches to correct validator', () => {
     expect(validateValue('#fff', 'color').valid).toBe(true);
@@ -397,9 +1168,27 @@ describe('validateValue', () => {
     expect(validateValue('0 2px 4px #000', 'shadow').valid).toBe(true);
     expect(validateValue('https://example.com', 'url').valid).toBe(true);
   });
+
+  it('passes constraints to the validator', () => {
+    expect(validateValue(5, 'number', { max: 1 }).valid).toBe(false);
+    expect(validateValue('2em', 'dimension', { units: ['px'] }).valid).toBe(false);
+    expect(validateValue('xl', 'string', { oneOf: ['sm'] }).valid).toBe(false);
+    expect(validateValue(900, 'fontWeight', { min: 400, max: 700 }).valid).toBe(false);
+  });
+
+  it('validates enums against the oneOf constraint', () => {
+    expect(validateValue('side', 'enum', { oneOf: ['top', 'side'] }).valid).toBe(true);
+    expect(validateValue('side', 'enum').valid).toBe(false);
+  });
 });
 
 describe('coerceValue', () => {
+  it('normalizes modern color syntax', () => {
+    const result = coerceValue('OKLCH(62.8%  0.258 29.23 / 50%)', 'color');
+    expect(result.valid).toBe(true);
+    if (result.valid) expect(result.value).toBe('oklch(62.8% 0.258 29.23 / 50%)');
+  });
+
   it('coerces string to number', () => {
     const result = coerceValue('42', 'number');
     expect(result.valid).toBe(true);
@@ -483,4 +1272,131 @@ describe('coerceValue', () => {
     expect(result.valid).toBe(true);
     if (result.valid) expect(result.value).toBe('[object Object]');
   });
+
+  it('coerces numbers to millisecond durations', () => {
+    expect(coerceValue(200, 'duration')).toEqual({ valid: true, value: '200ms' });
+    expect(coerceValue(-1, 'duration').valid).toBe(false);
+  });
+
+  it('coerces number arrays to cubic-bezier() easings', () => {
+    expect(coerceValue([0.4, 0, 0.2, 1], 'easing')).toEqual({
+      valid: true,
+      value: 'cubic-bezier(0.4, 0, 0.2, 1)',
+    });
+    expect(coerceValue([2, 0, 0.2, 1], 'easing').valid).toBe(false);
+  });
+
+  it('coerces the parts of transitions', () => {
+    expect(coerceValue({ duration: 150, easing: [0, 0, 1, 1], delay: 50 }, 'transition')).toEqual({
+      valid: true,
+      value: { duration: '150ms', easing: 'cubic-bezier(0, 0, 1, 1)', delay: '50ms' },
+    });
+  });
+
+  it('coerces typography sizes to px and line heights to numbers', () => {
+    expect(
+      coerceValue(
+        { fontFamily: 'Inter', fontSize: 16, lineHeight: '1.5', letterSpacing: 0.5 },
+        'typography'
+      )
+    ).toEqual({
+      valid: true,
+      value: { fontFamily: 'Inter', fontSize: '16px', lineHeight: 1.5, letterSpacing: '0.5px' },
+    });
+  });
+
+  it('coerces shadow layers to shadow strings', () => {
+    expect(
+      coerceValue(
+        [
+          { x: 0, y: 4, blur: 6, spread: -1, color: 'RGB(0 0 0 / 10%)' },
+          { x: '0', y: '2px', spread: '1px', inset: true },
+        ],
+        'shadow'
+      )
+    ).toEqual({ valid: true, value: '0px 4px 6px -1px rgb(0 0 0 / 10%), inset 0 2px 0 1px' });
+    expect(coerceValue([], 'shadow')).toEqual({ valid: true, value: 'none' });
+  });
+
+  it('rejects invalid shadow layers', () => {
+    expect(coerceValue([{ x: '0', y: '1px' }, { x: '0' }], 'shadow')).toEqual({
+      valid: false,
+      message: 'invalid shadow layer 2: invalid y: expected string',
+      code: 'shadow.invalid_layer',
+      params: {
+        index: 2,
+        cause: {
+          code: 'invalid_property',
+          params: {
+            property: 'y',
+            cause: {
+              code: 'invalid_type',
+              params: { expected: 'string' },
+              message: 'expected string',
+            },
+          },
+          message: 'invalid y: expected string',
+        },
+      },
+    });
+    expect(coerceValue([{ x: 0, y: 0, blur: -2 }], 'shadow')).toEqual({
+      valid: false,
+      message: 'invalid shadow layer 1: invalid blur: cannot be negative',
+      code: 'shadow.invalid_layer',
+      params: {
+        index: 1,
+        cause: {
+          code: 'invalid_property',
+          params: {
+            property: 'blur',
+            cause: { code: 'shadow.negative_length', params: {}, message: 'cannot be negative' },
+          },
+          message: 'invalid blur: cannot be negative',
+        },
+      },
+    });
+    expect(coerceValue([{ x: 0, y: 0, color: 'inherit' }], 'shadow').valid).toBe(false);
+    expect(coerceValue([{ x: 0, y: 0, color: 'nope' }], 'shadow').valid).toBe(false);
+    expect(coerceValue([{ x: 0, y: 0, inset: 'yes' }], 'shadow').valid).toBe(false);
+    expect(coerceValue([{ x: 0, y: 0, opacity: 1 }], 'shadow')).toEqual({
+      valid: false,
+      message: 'invalid shadow layer 1: unknown property "opacity"',
+      code: 'shadow.invalid_layer',
+      params: {
+        index: 1,
+        cause: {
+          code: 'unknown_property',
+          params: { property: 'opacity' },
+          message: 'unknown property "opacity"',
+        },
+      },
+    });
+    expect(coerceValue(['0 1px'], 'shadow').valid).toBe(false);
+  });
+
+  it('coerces numeric scale dimensions to px', () => {
+    const constraints = { steps: ['1', '2'] };
+    const value = { '1': '4px', '2': '8px' };
+    expect(coerceValue([4, 8], 'scale', constraints)).toEqual({ valid: true, value });
+    expect(coerceValue({ base: 4, ratio: 2 }, 'scale', constraints)).toEqual({
+      valid: true,
+      value,
+    });
+    expect(coerceValue({ '1': 4, '2': '8px' }, 'scale', constraints)).toEqual({
+      valid: true,
+      value,
+    });
+  });
+
+  it('checks constraints after coercion', () => {
+    expect(coerceValue('0.5', 'number', { min: 0, max: 1 })).toEqual({ valid: true, value: 0.5 });
+    expect(coerceValue('2', 'number', { min: 0, max: 1 })).toEqual({
+      valid: false,
+      message: 'must be at most 1',
+      code: 'number.too_large',
+      params: { max: 1 },
+    });
+    expect(coerceValue(64, 'dimension', { max: '32px' }).valid).toBe(false);
+    expect(coerceValue(2, 'string', { oneOf: ['1', '2'] })).toEqual({ valid: true, value: '2' });
+  });
 });